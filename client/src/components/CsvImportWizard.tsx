@@ -0,0 +1,328 @@
+/**
+ * CSV Import Wizard for Silent Partners
+ *
+ * Shown when a CSV or TSV file is dropped. Step one gives each column a
+ * role (entity name, type, identifier, attribute, or a relationship's
+ * source, target, type, dates and ownership) and the types to use where
+ * the sheet has none. Step two previews the entities and relationships,
+ * with a choice of how rows naming the same entity are combined. The
+ * result goes through addEntitiesAndRelationships, so similar names are
+ * merged with the network's entities as for any other import.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, ArrowRight, Sheet } from 'lucide-react';
+import { toast } from 'sonner';
+import { useNetwork } from '@/contexts/NetworkContext';
+import { getEntityTypes } from '@/lib/entity-types';
+import { getRelationshipTypes } from '@/lib/relationship-types';
+import {
+  CSV_COLUMN_ROLES,
+  CSV_DEDUP_STRATEGIES,
+  CsvColumnRole,
+  CsvDedupStrategy,
+  CsvTable,
+  buildCsvImport,
+  suggestCsvRoles,
+} from '@/lib/csv-import';
+
+// Rows shown in each preview table
+const PREVIEW_ROWS = 8;
+// Select value for "no relationship type"
+const NO_TYPE = '__none';
+
+const ROLE_GROUPS = ['Entity', 'Relationship', 'Other'] as const;
+
+interface CsvImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  file: { name: string; table: CsvTable } | null;
+}
+
+function TypeSelect({ label, value, onChange, options }: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  options: Array<{ id: string; label: string }>;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map(option => (
+            <SelectItem key={option.id} value={option.id} className="text-xs">{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export default function CsvImportWizard({ open, onOpenChange, file }: CsvImportWizardProps) {
+  const { network, addEntitiesAndRelationships, findMatchingEntity } = useNetwork();
+  const [step, setStep] = useState<'map' | 'preview'>('map');
+  const [roles, setRoles] = useState<CsvColumnRole[]>([]);
+  const [entityType, setEntityType] = useState('corporation');
+  const [sourceType, setSourceType] = useState('person');
+  const [targetType, setTargetType] = useState('corporation');
+  const [relationshipType, setRelationshipType] = useState(NO_TYPE);
+  const [dedup, setDedup] = useState<CsvDedupStrategy>('normalized');
+
+  // Start over for each file
+  useEffect(() => {
+    if (!file) return;
+    const suggested = suggestCsvRoles(file.table.headers);
+    setStep('map');
+    setRoles(suggested);
+    setDedup(suggested.includes('identifier') ? 'identifier' : 'normalized');
+  }, [file]);
+
+  const entityTypeOptions = useMemo(() => getEntityTypes(network.entityTypes).map(t => ({ id: t.id, label: t.label })), [network.entityTypes]);
+  const relationshipTypeOptions = useMemo(
+    () => [{ id: NO_TYPE, label: 'None' }, ...getRelationshipTypes(network.relationshipTypes).map(t => ({ id: t.id, label: t.label }))],
+    [network.relationshipTypes]
+  );
+
+  const has = (role: CsvColumnRole) => roles.includes(role);
+  const makesLinks = has('target') && (has('source') || has('name'));
+  const canContinue = has('name') || makesLinks;
+
+  const result = useMemo(() => {
+    if (!file || step !== 'preview') return null;
+    return buildCsvImport(file.table, {
+      roles,
+      entityType,
+      sourceType,
+      targetType,
+      relationshipType: relationshipType === NO_TYPE ? '' : relationshipType,
+      dedup,
+      fileName: file.name,
+    }, network);
+  }, [file, step, roles, entityType, sourceType, targetType, relationshipType, dedup, network]);
+
+  const existingMatches = useMemo(
+    () => (result ? result.entities.filter(e => findMatchingEntity(e)).length : 0),
+    [result, findMatchingEntity]
+  );
+
+  if (!file) return null;
+
+  const { headers, rows } = file.table;
+  const samples = (column: number) => rows.map(row => row[column]).filter(Boolean).slice(0, 2).join(', ');
+  const nameOf = (id: string) => result?.entities.find(e => e.id === id)?.name ?? id;
+
+  const handleImport = () => {
+    if (!result) return;
+    addEntitiesAndRelationships(result.entities, result.relationships);
+    toast.success(`Imported ${result.entities.length} entities and ${result.relationships.length} relationships from ${file.name}`, {
+      description: existingMatches > 0 ? `${existingMatches} matched entities already in the network and were merged` : undefined,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sheet className="w-5 h-5 text-amber-600" />
+            Import {file.name}
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'map'
+              ? `${rows.length} rows. Choose what each column holds.`
+              : 'Check the result and how rows naming the same entity are combined.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'map' ? (
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              {headers.map((header, column) => (
+                <div key={column} className="grid grid-cols-[1fr_1.5fr_11rem] items-center gap-2 text-sm">
+                  <span className="font-medium truncate" title={header}>{header}</span>
+                  <span className="text-xs text-muted-foreground truncate" title={samples(column)}>{samples(column) || '—'}</span>
+                  <Select
+                    value={roles[column]}
+                    onValueChange={(value) => setRoles(r => r.map((role, i) => (i === column ? value as CsvColumnRole : role)))}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROLE_GROUPS.map(group => (
+                        <SelectGroup key={group}>
+                          <SelectLabel className="text-[10px]">{group}</SelectLabel>
+                          {CSV_COLUMN_ROLES.filter(r => r.group === group).map(r => (
+                            <SelectItem key={r.id} value={r.id} className="text-xs">{r.label}</SelectItem>
+                          ))}
+                        </SelectGroup>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {/* Types for rows that don't give one */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 pt-2 border-t">
+              {has('name') && !has('type') && (
+                <TypeSelect label="Entity type" value={entityType} onChange={setEntityType} options={entityTypeOptions} />
+              )}
+              {has('source') && (
+                <TypeSelect label="Source type" value={sourceType} onChange={setSourceType} options={entityTypeOptions} />
+              )}
+              {has('target') && (
+                <TypeSelect label="Target type" value={targetType} onChange={setTargetType} options={entityTypeOptions} />
+              )}
+              {makesLinks && (
+                <TypeSelect
+                  label={has('relationshipType') ? 'Relationship type when blank' : 'Relationship type'}
+                  value={relationshipType}
+                  onChange={setRelationshipType}
+                  options={relationshipTypeOptions}
+                />
+              )}
+            </div>
+
+            {!canContinue && (
+              <p className="text-xs text-amber-700">
+                Choose an entity name column, or target and source name columns.
+              </p>
+            )}
+          </div>
+        ) : result && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Rows naming the same entity</Label>
+              <RadioGroup value={dedup} onValueChange={(value) => setDedup(value as CsvDedupStrategy)} className="space-y-1.5">
+                {CSV_DEDUP_STRATEGIES.map(strategy => {
+                  const disabled = strategy.id === 'identifier' && !has('identifier');
+                  return (
+                    <div key={strategy.id} className="flex items-start gap-2">
+                      <RadioGroupItem value={strategy.id} id={`dedup-${strategy.id}`} className="mt-0.5" disabled={disabled} />
+                      <Label htmlFor={`dedup-${strategy.id}`} className={`text-sm ${disabled ? 'opacity-50' : 'cursor-pointer'}`}>
+                        {strategy.label}
+                        <span className="block text-xs text-muted-foreground font-normal">{strategy.description}</span>
+                      </Label>
+                    </div>
+                  );
+                })}
+              </RadioGroup>
+            </div>
+
+            <div className="bg-muted/50 rounded-lg p-3 grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <span className="text-muted-foreground">Entities:</span>{' '}
+                <span className="font-medium">{result.entities.length}</span>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Relationships:</span>{' '}
+                <span className="font-medium">{result.relationships.length}</span>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Already in network:</span>{' '}
+                <span className="font-medium">{existingMatches}</span>
+              </div>
+            </div>
+
+            {result.skippedRows.length > 0 && (
+              <div className="flex items-start gap-2 text-xs text-amber-700">
+                <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                <p>
+                  {result.skippedRows.length} {result.skippedRows.length === 1 ? 'row gives' : 'rows give'} no entity or relationship
+                  (line {result.skippedRows.slice(0, PREVIEW_ROWS).join(', ')}{result.skippedRows.length > PREVIEW_ROWS ? ', …' : ''}).
+                </p>
+              </div>
+            )}
+
+            {result.entities.length > 0 && (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b">
+                    <th className="py-1 font-medium">Entity</th>
+                    <th className="py-1 font-medium">Type</th>
+                    <th className="py-1 font-medium">Attributes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.entities.slice(0, PREVIEW_ROWS).map(entity => {
+                    const match = findMatchingEntity(entity);
+                    return (
+                      <tr key={entity.id} className="border-b border-border/50">
+                        <td className="py-1 pr-2">
+                          {entity.name}
+                          {match && <span className="ml-1.5 text-[10px] text-amber-700">merges with {match.name}</span>}
+                        </td>
+                        <td className="py-1 pr-2">{entityTypeOptions.find(t => t.id === entity.type)?.label ?? entity.type}</td>
+                        <td className="py-1 text-muted-foreground truncate max-w-[240px]">
+                          {entity.attributes?.map(a => `${a.key}: ${a.value}`).join('; ') || '—'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+
+            {result.relationships.length > 0 && (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b">
+                    <th className="py-1 font-medium">Relationship</th>
+                    <th className="py-1 font-medium">Dates</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.relationships.slice(0, PREVIEW_ROWS).map(rel => (
+                    <tr key={rel.id} className="border-b border-border/50">
+                      <td className="py-1 pr-2">
+                        {nameOf(rel.source)} <span className="text-muted-foreground">{rel.label || rel.type || 'linked to'}</span> {nameOf(rel.target)}
+                        {rel.ownership && <span className="text-muted-foreground"> ({rel.ownership.percentage}%)</span>}
+                      </td>
+                      <td className="py-1 text-muted-foreground">
+                        {rel.startDate || rel.endDate ? `${rel.startDate || '?'} – ${rel.endDate || ''}` : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === 'map' ? (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={() => setStep('preview')} disabled={!canContinue}>
+                Preview
+                <ArrowRight className="w-4 h-4 ml-1.5" />
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={!result || (result.entities.length === 0 && result.relationships.length === 0)}>
+                Import
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,173 @@
+/**
+ * Silent Partners - Dedup Review Dialog
+ *
+ * Lists candidate duplicate pairs found by the local name matcher, with the
+ * strategy that fired and a match score. Each pair is shown side by side and
+ * can be merged (either direction), rejected, or marked "never merge".
+ * Decisions are stored on the network and respected by automatic merging.
+ */
+
+import { useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, ArrowRight, X, Ban, CheckCircle2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useNetwork } from '@/contexts/NetworkContext';
+import { Entity, MatchStrategy, MergeCandidate } from '@/lib/store';
+
+// Display label and color per matching strategy
+const STRATEGY_CONFIG: Record<MatchStrategy, { label: string; className: string }> = {
+  exact: { label: 'Exact', className: 'bg-green-100 text-green-700' },
+  substring: { label: 'Substring', className: 'bg-blue-100 text-blue-700' },
+  abbreviation: { label: 'Abbreviation', className: 'bg-purple-100 text-purple-700' },
+  levenshtein: { label: 'Levenshtein', className: 'bg-amber-100 text-amber-700' },
+  soundex: { label: 'Soundex', className: 'bg-red-100 text-red-700' },
+};
+
+interface DedupReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function DedupReviewDialog({ open, onOpenChange }: DedupReviewDialogProps) {
+  const { network, findMergeCandidates, mergeEntities, recordMergeDecision } = useNetwork();
+
+  const candidates = useMemo(
+    () => (open ? findMergeCandidates() : []),
+    [open, findMergeCandidates]
+  );
+
+  const connectionCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    network.relationships.forEach(r => {
+      counts.set(r.source, (counts.get(r.source) || 0) + 1);
+      counts.set(r.target, (counts.get(r.target) || 0) + 1);
+    });
+    return counts;
+  }, [network.relationships]);
+
+  const handleMerge = (candidate: MergeCandidate, keep: Entity, merge: Entity) => {
+    mergeEntities(keep.id, merge.id, candidate.strategy);
+    toast.success(`Merged "${merge.name}" into "${keep.name}"`);
+  };
+
+  const handleReject = (candidate: MergeCandidate) => {
+    recordMergeDecision(candidate, 'rejected');
+  };
+
+  const handleNeverMerge = (candidate: MergeCandidate) => {
+    recordMergeDecision(candidate, 'never_merge');
+    toast.info(`"${candidate.entityA.name}" and "${candidate.entityB.name}" will never be merged automatically`);
+  };
+
+  const renderField = (label: string, value: string | number | undefined) => (
+    <div className="text-[11px]">
+      <span className="text-muted-foreground">{label}: </span>
+      <span>{value ?? '—'}</span>
+    </div>
+  );
+
+  const renderEntity = (entity: Entity) => (
+    <div className="flex-1 min-w-0 space-y-0.5 p-2 rounded bg-muted/40">
+      <p className="text-sm font-medium truncate" title={entity.name}>{entity.name}</p>
+      {renderField('Type', entity.type)}
+      {renderField('Importance', entity.importance)}
+      {renderField('Connections', connectionCounts.get(entity.id) || 0)}
+      {renderField('Source', entity.source_type)}
+      {entity.source_query && renderField('Query', entity.source_query)}
+      {entity.description && (
+        <p className="text-[11px] text-muted-foreground line-clamp-3" title={entity.description}>
+          {entity.description}
+        </p>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Review Possible Duplicates</DialogTitle>
+          <DialogDescription>
+            {candidates.length === 0
+              ? 'No duplicate candidates found.'
+              : `${candidates.length} candidate ${candidates.length === 1 ? 'pair' : 'pairs'}, strongest matches first.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-3 pr-1">
+          {candidates.length === 0 && (
+            <div className="flex flex-col items-center py-8 text-muted-foreground">
+              <CheckCircle2 className="w-8 h-8 mb-2 text-green-600" />
+              <p className="text-sm">Nothing to review</p>
+            </div>
+          )}
+
+          {candidates.map(candidate => {
+            const strategy = STRATEGY_CONFIG[candidate.strategy];
+            const { entityA, entityB } = candidate;
+            return (
+              <div key={`${entityA.id}|${entityB.id}`} className="border border-border rounded-lg p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className={`text-[10px] font-medium px-1.5 py-0.5 rounded ${strategy.className}`}>
+                    {strategy.label}
+                  </span>
+                  <span className="text-[10px] text-muted-foreground">
+                    Score {Math.round(candidate.score * 100)}%
+                  </span>
+                </div>
+
+                <div className="flex gap-2">
+                  {renderEntity(entityA)}
+                  {renderEntity(entityB)}
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => handleMerge(candidate, entityA, entityB)}
+                    title={`Keep "${entityA.name}"`}
+                  >
+                    <ArrowLeft className="w-3 h-3 mr-1" />
+                    Merge into left
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => handleMerge(candidate, entityB, entityA)}
+                    title={`Keep "${entityB.name}"`}
+                  >
+                    Merge into right
+                    <ArrowRight className="w-3 h-3 ml-1" />
+                  </Button>
+                  <div className="flex-1" />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => handleReject(candidate)}
+                  >
+                    <X className="w-3 h-3 mr-1" />
+                    Reject
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs text-destructive"
+                    onClick={() => handleNeverMerge(candidate)}
+                  >
+                    <Ban className="w-3 h-3 mr-1" />
+                    Never merge
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
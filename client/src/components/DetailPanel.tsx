@@ -13,9 +13,9 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { X, Trash2, Sparkles } from 'lucide-react';
 import { toast } from 'sonner';
-import { Entity, entityColors } from '@/lib/store';
+import { Entity, BuiltInEntityType, entityColors } from '@/lib/store';
 
-const ENTITY_TYPES: Entity['type'][] = ['person', 'organization', 'financial', 'government', 'event', 'unknown'];
+const ENTITY_TYPES: BuiltInEntityType[] = ['person', 'organization', 'financial', 'government', 'event', 'unknown'];
 
 export default function DetailPanel() {
   const { 
@@ -93,7 +93,7 @@ export default function DetailPanel() {
           <div className="flex items-center gap-2">
             <span 
               className="w-3 h-3 rounded-full" 
-              style={{ backgroundColor: entityColors[selectedEntity.type] }}
+              style={{ backgroundColor: entityColors[selectedEntity.type as BuiltInEntityType] }}
             />
             <span className="text-xs font-mono uppercase tracking-wider text-muted-foreground">
               {selectedEntity.type}
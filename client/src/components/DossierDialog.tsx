@@ -0,0 +1,214 @@
+/**
+ * Silent Partners - Dossier Dialog
+ *
+ * Builds an investigation dossier (see lib/dossier.ts) from the network
+ * and the artwork laid out in the export modal. Sections can be left
+ * out, and the report downloads as standalone HTML, Markdown or a PDF on
+ * A4 or Letter paper. For networks saved to the backend, the evidence
+ * behind confirmed claims is fetched and cited alongside the sources
+ * entities were extracted from.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Loader2 } from 'lucide-react';
+import { useNetwork } from '@/contexts/NetworkContext';
+import claimsApi from '@/lib/claims-api';
+import {
+  ClaimWithEvidence, DOSSIER_SECTIONS, DossierFormat, DossierSections,
+  buildDossier, dossierToHtml, dossierToMarkdown, dossierToPdf,
+} from '@/lib/dossier';
+import { PDF_PAPERS, PdfPaper, VectorScene, drawSceneToCanvas, loadSceneFonts, sceneToSvg } from '@/lib/vector-export';
+import { toast } from 'sonner';
+
+// Confirmed claims whose evidence is fetched for the source list
+const MAX_EVIDENCE_CLAIMS = 50;
+
+const FORMATS: Record<DossierFormat, { label: string; extension: string; type: string }> = {
+  html: { label: 'HTML page', extension: 'html', type: 'text/html' },
+  markdown: { label: 'Markdown', extension: 'md', type: 'text/markdown' },
+  pdf: { label: 'PDF (print-ready)', extension: 'pdf', type: 'application/pdf' },
+};
+
+interface DossierDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  graph: VectorScene | null; // The export artwork, when there is a graph to show
+}
+
+export default function DossierDialog({ open, onOpenChange, graph }: DossierDialogProps) {
+  const { network } = useNetwork();
+  const [format, setFormat] = useState<DossierFormat>('html');
+  const [paper, setPaper] = useState<PdfPaper>('a4');
+  const [sections, setSections] = useState<DossierSections>({
+    graph: true, context: true, entities: true, relationships: true, sources: true,
+  });
+  const [claims, setClaims] = useState<ClaimWithEvidence[]>([]);
+  const [isLoadingEvidence, setIsLoadingEvidence] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Fetch the evidence behind confirmed claims for networks on the backend
+  useEffect(() => {
+    if (!open || typeof network.id !== 'number') {
+      setClaims([]);
+      return;
+    }
+    const graphId = network.id;
+    let cancelled = false;
+    setIsLoadingEvidence(true);
+    claimsApi.getConfirmedClaims(graphId)
+      .then(result => Promise.all(result.claims.slice(0, MAX_EVIDENCE_CLAIMS).map(claim =>
+        claimsApi.getClaimDetails(claim.id, graphId)
+          .then(details => ({ ...claim, evidence: details.claim.evidence || [] }))
+          .catch(() => ({ ...claim, evidence: [] })))))
+      .then(loaded => {
+        if (!cancelled) setClaims(loaded);
+      })
+      .catch(err => {
+        console.error('Failed to load claim evidence:', err);
+        if (!cancelled) setClaims([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingEvidence(false);
+      });
+    return () => { cancelled = true; };
+  }, [open, network.id]);
+
+  const dossier = useMemo(() => buildDossier(network, claims), [network, claims]);
+  const included: DossierSections = { ...sections, graph: sections.graph && !!graph, context: sections.context && !!dossier.context };
+
+  const handleDownload = async () => {
+    setIsGenerating(true);
+    try {
+      let content: BlobPart;
+      if (format === 'pdf') {
+        content = await dossierToPdf(dossier, included, graph, paper);
+      } else if (format === 'html') {
+        content = dossierToHtml(dossier, included, included.graph && graph ? sceneToSvg(graph, await loadSceneFonts(graph)) : undefined);
+      } else {
+        let image: string | undefined;
+        if (included.graph && graph) {
+          const canvas = document.createElement('canvas');
+          canvas.width = graph.width;
+          canvas.height = graph.height;
+          const ctx = canvas.getContext('2d');
+          if (ctx) {
+            drawSceneToCanvas(ctx, graph);
+            image = canvas.toDataURL('image/png');
+          }
+        }
+        content = dossierToMarkdown(dossier, included, image);
+      }
+
+      const blob = new Blob([content], { type: FORMATS[format].type });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.download = (network.title || 'network').toLowerCase().replace(/[^a-z0-9]/g, '-') + `-dossier.${FORMATS[format].extension}`;
+      link.href = url;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast.success('Dossier downloaded successfully');
+    } catch (err) {
+      console.error('Dossier generation failed:', err);
+      toast.error('Failed to create dossier');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const sectionCount = (id: keyof DossierSections): string => {
+    switch (id) {
+      case 'graph': return graph ? '' : 'No graph captured';
+      case 'context': return dossier.context ? '' : 'No context yet';
+      case 'entities': return String(dossier.entities.length);
+      case 'relationships': return String(dossier.relationships.length);
+      case 'sources': return String(dossier.sources.length);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Investigation Dossier</DialogTitle>
+          <DialogDescription>
+            A report of the graph, investigation context, entity profiles, relationships and numbered sources.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Sections</Label>
+            {DOSSIER_SECTIONS.map(({ id, label }) => {
+              const available = id === 'graph' ? !!graph : id === 'context' ? !!dossier.context : true;
+              return (
+                <div key={id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`dossier-${id}`}
+                    checked={included[id]}
+                    onCheckedChange={(checked) => setSections(prev => ({ ...prev, [id]: checked as boolean }))}
+                    disabled={!available}
+                  />
+                  <Label htmlFor={`dossier-${id}`} className="cursor-pointer font-normal">{label}</Label>
+                  <span className="ml-auto text-xs text-muted-foreground tabular-nums">{sectionCount(id)}</span>
+                </div>
+              );
+            })}
+            {isLoadingEvidence && (
+              <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                Loading evidence for confirmed claims...
+              </p>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <Label>Format</Label>
+              <Select value={format} onValueChange={value => setFormat(value as DossierFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FORMATS).map(([key, { label }]) => (
+                    <SelectItem key={key} value={key}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {format === 'pdf' && (
+              <div className="w-32">
+                <Label>Paper</Label>
+                <Select value={paper} onValueChange={value => setPaper(value as PdfPaper)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PDF_PAPERS).map(([key, { label }]) => (
+                      <SelectItem key={key} value={key}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-2">
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleDownload} disabled={isGenerating || isLoadingEvidence}>
+            {isGenerating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            Download Dossier
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,177 @@
+/**
+ * Silent Partners - Draft Recovery Dialog
+ *
+ * Lists the investigations autosaved to this browser, newest first. Shown as
+ * a "restore unsaved investigation" prompt on load when drafts exist, and
+ * from the network panel to browse recent drafts at any time. A draft is
+ * restored into the current tab if it is empty, otherwise into a new tab.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ArchiveRestore, Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useNetwork } from '@/contexts/NetworkContext';
+import {
+  DraftSummary,
+  listDrafts,
+  loadDraft,
+  deleteDraft,
+  networkWithPositions,
+  setDraftIdForTab,
+  getOpenDraftIds,
+  restoreChatMessages,
+  getChatStorageKey,
+} from '@/lib/drafts';
+
+interface DraftRecoveryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  prompt?: boolean; // Opened automatically on load
+}
+
+export default function DraftRecoveryDialog({ open, onOpenChange, prompt = false }: DraftRecoveryDialogProps) {
+  const { network, activeTabId, setNetwork, openTab } = useNetwork();
+  const [drafts, setDrafts] = useState<DraftSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setDrafts(await listDrafts());
+    } catch (e) {
+      console.warn('Failed to list drafts:', e);
+      setDrafts([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) refresh();
+  }, [open, refresh]);
+
+  const handleRestore = async (id: string) => {
+    setRestoringId(id);
+    try {
+      const draft = await loadDraft(id);
+      if (!draft) {
+        toast.error('Draft no longer exists');
+        refresh();
+        return;
+      }
+      const restored = networkWithPositions(draft);
+      let tabId = activeTabId;
+      if (network.entities.length === 0) {
+        setNetwork(restored);
+      } else {
+        tabId = openTab(restored);
+      }
+      // Set before the next render so the assistant finds the chat under its key
+      restoreChatMessages(getChatStorageKey(draft.network.id, tabId), draft.messages);
+      setDraftIdForTab(tabId, draft.id);
+      toast.success(`Restored "${draft.title}"`);
+      onOpenChange(false);
+    } catch (e) {
+      console.error('Restore draft error:', e);
+      toast.error('Failed to restore draft');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteDraft(id);
+      setDrafts(prev => prev.filter(d => d.id !== id));
+    } catch (e) {
+      console.error('Delete draft error:', e);
+      toast.error('Failed to delete draft');
+    }
+  };
+
+  const formatTime = (timestamp: string) =>
+    new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+  const openDraftIds = getOpenDraftIds();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{prompt ? 'Restore unsaved investigation?' : 'Recent Local Drafts'}</DialogTitle>
+          <DialogDescription>
+            {prompt
+              ? 'Your last session was autosaved in this browser. Pick a draft to continue where you left off.'
+              : 'Investigations are autosaved in this browser as you work, separately from cloud saves.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+          {isLoading && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {!isLoading && drafts.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-6">No local drafts yet</p>
+          )}
+
+          {!isLoading && drafts.map((draft, index) => (
+            <div
+              key={draft.id}
+              className={`flex items-center gap-2 border border-border rounded-lg px-3 py-2 ${
+                prompt && index === 0 ? 'bg-muted/40' : ''
+              }`}
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate" title={draft.title}>
+                  {draft.title}
+                  {openDraftIds.has(draft.id) && (
+                    <span className="ml-1.5 text-[10px] font-normal text-muted-foreground">(open)</span>
+                  )}
+                </p>
+                <p className="text-[11px] text-muted-foreground">
+                  {draft.entityCount} entities · {draft.relationshipCount} connections · {formatTime(draft.updatedAt)}
+                </p>
+              </div>
+              <Button
+                variant={prompt && index === 0 ? 'default' : 'outline'}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => handleRestore(draft.id)}
+                disabled={restoringId !== null || openDraftIds.has(draft.id)}
+              >
+                {restoringId === draft.id ? (
+                  <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                ) : (
+                  <ArchiveRestore className="w-3 h-3 mr-1" />
+                )}
+                Restore
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-muted-foreground"
+                onClick={() => handleDelete(draft.id)}
+                disabled={openDraftIds.has(draft.id)}
+                title="Delete draft"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+            {prompt ? 'Start fresh' : 'Close'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
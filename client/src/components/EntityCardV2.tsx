@@ -9,9 +9,11 @@
  * - ALL fields are editable by the user
  */
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useNetwork } from '@/contexts/NetworkContext';
-import { Entity, generateId, sourceTypeConfig } from '@/lib/store';
+import {
+  Entity, EntityAttribute, generateId, sourceTypeConfig, getEntityAttributes, parseDescriptionAttributes, mergeAttributes
+} from '@/lib/store';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -21,18 +23,40 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/component
 import {
   X, Trash2, Sparkles, Link, Loader2, Plus, ChevronDown, ChevronUp,
   FileText, AlertCircle, CheckCircle, HelpCircle, Edit2, Save, Pencil,
-  Globe, Clock
+  Globe, Clock, Scissors, Focus
 } from 'lucide-react';
 import { toast } from 'sonner';
 import api from '@/lib/api';
+import { getEntityTypeDefinition } from '@/lib/entity-types';
+import SplitEntityDialog from './SplitEntityDialog';
+import EntityTypeSelect from './EntityTypeSelect';
+import EntityTypeIcon from './EntityTypeIcon';
+
+type AttributeSort = 'added' | 'key' | 'confidence' | 'observed' | 'source';
+
+const ATTRIBUTE_SORT_LABELS: Record<AttributeSort, string> = {
+  added: 'Order added',
+  key: 'Label',
+  confidence: 'Confidence',
+  observed: 'Date observed',
+  source: 'Source',
+};
 
-interface EntityDetail {
-  id: string;
-  key: string;
-  value: string;
-  confidence: number;
-  source?: string;
-  sourceDate?: string;
+function sortAttributes(attributes: EntityAttribute[], sort: AttributeSort): EntityAttribute[] {
+  const sorted = [...attributes];
+  switch (sort) {
+    case 'key':
+      return sorted.sort((a, b) => a.key.localeCompare(b.key));
+    case 'confidence':
+      return sorted.sort((a, b) => b.confidence - a.confidence);
+    case 'observed':
+      // Newest first; undated facts last
+      return sorted.sort((a, b) => (b.observedAt || '').localeCompare(a.observedAt || ''));
+    case 'source':
+      return sorted.sort((a, b) => (a.source || '\uffff').localeCompare(b.source || '\uffff'));
+    default:
+      return sorted;
+  }
 }
 
 interface EntityCardV2Props {
@@ -42,28 +66,6 @@ interface EntityCardV2Props {
   onAddToNarrative?: (message: string) => void;
 }
 
-const TYPE_COLORS: Record<string, string> = {
-  person: '#4A90A4',
-  corporation: '#7CB342',
-  government: '#8B7355',
-  financial: '#C9A227',
-  organization: '#9575CD',
-  location: '#E57373',
-  event: '#FF8A65',
-  unknown: '#78909C',
-};
-
-const TYPE_ICONS: Record<string, string> = {
-  person: '👤',
-  corporation: '🏢',
-  government: '🏛️',
-  financial: '💰',
-  organization: '🏛️',
-  location: '📍',
-  event: '📅',
-  unknown: '❓',
-};
-
 // Source Type Badge Component
 function SourceTypeBadge({ sourceType }: { sourceType?: Entity['source_type'] }) {
   if (!sourceType) return null;
@@ -154,8 +156,8 @@ function EditableKnowledgeFact({
   onUpdate, 
   onDelete 
 }: { 
-  detail: EntityDetail; 
-  onUpdate: (updated: EntityDetail) => void;
+  detail: EntityAttribute; 
+  onUpdate: (updated: EntityAttribute) => void;
   onDelete: () => void;
 }) {
   const [isEditing, setIsEditing] = useState(false);
@@ -163,6 +165,7 @@ function EditableKnowledgeFact({
   const [editValue, setEditValue] = useState(detail.value);
   const [editConfidence, setEditConfidence] = useState(detail.confidence);
   const [editSource, setEditSource] = useState(detail.source || '');
+  const [editObservedAt, setEditObservedAt] = useState(detail.observedAt?.slice(0, 10) || '');
 
   const handleSave = () => {
     onUpdate({
@@ -170,7 +173,8 @@ function EditableKnowledgeFact({
       key: editKey,
       value: editValue,
       confidence: editConfidence,
-      source: editSource || undefined
+      source: editSource || undefined,
+      observedAt: editObservedAt || undefined
     });
     setIsEditing(false);
   };
@@ -180,6 +184,7 @@ function EditableKnowledgeFact({
     setEditValue(detail.value);
     setEditConfidence(detail.confidence);
     setEditSource(detail.source || '');
+    setEditObservedAt(detail.observedAt?.slice(0, 10) || '');
     setIsEditing(false);
   };
 
@@ -213,6 +218,15 @@ function EditableKnowledgeFact({
           className="h-6 text-xs"
           placeholder="Source (e.g., Wikipedia, Court Filing)"
         />
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] text-muted-foreground">Observed:</span>
+          <Input
+            type="date"
+            value={editObservedAt}
+            onChange={(e) => setEditObservedAt(e.target.value)}
+            className="h-6 text-xs flex-1"
+          />
+        </div>
         <div className="flex gap-1">
           <Button size="sm" className="h-6 text-[10px] flex-1" onClick={handleSave}>
             <Save className="w-3 h-3 mr-1" /> Save
@@ -244,9 +258,11 @@ function EditableKnowledgeFact({
           </Button>
         </div>
       </div>
-      {detail.source && (
+      {(detail.source || detail.observedAt) && (
         <div className="text-[10px] text-muted-foreground mt-1">
-          Source: {detail.source}
+          {detail.source && <>Source: {detail.source}</>}
+          {detail.source && detail.observedAt && ' · '}
+          {detail.observedAt && <>Observed {detail.observedAt.slice(0, 10)}</>}
         </div>
       )}
     </div>
@@ -254,7 +270,7 @@ function EditableKnowledgeFact({
 }
 
 export default function EntityCardV2({ entity, position, onClose, onAddToNarrative }: EntityCardV2Props) {
-  const { network, dispatch, addEntitiesAndRelationships } = useNetwork();
+  const { network, dispatch, addEntitiesAndRelationships, focusEntity } = useNetwork();
   const cardRef = useRef<HTMLDivElement>(null);
   
   const [name, setName] = useState(entity.name);
@@ -270,10 +286,15 @@ export default function EntityCardV2({ entity, position, onClose, onAddToNarrati
   const [newFactValue, setNewFactValue] = useState('');
   const [newFactConfidence, setNewFactConfidence] = useState(0.8);
   const [newFactSource, setNewFactSource] = useState('');
+  const [newFactObservedAt, setNewFactObservedAt] = useState('');
+  const [attributeSort, setAttributeSort] = useState<AttributeSort>('added');
+  const [showSplitDialog, setShowSplitDialog] = useState(false);
   
-  // Entity details (knowledge facts)
-  const [details, setDetails] = useState<EntityDetail[]>([]);
-  const [knowledgeGaps, setKnowledgeGaps] = useState<string[]>([]);
+  // Knowledge facts; entities saved before attributes existed keep them in the description
+  const attributes = useMemo(() => getEntityAttributes(entity), [entity]);
+  const sortedAttributes = useMemo(() => sortAttributes(attributes, attributeSort), [attributes, attributeSort]);
+  const typeDefinition = getEntityTypeDefinition(network.entityTypes, type);
+  const summary = entity.attributes ? entity.description : parseDescriptionAttributes(entity.description).description;
 
   // Get connections for this entity
   const connections = network.relationships.filter(
@@ -288,56 +309,14 @@ export default function EntityCardV2({ entity, position, onClose, onAddToNarrati
     };
   });
 
-  // Parse existing description into details (for backward compatibility)
-  useEffect(() => {
-    if (entity.description) {
-      const lines = entity.description.split('\n').filter(l => l.trim());
-      const extractedDetails: EntityDetail[] = [];
-      
-      lines.forEach((line, i) => {
-        if (line.startsWith('Key facts:')) {
-          const facts = line.replace('Key facts:', '').split(';');
-          facts.forEach((fact, j) => {
-            if (fact.trim()) {
-              extractedDetails.push({
-                id: `fact-${i}-${j}`,
-                key: 'Fact',
-                value: fact.trim(),
-                confidence: 0.7,
-                source: 'AI Enrichment'
-              });
-            }
-          });
-        } else if (line.startsWith('Note:')) {
-          extractedDetails.push({
-            id: `note-${i}`,
-            key: 'Note',
-            value: line.replace('Note:', '').trim(),
-            confidence: 1.0,
-            source: 'User'
-          });
-        } else if (!extractedDetails.some(d => d.value === line)) {
-          extractedDetails.push({
-            id: `desc-${i}`,
-            key: 'Description',
-            value: line,
-            confidence: 0.8,
-            source: 'Extraction'
-          });
-        }
-      });
-      
-      setDetails(extractedDetails);
-    }
-    
-    // Calculate knowledge gaps
+  // Knowledge gaps: template fields for this type not yet covered by an attribute
+  const knowledgeGaps = useMemo(() => {
     const typeGaps = KNOWLEDGE_GAP_TEMPLATES[type] || KNOWLEDGE_GAP_TEMPLATES.unknown || [];
-    const existingKeys = details.map(d => d.key.toLowerCase());
-    const gaps = typeGaps.filter(gap => 
+    const existingKeys = attributes.map(a => a.key.toLowerCase());
+    return typeGaps.filter(gap => 
       !existingKeys.some(k => k.includes(gap.toLowerCase()) || gap.toLowerCase().includes(k))
     );
-    setKnowledgeGaps(gaps);
-  }, [entity.description, type]);
+  }, [attributes, type]);
 
   // Position the card near the node but ALWAYS within viewport
   const [cardPosition, setCardPosition] = useState({ x: position.x, y: position.y });
@@ -396,36 +375,28 @@ export default function EntityCardV2({ entity, position, onClose, onAddToNarrati
     toast.success('Entity updated');
   };
 
-  // Update a knowledge fact
-  const handleUpdateFact = (updated: EntityDetail) => {
-    setDetails(prev => prev.map(d => d.id === updated.id ? updated : d));
-    
-    // Rebuild description from details
-    const newDescription = details
-      .map(d => d.id === updated.id ? updated : d)
-      .map(d => d.key === 'Note' ? `Note: ${d.value}` : d.value)
-      .join('\n\n');
-    
+  // Save attributes, moving any legacy facts out of the description on the first edit
+  const saveAttributes = (next: EntityAttribute[]) => {
+    const updates: Partial<Entity> = { attributes: next };
+    if (!entity.attributes) {
+      updates.description = parseDescriptionAttributes(entity.description).description || undefined;
+      setDescription(updates.description || '');
+    }
     dispatch({
       type: 'UPDATE_ENTITY',
-      payload: { id: entity.id, updates: { description: newDescription } }
+      payload: { id: entity.id, updates }
     });
+  };
+
+  // Update a knowledge fact
+  const handleUpdateFact = (updated: EntityAttribute) => {
+    saveAttributes(attributes.map(a => a.id === updated.id ? updated : a));
     toast.success('Fact updated');
   };
 
   // Delete a knowledge fact
   const handleDeleteFact = (id: string) => {
-    const newDetails = details.filter(d => d.id !== id);
-    setDetails(newDetails);
-    
-    const newDescription = newDetails
-      .map(d => d.key === 'Note' ? `Note: ${d.value}` : d.value)
-      .join('\n\n');
-    
-    dispatch({
-      type: 'UPDATE_ENTITY',
-      payload: { id: entity.id, updates: { description: newDescription } }
-    });
+    saveAttributes(attributes.filter(a => a.id !== id));
     toast.success('Fact deleted');
   };
 
@@ -433,31 +404,21 @@ export default function EntityCardV2({ entity, position, onClose, onAddToNarrati
   const handleAddFact = () => {
     if (!newFactValue.trim()) return;
     
-    const newDetail: EntityDetail = {
-      id: `user-${Date.now()}`,
-      key: newFactKey || 'Note',
+    const newAttribute: EntityAttribute = {
+      id: generateId(),
+      key: newFactKey.trim() || 'Note',
       value: newFactValue.trim(),
       confidence: newFactConfidence,
-      source: newFactSource || 'User',
-      sourceDate: new Date().toISOString()
+      source: newFactSource.trim() || 'User',
+      observedAt: newFactObservedAt || new Date().toISOString().slice(0, 10)
     };
-    
-    const newDetails = [...details, newDetail];
-    setDetails(newDetails);
-    
-    const newDescription = newDetails
-      .map(d => d.key === 'Note' ? `Note: ${d.value}` : d.value)
-      .join('\n\n');
-    
-    dispatch({
-      type: 'UPDATE_ENTITY',
-      payload: { id: entity.id, updates: { description: newDescription } }
-    });
+    saveAttributes([...attributes, newAttribute]);
     
     setNewFactKey('');
     setNewFactValue('');
     setNewFactConfidence(0.8);
     setNewFactSource('');
+    setNewFactObservedAt('');
     setIsAddingFact(false);
     toast.success('Fact added');
   };
@@ -498,12 +459,17 @@ export default function EntityCardV2({ entity, position, onClose, onAddToNarrati
       const result = await api.enrichEntity(entity.name, entity.type, context);
       
       if (result.enriched) {
-        const enrichedDescription = [
-          result.enriched.description,
-          result.enriched.key_facts?.length > 0 
-            ? `Key facts: ${result.enriched.key_facts.join('; ')}`
-            : null
-        ].filter(Boolean).join('\n\n');
+        const observedAt = new Date().toISOString().slice(0, 10);
+        const enrichedFacts: EntityAttribute[] = (result.enriched.key_facts || []).map((fact: string) => ({
+          id: generateId(),
+          key: 'Fact',
+          value: fact,
+          confidence: 0.7,
+          source: 'AI Enrichment',
+          observedAt
+        }));
+        const enrichedDescription = result.enriched.description
+          || parseDescriptionAttributes(entity.description).description;
 
         dispatch({
           type: 'UPDATE_ENTITY',
@@ -511,28 +477,13 @@ export default function EntityCardV2({ entity, position, onClose, onAddToNarrati
             id: entity.id, 
             updates: { 
               description: enrichedDescription,
+              attributes: mergeAttributes(attributes, enrichedFacts),
               type: result.enriched.type as Entity['type'] || entity.type
             } 
           }
         });
         setDescription(enrichedDescription);
 
-        // Add new details
-        const newDetails: EntityDetail[] = [];
-        if (result.enriched.key_facts) {
-          result.enriched.key_facts.forEach((fact: string, i: number) => {
-            newDetails.push({
-              id: `enriched-${Date.now()}-${i}`,
-              key: 'Fact',
-              value: fact,
-              confidence: 0.7,
-              source: 'AI Enrichment',
-              sourceDate: new Date().toISOString()
-            });
-          });
-        }
-        setDetails(prev => [...prev, ...newDetails]);
-
         // Add suggested connections using backend resolution
         if (result.enriched.connections_suggested?.length > 0) {
           try {
@@ -675,13 +626,13 @@ export default function EntityCardV2({ entity, position, onClose, onAddToNarrati
       {/* Header */}
       <div className="flex items-center justify-between px-3 py-2 border-b border-border bg-muted/30 rounded-t-lg shrink-0">
         <div className="flex items-center gap-2">
-          <span className="text-lg">{TYPE_ICONS[type] || TYPE_ICONS.unknown}</span>
+          <EntityTypeIcon icon={typeDefinition.icon} className="w-4 h-4" color={typeDefinition.color} />
           <span
             className="w-2 h-2 rounded-full"
-            style={{ backgroundColor: TYPE_COLORS[type] || TYPE_COLORS.unknown }}
+            style={{ backgroundColor: typeDefinition.color }}
           />
           <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
-            {type}
+            {typeDefinition.label}
           </span>
           {/* Source Type Badge */}
           <SourceTypeBadge sourceType={entity.source_type} />
@@ -704,20 +655,13 @@ export default function EntityCardV2({ entity, position, onClose, onAddToNarrati
                 placeholder="Entity name"
                 autoFocus
               />
-              <Select value={type} onValueChange={(v) => setType(v as Entity['type'])}>
-                <SelectTrigger className="h-8 text-sm">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="person">Person</SelectItem>
-                  <SelectItem value="corporation">Corporation</SelectItem>
-                  <SelectItem value="government">Government</SelectItem>
-                  <SelectItem value="financial">Financial</SelectItem>
-                  <SelectItem value="organization">Organization</SelectItem>
-                  <SelectItem value="location">Location</SelectItem>
-                  <SelectItem value="event">Event</SelectItem>
-                </SelectContent>
-              </Select>
+              <EntityTypeSelect value={type} onValueChange={setType} className="h-8 text-sm" />
+              <Textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="text-xs resize-none min-h-[60px]"
+                placeholder="Description"
+              />
               <div className="flex gap-2">
                 <Button size="sm" className="flex-1 h-7 text-xs" onClick={handleSaveHeader}>
                   <Save className="w-3 h-3 mr-1" /> Save
@@ -740,6 +684,9 @@ export default function EntityCardV2({ entity, position, onClose, onAddToNarrati
                   <Pencil className="w-3 h-3" />
                 </Button>
               </div>
+              {summary && (
+                <p className="text-xs text-muted-foreground mt-1 whitespace-pre-line">{summary}</p>
+              )}
               
               {/* Source Citation - Collapsible section showing provenance */}
               {(entity.source_query || entity.source_text || entity.source_type || entity.created_at) && (
@@ -811,17 +758,32 @@ export default function EntityCardV2({ entity, position, onClose, onAddToNarrati
             >
               <div className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
                 <FileText className="w-3.5 h-3.5" />
-                Knowledge ({details.length} facts)
+                Knowledge ({attributes.length} facts)
               </div>
               {showKnowledge ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
             </button>
             
             {showKnowledge && (
               <div className="mt-2 space-y-2">
-                {details.length === 0 ? (
+                {attributes.length > 1 && (
+                  <div className="flex items-center justify-end gap-1.5">
+                    <span className="text-[10px] text-muted-foreground">Sort by</span>
+                    <Select value={attributeSort} onValueChange={(v) => setAttributeSort(v as AttributeSort)}>
+                      <SelectTrigger className="h-6 w-[120px] text-[10px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ATTRIBUTE_SORT_LABELS) as AttributeSort[]).map(sort => (
+                          <SelectItem key={sort} value={sort} className="text-xs">{ATTRIBUTE_SORT_LABELS[sort]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {attributes.length === 0 ? (
                   <p className="text-xs text-muted-foreground italic">No knowledge recorded yet. Click + to add facts.</p>
                 ) : (
-                  details.map(detail => (
+                  sortedAttributes.map(detail => (
                     <EditableKnowledgeFact
                       key={detail.id}
                       detail={detail}
@@ -857,6 +819,15 @@ export default function EntityCardV2({ entity, position, onClose, onAddToNarrati
                       className="h-6 text-xs"
                       placeholder="Source (optional)"
                     />
+                    <div className="flex items-center gap-2">
+                      <span className="text-[10px] text-muted-foreground">Observed:</span>
+                      <Input
+                        type="date"
+                        value={newFactObservedAt}
+                        onChange={(e) => setNewFactObservedAt(e.target.value)}
+                        className="h-6 text-xs flex-1"
+                      />
+                    </div>
                     <div className="flex gap-1">
                       <Button size="sm" className="h-6 text-[10px] flex-1" onClick={handleAddFact}>
                         <Plus className="w-3 h-3 mr-1" /> Add Fact
@@ -975,6 +946,24 @@ export default function EntityCardV2({ entity, position, onClose, onAddToNarrati
           >
             <Edit2 className="w-3 h-3" />
           </Button>
+          <Button 
+            variant="outline" 
+            size="sm" 
+            className="h-7 text-xs px-2"
+            onClick={() => focusEntity(entity.id)}
+            title="Focus on this entity's neighbourhood"
+          >
+            <Focus className="w-3 h-3" />
+          </Button>
+          <Button 
+            variant="outline" 
+            size="sm" 
+            className="h-7 text-xs px-2"
+            onClick={() => setShowSplitDialog(true)}
+            title="Split into two entities"
+          >
+            <Scissors className="w-3 h-3" />
+          </Button>
           <Button 
             variant="outline" 
             size="sm" 
@@ -986,6 +975,8 @@ export default function EntityCardV2({ entity, position, onClose, onAddToNarrati
           </Button>
         </div>
       </div>
+
+      <SplitEntityDialog entity={entity} open={showSplitDialog} onOpenChange={setShowSplitDialog} />
     </div>
   );
 }
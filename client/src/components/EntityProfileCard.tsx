@@ -7,7 +7,7 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { useNetwork } from '@/contexts/NetworkContext';
-import { Entity, Relationship, generateId } from '@/lib/store';
+import { Entity, EntityAttribute, Relationship, generateId, getEntityAttributes, parseDescriptionAttributes, mergeAttributes } from '@/lib/store';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -18,7 +18,7 @@ import { Badge } from '@/components/ui/badge';
 import { 
   X, Trash2, Sparkles, Link, Loader2, User, Building, 
   MapPin, FileText, ExternalLink, Calendar, ChevronRight,
-  Plus, Search
+  Plus, Search, Focus
 } from 'lucide-react';
 import { toast } from 'sonner';
 import api from '@/lib/api';
@@ -74,7 +74,7 @@ export default function EntityProfileCard({
   onClose,
   onSelectEntity 
 }: EntityProfileCardProps) {
-  const { network, dispatch, addEntitiesAndRelationships } = useNetwork();
+  const { network, dispatch, addEntitiesAndRelationships, focusEntity } = useNetwork();
   const cardRef = useRef<HTMLDivElement>(null);
   
   const [isEditing, setIsEditing] = useState(false);
@@ -118,11 +118,16 @@ export default function EntityProfileCard({
     return acc;
   }, {} as Record<string, RelationshipWithDetails[]>);
 
-  // Parse facts from description
+  // Facts: structured attributes, then description lines
   useEffect(() => {
-    if (entity.description) {
+    const attributeFacts: Fact[] = getEntityAttributes(entity).map(a => ({
+      statement: a.key === 'Fact' || a.key === 'Note' ? a.value : `${a.key}: ${a.value}`,
+      source: a.source
+    }));
+    const remaining = entity.attributes ? entity.description : parseDescriptionAttributes(entity.description).description;
+    if (remaining) {
       // Try to parse structured facts from description
-      const lines = entity.description.split('\n').filter(l => l.trim());
+      const lines = remaining.split('\n').filter(l => l.trim());
       const parsedFacts: Fact[] = lines.map(line => {
         // Check if line has source annotation [Source: ...]
         const sourceMatch = line.match(/\[Source:\s*([^\]]+)\]/i);
@@ -133,9 +138,11 @@ export default function EntityProfileCard({
           source: sourceMatch ? sourceMatch[1] : undefined
         };
       });
-      setFacts(parsedFacts);
+      setFacts([...attributeFacts, ...parsedFacts]);
+    } else {
+      setFacts(attributeFacts);
     }
-  }, [entity.description]);
+  }, [entity.description, entity.attributes]);
 
   // Position the card
   const [cardPosition, setCardPosition] = useState({ x: position.x, y: position.y });
@@ -191,12 +198,17 @@ export default function EntityProfileCard({
       const result = await api.enrichEntity(entity.name, entity.type, context);
       
       if (result.enriched) {
-        const enrichedDescription = [
-          result.enriched.description,
-          result.enriched.key_facts?.length > 0 
-            ? `Key facts: ${result.enriched.key_facts.join('; ')}`
-            : null
-        ].filter(Boolean).join('\n\n');
+        const observedAt = new Date().toISOString().slice(0, 10);
+        const enrichedFacts: EntityAttribute[] = (result.enriched.key_facts || []).map((fact: string) => ({
+          id: generateId(),
+          key: 'Fact',
+          value: fact,
+          confidence: 0.7,
+          source: 'AI Enrichment',
+          observedAt
+        }));
+        const parsed = parseDescriptionAttributes(entity.description);
+        const enrichedDescription = result.enriched.description || parsed.description;
 
         dispatch({
           type: 'UPDATE_ENTITY',
@@ -204,6 +216,7 @@ export default function EntityProfileCard({
             id: entity.id, 
             updates: { 
               description: enrichedDescription,
+              attributes: mergeAttributes(entity.attributes ?? parsed.attributes, enrichedFacts),
               type: result.enriched.type as Entity['type'] || entity.type
             } 
           }
@@ -596,6 +609,15 @@ export default function EntityProfileCard({
             <Search className="w-3 h-3" />
           )}
         </Button>
+        <Button 
+          variant="outline" 
+          size="sm" 
+          className="text-xs px-3"
+          onClick={() => focusEntity(entity.id)}
+          title="Focus on this entity's neighbourhood"
+        >
+          <Focus className="w-3 h-3" />
+        </Button>
         <Button 
           variant="outline" 
           size="sm" 
@@ -0,0 +1,46 @@
+/**
+ * Silent Partners - Entity Type Icon
+ *
+ * Renders the lucide icon chosen for an entity type.
+ */
+
+import {
+  User, Building2, Landmark, Banknote, Users, MapPin, Calendar, Package, HelpCircle,
+  Ship, Plane, Car, CreditCard, Wallet, Scale, Globe, Home, Briefcase, FileText, KeyRound,
+  LucideIcon,
+} from 'lucide-react';
+import { EntityTypeIconName } from '@/lib/entity-types';
+
+export const ENTITY_TYPE_ICONS: Record<EntityTypeIconName, LucideIcon> = {
+  'user': User,
+  'building': Building2,
+  'landmark': Landmark,
+  'banknote': Banknote,
+  'users': Users,
+  'map-pin': MapPin,
+  'calendar': Calendar,
+  'package': Package,
+  'help-circle': HelpCircle,
+  'ship': Ship,
+  'plane': Plane,
+  'car': Car,
+  'credit-card': CreditCard,
+  'wallet': Wallet,
+  'scale': Scale,
+  'globe': Globe,
+  'home': Home,
+  'briefcase': Briefcase,
+  'file-text': FileText,
+  'key': KeyRound,
+};
+
+interface EntityTypeIconProps {
+  icon: EntityTypeIconName;
+  className?: string;
+  color?: string;
+}
+
+export default function EntityTypeIcon({ icon, className = 'w-3.5 h-3.5', color }: EntityTypeIconProps) {
+  const Icon = ENTITY_TYPE_ICONS[icon] || HelpCircle;
+  return <Icon className={className} style={color ? { color } : undefined} />;
+}
@@ -0,0 +1,42 @@
+/**
+ * Silent Partners - Entity Type Select
+ *
+ * Type picker listing the built-in entity types and the current network's
+ * custom types.
+ */
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useNetwork } from '@/contexts/NetworkContext';
+import { Entity } from '@/lib/store';
+import { getEntityTypes } from '@/lib/entity-types';
+import EntityTypeIcon from './EntityTypeIcon';
+
+interface EntityTypeSelectProps {
+  value: Entity['type'];
+  onValueChange: (type: Entity['type']) => void;
+  className?: string;
+}
+
+export default function EntityTypeSelect({ value, onValueChange, className }: EntityTypeSelectProps) {
+  const { network } = useNetwork();
+  // "Unknown" is only offered when it is already selected
+  const types = getEntityTypes(network.entityTypes).filter(t => t.id !== 'unknown' || value === 'unknown');
+
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {types.map(type => (
+          <SelectItem key={type.id} value={type.id}>
+            <span className="flex items-center gap-2">
+              <EntityTypeIcon icon={type.icon} color={type.color} />
+              {type.label}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
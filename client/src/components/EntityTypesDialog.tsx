@@ -0,0 +1,270 @@
+/**
+ * Silent Partners - Entity Types Dialog
+ *
+ * Manage the current network's custom entity types: label, color (with
+ * optional per-theme overrides), icon and node shape. Deleting a type moves
+ * its entities to "unknown".
+ */
+
+import { useState, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Pencil, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useNetwork } from '@/contexts/NetworkContext';
+import { canvasThemes, CanvasTheme } from '@/contexts/CanvasThemeContext';
+import {
+  EntityTypeDefinition,
+  ENTITY_TYPE_ICON_NAMES,
+  NODE_SHAPES,
+  NodeShape,
+  entityTypeIdFromLabel,
+  validateEntityTypeDefinition,
+} from '@/lib/entity-types';
+import EntityTypeIcon from './EntityTypeIcon';
+
+interface EntityTypesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Themes that color nodes by type, and so can take a per-theme override
+const COLOR_THEMES = (Object.keys(canvasThemes) as CanvasTheme[]).filter(t => canvasThemes[t].useEntityColors);
+
+const EMPTY_TYPE: EntityTypeDefinition = {
+  id: '',
+  label: '',
+  color: '#4A90A4',
+  icon: 'package',
+  shape: 'circle',
+};
+
+export default function EntityTypesDialog({ open, onOpenChange }: EntityTypesDialogProps) {
+  const { network, saveEntityType, deleteEntityType } = useNetwork();
+  const [draft, setDraft] = useState<EntityTypeDefinition | null>(null);
+  const [isNew, setIsNew] = useState(false);
+
+  const customTypes = network.entityTypes || [];
+  const usage = useMemo(() => {
+    const counts = new Map<string, number>();
+    network.entities.forEach(e => counts.set(e.type, (counts.get(e.type) || 0) + 1));
+    return counts;
+  }, [network.entities]);
+
+  const update = (changes: Partial<EntityTypeDefinition>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const handleNew = () => {
+    setDraft({ ...EMPTY_TYPE });
+    setIsNew(true);
+  };
+
+  const handleEdit = (type: EntityTypeDefinition) => {
+    setDraft({ ...type, themeColors: { ...type.themeColors } });
+    setIsNew(false);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const definition = { ...draft, label: draft.label.trim(), id: isNew ? entityTypeIdFromLabel(draft.label) : draft.id };
+    const error = validateEntityTypeDefinition(definition);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    if (isNew && customTypes.some(t => t.id === definition.id)) {
+      toast.error(`A type with the ID "${definition.id}" already exists`);
+      return;
+    }
+    saveEntityType(definition);
+    toast.success(isNew ? `Added "${definition.label}" type` : `Updated "${definition.label}" type`);
+    setDraft(null);
+  };
+
+  const handleDelete = (type: EntityTypeDefinition) => {
+    const count = usage.get(type.id) || 0;
+    if (count > 0 && !confirm(`Delete "${type.label}"? ${count} ${count === 1 ? 'entity' : 'entities'} will become Unknown.`)) {
+      return;
+    }
+    deleteEntityType(type.id);
+    if (draft?.id === type.id) setDraft(null);
+    toast.success(`Deleted "${type.label}" type`);
+  };
+
+  const setThemeColor = (theme: CanvasTheme, color: string | undefined) => {
+    if (!draft) return;
+    const themeColors = { ...draft.themeColors };
+    if (color) {
+      themeColors[theme] = color;
+    } else {
+      delete themeColors[theme];
+    }
+    update({ themeColors });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) setDraft(null); onOpenChange(next); }}>
+      <DialogContent className="max-w-md max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Entity Types</DialogTitle>
+          <DialogDescription>
+            Custom types for this network, alongside the built-in ones. They are saved and exported with the network.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-3 pr-1">
+          {/* Existing custom types */}
+          {customTypes.length === 0 && !draft && (
+            <p className="text-sm text-muted-foreground text-center py-4">No custom types yet</p>
+          )}
+          {customTypes.map(type => (
+            <div key={type.id} className="flex items-center gap-2 border border-border rounded-lg px-3 py-2">
+              <EntityTypeIcon icon={type.icon} color={type.color} className="w-4 h-4" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{type.label}</p>
+                <p className="text-[11px] text-muted-foreground">
+                  {type.id} · {NODE_SHAPES.find(s => s.value === type.shape)?.label || 'Circle'} · {usage.get(type.id) || 0} entities
+                </p>
+              </div>
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleEdit(type)} title="Edit type">
+                <Pencil className="w-3 h-3" />
+              </Button>
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-muted-foreground" onClick={() => handleDelete(type)} title="Delete type">
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+
+          {/* Add / edit form */}
+          {draft ? (
+            <div className="space-y-3 border border-primary/30 rounded-lg p-3 bg-muted/30">
+              <div className="space-y-1">
+                <Label htmlFor="entity-type-label" className="text-xs">Label</Label>
+                <Input
+                  id="entity-type-label"
+                  value={draft.label}
+                  onChange={(e) => update({ label: e.target.value })}
+                  className="h-8 text-sm"
+                  placeholder="e.g. Vessel, Bank Account, Trust"
+                  autoFocus
+                />
+                {isNew && draft.label.trim() && (
+                  <p className="text-[10px] text-muted-foreground">ID: {entityTypeIdFromLabel(draft.label) || '—'}</p>
+                )}
+              </div>
+
+              <div className="flex items-end gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Color</Label>
+                  <input
+                    type="color"
+                    value={draft.color}
+                    onChange={(e) => update({ color: e.target.value })}
+                    className="h-8 w-12 rounded border border-border bg-transparent cursor-pointer"
+                  />
+                </div>
+                <div className="space-y-1 flex-1">
+                  <Label className="text-xs">Shape</Label>
+                  <Select value={draft.shape} onValueChange={(v) => update({ shape: v as NodeShape })}>
+                    <SelectTrigger className="h-8 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {NODE_SHAPES.map(shape => (
+                        <SelectItem key={shape.value} value={shape.value}>{shape.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-xs cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="w-3.5 h-3.5"
+                  checked={!!draft.hollow}
+                  onChange={(e) => update({ hollow: e.target.checked })}
+                />
+                Draw as a ring in Lombardi themes
+              </label>
+
+              <div className="space-y-1">
+                <Label className="text-xs">Theme colors</Label>
+                <div className="grid grid-cols-2 gap-1.5">
+                  {COLOR_THEMES.map(theme => {
+                    const override = draft.themeColors?.[theme];
+                    return (
+                      <div key={theme} className="flex items-center gap-1.5 text-[11px]">
+                        <input
+                          type="color"
+                          value={override || draft.color}
+                          onChange={(e) => setThemeColor(theme, e.target.value)}
+                          className="h-6 w-8 rounded border border-border bg-transparent cursor-pointer"
+                        />
+                        <span className={`flex-1 truncate ${override ? '' : 'text-muted-foreground'}`}>
+                          {canvasThemes[theme].name}
+                        </span>
+                        {override && (
+                          <button
+                            type="button"
+                            className="text-muted-foreground hover:text-foreground"
+                            onClick={() => setThemeColor(theme, undefined)}
+                            title="Use the default color"
+                          >
+                            <RotateCcw className="w-3 h-3" />
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs">Icon</Label>
+                <div className="grid grid-cols-10 gap-1">
+                  {ENTITY_TYPE_ICON_NAMES.map(icon => (
+                    <button
+                      key={icon}
+                      type="button"
+                      className={`h-7 w-7 flex items-center justify-center rounded border transition-colors ${
+                        draft.icon === icon ? 'border-primary bg-primary/10' : 'border-transparent hover:bg-muted'
+                      }`}
+                      onClick={() => update({ icon })}
+                      title={icon}
+                    >
+                      <EntityTypeIcon icon={icon} />
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <Button size="sm" className="flex-1 h-7 text-xs" onClick={handleSave} disabled={!draft.label.trim()}>
+                  {isNew ? 'Add Type' : 'Save Type'}
+                </Button>
+                <Button variant="outline" size="sm" className="flex-1 h-7 text-xs" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button variant="outline" size="sm" className="w-full h-8 text-xs" onClick={handleNew}>
+              <Plus className="w-3 h-3 mr-1" /> New Entity Type
+            </Button>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
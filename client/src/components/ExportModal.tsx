@@ -7,11 +7,17 @@
  * - Uses the same theme config as the live graph
  * - Same node sizes, colors, fonts - just scaled to fit export format
  * - No re-simulation, no reformatting - what you see is what you get
+ * - Networks with a fixed layout (hierarchy, radial...) export as laid out
+ * - Annotations (notes, group boxes, arrows) are drawn over the graph
+ * - SVG and PDF keep text as text and embed the theme's fonts
+ * - PDFs print on one page, or as a poster tiled across A4/Letter sheets
+ * - The artwork can head an investigation dossier (HTML, Markdown or PDF)
+ * - GraphML and GEXF downloads carry the data itself, for Gephi and yEd
  * 
  * Updated 2026-02-02: Fixed to exactly match live graph appearance
  */
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -19,9 +25,22 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Download, Copy, RefreshCw, Loader2, AlertTriangle, FileCode } from 'lucide-react';
+import { Download, Copy, RefreshCw, Loader2, AlertTriangle, FileCode, FileText, Waypoints, Coins, ScrollText } from 'lucide-react';
 import { useNetwork } from '@/contexts/NetworkContext';
-import { useCanvasTheme } from '@/contexts/CanvasThemeContext';
+import { useCanvasTheme, CanvasThemeConfig } from '@/contexts/CanvasThemeContext';
+import { getEntityTypeDefinition } from '@/lib/entity-types';
+import { findCycles, formatCycleFinding } from '@/lib/cycles';
+import { computeLayout } from '@/lib/layouts';
+import { getLayoutPositions } from '@/lib/drafts';
+import { GraphFileFormat, networkToGEXF, networkToGraphML } from '@/lib/graph-formats';
+import { networkToFtm } from '@/lib/ftm';
+import { Annotation, AnnotationStyle, ProjectedAnnotation, annotationsToShapes, projectAnnotations } from '@/lib/annotations';
+import {
+  PDF_PAPERS, PdfLayout, PdfPaper, VectorFont, VectorScene, VectorShape,
+  drawSceneToCanvas, fitText, loadSceneFonts, measureText, sceneToPdf, sceneToSvg, wrapText,
+} from '@/lib/vector-export';
+import { isHollowNode } from '@/components/canvas';
+import DossierDialog from '@/components/DossierDialog';
 import { toast } from 'sonner';
 
 interface ExportFormat {
@@ -65,6 +84,44 @@ interface CapturedLink {
   pathData: string;
 }
 
+// Findings listed under the graph before the rest are summarized
+const MAX_FINDING_LINES = 6;
+
+// Layout units to export pixels when drawing from layout positions
+const LAYOUT_SCALE = 8;
+
+/**
+ * Place annotations in the export. Captured nodes are in layout units
+ * (y down) times LAYOUT_SCALE; annotations are in canvas units (y up).
+ */
+function placeAnnotations(
+  annotations: Annotation[] | undefined,
+  nodes: CapturedNode[],
+  scale: number,
+  offsetX: number,
+  offsetY: number
+): ProjectedAnnotation[] {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  return projectAnnotations(
+    annotations,
+    id => {
+      const node = byId.get(id);
+      return node && { x: node.x / LAYOUT_SCALE, y: -node.y / LAYOUT_SCALE };
+    },
+    p => ({ x: p.x * LAYOUT_SCALE * scale + offsetX, y: -p.y * LAYOUT_SCALE * scale + offsetY })
+  );
+}
+
+function getAnnotationStyle(themeConfig: CanvasThemeConfig, scale: number): AnnotationStyle {
+  return {
+    color: themeConfig.annotationColor,
+    fontFamily: themeConfig.annotationFont,
+    fontSize: themeConfig.labelSize * 1.4 * scale,
+    background: themeConfig.background,
+    lineWidth: 1.5 * scale,
+  };
+}
+
 interface ExportModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -81,7 +138,12 @@ export default function ExportModal({ open, onOpenChange }: ExportModalProps) {
   const [notes, setNotes] = useState('');
   const [showLegend, setShowLegend] = useState(true);
   const [showWatermark, setShowWatermark] = useState(true);
+  const [showFindings, setShowFindings] = useState(true);
   const [isRendering, setIsRendering] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [pdfPages, setPdfPages] = useState<'page' | PdfPaper>('page');
+  const [posterColumns, setPosterColumns] = useState(2);
+  const [showDossier, setShowDossier] = useState(false);
   
   // Captured graph state from live SVG
   const [capturedNodes, setCapturedNodes] = useState<CapturedNode[]>([]);
@@ -89,6 +151,17 @@ export default function ExportModal({ open, onOpenChange }: ExportModalProps) {
   const [graphBounds, setGraphBounds] = useState({ minX: 0, minY: 0, maxX: 800, maxY: 600 });
   const [orphanNodes, setOrphanNodes] = useState<string[]>([]);
 
+  // Circular ownership and money flows, listed under the graph as findings
+  const cycleFindings = useMemo(() => findCycles(network).cycles, [network]);
+  const findingLines = useMemo(() => {
+    if (!showFindings || cycleFindings.length === 0) return [];
+    const lines = cycleFindings.slice(0, MAX_FINDING_LINES).map(formatCycleFinding);
+    if (cycleFindings.length > MAX_FINDING_LINES) {
+      lines.push(`+${cycleFindings.length - MAX_FINDING_LINES} more circular structures`);
+    }
+    return [`Findings (${cycleFindings.length})`, ...lines];
+  }, [showFindings, cycleFindings]);
+
   // Initialize from network
   useEffect(() => {
     if (open && network.title) {
@@ -97,17 +170,71 @@ export default function ExportModal({ open, onOpenChange }: ExportModalProps) {
     }
   }, [open, network.title, network.description]);
 
+  // Nodes and links drawn from layout positions: the network's fixed
+  // layout, or else where the live canvas has placed each node
+  const captureLayout = useCallback((): { nodes: CapturedNode[]; links: CapturedLink[] } => {
+    const fixed = computeLayout(network, network.layout);
+    const live = getLayoutPositions();
+    const positionOf = (id: string) => {
+      if (fixed) return fixed[id];
+      // The live canvas's y axis points up
+      return live[id] && { x: live[id].x, y: -live[id].y };
+    };
+
+    const nodes: CapturedNode[] = [];
+    network.entities.forEach(entity => {
+      const position = positionOf(entity.id);
+      if (!position) return;
+      const definition = getEntityTypeDefinition(network.entityTypes, entity.type);
+      const color = getEntityColor(entity.type, definition);
+      const isHollow = themeConfig.isLombardiStyle && isHollowNode(entity.type, definition);
+      const scale = ((entity.importance || 5) - 1) / 9;
+      nodes.push({
+        id: entity.id,
+        name: entity.name,
+        type: entity.type,
+        x: position.x * LAYOUT_SCALE,
+        y: position.y * LAYOUT_SCALE,
+        radius: themeConfig.nodeBaseSize + scale * (themeConfig.nodeMaxSize - themeConfig.nodeBaseSize),
+        fill: isHollow ? themeConfig.background : color,
+        stroke: color,
+        strokeWidth: themeConfig.nodeStrokeWidth,
+        isHollow,
+      });
+    });
+
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const links: CapturedLink[] = [];
+    network.relationships.forEach(rel => {
+      const source = byId.get(rel.source);
+      const target = byId.get(rel.target);
+      if (!source || !target) return;
+      links.push({
+        sourceX: source.x,
+        sourceY: source.y,
+        targetX: target.x,
+        targetY: target.y,
+        stroke: themeConfig.linkStroke,
+        strokeWidth: themeConfig.linkWidth,
+        strokeDasharray: rel.status === 'suspected' ? '4,4' : 'none',
+        pathData: `M ${source.x},${source.y} L ${target.x},${target.y}`,
+      });
+    });
+    return { nodes, links };
+  }, [network, themeConfig, getEntityColor]);
+
   // Capture the live graph exactly as it appears
   const captureLiveGraph = useCallback(() => {
     if (network.entities.length === 0) return;
     
     setIsRendering(true);
     
-    // Find the main SVG element
+    // Find the main SVG element; without one (or with a fixed layout) the
+    // graph is drawn from layout positions
     const svg = document.querySelector('svg.absolute.inset-0');
-    if (!svg) {
-      console.warn('Could not find main SVG element');
-      setIsRendering(false);
+    if (!svg || network.layout) {
+      const { nodes, links } = captureLayout();
+      finishCapture(nodes, links);
       return;
     }
     
@@ -237,6 +364,11 @@ export default function ExportModal({ open, onOpenChange }: ExportModalProps) {
       }
     });
     
+    finishCapture(nodes, links);
+  }, [network, themeConfig, captureLayout]);
+
+  // Fit the bounds around the captured graph and note unconnected entities
+  const finishCapture = (nodes: CapturedNode[], links: CapturedLink[]) => {
     // Calculate bounds from captured nodes
     if (nodes.length > 0) {
       let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
@@ -246,6 +378,13 @@ export default function ExportModal({ open, onOpenChange }: ExportModalProps) {
         maxX = Math.max(maxX, n.x + n.radius + 50);
         maxY = Math.max(maxY, n.y + n.radius + 30);
       });
+      // Leave room for annotations reaching past the entities
+      placeAnnotations(network.annotations, nodes, 1, 0, 0).forEach(({ points }) => points.forEach(p => {
+        minX = Math.min(minX, p.x - 20);
+        minY = Math.min(minY, p.y - 40);
+        maxX = Math.max(maxX, p.x + 120);
+        maxY = Math.max(maxY, p.y + 20);
+      }));
       setGraphBounds({ minX, minY, maxX, maxY });
     }
     
@@ -264,7 +403,7 @@ export default function ExportModal({ open, onOpenChange }: ExportModalProps) {
     setCapturedNodes(nodes);
     setCapturedLinks(links);
     setIsRendering(false);
-  }, [network, themeConfig]);
+  };
 
   // Capture live graph when modal opens (with delay for animation)
   useEffect(() => {
@@ -277,31 +416,24 @@ export default function ExportModal({ open, onOpenChange }: ExportModalProps) {
     }
   }, [open, captureLiveGraph]);
 
-  // Render canvas matching the live graph exactly
-  const renderCanvas = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas || capturedNodes.length === 0) return;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  // Lay the artwork out once, for the preview and every download format
+  const buildScene = useCallback((): VectorScene | null => {
+    if (capturedNodes.length === 0) return null;
     
     const formatConfig = EXPORT_FORMATS[format];
     const width = formatConfig.width;
     const height = formatConfig.height;
-    
-    canvas.width = width;
-    canvas.height = height;
-    
-    // Use the actual theme background
-    ctx.fillStyle = themeConfig.background;
-    ctx.fillRect(0, 0, width, height);
+    const shapes: VectorShape[] = [];
+    const font = (size: number, weight = 400): VectorFont => ({ family: themeConfig.fontFamily, size, weight });
     
     // Calculate scale to fit the captured graph
     const graphWidth = graphBounds.maxX - graphBounds.minX;
     const graphHeight = graphBounds.maxY - graphBounds.minY;
     
-    // Leave room for title at top and legend at bottom
-    const availableHeight = height * 0.75;
+    // Leave room for title at top, findings and legend at bottom
+    const findingsFontSize = Math.max(12, width * 0.011);
+    const findingsHeight = findingLines.length * findingsFontSize * 1.4;
+    const availableHeight = height * 0.75 - findingsHeight;
     const availableWidth = width * 0.9;
     const topMargin = height * 0.15;
     
@@ -314,213 +446,156 @@ export default function ExportModal({ open, onOpenChange }: ExportModalProps) {
     const offsetX = (width - graphWidth * scale) / 2 - graphBounds.minX * scale;
     const offsetY = topMargin + (availableHeight - graphHeight * scale) / 2 - graphBounds.minY * scale;
     
-    // Draw title using theme font with word wrap for long titles
+    // Title in the theme font, wrapped onto a second line if too long
     let titleEndY = height * 0.05;
     if (title) {
-      ctx.fillStyle = themeConfig.textColor;
-      const titleFontSize = width * 0.035;
-      ctx.font = `bold ${titleFontSize}px ${themeConfig.fontFamily}`;
-      ctx.textAlign = 'center';
-      
-      // Word wrap title if too long
-      const maxTitleWidth = width * 0.9;
-      const titleWidth = ctx.measureText(title).width;
-      
-      if (titleWidth > maxTitleWidth) {
-        // Split into multiple lines
-        const words = title.split(' ');
-        let line = '';
-        const titleLines: string[] = [];
-        
-        for (let i = 0; i < words.length; i++) {
-          const testLine = line + words[i] + ' ';
-          if (ctx.measureText(testLine).width > maxTitleWidth && i > 0) {
-            titleLines.push(line.trim());
-            line = words[i] + ' ';
-          } else {
-            line = testLine;
-          }
-        }
-        titleLines.push(line.trim());
-        
-        // Draw each line
-        const titleLineHeight = titleFontSize * 1.2;
-        titleLines.slice(0, 2).forEach((l, i) => {
-          ctx.fillText(l, width / 2, height * 0.04 + i * titleLineHeight);
+      const titleFont = font(width * 0.035, 700);
+      const titleLines = wrapText(title, titleFont, width * 0.9, 2);
+      if (titleLines.length > 1) {
+        const titleLineHeight = titleFont.size * 1.2;
+        titleLines.forEach((line, i) => {
+          shapes.push({ kind: 'text', x: width / 2, y: height * 0.04 + i * titleLineHeight, text: line, font: titleFont, fill: themeConfig.textColor, anchor: 'middle' });
         });
-        titleEndY = height * 0.04 + titleLines.slice(0, 2).length * titleLineHeight;
+        titleEndY = height * 0.04 + titleLines.length * titleLineHeight;
       } else {
-        ctx.fillText(title, width / 2, height * 0.05);
-        titleEndY = height * 0.05 + titleFontSize * 0.3;
+        shapes.push({ kind: 'text', x: width / 2, y: height * 0.05, text: title, font: titleFont, fill: themeConfig.textColor, anchor: 'middle' });
+        titleEndY = height * 0.05 + titleFont.size * 0.3;
       }
     }
     
-    // Draw subtitle below title
+    // Subtitle below title
     if (subtitle) {
-      ctx.fillStyle = themeConfig.textColor;
-      ctx.globalAlpha = 0.7;
-      const subtitleFontSize = width * 0.016;
-      ctx.font = `${subtitleFontSize}px ${themeConfig.fontFamily}`;
-      ctx.textAlign = 'center';
-      
-      // Word wrap
-      const maxSubtitleWidth = width * 0.85;
-      const words = subtitle.split(' ');
-      let line = '';
-      const lines: string[] = [];
-      
-      for (let i = 0; i < words.length; i++) {
-        const testLine = line + words[i] + ' ';
-        if (ctx.measureText(testLine).width > maxSubtitleWidth && i > 0) {
-          lines.push(line.trim());
-          line = words[i] + ' ';
-        } else {
-          line = testLine;
-        }
-      }
-      lines.push(line.trim());
-      
-      const lineHeight = subtitleFontSize * 1.3;
-      const subtitleStartY = titleEndY + subtitleFontSize * 1.5;
-      lines.slice(0, 3).forEach((l, i) => {
-        ctx.fillText(l, width / 2, subtitleStartY + i * lineHeight);
+      const subtitleFont = font(width * 0.016);
+      const lineHeight = subtitleFont.size * 1.3;
+      const subtitleStartY = titleEndY + subtitleFont.size * 1.5;
+      wrapText(subtitle, subtitleFont, width * 0.85, 3).forEach((line, i) => {
+        shapes.push({
+          kind: 'text', x: width / 2, y: subtitleStartY + i * lineHeight, text: line,
+          font: subtitleFont, fill: themeConfig.textColor, opacity: 0.7, anchor: 'middle',
+        });
       });
-      ctx.globalAlpha = 1;
     }
     
-    // Draw links exactly as captured (scaled)
+    // Links exactly as captured (scaled), curved like the live graph
     capturedLinks.forEach(link => {
-      ctx.beginPath();
-      ctx.strokeStyle = link.stroke;
-      ctx.lineWidth = link.strokeWidth * scale;
-      
-      if (link.strokeDasharray && link.strokeDasharray !== 'none') {
-        const dashes = link.strokeDasharray.split(',').map(d => parseFloat(d) * scale);
-        ctx.setLineDash(dashes);
-      } else {
-        ctx.setLineDash([]);
-      }
-      
-      // Scale the path coordinates
       const sx = link.sourceX * scale + offsetX;
       const sy = link.sourceY * scale + offsetY;
       const tx = link.targetX * scale + offsetX;
       const ty = link.targetY * scale + offsetY;
       
-      // Draw curved line matching the live graph
       const dx = tx - sx;
       const dy = ty - sy;
       const dist = Math.sqrt(dx * dx + dy * dy);
       
-      ctx.moveTo(sx, sy);
-      
+      let d: string;
       if (dist > 0) {
         const midX = (sx + tx) / 2;
         const midY = (sy + ty) / 2;
         const curveOffset = dist * themeConfig.curveIntensity * 0.3;
         const perpX = -dy / dist * curveOffset;
         const perpY = dx / dist * curveOffset;
-        
-        ctx.quadraticCurveTo(midX + perpX, midY + perpY, tx, ty);
+        d = `M ${sx} ${sy} Q ${midX + perpX} ${midY + perpY} ${tx} ${ty}`;
       } else {
-        ctx.lineTo(tx, ty);
+        d = `M ${sx} ${sy} L ${tx} ${ty}`;
       }
       
-      ctx.stroke();
-      ctx.setLineDash([]);
+      shapes.push({
+        kind: 'path',
+        d,
+        stroke: link.stroke,
+        strokeWidth: link.strokeWidth * scale,
+        dash: link.strokeDasharray && link.strokeDasharray !== 'none'
+          ? link.strokeDasharray.split(',').map(dash => parseFloat(dash) * scale)
+          : undefined,
+      });
     });
     
-    // Draw nodes exactly as captured (scaled)
+    // Nodes exactly as captured (scaled), labelled in the theme font
+    const labelFont = font(themeConfig.labelSize * scale, 500);
     capturedNodes.forEach(node => {
       const x = node.x * scale + offsetX;
       const y = node.y * scale + offsetY;
       const r = node.radius * scale;
       
-      ctx.beginPath();
-      ctx.arc(x, y, r, 0, Math.PI * 2);
-      ctx.fillStyle = node.fill;
-      ctx.fill();
-      
-      if (node.strokeWidth > 0) {
-        ctx.strokeStyle = node.stroke;
-        ctx.lineWidth = node.strokeWidth * scale;
-        ctx.stroke();
-      }
-      
-      // Draw label using theme settings
-      ctx.fillStyle = themeConfig.textColor;
-      const fontSize = themeConfig.labelSize * scale;
-      ctx.font = `500 ${fontSize}px ${themeConfig.fontFamily}`;
-      ctx.textAlign = 'center';
-      
-      // Text stroke for readability
-      ctx.strokeStyle = themeConfig.background;
-      ctx.lineWidth = 3 * scale;
-      ctx.strokeText(node.name, x, y + r + fontSize);
-      ctx.fillText(node.name, x, y + r + fontSize);
+      shapes.push({ kind: 'circle', cx: x, cy: y, r, fill: node.fill, stroke: node.stroke, strokeWidth: node.strokeWidth * scale });
+      shapes.push({
+        kind: 'text', x, y: y + r + labelFont.size, text: node.name, font: labelFont,
+        fill: themeConfig.textColor, anchor: 'middle', halo: { color: themeConfig.background, width: 3 * scale },
+      });
     });
+
+    // Annotations over the graph
+    shapes.push(...annotationsToShapes(
+      placeAnnotations(network.annotations, capturedNodes, scale, offsetX, offsetY),
+      getAnnotationStyle(themeConfig, scale)
+    ));
+    
+    // Findings between the graph and the legend
+    if (findingLines.length > 0) {
+      const findingsY = height * 0.9 - findingsHeight + findingsFontSize;
+      findingLines.forEach((line, i) => {
+        const findingFont = font(findingsFontSize, i === 0 ? 700 : 400);
+        shapes.push({
+          kind: 'text', x: width * 0.05, y: findingsY + i * findingsFontSize * 1.4, text: fitText(line, findingFont, width * 0.9),
+          font: findingFont, fill: themeConfig.textColor, opacity: i === 0 ? 0.9 : 0.7,
+        });
+      });
+    }
     
-    // Draw legend
+    // Legend, centered under the graph
     if (showLegend) {
       const legendY = height * 0.93;
-      const legendFontSize = Math.max(12, width * 0.012);
+      const legendFont = font(Math.max(12, width * 0.012));
       const dotSize = Math.max(4, width * 0.004);
       
-      ctx.font = `${legendFontSize}px ${themeConfig.fontFamily}`;
-      ctx.textAlign = 'left';
-      
       const entityTypes = Array.from(new Set(capturedNodes.map(n => n.type)));
-      const typeLabels: Record<string, string> = {
-        person: 'Person',
-        corporation: 'Corporation',
-        organization: 'Organization',
-        financial: 'Financial',
-        government: 'Government',
-        unknown: 'Unknown',
-      };
-      
-      let totalWidth = 0;
-      entityTypes.forEach(type => {
-        totalWidth += ctx.measureText(typeLabels[type] || type).width + dotSize * 2 + 25;
-      });
+      const typeLabels: Record<string, string> = Object.fromEntries(
+        entityTypes.map(type => [type, getEntityTypeDefinition(network.entityTypes, type).label])
+      );
+      const itemWidth = (type: string) => measureText(typeLabels[type] || type, legendFont) + dotSize * 2 + 25;
       
-      let legendX = (width - totalWidth) / 2;
+      let legendX = (width - entityTypes.reduce((sum, type) => sum + itemWidth(type), 0)) / 2;
       
       entityTypes.forEach(type => {
-        const isHollow = ['corporation', 'organization', 'financial', 'government'].includes(type);
-        
-        ctx.beginPath();
-        ctx.arc(legendX + dotSize, legendY, dotSize, 0, Math.PI * 2);
-        
-        if (isHollow) {
-          ctx.fillStyle = themeConfig.background;
-          ctx.fill();
-          ctx.strokeStyle = themeConfig.nodeStroke;
-          ctx.lineWidth = 1;
-          ctx.stroke();
-        } else {
-          ctx.fillStyle = themeConfig.nodeStroke;
-          ctx.fill();
-        }
-        
-        ctx.fillStyle = themeConfig.textColor;
-        ctx.globalAlpha = 0.7;
-        ctx.fillText(typeLabels[type] || type, legendX + dotSize * 2 + 6, legendY + dotSize / 2);
-        ctx.globalAlpha = 1;
-        legendX += ctx.measureText(typeLabels[type] || type).width + dotSize * 2 + 25;
+        const isHollow = !!getEntityTypeDefinition(network.entityTypes, type).hollow;
+        shapes.push(isHollow
+          ? { kind: 'circle', cx: legendX + dotSize, cy: legendY, r: dotSize, fill: themeConfig.background, stroke: themeConfig.nodeStroke, strokeWidth: 1 }
+          : { kind: 'circle', cx: legendX + dotSize, cy: legendY, r: dotSize, fill: themeConfig.nodeStroke });
+        shapes.push({
+          kind: 'text', x: legendX + dotSize * 2 + 6, y: legendY + dotSize / 2, text: typeLabels[type] || type,
+          font: legendFont, fill: themeConfig.textColor, opacity: 0.7,
+        });
+        legendX += itemWidth(type);
       });
     }
     
-    // Draw watermark
+    // Watermark
     if (showWatermark) {
-      ctx.fillStyle = themeConfig.textColor;
-      ctx.globalAlpha = 0.5;
-      ctx.font = `${width * 0.015}px ${themeConfig.fontFamily}`;
-      ctx.textAlign = 'center';
-      ctx.fillText('Created with SilentPartners.app', width / 2, height * 0.97);
-      ctx.globalAlpha = 1;
+      shapes.push({
+        kind: 'text', x: width / 2, y: height * 0.97, text: 'Created with SilentPartners.app',
+        font: font(width * 0.015), fill: themeConfig.textColor, opacity: 0.5, anchor: 'middle',
+      });
     }
-  }, [capturedNodes, capturedLinks, graphBounds, format, title, subtitle, notes, showLegend, showWatermark, themeConfig]);
+    
+    return { width, height, background: themeConfig.background, shapes };
+  }, [capturedNodes, capturedLinks, graphBounds, format, title, subtitle, showLegend, showWatermark, findingLines, themeConfig, network.entityTypes, network.annotations]);
+
+  // Render canvas matching the live graph exactly
+  const renderCanvas = useCallback(() => {
+    const canvas = canvasRef.current;
+    const scene = buildScene();
+    if (!canvas || !scene) return;
+    
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    
+    canvas.width = scene.width;
+    canvas.height = scene.height;
+    drawSceneToCanvas(ctx, scene);
+  }, [buildScene]);
+
+  // The artwork as it stands when the dossier is opened
+  const dossierGraph = useMemo(() => (showDossier ? buildScene() : null), [showDossier, buildScene]);
 
   // Re-render when options change
   useEffect(() => {
@@ -566,200 +641,77 @@ export default function ExportModal({ open, onOpenChange }: ExportModalProps) {
     }
   };
 
-  // Generate SVG export
-  const handleDownloadSVG = () => {
-    if (capturedNodes.length === 0) {
+  // One page at print resolution, or a poster tiled across sheets
+  const getPdfLayout = (): PdfLayout => (pdfPages === 'page'
+    ? { kind: 'page' }
+    : { kind: 'poster', paper: pdfPages, columns: posterColumns });
+  
+  // Download the artwork as a vector file, text kept as text in the theme's fonts
+  const handleDownloadVector = async (kind: 'svg' | 'pdf') => {
+    const scene = buildScene();
+    if (!scene) {
       toast.error('No graph data to export');
       return;
     }
     
-    const formatConfig = EXPORT_FORMATS[format];
-    const width = formatConfig.width;
-    const height = formatConfig.height;
-    
-    // Calculate scale to fit the captured graph
-    const graphWidth = graphBounds.maxX - graphBounds.minX;
-    const graphHeight = graphBounds.maxY - graphBounds.minY;
-    
-    const availableHeight = height * 0.75;
-    const availableWidth = width * 0.9;
-    const topMargin = height * 0.15;
-    
-    const scale = Math.min(
-      availableWidth / graphWidth,
-      availableHeight / graphHeight
-    );
-    
-    const offsetX = (width - graphWidth * scale) / 2 - graphBounds.minX * scale;
-    const offsetY = topMargin + (availableHeight - graphHeight * scale) / 2 - graphBounds.minY * scale;
-    
-    // Build SVG content with safe fallback fonts for external viewers
-    // Use system fonts that are universally available, with web fonts as secondary
-    const safeFontFamily = themeConfig.fontFamily.includes('Serif') 
-      ? `Georgia, "Times New Roman", ${themeConfig.fontFamily}, serif`
-      : `Arial, Helvetica, ${themeConfig.fontFamily}, sans-serif`;
-    
-    let svgContent = `<?xml version="1.0" encoding="UTF-8"?>
-<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
-  <style>
-    .title { font-family: ${safeFontFamily}; font-weight: bold; font-size: ${width * 0.035}px; fill: ${themeConfig.textColor}; dominant-baseline: hanging; }
-    .subtitle { font-family: ${safeFontFamily}; font-size: ${width * 0.016}px; fill: ${themeConfig.textColor}; opacity: 0.7; }
-    .label { font-family: ${safeFontFamily}; font-weight: 500; font-size: ${themeConfig.labelSize * scale}px; fill: ${themeConfig.textColor}; }
-    .legend { font-family: ${safeFontFamily}; font-size: ${Math.max(12, width * 0.012)}px; fill: ${themeConfig.textColor}; opacity: 0.7; }
-    .watermark { font-family: ${safeFontFamily}; font-size: ${width * 0.015}px; fill: ${themeConfig.textColor}; opacity: 0.5; }
-  </style>
-  
-  <!-- Background -->
-  <rect width="${width}" height="${height}" fill="${themeConfig.background}"/>
-  
-`;
-    
-    // Add title
-    if (title) {
-      svgContent += `  <!-- Title -->
-  <text x="${width / 2}" y="${height * 0.03}" text-anchor="middle" class="title">${escapeXml(title)}</text>
-`;
-    }
-    
-    // Add subtitle
-    if (subtitle) {
-      const subtitleY = height * 0.08;
-      svgContent += `  <!-- Subtitle -->
-  <text x="${width / 2}" y="${subtitleY}" text-anchor="middle" class="subtitle">${escapeXml(subtitle)}</text>
-`;
-    }
-    
-    // Add links
-    svgContent += `  
-  <!-- Links -->
-  <g class="links">
-`;
-    capturedLinks.forEach(link => {
-      const sx = link.sourceX * scale + offsetX;
-      const sy = link.sourceY * scale + offsetY;
-      const tx = link.targetX * scale + offsetX;
-      const ty = link.targetY * scale + offsetY;
-      
-      const dx = tx - sx;
-      const dy = ty - sy;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-      
-      let pathD: string;
-      if (dist > 0) {
-        const midX = (sx + tx) / 2;
-        const midY = (sy + ty) / 2;
-        const curveOffset = dist * themeConfig.curveIntensity * 0.3;
-        const perpX = -dy / dist * curveOffset;
-        const perpY = dx / dist * curveOffset;
-        pathD = `M ${sx} ${sy} Q ${midX + perpX} ${midY + perpY} ${tx} ${ty}`;
-      } else {
-        pathD = `M ${sx} ${sy} L ${tx} ${ty}`;
-      }
-      
-      const dashAttr = link.strokeDasharray && link.strokeDasharray !== 'none' 
-        ? ` stroke-dasharray="${link.strokeDasharray.split(',').map(d => parseFloat(d) * scale).join(',')}"`
-        : '';
-      
-      svgContent += `    <path d="${pathD}" stroke="${link.stroke}" stroke-width="${link.strokeWidth * scale}" fill="none"${dashAttr}/>
-`;
-    });
-    svgContent += `  </g>
-`;
-    
-    // Add nodes
-    svgContent += `  
-  <!-- Nodes -->
-  <g class="nodes">
-`;
-    capturedNodes.forEach(node => {
-      const x = node.x * scale + offsetX;
-      const y = node.y * scale + offsetY;
-      const r = node.radius * scale;
-      
-      svgContent += `    <g>
-`;
-      svgContent += `      <circle cx="${x}" cy="${y}" r="${r}" fill="${node.fill}" stroke="${node.stroke}" stroke-width="${node.strokeWidth * scale}"/>
-`;
-      svgContent += `      <text x="${x}" y="${y + r + themeConfig.labelSize * scale}" text-anchor="middle" class="label">${escapeXml(node.name)}</text>
-`;
-      svgContent += `    </g>
-`;
-    });
-    svgContent += `  </g>
-`;
-    
-    // Add legend
-    if (showLegend) {
-      const legendY = height * 0.93;
-      const dotSize = Math.max(4, width * 0.004);
-      const entityTypes = Array.from(new Set(capturedNodes.map(n => n.type)));
-      const typeLabels: Record<string, string> = {
-        person: 'Person',
-        corporation: 'Corporation',
-        organization: 'Organization',
-        financial: 'Financial',
-        government: 'Government',
-        unknown: 'Unknown',
-      };
-      
-      let legendX = width * 0.2;
-      const legendSpacing = width / (entityTypes.length + 1);
-      
-      svgContent += `  
-  <!-- Legend -->
-  <g class="legend-group">
-`;
-      entityTypes.forEach((type, i) => {
-        const isHollow = ['corporation', 'organization', 'financial', 'government'].includes(type);
-        const cx = legendX + i * legendSpacing;
-        
-        if (isHollow) {
-          svgContent += `    <circle cx="${cx}" cy="${legendY}" r="${dotSize}" fill="${themeConfig.background}" stroke="${themeConfig.nodeStroke}" stroke-width="1"/>
-`;
-        } else {
-          svgContent += `    <circle cx="${cx}" cy="${legendY}" r="${dotSize}" fill="${themeConfig.nodeStroke}"/>
-`;
-        }
-        svgContent += `    <text x="${cx + dotSize + 6}" y="${legendY + dotSize / 2}" class="legend">${typeLabels[type] || type}</text>
-`;
-      });
-      svgContent += `  </g>
-`;
+    setIsExporting(true);
+    try {
+      const fonts = await loadSceneFonts(scene);
+      const blob = kind === 'svg'
+        ? new Blob([sceneToSvg(scene, fonts)], { type: 'image/svg+xml' })
+        : new Blob([await sceneToPdf(scene, fonts, getPdfLayout(), title)], { type: 'application/pdf' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.download = (title || 'network').toLowerCase().replace(/[^a-z0-9]/g, '-') + `.${kind}`;
+      link.href = url;
+      link.click();
+      URL.revokeObjectURL(url);
+      
+      toast.success(`${kind.toUpperCase()} downloaded successfully`);
+    } catch (err) {
+      console.error('Vector export failed:', err);
+      toast.error(`Failed to create ${kind.toUpperCase()}`);
+    } finally {
+      setIsExporting(false);
     }
-    
-    // Add watermark
-    if (showWatermark) {
-      svgContent += `  
-  <!-- Watermark -->
-  <text x="${width / 2}" y="${height * 0.97}" text-anchor="middle" class="watermark">Created with SilentPartners.app</text>
-`;
+  };
+
+  // Download the network's data for Gephi (GEXF) or yEd and others (GraphML)
+  const handleDownloadGraphFile = (format: GraphFileFormat) => {
+    if (network.entities.length === 0) {
+      toast.error('No graph data to export');
+      return;
     }
-    
-    svgContent += `</svg>`;
-    
-    // Download
-    const blob = new Blob([svgContent], { type: 'image/svg+xml' });
+    const positions = getLayoutPositions();
+    const content = format === 'gexf' ? networkToGEXF(network, positions) : networkToGraphML(network, positions);
+    const blob = new Blob([content], { type: 'application/xml' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
-    const filename = (title || 'network').toLowerCase().replace(/[^a-z0-9]/g, '-') + '.svg';
-    link.download = filename;
+    link.download = (title || 'network').toLowerCase().replace(/[^a-z0-9]/g, '-') + `.${format}`;
     link.href = url;
     link.click();
     URL.revokeObjectURL(url);
-    
-    toast.success('SVG downloaded successfully');
+
+    toast.success(`${format === 'gexf' ? 'GEXF' : 'GraphML'} downloaded successfully`);
   };
   
-  // Helper to escape XML special characters
-  const escapeXml = (str: string): string => {
-    return str
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&apos;');
-  };
+  // Download the network as FollowTheMoney entities for Aleph
+  const handleDownloadFtm = () => {
+    if (network.entities.length === 0) {
+      toast.error('No graph data to export');
+      return;
+    }
+    const blob = new Blob([networkToFtm(network)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = (title || 'network').toLowerCase().replace(/[^a-z0-9]/g, '-') + '.ftm.json';
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
 
+    toast.success('FollowTheMoney entities downloaded successfully');
+  };
+  
   const formatConfig = EXPORT_FORMATS[format];
   const aspectRatio = formatConfig.width / formatConfig.height;
 
@@ -787,6 +739,35 @@ export default function ExportModal({ open, onOpenChange }: ExportModalProps) {
               </Select>
             </div>
             
+            <div>
+              <Label>PDF pages</Label>
+              <div className="flex gap-2">
+                <Select value={pdfPages} onValueChange={value => setPdfPages(value as 'page' | PdfPaper)}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="page">Single page</SelectItem>
+                    {Object.entries(PDF_PAPERS).map(([key, paper]) => (
+                      <SelectItem key={key} value={key}>Poster on {paper.label} sheets</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {pdfPages !== 'page' && (
+                  <Select value={String(posterColumns)} onValueChange={value => setPosterColumns(Number(value))}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[2, 3, 4].map(columns => (
+                        <SelectItem key={columns} value={String(columns)}>{columns} sheets wide</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            </div>
+            
             <div>
               <Label>Title</Label>
               <Input
@@ -815,7 +796,7 @@ export default function ExportModal({ open, onOpenChange }: ExportModalProps) {
               />
             </div>
             
-            <div className="flex items-center gap-4">
+            <div className="flex flex-wrap items-center gap-4">
               <div className="flex items-center gap-2">
                 <Checkbox
                   id="show-legend"
@@ -833,6 +814,18 @@ export default function ExportModal({ open, onOpenChange }: ExportModalProps) {
                 />
                 <Label htmlFor="show-watermark" className="cursor-pointer">Show Watermark</Label>
               </div>
+              
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="show-findings"
+                  checked={showFindings}
+                  onCheckedChange={(checked) => setShowFindings(checked as boolean)}
+                  disabled={cycleFindings.length === 0}
+                />
+                <Label htmlFor="show-findings" className="cursor-pointer">
+                  Include Findings{cycleFindings.length > 0 ? ` (${cycleFindings.length})` : ''}
+                </Label>
+              </div>
             </div>
             
             <Button
@@ -900,10 +893,30 @@ export default function ExportModal({ open, onOpenChange }: ExportModalProps) {
             <Download className="w-4 h-4 mr-2" />
             Download PNG
           </Button>
-          <Button variant="outline" onClick={handleDownloadSVG} className="min-w-fit">
+          <Button variant="outline" onClick={() => handleDownloadVector('svg')} disabled={isExporting} className="min-w-fit">
             <FileCode className="w-4 h-4 mr-2" />
             Download SVG
           </Button>
+          <Button variant="outline" onClick={() => handleDownloadVector('pdf')} disabled={isExporting} className="min-w-fit">
+            {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileText className="w-4 h-4 mr-2" />}
+            Download PDF
+          </Button>
+          <Button variant="outline" onClick={() => handleDownloadGraphFile('graphml')} className="min-w-fit" title="For yEd, Gephi and NetworkX">
+            <Waypoints className="w-4 h-4 mr-2" />
+            GraphML
+          </Button>
+          <Button variant="outline" onClick={() => handleDownloadGraphFile('gexf')} className="min-w-fit" title="For Gephi">
+            <Waypoints className="w-4 h-4 mr-2" />
+            GEXF
+          </Button>
+          <Button variant="outline" onClick={handleDownloadFtm} className="min-w-fit" title="FollowTheMoney entities for Aleph">
+            <Coins className="w-4 h-4 mr-2" />
+            FtM
+          </Button>
+          <Button variant="outline" onClick={() => setShowDossier(true)} className="min-w-fit" title="Report with entity profiles, relationships and sources">
+            <ScrollText className="w-4 h-4 mr-2" />
+            Dossier
+          </Button>
           <Button variant="outline" onClick={handleCopy} className="min-w-fit">
             <Copy className="w-4 h-4 mr-2" />
             Copy to Clipboard
@@ -913,6 +926,8 @@ export default function ExportModal({ open, onOpenChange }: ExportModalProps) {
           </Button>
         </div>
       </DialogContent>
+      
+      <DossierDialog open={showDossier} onOpenChange={setShowDossier} graph={dossierGraph} />
     </Dialog>
   );
 }
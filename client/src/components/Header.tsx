@@ -1,7 +1,7 @@
 /**
  * Silent Partners - Header
  * 
- * Header with logo, Lombardi quote, and account controls.
+ * Header with logo, Lombardi quote, account controls and open network tabs.
  * Design: Archival Investigator with Playfair Display logo
  * Mobile: Includes hamburger menu to toggle sidebar
  */
@@ -21,6 +21,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useMobileSidebar } from '@/contexts/MobileSidebarContext';
 import AuthModal from './AuthModal';
 import MyNetworksModal from './MyNetworksModal';
+import NetworkTabs from './NetworkTabs';
 
 export default function Header() {
   const { user, isAuthenticated, logout } = useAuth();
@@ -165,6 +166,11 @@ export default function Header() {
           </div>
         </div>
 
+        {/* Open network tabs */}
+        <div className="mt-2">
+          <NetworkTabs />
+        </div>
+
         {/* Lombardi quote - hidden on mobile */}
         <p className="mt-2 text-xs text-muted-foreground italic max-w-2xl hidden sm:block">
           "The basic unit is the individual and the corporation, and the 'silent partners' are the covert relationships."
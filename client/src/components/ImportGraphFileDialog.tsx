@@ -0,0 +1,201 @@
+/**
+ * Import Graph File Dialog for Silent Partners
+ *
+ * Shown when a GraphML or GEXF file is dropped: each attribute column in
+ * the file is matched to an entity or relationship field, with the same
+ * validation and statistics as a JSON import updating as the mapping
+ * changes. Continuing hands the data to the JSON import dialog to merge or
+ * replace.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, AlertTriangle, CheckCircle2, Waypoints } from 'lucide-react';
+import { validateImportData, parseImportData } from './ImportJsonDialog';
+import {
+  ENTITY_FIELDS,
+  RELATIONSHIP_FIELDS,
+  EntityField,
+  GraphFileColumn,
+  GraphFileMapping,
+  ParsedGraphFile,
+  RelationshipField,
+  graphFileToImportData,
+  suggestGraphFileMapping,
+} from '@/lib/graph-formats';
+
+// Warnings listed before the rest are summarized
+const MAX_WARNINGS = 5;
+
+interface ImportGraphFileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  file: { name: string; parsed: ParsedGraphFile } | null;
+  onContinue: (data: NonNullable<ReturnType<typeof parseImportData>>) => void;
+}
+
+// The first value a column has, to show what it holds
+function sampleValue(elements: Array<{ values: Record<string, string> }>, columnId: string): string | undefined {
+  return elements.find(el => el.values[columnId])?.values[columnId];
+}
+
+function ColumnMapping<F extends string>({
+  title,
+  columns,
+  elements,
+  fields,
+  mapping,
+  onChange,
+}: {
+  title: string;
+  columns: GraphFileColumn[];
+  elements: Array<{ values: Record<string, string> }>;
+  fields: Array<{ id: F; label: string }>;
+  mapping: Record<string, F>;
+  onChange: (columnId: string, field: F) => void;
+}) {
+  if (columns.length === 0) return null;
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">{title}</Label>
+      <div className="space-y-1.5">
+        {columns.map(column => (
+          <div key={column.id} className="grid grid-cols-[1fr_1fr_10rem] items-center gap-2 text-sm">
+            <span className="font-mono text-xs truncate" title={column.name}>{column.name}</span>
+            <span className="text-xs text-muted-foreground truncate" title={sampleValue(elements, column.id)}>
+              {sampleValue(elements, column.id) ?? '—'}
+            </span>
+            <Select value={mapping[column.id]} onValueChange={(value) => onChange(column.id, value as F)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {fields.map(field => (
+                  <SelectItem key={field.id} value={field.id} className="text-xs">{field.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function ImportGraphFileDialog({ open, onOpenChange, file, onContinue }: ImportGraphFileDialogProps) {
+  const [mapping, setMapping] = useState<GraphFileMapping>({ nodes: {}, edges: {} });
+
+  useEffect(() => {
+    if (file) setMapping(suggestGraphFileMapping(file.parsed));
+  }, [file]);
+
+  const importData = useMemo(() => (file ? graphFileToImportData(file.parsed, mapping) : null), [file, mapping]);
+  const validation = useMemo(() => (importData ? validateImportData(importData) : null), [importData]);
+
+  if (!file || !importData || !validation) return null;
+
+  const formatName = file.parsed.format === 'gexf' ? 'GEXF' : 'GraphML';
+
+  const handleContinue = () => {
+    const parsed = parseImportData(importData);
+    if (!parsed) return;
+    onContinue({ ...parsed, title: parsed.title || file.name.replace(/\.[^.]+$/, '') });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Waypoints className="w-5 h-5 text-amber-600" />
+            Import {formatName}
+          </DialogTitle>
+          <DialogDescription>
+            Match the columns in {file.name} to entity and relationship fields.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ColumnMapping<EntityField>
+          title="Entity columns"
+          columns={file.parsed.nodeColumns}
+          elements={file.parsed.nodes}
+          fields={ENTITY_FIELDS}
+          mapping={mapping.nodes}
+          onChange={(columnId, field) => setMapping(m => ({ ...m, nodes: { ...m.nodes, [columnId]: field } }))}
+        />
+        <ColumnMapping<RelationshipField>
+          title="Relationship columns"
+          columns={file.parsed.edgeColumns}
+          elements={file.parsed.edges}
+          fields={RELATIONSHIP_FIELDS}
+          mapping={mapping.edges}
+          onChange={(columnId, field) => setMapping(m => ({ ...m, edges: { ...m.edges, [columnId]: field } }))}
+        />
+
+        {/* Validation summary */}
+        <div className="bg-muted/50 rounded-lg p-4 space-y-2">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            {validation.isValid ? (
+              <>
+                <CheckCircle2 className="w-4 h-4 text-green-600" />
+                Valid {formatName} detected
+              </>
+            ) : (
+              <>
+                <AlertCircle className="w-4 h-4 text-red-600" />
+                {validation.errors.length} {validation.errors.length === 1 ? 'problem' : 'problems'} to fix
+              </>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <span className="text-muted-foreground">Entities:</span>{' '}
+              <span className="font-medium">{validation.stats.entities}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Relationships:</span>{' '}
+              <span className="font-medium">{validation.stats.relationships}</span>
+            </div>
+          </div>
+          {Object.keys(validation.stats.entityTypes).length > 0 && (
+            <div className="flex flex-wrap gap-1.5 text-xs">
+              {Object.entries(validation.stats.entityTypes).map(([type, count]) => (
+                <span key={type} className="px-2 py-0.5 rounded bg-background border">
+                  {type} <span className="text-muted-foreground tabular-nums">{count}</span>
+                </span>
+              ))}
+            </div>
+          )}
+          {validation.errors.slice(0, MAX_WARNINGS).map((error, i) => (
+            <p key={`error-${i}`} className="text-xs text-red-700">{error}</p>
+          ))}
+          {validation.warnings.length > 0 && (
+            <div className="flex items-start gap-2 text-xs text-amber-700">
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+              <div className="space-y-0.5">
+                {validation.warnings.slice(0, MAX_WARNINGS).map((warning, i) => (
+                  <p key={`warning-${i}`}>{warning}</p>
+                ))}
+                {validation.warnings.length > MAX_WARNINGS && (
+                  <p className="text-amber-600">+{validation.warnings.length - MAX_WARNINGS} more warnings</p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleContinue} disabled={!validation.isValid}>
+            Continue
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -14,14 +14,28 @@ import { Button } from '@/components/ui/button';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
 import { AlertCircle, FileJson, Plus, Replace, CheckCircle2 } from 'lucide-react';
-import { Entity, Relationship, Network } from '@/lib/store';
+import { Entity, EntityAttribute, Relationship, Network, OwnershipStake, sourceTypeConfig } from '@/lib/store';
+import {
+  EntityTypeDefinition,
+  isBuiltInEntityType,
+  normalizeEntityTypeDefinition,
+  validateEntityTypeDefinition,
+} from '@/lib/entity-types';
+import {
+  RelationshipTypeDefinition,
+  normalizeRelationshipTypeDefinition,
+  validateRelationshipTypeDefinition,
+} from '@/lib/relationship-types';
 
 interface ImportedData {
   title?: string;
   description?: string;
   entities: Entity[];
   relationships: Relationship[];
+  entityTypes?: EntityTypeDefinition[];
+  relationshipTypes?: RelationshipTypeDefinition[];
   investigationContext?: Network['investigationContext'];
+  mergeDecisions?: Network['mergeDecisions'];
 }
 
 interface ImportJsonDialogProps {
@@ -85,6 +99,35 @@ export function validateImportData(data: unknown): ValidationResult {
   const entities = obj.entities as unknown[];
   const relationships = obj.relationships as unknown[];
   const entityIds = new Set<string>();
+  const customTypeIds = new Set<string>();
+  
+  // Validate custom entity types
+  if (obj.entityTypes !== undefined) {
+    if (!Array.isArray(obj.entityTypes)) {
+      warnings.push('"entityTypes" is not an array, it will be ignored');
+    } else {
+      obj.entityTypes.forEach((type, index) => {
+        const error = validateEntityTypeDefinition(type);
+        if (error) {
+          warnings.push(`Entity type at index ${index} skipped: ${error}`);
+        } else {
+          customTypeIds.add((type as EntityTypeDefinition).id);
+        }
+      });
+    }
+  }
+  
+  // Validate the relationship vocabulary
+  if (obj.relationshipTypes !== undefined) {
+    if (!Array.isArray(obj.relationshipTypes)) {
+      warnings.push('"relationshipTypes" is not an array, it will be ignored');
+    } else {
+      obj.relationshipTypes.forEach((type, index) => {
+        const error = validateRelationshipTypeDefinition(type);
+        if (error) warnings.push(`Relationship type at index ${index} skipped: ${error}`);
+      });
+    }
+  }
   
   // Validate entities
   entities.forEach((entity, index) => {
@@ -111,13 +154,23 @@ export function validateImportData(data: unknown): ValidationResult {
     if (!e.type || typeof e.type !== 'string') {
       warnings.push(`Entity "${e.name || index}" missing "type" field, will default to "unknown"`);
     } else {
-      const validTypes = ['person', 'corporation', 'organization', 'financial', 'government', 'event', 'location', 'asset', 'unknown'];
-      if (!validTypes.includes(e.type as string)) {
+      if (!isBuiltInEntityType(e.type) && !customTypeIds.has(e.type)) {
         warnings.push(`Entity "${e.name}" has invalid type "${e.type}", will default to "unknown"`);
       } else {
         entityTypes[e.type as string] = (entityTypes[e.type as string] || 0) + 1;
       }
     }
+    
+    if (e.attributes !== undefined) {
+      if (!Array.isArray(e.attributes)) {
+        warnings.push(`Entity "${e.name || index}" has a non-array "attributes" field, it will be ignored`);
+      } else {
+        const invalid = e.attributes.filter(a => !isAttributeLike(a)).length;
+        if (invalid > 0) {
+          warnings.push(`Entity "${e.name || index}" has ${invalid} attribute(s) without a "key" and "value", they will be skipped`);
+        }
+      }
+    }
   });
   
   // Validate relationships
@@ -144,6 +197,10 @@ export function validateImportData(data: unknown): ValidationResult {
     } else if (!entityIds.has(r.target)) {
       warnings.push(`Relationship at index ${index} references unknown target entity: "${r.target}"`);
     }
+    
+    if (r.ownership !== undefined && !parseOwnership(r.ownership)) {
+      warnings.push(`Relationship at index ${index} has an "ownership" without a 0-100 "percentage", it will be ignored`);
+    }
   });
   
   return {
@@ -158,24 +215,84 @@ export function validateImportData(data: unknown): ValidationResult {
   };
 }
 
+function isAttributeLike(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object') return false;
+  const a = value as Record<string, unknown>;
+  return typeof a.key === 'string' && a.key.trim() !== '' && (typeof a.value === 'string' || typeof a.value === 'number');
+}
+
+// Keep well-formed attributes, filling in IDs and defaulting confidence
+function parseAttributes(raw: unknown, entityIndex: number): EntityAttribute[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  return raw.filter(isAttributeLike).map((a, index) => ({
+    id: (typeof a.id === 'string' && a.id) || `imported-attr-${Date.now()}-${entityIndex}-${index}`,
+    key: (a.key as string).trim(),
+    value: String(a.value),
+    confidence: typeof a.confidence === 'number' ? Math.min(1, Math.max(0, a.confidence)) : 0.8,
+    source: typeof a.source === 'string' ? a.source : undefined,
+    observedAt: typeof a.observedAt === 'string' ? a.observedAt : undefined,
+  }));
+}
+
+// Read an ownership stake, clamping percentages to 0-100
+export function parseOwnership(raw: unknown): OwnershipStake | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const o = raw as Record<string, unknown>;
+  if (typeof o.percentage !== 'number' || o.percentage < 0 || o.percentage > 100) return undefined;
+  return {
+    percentage: o.percentage,
+    shareClass: typeof o.shareClass === 'string' ? o.shareClass : undefined,
+    votingPercentage: typeof o.votingPercentage === 'number'
+      ? Math.min(100, Math.max(0, o.votingPercentage))
+      : undefined,
+  };
+}
+
+// Keep the valid custom entity types from an "entityTypes" array
+export function parseEntityTypes(raw: unknown): EntityTypeDefinition[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(t => validateEntityTypeDefinition(t) === null)
+    .map(t => normalizeEntityTypeDefinition(t as Record<string, unknown>));
+}
+
+// Keep the valid relationship types from a "relationshipTypes" array
+function parseRelationshipTypes(raw: unknown): RelationshipTypeDefinition[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  return raw
+    .filter(t => validateRelationshipTypeDefinition(t) === null)
+    .map(t => normalizeRelationshipTypeDefinition(t as Record<string, unknown>));
+}
+
 // Parse and normalize imported data
 export function parseImportData(data: unknown): ImportedData | null {
   const validation = validateImportData(data);
   if (!validation.isValid) return null;
   
   const obj = data as Record<string, unknown>;
+  const entityTypes = parseEntityTypes(obj.entityTypes);
+  const knownType = (type: unknown) =>
+    typeof type === 'string' && (isBuiltInEntityType(type) || entityTypes.some(t => t.id === type));
+  
   const entities = (obj.entities as unknown[]).map((e, index) => {
     const entity = e as Record<string, unknown>;
     return {
       id: (entity.id as string) || `imported-${Date.now()}-${index}`,
       name: entity.name as string,
-      type: (['person', 'corporation', 'organization', 'financial', 'government', 'event', 'location', 'asset'].includes(entity.type as string) 
-        ? entity.type 
-        : 'unknown') as Entity['type'],
+      type: (knownType(entity.type) ? entity.type : 'unknown') as Entity['type'],
       description: entity.description as string | undefined,
+      aliases: Array.isArray(entity.aliases) ? entity.aliases.filter((a): a is string => typeof a === 'string') : undefined,
+      attributes: parseAttributes(entity.attributes, index),
       importance: entity.importance as number | undefined,
-      source_type: 'manual' as const,
-      created_at: new Date().toISOString(),
+      x: typeof entity.x === 'number' ? entity.x : undefined,
+      y: typeof entity.y === 'number' ? entity.y : undefined,
+      // Source tracking survives a round trip through an export
+      source_text: typeof entity.source_text === 'string' ? entity.source_text : undefined,
+      source_query: typeof entity.source_query === 'string' ? entity.source_query : undefined,
+      source_type: (typeof entity.source_type === 'string' && entity.source_type in sourceTypeConfig
+        ? entity.source_type
+        : 'manual') as NonNullable<Entity['source_type']>,
+      created_at: typeof entity.created_at === 'string' ? entity.created_at : new Date().toISOString(),
     };
   });
   
@@ -191,6 +308,9 @@ export function parseImportData(data: unknown): ImportedData | null {
         ? rel.status 
         : 'confirmed') as Relationship['status'],
       strength: rel.strength as number | undefined,
+      startDate: typeof rel.startDate === 'string' ? rel.startDate : undefined,
+      endDate: typeof rel.endDate === 'string' ? rel.endDate : undefined,
+      ownership: parseOwnership(rel.ownership),
     };
   });
   
@@ -199,7 +319,10 @@ export function parseImportData(data: unknown): ImportedData | null {
     description: obj.description as string | undefined,
     entities,
     relationships,
+    entityTypes: entityTypes.length > 0 ? entityTypes : undefined,
+    relationshipTypes: parseRelationshipTypes(obj.relationshipTypes),
     investigationContext: obj.investigationContext as Network['investigationContext'],
+    mergeDecisions: Array.isArray(obj.mergeDecisions) ? (obj.mergeDecisions as Network['mergeDecisions']) : undefined,
   };
 }
 
@@ -35,6 +35,7 @@ import { toast } from 'sonner';
 import { streamOrchestrate, OrchestratorCallbacks, InvestigationContext as StreamContext, PipelineEntity, PipelineRelationship } from '@/lib/streaming-api';
 import { generateId, Entity, Relationship } from '@/lib/store';
 import claimsApi, { Claim } from '@/lib/claims-api';
+import { getChatStorageKey, publishChatMessages, onChatMessagesRestored } from '@/lib/drafts';
 import { ChatMessageBubble, ChatMessage } from './ChatMessageBubble';
 import { useOrchestrator } from '@/contexts/OrchestratorContext';
 import { ExpansionButtons, ExpansionPath, useScaffold } from './assistant';
@@ -343,11 +344,13 @@ export default function InvestigativeAssistant({
   onClearEvents,
   onSuggestionClick,
 }: InvestigativeAssistantProps) {
-  const { network, addOrMergeEntity, addOrMergeRelationship, dispatch } = useNetwork();
+  const { network, activeTabId, addOrMergeEntity, addOrMergeRelationship, dispatch } = useNetwork();
   const { registerMessageHandler } = useOrchestrator();
   
-  // Generate storage key based on network ID
-  const storageKey = `sp-chat-${network.id || 'default'}`;
+  // Generate storage key based on network ID (or tab, for unsaved networks)
+  const storageKey = getChatStorageKey(network.id, activeTabId);
+  // Key the current `messages` were loaded for; lags storageKey until the switch loads
+  const messagesKeyRef = useRef(storageKey);
   
   // Initialize messages from localStorage
   const [messages, setMessages] = useState<ChatMessage[]>(() => {
@@ -417,7 +420,10 @@ export default function InvestigativeAssistant({
   
   // Persist messages to localStorage whenever they change
   useEffect(() => {
+    // Don't write the previous tab's chat under the new key before it loads
+    if (messagesKeyRef.current !== storageKey) return;
     if (messages.length > 0) {
+      publishChatMessages(storageKey, messages);
       try {
         localStorage.setItem(storageKey, JSON.stringify(messages));
       } catch (e) {
@@ -426,8 +432,16 @@ export default function InvestigativeAssistant({
     }
   }, [messages, storageKey]);
   
-  // Load messages when network ID changes
+  // Pick up chat restored from a local draft
+  useEffect(() => onChatMessagesRestored((key, restored) => {
+    if (key === storageKey && restored.length > 0) {
+      setMessages(restored as ChatMessage[]);
+    }
+  }), [storageKey]);
+  
+  // Load messages when network ID or tab changes
   useEffect(() => {
+    messagesKeyRef.current = storageKey;
     try {
       const saved = localStorage.getItem(storageKey);
       if (saved) {
@@ -451,9 +465,12 @@ export default function InvestigativeAssistant({
   
   // Reset messages when network is cleared (entities become empty and title is reset)
   const prevEntityCountRef = React.useRef(network.entities.length);
+  const prevStorageKeyRef = React.useRef(storageKey);
   useEffect(() => {
-    // Detect network clear: entities went from >0 to 0 and title is reset
-    if (prevEntityCountRef.current > 0 && network.entities.length === 0 && network.title === 'Untitled Network') {
+    // Detect network clear: entities went from >0 to 0 and title is reset (switching tabs is not a clear)
+    const sameTab = prevStorageKeyRef.current === storageKey;
+    prevStorageKeyRef.current = storageKey;
+    if (sameTab && prevEntityCountRef.current > 0 && network.entities.length === 0 && network.title === 'Untitled Network') {
       setMessages([{
         id: 'welcome-fresh',
         role: 'assistant',
@@ -462,7 +479,7 @@ export default function InvestigativeAssistant({
       }]);
     }
     prevEntityCountRef.current = network.entities.length;
-  }, [network.entities.length, network.title]);
+  }, [network.entities.length, network.title, storageKey]);
   
   // Add a welcome message on first open (only if no messages loaded)
   useEffect(() => {
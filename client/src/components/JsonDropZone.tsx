@@ -3,41 +3,60 @@
  * 
  * Provides drag-and-drop functionality for importing files:
  * - JSON files → Direct import dialog (merge/replace network data)
+ * - FollowTheMoney JSON lines (Aleph, OpenSanctions) → The same import dialog
+ * - GraphML/GEXF files → Column mapping, then the same import dialog
+ * - CSV/TSV files → Column mapping wizard, merged like any other import
  * - PDF files → Extract text and send to AI for entity extraction
- * - Other documents → Future support for DOCX, XLSX, CSV
+ * - Other documents → Future support for DOCX, XLSX
  * 
  * Shows a visual overlay when dragging files over the canvas.
  */
 
 import { useState, useCallback, useEffect } from 'react';
-import { FileJson, Upload, FileText, Loader2 } from 'lucide-react';
+import { FileJson, Upload, FileText, Loader2, Waypoints, Sheet, Coins } from 'lucide-react';
 import { toast } from 'sonner';
 import ImportJsonDialog, { validateImportData, parseImportData } from './ImportJsonDialog';
+import ImportGraphFileDialog from './ImportGraphFileDialog';
+import CsvImportWizard from './CsvImportWizard';
 import { useNetwork } from '@/contexts/NetworkContext';
-import { generateId, Entity, Relationship } from '@/lib/store';
+import { generateId, initialNetwork, Entity, Relationship } from '@/lib/store';
+import { mergeEntityTypes } from '@/lib/entity-types';
+import { mergeRelationshipTypes } from '@/lib/relationship-types';
 import { extractTextFromPdf, isPdfFile } from '@/lib/pdf-utils';
 import api, { DocumentTooLargeError } from '@/lib/api';
+import { ParsedGraphFile, getGraphFileFormat, parseGraphFile } from '@/lib/graph-formats';
+import { CsvTable, parseCsv } from '@/lib/csv-import';
+import { ftmToImportData, isFtmFileName, looksLikeFtm, parseFtm } from '@/lib/ftm';
 
 interface FileDropZoneProps {
   children: React.ReactNode;
 }
 
 // Supported file types
-const SUPPORTED_EXTENSIONS = ['.json', '.pdf', '.docx', '.xlsx', '.csv', '.txt'];
+const SUPPORTED_EXTENSIONS = ['.json', '.ftm', '.ijson', '.jsonl', '.graphml', '.gexf', '.csv', '.tsv', '.pdf', '.docx', '.xlsx', '.txt'];
 const MAX_PDF_PAGES = 20;
 
 // Get file type category
-function getFileCategory(file: File): 'json' | 'pdf' | 'document' | 'unsupported' {
+function getFileCategory(file: File): 'json' | 'ftm' | 'graph' | 'spreadsheet' | 'pdf' | 'document' | 'unsupported' {
   const name = file.name.toLowerCase();
   const type = file.type;
   
+  if (isFtmFileName(name)) {
+    return 'ftm';
+  }
   if (name.endsWith('.json') || type === 'application/json') {
     return 'json';
   }
+  if (getGraphFileFormat(name)) {
+    return 'graph';
+  }
+  if (name.endsWith('.csv') || name.endsWith('.tsv')) {
+    return 'spreadsheet';
+  }
   if (name.endsWith('.pdf') || type === 'application/pdf') {
     return 'pdf';
   }
-  if (name.endsWith('.docx') || name.endsWith('.xlsx') || name.endsWith('.csv') || name.endsWith('.txt')) {
+  if (name.endsWith('.docx') || name.endsWith('.xlsx') || name.endsWith('.txt')) {
     return 'document';
   }
   return 'unsupported';
@@ -47,6 +66,8 @@ export default function FileDropZone({ children }: FileDropZoneProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [showImportDialog, setShowImportDialog] = useState(false);
   const [importedData, setImportedData] = useState<ReturnType<typeof parseImportData>>(null);
+  const [graphFile, setGraphFile] = useState<{ name: string; parsed: ParsedGraphFile } | null>(null);
+  const [csvFile, setCsvFile] = useState<{ name: string; table: CsvTable } | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingStatus, setProcessingStatus] = useState<string | null>(null);
   const { network, dispatch, addEntitiesAndRelationships, clearNetwork } = useNetwork();
@@ -81,10 +102,46 @@ export default function FileDropZone({ children }: FileDropZoneProps) {
     e.stopPropagation();
   }, []);
   
+  // Process FollowTheMoney entities: one JSON object per line
+  const processFtmText = useCallback((text: string, fileName: string) => {
+    try {
+      const { entities, invalidLines } = parseFtm(text);
+      const { data, skippedSchemata } = ftmToImportData(entities, fileName.replace(/\.(ftm\.json|ftm|ijson|jsonl|json)$/i, ''));
+      const parsed = parseImportData(data);
+      if (!parsed || parsed.entities.length === 0) {
+        toast.error(`No people, companies or other entities found in ${fileName}`);
+        return;
+      }
+      
+      const skipped = Object.entries(skippedSchemata);
+      if (skipped.length > 0 || invalidLines > 0) {
+        toast.info('Some FollowTheMoney records were skipped', {
+          description: [
+            ...skipped.map(([schema, count]) => `${count} ${schema}`),
+            ...(invalidLines > 0 ? [`${invalidLines} unreadable ${invalidLines === 1 ? 'line' : 'lines'}`] : []),
+          ].join(', '),
+        });
+      }
+      
+      setImportedData(parsed);
+      setShowImportDialog(true);
+    } catch (error) {
+      console.error('FtM parse error:', error);
+      toast.error('Failed to read FollowTheMoney file', {
+        description: error instanceof Error ? error.message : 'Invalid JSON',
+      });
+    }
+  }, []);
+  
   // Process JSON file
   const processJsonFile = useCallback(async (file: File) => {
     try {
       const text = await file.text();
+      // Aleph and OpenSanctions exports are often named .json
+      if (looksLikeFtm(text)) {
+        processFtmText(text, file.name);
+        return;
+      }
       const data = JSON.parse(text);
       
       // Validate the data
@@ -117,6 +174,36 @@ export default function FileDropZone({ children }: FileDropZoneProps) {
         description: error instanceof Error ? error.message : 'Invalid JSON syntax',
       });
     }
+  }, [processFtmText]);
+  
+  // Process GraphML/GEXF file: map its columns before importing
+  const processGraphFile = useCallback(async (file: File) => {
+    const format = getGraphFileFormat(file.name)!;
+    try {
+      const parsed = parseGraphFile(await file.text(), format);
+      if (parsed.nodes.length === 0) {
+        toast.error(`No nodes found in ${file.name}`);
+        return;
+      }
+      setGraphFile({ name: file.name, parsed });
+    } catch (error) {
+      console.error('Graph file parse error:', error);
+      toast.error(`Failed to read ${format === 'gexf' ? 'GEXF' : 'GraphML'} file`, {
+        description: error instanceof Error ? error.message : 'Invalid XML',
+      });
+    }
+  }, []);
+  
+  // Process CSV/TSV file: map its columns in the wizard
+  const processSpreadsheetFile = useCallback(async (file: File) => {
+    const table = parseCsv(await file.text());
+    if (table.rows.length === 0) {
+      toast.error(`No rows found in ${file.name}`, {
+        description: 'The first line should hold column headers, followed by one row per entity or relationship.',
+      });
+      return;
+    }
+    setCsvFile({ name: file.name, table });
   }, []);
   
   // Process PDF file
@@ -219,7 +306,7 @@ export default function FileDropZone({ children }: FileDropZoneProps) {
     
     // For now, show a message about upcoming support
     toast.info(`${ext?.toUpperCase()} support coming soon`, {
-      description: 'Currently only JSON and PDF files are fully supported. Drop a PDF or JSON file to import.',
+      description: 'Currently JSON, FollowTheMoney, GraphML, GEXF, CSV, TSV and PDF files are supported.',
     });
   }, []);
   
@@ -244,6 +331,15 @@ export default function FileDropZone({ children }: FileDropZoneProps) {
       case 'json':
         await processJsonFile(file);
         break;
+      case 'ftm':
+        processFtmText(await file.text(), file.name);
+        break;
+      case 'graph':
+        await processGraphFile(file);
+        break;
+      case 'spreadsheet':
+        await processSpreadsheetFile(file);
+        break;
       case 'pdf':
         await processPdfFile(file);
         break;
@@ -256,46 +352,40 @@ export default function FileDropZone({ children }: FileDropZoneProps) {
         });
         break;
     }
-  }, [isProcessing, processJsonFile, processPdfFile, processDocumentFile]);
+  }, [isProcessing, processJsonFile, processFtmText, processGraphFile, processSpreadsheetFile, processPdfFile, processDocumentFile]);
   
   // Handle import action from dialog
   const handleImport = useCallback((mode: 'merge' | 'replace') => {
     if (!importedData) return;
     
     if (mode === 'replace') {
-      // Clear existing network and set new data
-      dispatch({ type: 'CLEAR_NETWORK' });
-      
-      // Set title and description if provided
-      if (importedData.title) {
-        dispatch({ type: 'SET_TITLE', payload: importedData.title });
-      }
-      if (importedData.description) {
-        dispatch({ type: 'SET_DESCRIPTION', payload: importedData.description });
-      }
-      if (importedData.investigationContext) {
-        dispatch({ type: 'SET_INVESTIGATION_CONTEXT', payload: importedData.investigationContext });
-      }
-      
-      // Add all entities
-      importedData.entities.forEach(entity => {
-        dispatch({ type: 'ADD_ENTITY', payload: entity });
-      });
-      
-      // Add all relationships
-      importedData.relationships.forEach(rel => {
-        dispatch({ type: 'ADD_RELATIONSHIP', payload: rel });
+      // Replace the network in one step, so a single undo brings the old one back
+      dispatch({
+        type: 'IMPORT_NETWORK',
+        payload: {
+          mode,
+          network: {
+            ...initialNetwork,
+            title: importedData.title || initialNetwork.title,
+            description: importedData.description || initialNetwork.description,
+            investigationContext: importedData.investigationContext,
+            mergeDecisions: importedData.mergeDecisions,
+            entityTypes: importedData.entityTypes,
+            relationshipTypes: importedData.relationshipTypes,
+            entities: importedData.entities,
+            relationships: importedData.relationships,
+          },
+        },
       });
       
       toast.success(`Imported ${importedData.entities.length} entities and ${importedData.relationships.length} relationships`);
     } else {
       // Merge mode - add only new entities and relationships
       const existingEntityIds = new Set(network.entities.map(e => e.id));
-      const existingEntityNames = new Set(network.entities.map(e => e.name.toLowerCase()));
+      const existingByName = new Map(network.entities.map(e => [e.name.toLowerCase(), e]));
       const existingRelIds = new Set(network.relationships.map(r => r.id));
-      
-      let addedEntities = 0;
-      let addedRelationships = 0;
+      const entities: Entity[] = [];
+      const relationships: Relationship[] = [];
       let skippedEntities = 0;
       
       // Map old IDs to new IDs for entities that get renamed
@@ -303,12 +393,10 @@ export default function FileDropZone({ children }: FileDropZoneProps) {
       
       // Add entities, skipping duplicates by name
       importedData.entities.forEach(entity => {
-        if (existingEntityNames.has(entity.name.toLowerCase())) {
-          // Find the existing entity to map the ID
-          const existing = network.entities.find(e => e.name.toLowerCase() === entity.name.toLowerCase());
-          if (existing) {
-            idMapping.set(entity.id, existing.id);
-          }
+        const existing = existingByName.get(entity.name.toLowerCase());
+        if (existing) {
+          // Map the ID to the entity we already have
+          idMapping.set(entity.id, existing.id);
           skippedEntities++;
           return;
         }
@@ -320,27 +408,22 @@ export default function FileDropZone({ children }: FileDropZoneProps) {
           idMapping.set(entity.id, newId);
         }
         
-        dispatch({ 
-          type: 'ADD_ENTITY', 
-          payload: { ...entity, id: newId } 
-        });
+        const added = { ...entity, id: newId };
+        entities.push(added);
         existingEntityIds.add(newId);
-        existingEntityNames.add(entity.name.toLowerCase());
-        addedEntities++;
+        existingByName.set(entity.name.toLowerCase(), added);
       });
       
       // Add relationships, updating IDs as needed
+      const connected = new Set(network.relationships.map(r => [r.source, r.target].sort().join('|')));
       importedData.relationships.forEach(rel => {
         // Map source and target IDs
         const sourceId = idMapping.get(rel.source) || rel.source;
         const targetId = idMapping.get(rel.target) || rel.target;
         
         // Skip if relationship already exists (same source-target pair)
-        const existingRel = network.relationships.find(
-          r => (r.source === sourceId && r.target === targetId) ||
-               (r.source === targetId && r.target === sourceId)
-        );
-        if (existingRel) return;
+        const pairKey = [sourceId, targetId].sort().join('|');
+        if (connected.has(pairKey)) return;
         
         // Generate new ID if needed
         let newId = rel.id;
@@ -348,19 +431,33 @@ export default function FileDropZone({ children }: FileDropZoneProps) {
           newId = generateId();
         }
         
-        dispatch({
-          type: 'ADD_RELATIONSHIP',
-          payload: { ...rel, id: newId, source: sourceId, target: targetId },
-        });
-        addedRelationships++;
+        relationships.push({ ...rel, id: newId, source: sourceId, target: targetId });
+        existingRelIds.add(newId);
+      });
+      
+      dispatch({
+        type: 'IMPORT_NETWORK',
+        payload: {
+          mode,
+          network: {
+            ...network,
+            entities: [...network.entities, ...entities],
+            relationships: [...network.relationships, ...relationships],
+            // Bring in custom entity and relationship types, keeping ours where IDs clash
+            entityTypes: importedData.entityTypes
+              ? mergeEntityTypes(network.entityTypes, importedData.entityTypes)
+              : network.entityTypes,
+            relationshipTypes: mergeRelationshipTypes(network.relationshipTypes, importedData.relationshipTypes),
+          },
+        },
       });
       
       if (skippedEntities > 0) {
-        toast.success(`Added ${addedEntities} entities and ${addedRelationships} relationships`, {
+        toast.success(`Added ${entities.length} entities and ${relationships.length} relationships`, {
           description: `${skippedEntities} duplicate entities were skipped`,
         });
       } else {
-        toast.success(`Added ${addedEntities} entities and ${addedRelationships} relationships`);
+        toast.success(`Added ${entities.length} entities and ${relationships.length} relationships`);
       }
     }
     
@@ -428,6 +525,15 @@ export default function FileDropZone({ children }: FileDropZoneProps) {
               <span className="px-2 py-1 bg-amber-200/50 rounded text-amber-700 flex items-center gap-1">
                 <FileJson className="w-3 h-3" /> JSON
               </span>
+              <span className="px-2 py-1 bg-amber-200/50 rounded text-amber-700 flex items-center gap-1">
+                <Coins className="w-3 h-3" /> FollowTheMoney
+              </span>
+              <span className="px-2 py-1 bg-amber-200/50 rounded text-amber-700 flex items-center gap-1">
+                <Waypoints className="w-3 h-3" /> GraphML / GEXF
+              </span>
+              <span className="px-2 py-1 bg-amber-200/50 rounded text-amber-700 flex items-center gap-1">
+                <Sheet className="w-3 h-3" /> CSV / TSV
+              </span>
               <span className="px-2 py-1 bg-amber-200/50 rounded text-amber-700 flex items-center gap-1">
                 <FileText className="w-3 h-3" /> PDF
               </span>
@@ -457,6 +563,25 @@ export default function FileDropZone({ children }: FileDropZoneProps) {
         </div>
       )}
       
+      {/* Column mapping for GraphML/GEXF */}
+      <ImportGraphFileDialog
+        open={!!graphFile}
+        onOpenChange={(open) => !open && setGraphFile(null)}
+        file={graphFile}
+        onContinue={(data) => {
+          setGraphFile(null);
+          setImportedData(data);
+          setShowImportDialog(true);
+        }}
+      />
+      
+      {/* Column mapping for CSV/TSV */}
+      <CsvImportWizard
+        open={!!csvFile}
+        onOpenChange={(open) => !open && setCsvFile(null)}
+        file={csvFile}
+      />
+      
       {/* Import dialog */}
       <ImportJsonDialog
         open={showImportDialog}
@@ -11,7 +11,8 @@ import { Loader2, Network, Trash2, Calendar } from 'lucide-react';
 import { toast } from 'sonner';
 import api from '@/lib/api';
 import { useNetwork } from '@/contexts/NetworkContext';
-import { generateId, Entity, Relationship } from '@/lib/store';
+import { generateId, Entity, Relationship, MergeDecision, NetworkClusters } from '@/lib/store';
+import { remapAnnotations } from '@/lib/annotations';
 
 interface SavedNetwork {
   id: number;
@@ -26,7 +27,7 @@ interface MyNetworksModalProps {
 }
 
 export default function MyNetworksModal({ open, onOpenChange }: MyNetworksModalProps) {
-  const { dispatch, clearNetwork, addEntitiesAndRelationships } = useNetwork();
+  const { network: currentNetwork, activeTabId, dispatchToTab, clearNetwork, openTab } = useNetwork();
   const [networks, setNetworks] = useState<SavedNetwork[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [loadingId, setLoadingId] = useState<number | null>(null);
@@ -59,24 +60,28 @@ export default function MyNetworksModal({ open, onOpenChange }: MyNetworksModalP
       
       // Convert to our format
       const apiIdToOurId = new Map<string, string>();
+      // Older graphs point relationships at entity names rather than IDs
+      const nameToOurId = new Map<string, string>();
       
       const entities: Entity[] = graph.entities.map((e) => {
         const ourId = generateId();
         apiIdToOurId.set(e.id, ourId);
-        apiIdToOurId.set(e.name.toLowerCase(), ourId);
+        if (!nameToOurId.has(e.name.toLowerCase())) nameToOurId.set(e.name.toLowerCase(), ourId);
         
         return {
           id: ourId,
           name: e.name,
           type: (e.type?.toLowerCase() || 'organization') as Entity['type'],
+          description: e.description,
+          attributes: e.attributes,
           importance: 5,
         };
       });
 
       const relationships: Relationship[] = graph.relationships
         .map((r) => {
-          const sourceId = apiIdToOurId.get(r.source) || apiIdToOurId.get(r.source.toLowerCase());
-          const targetId = apiIdToOurId.get(r.target) || apiIdToOurId.get(r.target.toLowerCase());
+          const sourceId = apiIdToOurId.get(r.source) || nameToOurId.get(r.source.toLowerCase());
+          const targetId = apiIdToOurId.get(r.target) || nameToOurId.get(r.target.toLowerCase());
           
           if (!sourceId || !targetId) return null;
           
@@ -85,14 +90,51 @@ export default function MyNetworksModal({ open, onOpenChange }: MyNetworksModalP
             source: sourceId,
             target: targetId,
             type: r.type,
+            label: r.label,
+            ownership: r.ownership,
+            startDate: r.start_date,
+            endDate: r.end_date,
           } as Relationship;
         })
         .filter((r): r is Relationship => r !== null);
 
-      // Clear and load
-      clearNetwork();
-      dispatch({ type: 'UPDATE_NETWORK', payload: { title: graph.title, description: graph.description } });
-      addEntitiesAndRelationships(entities, relationships);
+      // Re-point merge decisions at the freshly generated entity IDs
+      const mergeDecisions = (graph.merge_decisions || []).map((d): MergeDecision => ({
+        ...d,
+        entityIds: [
+          apiIdToOurId.get(d.entityIds[0]) || d.entityIds[0],
+          apiIdToOurId.get(d.entityIds[1]) || d.entityIds[1],
+        ],
+      }));
+
+      // Communities keep their collapsed state; members follow the new IDs
+      const clusters: NetworkClusters | undefined = graph.clusters && {
+        ...graph.clusters,
+        clusters: graph.clusters.clusters.map(c => ({
+          ...c,
+          memberIds: c.memberIds.map(id => apiIdToOurId.get(id)).filter((id): id is string => !!id),
+        })),
+      };
+
+      const layout = graph.layout && {
+        ...graph.layout,
+        centerId: graph.layout.centerId && apiIdToOurId.get(graph.layout.centerId),
+      };
+
+      const annotations = graph.annotations && remapAnnotations(graph.annotations, apiIdToOurId);
+
+      // Open alongside the current investigation in a new tab, or load into an empty one
+      let tabId = activeTabId;
+      if (currentNetwork.entities.length > 0) {
+        tabId = openTab();
+      } else {
+        clearNetwork();
+      }
+      dispatchToTab(tabId, {
+        type: 'UPDATE_NETWORK',
+        payload: { title: graph.title, description: graph.description, mergeDecisions, entityTypes: graph.entity_types, relationshipTypes: graph.relationship_types, clusters, layout, annotations },
+      });
+      dispatchToTab(tabId, { type: 'ADD_ENTITIES_AND_RELATIONSHIPS', payload: { entities, relationships } });
       
       toast.success(`Loaded "${graph.title}"`);
       onOpenChange(false);
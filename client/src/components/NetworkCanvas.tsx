@@ -11,23 +11,51 @@
  *   - Enabled @sigma/node-border for hollow/solid node distinction
  *   - Varied edge curvatures for Lombardi-style sweeping arcs
  *   - Paper texture overlay on canvas
- *   - Animated ForceAtlas2 layout settling
+ *   - Animated ForceAtlas2 layout settling, computed in a Web Worker
  *   - Improved hover/selection visual feedback
  *   - Edge labels on hover (always, not just when toggled)
+ * 
+ * Above LARGE_NETWORK_THRESHOLD entities, edges are drawn straight and hidden
+ * while panning, labels thin out until zoomed in, and nodes appear without
+ * animation, so imported datasets of 20,000 entities stay interactive.
+ *
+ * An ego focus narrows the view to an entity's neighbourhood, fading or
+ * hiding the rest of the network.
+ *
+ * Detected communities can be colored, collapsed into a single node, and
+ * pull together in the force layout.
+ *
+ * Annotations (notes, group boxes and arrows) are drawn over the canvas by
+ * the annotation layer and saved with the network.
  */
 
-import React, { useEffect, useRef, useCallback, useState } from 'react';
+import React, { useEffect, useRef, useCallback, useState, useMemo } from 'react';
 import Graph from 'graphology';
 import Sigma from 'sigma';
 import { createNodeBorderProgram } from '@sigma/node-border';
 import EdgeCurveProgram, { EdgeCurvedArrowProgram, indexParallelEdgesIndex } from '@sigma/edge-curve';
 import forceAtlas2 from 'graphology-layout-forceatlas2';
+import FA2Layout from 'graphology-layout-forceatlas2/worker';
+import { animateNodes } from 'sigma/utils';
 import { useNetwork } from '@/contexts/NetworkContext';
 import { useCanvasTheme, shouldUseSecondaryColor } from '@/contexts/CanvasThemeContext';
 import { Entity, Relationship, generateId } from '@/lib/store';
+import { setLayoutPositionsProvider, LayoutPositions } from '@/lib/drafts';
+import { getEntityTypeDefinition } from '@/lib/entity-types';
+import { getRelationshipTypeDefinition } from '@/lib/relationship-types';
+import { formatPercentage } from '@/lib/ownership';
+import { applyCollapsedClusters, getClusterMembership, isClusterNodeId, CLUSTER_NODE_PREFIX } from '@/lib/communities';
+import { applyTimeFilter, getDateBounds } from '@/lib/timeline';
+import { computeLayout, LayoutInput, NetworkLayout } from '@/lib/layouts';
+import { EgoNetwork, extractFocusNetwork, getCurrentFocus, getEgoNetwork } from '@/lib/focus';
+import { toast } from 'sonner';
 import EntityCardV2 from './EntityCardV2';
 import { RelationshipCard } from './RelationshipCard';
-import { ZoomControls, AddEntityDialog, EmptyState, isHollowNode } from './canvas';
+import TimelineDialog from './TimelineDialog';
+import {
+  ZoomControls, AddEntityDialog, EmptyState, HighlightBanner, TimeSlider, FocusBar, AnnotationLayer, isHollowNode, createNodeShapeProgram,
+  RENDER_SETTINGS, getEdgeType, isLargeNetwork,
+} from './canvas';
 import { useCanvasDimensions } from './canvas/hooks/useCanvasDimensions';
 
 // ============================================
@@ -81,6 +109,15 @@ const SelectedNodeProgram = createNodeBorderProgram({
   ],
 });
 
+// Custom entity types can use these shapes instead of circles
+const SquareNodeProgram = createNodeShapeProgram('square');
+const DiamondNodeProgram = createNodeShapeProgram('diamond');
+const TriangleNodeProgram = createNodeShapeProgram('triangle');
+
+// Links within a detected community pull this much harder in the force
+// layout, so communities settle into visible groups
+const COMMUNITY_LINK_WEIGHT = 3;
+
 interface NetworkCanvasProps {
   onNarrativeEvent?: (message: string) => void;
 }
@@ -90,17 +127,51 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
   const sigmaContainerRef = useRef<HTMLDivElement>(null);
   const sigmaRef = useRef<Sigma | null>(null);
   const graphRef = useRef<Graph>(new Graph({ multi: true }));
-  const layoutRunningRef = useRef(false);
-  const layoutAnimFrameRef = useRef<number | null>(null);
+  const forceLayoutRef = useRef<FA2Layout | null>(null);
+  const forceLayoutTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const dragStateRef = useRef<{ isDragging: boolean; node: string | null }>({ isDragging: false, node: null });
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
 
   // Hover/selection state stored in refs for use in reducers
   const hoveredNodeRef = useRef<string | null>(null);
   const hoveredEdgeRef = useRef<string | null>(null);
   const selectedNodeRef = useRef<string | null>(null);
+  const highlightRef = useRef<{ nodes: Set<string>; relIds: Set<string> } | null>(null);
+  const focusRef = useRef<EgoNetwork | null>(null); // Faded ego focus
+
+  const {
+    network, selectedEntityId, selectEntity, updateEntity, dispatch,
+    tabs, activeTabId, saveTabView, transferEntities, highlight, setHighlight, nodeSizing,
+    setClusterCollapsed, timeFilter, setTimeFilter, focus, setFocus, openTab,
+    addAnnotation, updateAnnotation, deleteAnnotation,
+  } = useNetwork();
+  const { theme, setTheme, config: themeConfig, showAllLabels, showArrows, getEntityColor, isEntityTypeVisible } = useCanvasTheme();
+
+  // Tab state read from Sigma handlers registered once at init; the network
+  // actions are bound to the active tab, so they change with it
+  const activeTabIdRef = useRef(activeTabId);
+  const transferEntitiesRef = useRef(transferEntities);
+  const setClusterCollapsedRef = useRef(setClusterCollapsed);
+  const selectEntityRef = useRef(selectEntity);
+  const updateEntityRef = useRef(updateEntity);
+  activeTabIdRef.current = activeTabId;
+  transferEntitiesRef.current = transferEntities;
+  setClusterCollapsedRef.current = setClusterCollapsed;
+  selectEntityRef.current = selectEntity;
+  updateEntityRef.current = updateEntity;
+
+  // Stop a running ForceAtlas2 layout where it is
+  const stopForceLayout = useCallback(() => {
+    if (forceLayoutTimerRef.current) {
+      clearTimeout(forceLayoutTimerRef.current);
+      forceLayoutTimerRef.current = null;
+    }
+    forceLayoutRef.current?.kill();
+    forceLayoutRef.current = null;
+  }, []);
 
-  const { network, selectedEntityId, selectEntity, updateEntity, dispatch } = useNetwork();
-  const { theme, config: themeConfig, showAllLabels, showArrows, getEntityColor, isEntityTypeVisible } = useCanvasTheme();
+  // Where entities inside a collapsed cluster were, so they expand back there
+  const parkedPositionsRef = useRef<LayoutPositions>({});
 
   // Track previous entities for new-node detection
   const prevEntitiesRef = useRef<Set<string>>(new Set());
@@ -108,61 +179,115 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
 
   // UI state
   const [showAddEntity, setShowAddEntity] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
   const [cardPosition, setCardPosition] = useState<{ x: number; y: number } | null>(null);
   const [relationshipCardPosition, setRelationshipCardPosition] = useState<{ x: number; y: number } | null>(null);
   const [selectedRelationship, setSelectedRelationship] = useState<Relationship | null>(null);
   const [, forceUpdate] = useState(0); // Force re-render for card display
+  const [sigmaInstance, setSigmaInstance] = useState<Sigma | null>(null); // For the annotation layer
 
   const dimensions = useCanvasDimensions(containerRef);
 
+  // Large networks render with straight edges and fewer labels
+  const isLarge = isLargeNetwork(network.entities.length);
+
   // Keep selectedNodeRef in sync
   useEffect(() => {
     selectedNodeRef.current = selectedEntityId || null;
     sigmaRef.current?.refresh();
   }, [selectedEntityId]);
 
+  // Keep highlightRef in sync with the analysis highlight
+  useEffect(() => {
+    highlightRef.current = highlight
+      ? { nodes: new Set(highlight.entityIds), relIds: new Set(highlight.relationshipIds) }
+      : null;
+    sigmaRef.current?.refresh();
+  }, [highlight]);
+
+  // The focused neighbourhood, among the entities the type and time filters show
+  const currentFocus = getCurrentFocus(focus);
+  const egoNetwork = useMemo(() => {
+    if (!currentFocus) return null;
+    const timeView = applyTimeFilter(
+      network.entities.filter(e => isEntityTypeVisible(e.type)),
+      network.relationships,
+      timeFilter
+    );
+    return getEgoNetwork(timeView.entities, timeView.relationships, currentFocus);
+  }, [currentFocus, network.entities, network.relationships, timeFilter, isEntityTypeVisible]);
+  // Hiding the rest rebuilds the graph; fading only restyles it
+  const hiddenFocus = focus?.hideOthers ? egoNetwork : null;
+
+  useEffect(() => {
+    focusRef.current = focus?.hideOthers ? null : egoNetwork;
+    sigmaRef.current?.refresh();
+  }, [egoNetwork, focus?.hideOthers]);
+
   // ============================================
   // Theme-aware helper functions
   // ============================================
 
+  const getTypeDefinition = useCallback((entity: Entity) => {
+    return getEntityTypeDefinition(network.entityTypes, entity.type);
+  }, [network.entityTypes]);
+
   const getNodeSize = useCallback((entity: Entity): number => {
+    // An analysis metric mapped to size overrides importance in every theme,
+    // over a wider range so the differences stand out
+    const score = nodeSizing?.scores[entity.id];
+    if (score !== undefined) {
+      const min = themeConfig.nodeBaseSize * 0.75;
+      const max = themeConfig.nodeMaxSize * 1.75;
+      return min + score * (max - min);
+    }
     if (themeConfig.isLombardiStyle) {
-      return isHollowNode(entity.type) ? themeConfig.nodeHollowSize : themeConfig.nodeSolidSize;
+      return isHollowNode(entity.type, getTypeDefinition(entity)) ? themeConfig.nodeHollowSize : themeConfig.nodeSolidSize;
     }
     const importance = entity.importance || 5;
     const scale = (importance - 1) / 9;
     return themeConfig.nodeBaseSize + scale * (themeConfig.nodeMaxSize - themeConfig.nodeBaseSize);
-  }, [themeConfig]);
+  }, [themeConfig, getTypeDefinition, nodeSizing]);
+
+  // Cluster color for an entity when the network is colored by community
+  const clusterMembership = useMemo(() => getClusterMembership(network.clusters), [network.clusters]);
+  const getClusterColor = useCallback((entity: Entity): string | undefined => {
+    return network.clusters?.colorNodes ? clusterMembership.get(entity.id)?.color : undefined;
+  }, [network.clusters, clusterMembership]);
 
   const getNodeColor = useCallback((entity: Entity): string => {
+    const clusterColor = getClusterColor(entity);
     if (themeConfig.isLombardiStyle) {
       // Hollow nodes: fill with background color (creates ring effect)
       // Solid nodes: fill with stroke color
-      return isHollowNode(entity.type) ? themeConfig.background : themeConfig.nodeStroke;
+      return isHollowNode(entity.type, getTypeDefinition(entity)) ? themeConfig.background : clusterColor || themeConfig.nodeStroke;
     }
+    if (clusterColor) return clusterColor;
     if (themeConfig.useEntityColors) {
-      return getEntityColor(entity.type);
+      return getEntityColor(entity.type, getTypeDefinition(entity));
     }
     return themeConfig.nodeFill;
-  }, [themeConfig, getEntityColor]);
+  }, [themeConfig, getEntityColor, getTypeDefinition, getClusterColor]);
 
   const getNodeBorderColor = useCallback((entity: Entity): string => {
+    const clusterColor = getClusterColor(entity);
+    if (clusterColor) return clusterColor;
     if (themeConfig.isLombardiStyle) {
       return themeConfig.nodeStroke;
     }
     if (themeConfig.useEntityColors) {
-      return getEntityColor(entity.type);
+      return getEntityColor(entity.type, getTypeDefinition(entity));
     }
     return themeConfig.nodeStroke;
-  }, [themeConfig, getEntityColor]);
+  }, [themeConfig, getEntityColor, getTypeDefinition, getClusterColor]);
 
   const getNodeBorderSize = useCallback((entity: Entity): number => {
     if (themeConfig.isLombardiStyle) {
       // Hollow nodes get a visible border ring; solid nodes get none
-      return isHollowNode(entity.type) ? 0.2 : 0;
+      return isHollowNode(entity.type, getTypeDefinition(entity)) ? 0.2 : 0;
     }
     return 0.12; // Subtle border for non-Lombardi themes
-  }, [themeConfig]);
+  }, [themeConfig, getTypeDefinition]);
 
   const getLinkColor = useCallback((rel: Relationship): string => {
     if (themeConfig.secondaryColor && rel.label) {
@@ -222,6 +347,9 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
         hollow: HollowNodeProgram,
         solid: SolidNodeProgram,
         selected: SelectedNodeProgram,
+        square: SquareNodeProgram,
+        diamond: DiamondNodeProgram,
+        triangle: TriangleNodeProgram,
       },
       edgeProgramClasses: {
         curved: EdgeCurveProgram,
@@ -244,11 +372,33 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
 
         if (node === selected) {
           res.highlightColor = '#B8860B';
-          res.type = 'selected';
+          if (data.shape && data.shape !== 'circle') {
+            // Shaped nodes keep their shape with a gold ring
+            res.borderColor = '#B8860B';
+            res.borderSize = 0.3;
+          } else {
+            res.type = 'selected';
+          }
           res.highlighted = true;
           res.zIndex = 1;
         }
 
+        // Analysis highlight: dim everything outside it
+        const highlighted = highlightRef.current;
+        let dimmed = false;
+        if (highlighted && !hovered) {
+          // A collapsed cluster is highlighted when any member is
+          if (highlighted.nodes.has(node) || data.memberIds?.some((id: string) => highlighted.nodes.has(id))) {
+            res.forceLabel = true;
+            res.zIndex = Math.max(res.zIndex || 0, 1);
+          } else {
+            res.color = res.color + '30';
+            res.borderColor = (res.borderColor || '#000') + '30';
+            res.label = '';
+            dimmed = true;
+          }
+        }
+
         if (hovered) {
           const g = graphRef.current;
           const isNeighbor = g.hasNode(hovered) && (
@@ -264,9 +414,18 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
             res.color = res.color + '30';
             res.borderColor = (res.borderColor || '#000') + '30';
             res.label = '';
+            dimmed = true;
           }
         }
 
+        // Ego focus: fade everything outside the neighbourhood
+        const focused = focusRef.current;
+        if (focused && !dimmed && !focused.entityIds.has(node) && !data.memberIds?.some((id: string) => focused.entityIds.has(id))) {
+          res.color = res.color + '30';
+          res.borderColor = (res.borderColor || '#000') + '30';
+          res.label = '';
+        }
+
         return res;
       },
       // Edge reducer for hover highlighting
@@ -280,6 +439,19 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
           res.forceLabel = true;
         }
 
+        const highlighted = highlightRef.current;
+        let dimmed = false;
+        if (highlighted && !hovered) {
+          if (highlighted.relIds.has(data.relId) || data.memberRelIds?.some((id: string) => highlighted.relIds.has(id))) {
+            res.color = '#B8860B';
+            res.size = (data.size || 1) + 1;
+            res.forceLabel = true;
+          } else {
+            res.color = (res.color || '#000') + '20';
+            dimmed = true;
+          }
+        }
+
         if (hovered) {
           const g = graphRef.current;
           try {
@@ -289,6 +461,7 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
             if (!isConnected) {
               res.color = (res.color || '#000') + '15';
               res.hidden = true;
+              dimmed = true;
             } else {
               // Show labels on connected edges when hovering a node
               res.forceLabel = true;
@@ -299,16 +472,27 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
           }
         }
 
+        const focused = focusRef.current;
+        if (focused && !dimmed && !focused.relationshipIds.has(data.relId) && !data.memberRelIds?.some((id: string) => focused.relationshipIds.has(id))) {
+          res.color = (res.color || '#000') + '20';
+        }
+
         return res;
       },
     });
 
     sigmaRef.current = sigma;
+    setSigmaInstance(sigma);
 
     // ---- Event handlers ----
 
     // Click on node
     sigma.on('clickNode', ({ node, event }) => {
+      // Clicking a collapsed cluster expands it
+      if (isClusterNodeId(node)) {
+        setClusterCollapsedRef.current(node.slice(CLUSTER_NODE_PREFIX.length), false);
+        return;
+      }
       const mouseEvent = event.original as MouseEvent;
       setSelectedRelationship(null);
       setRelationshipCardPosition(null);
@@ -316,16 +500,19 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
         const rect = containerRef.current.getBoundingClientRect();
         setCardPosition({ x: mouseEvent.clientX - rect.left, y: mouseEvent.clientY - rect.top });
       }
-      selectEntity(node);
+      selectEntityRef.current(node);
     });
 
     // Click on edge
     sigma.on('clickEdge', ({ edge, event }) => {
       const mouseEvent = event.original as MouseEvent;
       const attrs = graph.getEdgeAttributes(edge);
-      const relId = attrs.relId;
+      // A bundled link to a collapsed cluster opens only when it stands for one relationship
+      const relId = attrs.memberRelIds
+        ? (attrs.memberRelIds.length === 1 ? attrs.memberRelIds[0] : null)
+        : attrs.relId;
       if (relId) {
-        selectEntity(null);
+        selectEntityRef.current(null);
         setCardPosition(null);
         if (containerRef.current) {
           const rect = containerRef.current.getBoundingClientRect();
@@ -338,7 +525,7 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
 
     // Click on stage (deselect)
     sigma.on('clickStage', () => {
-      selectEntity(null);
+      selectEntityRef.current(null);
       setCardPosition(null);
       setSelectedRelationship(null);
       setRelationshipCardPosition(null);
@@ -371,7 +558,10 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
 
     // Node drag
     sigma.on('downNode', ({ node }) => {
+      // The layout would pull the node out from under the pointer
+      stopForceLayout();
       dragStateRef.current = { isDragging: true, node };
+      dragStartRef.current = { x: graph.getNodeAttribute(node, 'x'), y: graph.getNodeAttribute(node, 'y') };
       sigma.getCamera().disable();
     });
 
@@ -382,12 +572,36 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
       graph.setNodeAttribute(dragStateRef.current.node, 'y', pos.y);
     });
 
-    const mouseUpHandler = () => {
+    const mouseUpHandler = (e: { original: MouseEvent | TouchEvent }) => {
       if (dragStateRef.current.isDragging && dragStateRef.current.node) {
         const node = dragStateRef.current.node;
-        if (graph.hasNode(node)) {
+        // Dropped on another tab in the header: copy the entity (with its relationships) there
+        const point = 'clientX' in e.original ? e.original : e.original.changedTouches?.[0];
+        const dropTarget = point
+          ? document.elementFromPoint(point.clientX, point.clientY)?.closest<HTMLElement>('[data-network-tab-id]')
+          : null;
+        const targetTabId = dropTarget?.dataset.networkTabId;
+        if (isClusterNodeId(node)) {
+          // Members move with the cluster node so they expand where it was dropped
+          if (graph.hasNode(node) && dragStartRef.current) {
+            const attrs = graph.getNodeAttributes(node);
+            const dx = attrs.x - dragStartRef.current.x;
+            const dy = attrs.y - dragStartRef.current.y;
+            (attrs.memberIds as string[]).forEach(id => {
+              const parked = parkedPositionsRef.current[id];
+              if (parked) parkedPositionsRef.current[id] = { x: parked.x + dx, y: parked.y + dy };
+            });
+          }
+        } else if (targetTabId && targetTabId !== activeTabIdRef.current) {
+          transferEntitiesRef.current(activeTabIdRef.current, targetTabId, [node]);
+          // The node stays in this tab, back where the drag started
+          if (graph.hasNode(node) && dragStartRef.current) {
+            graph.mergeNodeAttributes(node, dragStartRef.current);
+          }
+          toast.success(`Copied "${graph.getNodeAttribute(node, 'label')}" to "${dropTarget?.dataset.networkTabTitle}"`);
+        } else if (graph.hasNode(node)) {
           const attrs = graph.getNodeAttributes(node);
-          updateEntity(node, { x: attrs.x, y: attrs.y });
+          updateEntityRef.current(node, { x: attrs.x, y: attrs.y });
         }
       }
       dragStateRef.current = { isDragging: false, node: null };
@@ -396,13 +610,22 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
 
     sigma.getMouseCaptor().on('mouseup', mouseUpHandler);
 
+    // Let draft autosave capture node positions after layout
+    // (entities inside collapsed clusters keep the position they had)
+    setLayoutPositionsProvider(() => {
+      const positions: LayoutPositions = { ...parkedPositionsRef.current };
+      graph.forEachNode((node, attrs) => {
+        if (!isClusterNodeId(node)) positions[node] = { x: attrs.x, y: attrs.y };
+      });
+      return positions;
+    });
+
     return () => {
-      layoutRunningRef.current = false;
-      if (layoutAnimFrameRef.current) {
-        cancelAnimationFrame(layoutAnimFrameRef.current);
-      }
+      setLayoutPositionsProvider(null);
+      stopForceLayout();
       sigma.kill();
       sigmaRef.current = null;
+      setSigmaInstance(null);
     };
   }, []); // Only init once
 
@@ -421,10 +644,150 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
     sigma.setSetting('edgeLabelSize', themeConfig.linkLabelSize);
     sigma.setSetting('edgeLabelColor', { color: themeConfig.linkLabelText || themeConfig.textColor });
     sigma.setSetting('renderEdgeLabels', showAllLabels);
-    sigma.setSetting('defaultEdgeType', showArrows ? 'curvedArrow' : 'curved');
+    sigma.setSetting('defaultEdgeType', getEdgeType(isLarge, showArrows));
+
+    // Cheaper rendering and fewer labels for large networks
+    const renderSettings = RENDER_SETTINGS[isLarge ? 'large' : 'standard'];
+    sigma.setSetting('hideEdgesOnMove', renderSettings.hideEdgesOnMove);
+    sigma.setSetting('labelDensity', renderSettings.labelDensity);
+    sigma.setSetting('labelGridCellSize', renderSettings.labelGridCellSize);
+    sigma.setSetting('labelRenderedSizeThreshold', renderSettings.labelRenderedSizeThreshold);
 
     sigma.refresh();
-  }, [themeConfig, showAllLabels, showArrows]);
+  }, [themeConfig, showAllLabels, showArrows, isLarge]);
+
+  // ============================================
+  // Tab switching: stash the outgoing tab's canvas, restore the incoming one's
+  // ============================================
+
+  const prevTabIdRef = useRef(activeTabId);
+  const restoredPositionsRef = useRef<LayoutPositions>({});
+  const themeRef = useRef(theme);
+  themeRef.current = theme;
+
+  useEffect(() => {
+    const previousTabId = prevTabIdRef.current;
+    if (previousTabId === activeTabId) return;
+    prevTabIdRef.current = activeTabId;
+
+    const graph = graphRef.current;
+    const sigma = sigmaRef.current;
+
+    // Stop any layout still animating the previous tab's graph
+    stopForceLayout();
+
+    const positions: LayoutPositions = {};
+    graph.forEachNode((node, attrs) => {
+      positions[node] = { x: attrs.x, y: attrs.y };
+    });
+    saveTabView(previousTabId, {
+      positions,
+      theme: themeRef.current,
+      camera: sigma?.getCamera().getState(),
+    });
+
+    graph.clear();
+    setCardPosition(null);
+    setRelationshipCardPosition(null);
+    setSelectedRelationship(null);
+
+    const view = tabs.find(t => t.id === activeTabId)?.view ?? {};
+    restoredPositionsRef.current = view.positions ?? {};
+    // Nodes with a saved position aren't new: no grow animation or relayout
+    prevEntitiesRef.current = new Set(Object.keys(restoredPositionsRef.current));
+    if (view.theme && view.theme !== themeRef.current) {
+      setTheme(view.theme);
+    }
+    if (view.camera) {
+      sigma?.getCamera().setState(view.camera);
+    }
+  }, [activeTabId, tabs, saveTabView, setTheme, stopForceLayout]);
+
+  // ============================================
+  // Layouts
+  // ============================================
+
+  // What the fixed layouts place: the nodes and links currently shown
+  const layoutInputRef = useRef<LayoutInput>({ entities: [], relationships: [] });
+  const layoutNodeKeyRef = useRef('');
+  const stopLayoutAnimationRef = useRef<(() => void) | null>(null);
+
+  const stopLayouts = useCallback(() => {
+    stopForceLayout();
+    stopLayoutAnimationRef.current?.();
+    stopLayoutAnimationRef.current = null;
+  }, [stopForceLayout]);
+
+  // Animated ForceAtlas2 from the nodes' current positions. The iterations
+  // run in a Web Worker, so big graphs settle without stalling the UI; nodes
+  // streamed in while it runs join the layout.
+  const runForceLayout = useCallback(() => {
+    const graph = graphRef.current;
+    stopLayouts();
+
+    try {
+      const settings = forceAtlas2.inferSettings(graph);
+      settings.gravity = 1;
+      settings.scalingRatio = 10;
+      settings.barnesHutOptimize = graph.order > 50;
+      settings.strongGravityMode = true;
+      settings.slowDown = 5;
+
+      const layout = new FA2Layout(graph, {
+        settings,
+        getEdgeWeight: (_edge, _attrs, source, target) => {
+          const community = clusterMembership.get(source);
+          return community && community === clusterMembership.get(target) ? COMMUNITY_LINK_WEIGHT : 1;
+        },
+      });
+      forceLayoutRef.current = layout;
+      layout.start();
+
+      // Let it settle for a while, longer for bigger graphs
+      const duration = graph.order < 20 ? 1000 : graph.order < 100 ? 1500 : isLargeNetwork(graph.order) ? 4000 : 2500;
+      forceLayoutTimerRef.current = setTimeout(() => {
+        if (forceLayoutRef.current !== layout) return;
+        stopForceLayout();
+        // Final camera reset after layout settles
+        sigmaRef.current?.getCamera().animatedReset({ duration: 600 });
+      }, duration);
+    } catch (e) {
+      console.warn('ForceAtlas2 layout failed:', e);
+      stopForceLayout();
+    }
+  }, [stopLayouts, stopForceLayout, clusterMembership]);
+
+  // Animate the shown nodes to a fixed layout (layout y grows downwards,
+  // Sigma's upwards)
+  const applyFixedLayout = useCallback((layout: NetworkLayout) => {
+    const graph = graphRef.current;
+    const positions = computeLayout(layoutInputRef.current, layout);
+    if (!positions) return;
+    stopLayouts();
+    const targets: Record<string, { x: number; y: number }> = {};
+    Object.entries(positions).forEach(([id, p]) => {
+      if (graph.hasNode(id)) targets[id] = { x: p.x, y: -p.y };
+    });
+    stopLayoutAnimationRef.current = animateNodes(graph, targets, { duration: 700, easing: 'quadraticInOut' }, () => {
+      stopLayoutAnimationRef.current = null;
+      sigmaRef.current?.getCamera().animatedReset({ duration: 500 });
+    });
+  }, [stopLayouts]);
+
+  // Switching layouts animates from the current positions (a tab switch
+  // brings its own positions, so it doesn't count)
+  const prevLayoutRef = useRef({ tabId: activeTabId, key: '' });
+  useEffect(() => {
+    const key = network.layout ? `${network.layout.algorithm}:${network.layout.centerId || ''}` : '';
+    const previous = prevLayoutRef.current;
+    prevLayoutRef.current = { tabId: activeTabId, key };
+    if (previous.tabId !== activeTabId || previous.key === key || graphRef.current.order === 0) return;
+    if (network.layout) {
+      applyFixedLayout(network.layout);
+    } else {
+      runForceLayout();
+    }
+  }, [network.layout, activeTabId, applyFixedLayout, runForceLayout]);
 
   // ============================================
   // Graph data sync (main effect)
@@ -442,28 +805,81 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
     });
     prevEntitiesRef.current = currentEntityIds;
 
-    // Filter by visible entity types
-    const visibleEntities = network.entities.filter(e => isEntityTypeVisible(e.type));
+    // Filter by visible entity types, the time slider and a hiding focus,
+    // then replace collapsed clusters with one node each
+    const timeView = applyTimeFilter(
+      network.entities.filter(e => isEntityTypeVisible(e.type)),
+      network.relationships,
+      timeFilter
+    );
+    const focusView = hiddenFocus
+      ? {
+          entities: timeView.entities.filter(e => hiddenFocus.entityIds.has(e.id)),
+          relationships: timeView.relationships.filter(r => hiddenFocus.relationshipIds.has(r.id)),
+        }
+      : timeView;
+    const collapsedView = applyCollapsedClusters(focusView.entities, focusView.relationships, network.clusters);
+    const visibleEntities = collapsedView.entities;
     const visibleEntityIds = new Set(visibleEntities.map(e => e.id));
+    const clusterNodeIds = new Set(collapsedView.clusterNodes.map(c => c.id));
 
-    // Remove nodes that should no longer be visible
-    graph.forEachNode((nodeId) => {
-      if (!visibleEntityIds.has(nodeId)) {
+    // Entities going into a collapsed cluster remember where they were
+    graph.forEachNode((nodeId, attrs) => {
+      if (collapsedView.hiddenIn.has(nodeId)) {
+        parkedPositionsRef.current[nodeId] = { x: attrs.x, y: attrs.y };
+      }
+    });
+
+    // Add/update cluster nodes, sized by member count, at their members' center
+    collapsedView.clusterNodes.forEach(({ id, cluster, memberIds }) => {
+      const attrs = {
+        label: `${cluster.label} (${memberIds.length})`,
+        size: themeConfig.nodeMaxSize * (1 + Math.log2(memberIds.length) * 0.3),
+        color: cluster.color + '40',
+        borderColor: cluster.color,
+        borderSize: 0.25,
+        type: 'hollow',
+        shape: 'circle',
+        forceLabel: true,
+        memberIds,
+      };
+      if (graph.hasNode(id)) {
+        graph.mergeNodeAttributes(id, attrs);
+        return;
+      }
+      const positions = memberIds
+        .map(memberId => parkedPositionsRef.current[memberId]
+          ?? network.entities.find(e => e.id === memberId && e.x !== undefined && e.y !== undefined))
+        .filter((p): p is { x: number; y: number } => !!p);
+      const x = positions.length ? positions.reduce((sum, p) => sum + p.x, 0) / positions.length : 0;
+      const y = positions.length ? positions.reduce((sum, p) => sum + p.y, 0) / positions.length : 0;
+      graph.addNode(id, { ...attrs, x, y });
+    });
+
+    // Remove nodes that should no longer be visible; hidden entities that
+    // still exist come back where they were
+    graph.forEachNode((nodeId, attrs) => {
+      if (!visibleEntityIds.has(nodeId) && !clusterNodeIds.has(nodeId)) {
+        if (currentEntityIds.has(nodeId)) parkedPositionsRef.current[nodeId] = { x: attrs.x, y: attrs.y };
         graph.dropNode(nodeId);
       }
     });
 
     // Add/update nodes
-    const hasNewNodes = newEntityIds.size > 0;
+    // Nodes restored with saved positions (e.g. from a draft) keep their layout
+    const needsLayout = visibleEntities.some(e => newEntityIds.has(e.id) && (e.x === undefined || e.y === undefined));
     visibleEntities.forEach((entity, i) => {
       const nodeColor = getNodeColor(entity);
       const borderColor = getNodeBorderColor(entity);
       const borderSize = getNodeBorderSize(entity);
       const size = getNodeSize(entity);
       const isNew = newEntityIds.has(entity.id);
-      const nodeType = themeConfig.isLombardiStyle
-        ? (isHollowNode(entity.type) ? 'hollow' : 'solid')
-        : 'hollow'; // Non-Lombardi themes use hollow with colored fill
+      const { shape } = getTypeDefinition(entity);
+      const nodeType = shape !== 'circle'
+        ? shape
+        : themeConfig.isLombardiStyle
+          ? (isHollowNode(entity.type, getTypeDefinition(entity)) ? 'hollow' : 'solid')
+          : 'hollow'; // Non-Lombardi themes use hollow with colored fill
 
       if (graph.hasNode(entity.id)) {
         graph.mergeNodeAttributes(entity.id, {
@@ -473,29 +889,33 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
           borderColor,
           borderSize,
           type: nodeType,
+          shape,
           entityType: entity.type,
         });
       } else {
         // Spread new nodes in a circle for better initial layout
         const angle = (i / Math.max(visibleEntities.length, 1)) * 2 * Math.PI;
         const radius = 5 + Math.random() * 5;
-        const x = entity.x ?? (Math.cos(angle) * radius);
-        const y = entity.y ?? (Math.sin(angle) * radius);
+        const restored = restoredPositionsRef.current[entity.id] ?? parkedPositionsRef.current[entity.id];
+        const x = restored?.x ?? entity.x ?? (Math.cos(angle) * radius);
+        const y = restored?.y ?? entity.y ?? (Math.sin(angle) * radius);
 
         graph.addNode(entity.id, {
           x,
           y,
-          size: isNew ? size * 0.1 : size,
+          size: isNew && !isLarge ? size * 0.1 : size,
           label: entity.name,
           color: nodeColor,
           borderColor,
           borderSize,
           type: nodeType,
+          shape,
           entityType: entity.type,
         });
 
-        // Animate new nodes growing in with staggered elastic ease
-        if (isNew) {
+        // Animate new nodes growing in with staggered elastic ease (large
+        // networks appear at once)
+        if (isNew && !isLarge) {
           const targetSize = size;
           const startTime = Date.now() + i * 80; // Stagger each node by 80ms
           const duration = 500;
@@ -516,16 +936,11 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
       }
     });
 
-    // Build set of existing edge relIds
-    const existingRelIds = new Set<string>();
-    graph.forEachEdge((_edge, attrs) => {
-      existingRelIds.add(attrs.relId);
-    });
-
     // Remove edges whose relationship no longer exists or whose endpoints are hidden
+    const isShown = (id: string) => visibleEntityIds.has(id) || clusterNodeIds.has(id);
     const validRelIds = new Set<string>();
-    network.relationships.forEach(rel => {
-      if (visibleEntityIds.has(rel.source) && visibleEntityIds.has(rel.target)) {
+    collapsedView.relationships.forEach(rel => {
+      if (isShown(rel.source) && isShown(rel.target)) {
         validRelIds.add(rel.id);
       }
     });
@@ -538,44 +953,44 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
     });
     edgesToDrop.forEach(edge => graph.dropEdge(edge));
 
-    // Rebuild existing relIds after dropping
-    existingRelIds.clear();
-    graph.forEachEdge((_edge, attrs) => {
-      existingRelIds.add(attrs.relId);
-    });
-
     // Add/update edges with varied curvatures
-    const validRels = network.relationships.filter(
-      rel => visibleEntityIds.has(rel.source) && visibleEntityIds.has(rel.target)
+    const validRels = collapsedView.relationships.filter(
+      rel => isShown(rel.source) && isShown(rel.target)
     );
 
     validRels.forEach((rel, i) => {
       const edgeColor = getLinkColor(rel);
       const curvature = computeEdgeCurvature(rel, i, validRels.length);
-
-      if (existingRelIds.has(rel.id)) {
+      // Directed vocabulary types always get arrowheads and undirected ones
+      // never do; types outside the vocabulary follow the Show Arrows toggle
+      const relType = getRelationshipTypeDefinition(network.relationshipTypes, rel.type);
+      const edgeType = getEdgeType(isLarge, relType ? relType.directed : showArrows);
+      const baseLabel = rel.label || relType?.label || rel.type || '';
+      const edgeLabel = rel.ownership ? `${baseLabel} ${formatPercentage(rel.ownership.percentage)}`.trim() : baseLabel;
+      const edgeKey = `edge-${rel.id}`;
+
+      if (graph.hasEdge(edgeKey)) {
         // Update existing edge
-        graph.forEachEdge((edge, attrs) => {
-          if (attrs.relId === rel.id) {
-            graph.mergeEdgeAttributes(edge, {
-              size: themeConfig.linkWidth,
-              color: edgeColor,
-              label: rel.label || rel.type || '',
-              curvature,
-            });
-          }
+        graph.mergeEdgeAttributes(edgeKey, {
+          size: themeConfig.linkWidth,
+          color: edgeColor,
+          label: edgeLabel,
+          type: edgeType,
+          curvature,
+          memberRelIds: collapsedView.linkMembers.get(rel.id),
         });
       } else {
         // Add new edge
         try {
-          graph.addEdgeWithKey(`edge-${rel.id}`, rel.source, rel.target, {
+          graph.addEdgeWithKey(edgeKey, rel.source, rel.target, {
             size: themeConfig.linkWidth,
             color: edgeColor,
-            label: rel.label || rel.type || '',
-            type: showArrows ? 'curvedArrow' : 'curved',
+            label: edgeLabel,
+            type: edgeType,
             curvature,
             relId: rel.id,
             relStatus: rel.status,
+            memberRelIds: collapsedView.linkMembers.get(rel.id),
           });
         } catch (e) {
           // Silently handle duplicate edge keys
@@ -591,56 +1006,41 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
       // Non-critical: parallel edge indexing may fail on some graph states
     }
 
-    // Run animated ForceAtlas2 layout if we have new nodes
-    if (graph.order > 0 && hasNewNodes) {
-      // Cancel any existing layout animation
-      if (layoutAnimFrameRef.current) {
-        cancelAnimationFrame(layoutAnimFrameRef.current);
-      }
-      layoutRunningRef.current = true;
-
-      try {
-        const settings = forceAtlas2.inferSettings(graph);
-        settings.gravity = 1;
-        settings.scalingRatio = 10;
-        settings.barnesHutOptimize = graph.order > 50;
-        settings.strongGravityMode = true;
-        settings.slowDown = 2;
-
-        // Animated layout: run iterations in batches over multiple frames
-        const totalIterations = graph.order < 20 ? 200 : graph.order < 100 ? 150 : 100;
-        const iterationsPerFrame = 5;
-        let completed = 0;
-
-        const animateLayout = () => {
-          if (!layoutRunningRef.current || completed >= totalIterations) {
-            layoutRunningRef.current = false;
-            // Final camera reset after layout settles
-            sigmaRef.current?.getCamera().animatedReset({ duration: 600 });
-            return;
-          }
-
-          const batch = Math.min(iterationsPerFrame, totalIterations - completed);
-          forceAtlas2.assign(graph, { iterations: batch, settings });
-          completed += batch;
-
-          // Gradually slow down the layout for a settling effect
-          settings.slowDown = 2 + (completed / totalIterations) * 8;
-
-          layoutAnimFrameRef.current = requestAnimationFrame(animateLayout);
-        };
-
-        layoutAnimFrameRef.current = requestAnimationFrame(animateLayout);
-      } catch (e) {
-        console.warn('ForceAtlas2 layout failed:', e);
-        layoutRunningRef.current = false;
-      }
+    // Fixed layouts place every node again when nodes come or go; the force
+    // layout runs when there are new unpositioned nodes
+    const nodeKey = graph.nodes().sort().join('|');
+    const nodesChanged = nodeKey !== layoutNodeKeyRef.current;
+    layoutNodeKeyRef.current = nodeKey;
+    layoutInputRef.current = {
+      entities: [
+        ...visibleEntities,
+        ...collapsedView.clusterNodes.map(c => ({ id: c.id, name: c.cluster.label, type: 'cluster' })),
+      ],
+      relationships: validRels,
+    };
+    if (graph.order > 0 && network.layout && nodesChanged) {
+      applyFixedLayout(network.layout);
+    } else if (graph.order > 0 && needsLayout) {
+      runForceLayout();
+    } else if (newEntityIds.size > 0) {
+      sigmaRef.current?.getCamera().animatedReset({ duration: 600 });
     }
 
     sigmaRef.current?.refresh();
-  }, [network.entities, network.relationships, themeConfig, showArrows,
-      getNodeSize, getNodeColor, getNodeBorderColor, getNodeBorderSize,
-      getLinkColor, computeEdgeCurvature, isEntityTypeVisible]);
+  }, [network.entities, network.relationships, network.relationshipTypes, network.clusters, network.layout, timeFilter, hiddenFocus, themeConfig, showArrows,
+      getNodeSize, getNodeColor, getNodeBorderColor, getNodeBorderSize, getTypeDefinition,
+      getLinkColor, computeEdgeCurvature, isEntityTypeVisible, runForceLayout, applyFixedLayout, isLarge]);
+
+  // Newly detected (or cleared) communities regroup the force layout
+  const prevCommunitiesRef = useRef({ tabId: activeTabId, clusters: network.clusters?.clusters });
+  useEffect(() => {
+    const clusters = network.clusters?.clusters;
+    const previous = prevCommunitiesRef.current;
+    prevCommunitiesRef.current = { tabId: activeTabId, clusters };
+    if (previous.tabId !== activeTabId || previous.clusters === clusters) return;
+    if (network.layout || graphRef.current.order === 0) return;
+    runForceLayout();
+  }, [network.clusters, network.layout, activeTabId, runForceLayout]);
 
   // ============================================
   // Update background color when theme changes
@@ -687,6 +1087,17 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
     dispatch({ type: 'ADD_ENTITY', payload: newEntity });
   }, [dispatch]);
 
+  // Open the focused neighbourhood as a network in a new tab
+  const handleSpinOffFocus = useCallback(() => {
+    const spunOff = currentFocus && extractFocusNetwork(network, currentFocus);
+    if (!spunOff) {
+      toast.error('The focused entity is no longer in the network');
+      return;
+    }
+    openTab(spunOff);
+    toast.success(`Opened "${spunOff.title}" in a new tab`);
+  }, [currentFocus, network, openTab]);
+
   // ============================================
   // Resolve selected relationship from network
   // ============================================
@@ -696,6 +1107,7 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
     : null;
 
   const selectedEntity = network.entities.find((e) => e.id === selectedEntityId);
+  const dateBounds = useMemo(() => getDateBounds(network), [network]);
   const showDotPattern = theme === 'colorful';
   const showPaperTexture = themeConfig.isLombardiStyle;
 
@@ -740,6 +1152,38 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
         style={{ width: '100%', height: '100%' }}
       />
 
+      {/* Notes, group boxes and arrows */}
+      <AnnotationLayer
+        sigma={sigmaInstance}
+        annotations={network.annotations || []}
+        style={{
+          color: themeConfig.annotationColor,
+          fontFamily: themeConfig.annotationFont,
+          fontSize: Math.round(themeConfig.labelSize * 1.4),
+          background: themeConfig.background,
+          lineWidth: 1.5,
+        }}
+        onAdd={addAnnotation}
+        onUpdate={updateAnnotation}
+        onDelete={deleteAnnotation}
+      />
+
+      {/* Analysis highlight */}
+      {highlight && (
+        <HighlightBanner label={highlight.label} onClear={() => setHighlight(null)} />
+      )}
+
+      {/* Ego focus */}
+      {focus && (
+        <FocusBar
+          trail={focus}
+          getName={(id) => network.entities.find(e => e.id === id)?.name || 'Removed entity'}
+          entityCount={egoNetwork ? egoNetwork.entityIds.size : null}
+          onChange={setFocus}
+          onSpinOff={handleSpinOffFocus}
+        />
+      )}
+
       {/* Zoom controls */}
       <ZoomControls
         onZoomIn={handleZoomIn}
@@ -747,6 +1191,17 @@ export default function NetworkCanvas({ onNarrativeEvent }: NetworkCanvasProps =
         onFitView={handleFitView}
       />
 
+      {/* Time slider, once relationships carry dates */}
+      {dateBounds && (
+        <TimeSlider
+          bounds={dateBounds}
+          filter={timeFilter}
+          onChange={setTimeFilter}
+          onOpenTimeline={() => setShowTimeline(true)}
+        />
+      )}
+      <TimelineDialog open={showTimeline} onOpenChange={setShowTimeline} />
+
       {/* Empty state */}
       {network.entities.length === 0 && (
         <EmptyState onAddEntity={() => setShowAddEntity(true)} />
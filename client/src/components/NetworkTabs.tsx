@@ -0,0 +1,66 @@
+/**
+ * Silent Partners - Network Tabs
+ *
+ * Tab strip for the open investigations. Each tab keeps its own network,
+ * selection, chat, theme and viewport. Dragging a node from the canvas onto
+ * another tab copies that entity, with its relationships, into the tab.
+ */
+
+import { Plus, X } from 'lucide-react';
+import { useNetwork } from '@/contexts/NetworkContext';
+
+export default function NetworkTabs() {
+  const { tabs, activeTabId, openTab, closeTab, switchTab } = useNetwork();
+
+  return (
+    <div className="flex items-center gap-1 overflow-x-auto" role="tablist" aria-label="Open networks">
+      {tabs.map(tab => {
+        const { network } = tab.state;
+        const title = network.title || 'Untitled Network';
+        const isActive = tab.id === activeTabId;
+        return (
+          <div
+            key={tab.id}
+            role="tab"
+            aria-selected={isActive}
+            data-network-tab-id={tab.id}
+            data-network-tab-title={title}
+            onClick={() => switchTab(tab.id)}
+            className={`group flex items-center gap-1.5 max-w-[200px] shrink-0 h-7 pl-2.5 pr-1 rounded-md border text-xs cursor-pointer transition-colors ${
+              isActive
+                ? 'bg-card border-border font-medium shadow-sm'
+                : 'border-transparent text-muted-foreground hover:bg-muted hover:border-border'
+            }`}
+            title={isActive ? title : `${title} — drop a node here to copy it`}
+          >
+            <span className="truncate">{title}</span>
+            <span className="text-[10px] text-muted-foreground">{network.entities.length}</span>
+            {tabs.length > 1 && (
+              <button
+                type="button"
+                className="h-5 w-5 flex items-center justify-center rounded opacity-0 group-hover:opacity-100 hover:bg-muted-foreground/10 transition-opacity"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (network.entities.length > 0 && !confirm(`Close "${title}"? It stays available under recent local drafts.`)) return;
+                  closeTab(tab.id);
+                }}
+                aria-label={`Close ${title}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        className="h-7 w-7 shrink-0 flex items-center justify-center rounded-md text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+        onClick={() => openTab()}
+        title="New network tab"
+        aria-label="New network tab"
+      >
+        <Plus className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
 import { useState } from 'react';
-import { X, Trash2, Save } from 'lucide-react';
+import { X, Trash2, Save, ArrowUpDown } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Relationship, Entity } from '@/lib/store';
+import { Relationship, Entity, OwnershipStake } from '@/lib/store';
 import { useNetwork } from '@/contexts/NetworkContext';
+import { getRelationshipTypeDefinition, normalizeRelationship } from '@/lib/relationship-types';
+import { formatPercentage, isOwnershipRelationship } from '@/lib/ownership';
+import RelationshipTypeSelect from './RelationshipTypeSelect';
 
 interface RelationshipCardProps {
   relationship: Relationship;
@@ -21,25 +24,61 @@ export function RelationshipCard({
   position, 
   onClose 
 }: RelationshipCardProps) {
-  const { dispatch } = useNetwork();
+  const { network, dispatch } = useNetwork();
   const [label, setLabel] = useState(relationship.label || '');
   const [type, setType] = useState(relationship.type || '');
   const [isEditing, setIsEditing] = useState(false);
+  const [stake, setStake] = useState(relationship.ownership?.percentage?.toString() || '');
+  const [shareClass, setShareClass] = useState(relationship.ownership?.shareClass || '');
+  const [votingStake, setVotingStake] = useState(relationship.ownership?.votingPercentage?.toString() || '');
+  const [startDate, setStartDate] = useState(relationship.startDate || '');
+  const [endDate, setEndDate] = useState(relationship.endDate || '');
+  const definition = getRelationshipTypeDefinition(network.relationshipTypes, type);
+  const isOwnership = isOwnershipRelationship({ ...relationship, type });
 
   const handleSave = () => {
+    // Run the edit through the vocabulary, as new relationships are
+    const normalized = normalizeRelationship(network.relationshipTypes, { ...relationship, label, type });
+    const percentage = parseFloat(stake);
+    const voting = parseFloat(votingStake);
+    const ownership: OwnershipStake | undefined = isOwnership && !isNaN(percentage)
+      ? {
+          percentage: Math.min(100, Math.max(0, percentage)),
+          shareClass: shareClass.trim() || undefined,
+          votingPercentage: isNaN(voting) ? undefined : Math.min(100, Math.max(0, voting)),
+        }
+      : undefined;
     dispatch({
       type: 'UPDATE_RELATIONSHIP',
       payload: {
         id: relationship.id,
         updates: {
-          label,
-          type,
+          label: normalized.label,
+          type: normalized.type,
+          source: normalized.source,
+          target: normalized.target,
+          ownership,
+          startDate: startDate || undefined,
+          endDate: endDate || undefined,
         },
       },
     });
+    setLabel(normalized.label || '');
+    setType(normalized.type || '');
     setIsEditing(false);
   };
 
+  // Swap source and target, for directed types entered the wrong way round
+  const handleReverse = () => {
+    dispatch({
+      type: 'UPDATE_RELATIONSHIP',
+      payload: {
+        id: relationship.id,
+        updates: { source: relationship.target, target: relationship.source },
+      },
+    });
+  };
+
   const handleDelete = () => {
     if (confirm('Delete this relationship?')) {
       dispatch({
@@ -86,20 +125,33 @@ export function RelationshipCard({
           <div className="text-sm font-medium text-stone-800">
             {sourceEntity?.name || 'Unknown'}
           </div>
-          <div className="text-xs text-stone-500 my-1">↓</div>
+          <div className="text-xs text-stone-500 my-1">
+            {definition ? (definition.directed ? `↓ ${definition.label}` : `↕ ${definition.label}`) : '↓'}
+          </div>
           <div className="text-sm font-medium text-stone-800">
             {targetEntity?.name || 'Unknown'}
           </div>
+          {definition?.directed && (
+            <div className="text-[11px] text-stone-400 mt-1">
+              {targetEntity?.name || 'Unknown'} {definition.inverseLabel} {sourceEntity?.name || 'Unknown'}
+            </div>
+          )}
         </div>
 
         {/* Type */}
         <div className="space-y-1">
           <Label className="text-xs text-stone-500">Type</Label>
           {isEditing ? (
-            <Input
+            <RelationshipTypeSelect
               value={type}
-              onChange={(e) => setType(e.target.value)}
-              placeholder="e.g., financial, business, personal"
+              onValueChange={(next) => {
+                // Follow the type unless the label was customized
+                const current = getRelationshipTypeDefinition(network.relationshipTypes, type);
+                if (!label || label === current?.label || label === type) {
+                  setLabel(getRelationshipTypeDefinition(network.relationshipTypes, next)?.label || label);
+                }
+                setType(next);
+              }}
               className="h-8 text-sm"
             />
           ) : (
@@ -107,7 +159,7 @@ export function RelationshipCard({
               className="text-sm text-stone-700 cursor-pointer hover:bg-stone-50 p-2 rounded"
               onClick={() => setIsEditing(true)}
             >
-              {type || 'Click to add type'}
+              {definition?.label || type || 'Click to add type'}
             </div>
           )}
         </div>
@@ -132,10 +184,73 @@ export function RelationshipCard({
           )}
         </div>
 
-        {/* Date if available */}
-        {relationship.startDate && (
+        {/* Ownership stake */}
+        {isOwnership && (
+          <div className="space-y-1">
+            <Label className="text-xs text-stone-500">Stake</Label>
+            {isEditing ? (
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="any"
+                  value={stake}
+                  onChange={(e) => setStake(e.target.value)}
+                  placeholder="Equity %"
+                  className="h-8 text-sm"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="any"
+                  value={votingStake}
+                  onChange={(e) => setVotingStake(e.target.value)}
+                  placeholder="Voting % (optional)"
+                  className="h-8 text-sm"
+                />
+                <Input
+                  value={shareClass}
+                  onChange={(e) => setShareClass(e.target.value)}
+                  placeholder="Share class (optional)"
+                  className="h-8 text-sm col-span-2"
+                />
+              </div>
+            ) : (
+              <div
+                className="text-sm text-stone-700 cursor-pointer hover:bg-stone-50 p-2 rounded"
+                onClick={() => setIsEditing(true)}
+              >
+                {relationship.ownership ? (
+                  <>
+                    {formatPercentage(relationship.ownership.percentage)}
+                    {relationship.ownership.shareClass && ` ${relationship.ownership.shareClass}`}
+                    {relationship.ownership.votingPercentage !== undefined && (
+                      <span className="text-stone-500"> · {formatPercentage(relationship.ownership.votingPercentage)} voting</span>
+                    )}
+                  </>
+                ) : (
+                  'Click to add stake'
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Dates */}
+        {isEditing ? (
+          <div className="space-y-1">
+            <Label className="text-xs text-stone-500">{isOwnership ? 'Held' : 'Date'}</Label>
+            <div className="flex items-center gap-2">
+              <Input value={startDate} onChange={(e) => setStartDate(e.target.value)} placeholder="From" className="h-8 text-xs" />
+              <span className="text-stone-400 text-xs">to</span>
+              <Input value={endDate} onChange={(e) => setEndDate(e.target.value)} placeholder="To" className="h-8 text-xs" />
+            </div>
+          </div>
+        ) : relationship.startDate && (
           <div className="space-y-1">
-            <Label className="text-xs text-stone-500">Date</Label>
+            <Label className="text-xs text-stone-500">{isOwnership ? 'Held' : 'Date'}</Label>
             <div className="text-sm text-stone-700">
               {relationship.startDate}
               {relationship.endDate && ` - ${relationship.endDate}`}
@@ -174,6 +289,16 @@ export function RelationshipCard({
               >
                 Edit
               </Button>
+              {definition?.directed && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleReverse}
+                  title="Reverse direction"
+                >
+                  <ArrowUpDown className="w-3 h-3" />
+                </Button>
+              )}
               <Button
                 variant="outline"
                 size="sm"
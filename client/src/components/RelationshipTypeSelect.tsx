@@ -0,0 +1,54 @@
+/**
+ * Silent Partners - Relationship Type Select
+ *
+ * Type picker listing the current network's relationship vocabulary, with
+ * each type's direction and inverse label.
+ */
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useNetwork } from '@/contexts/NetworkContext';
+import { getRelationshipTypes } from '@/lib/relationship-types';
+
+interface RelationshipTypeSelectProps {
+  value: string;
+  onValueChange: (type: string) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+export default function RelationshipTypeSelect({ value, onValueChange, placeholder = 'Relationship type', className }: RelationshipTypeSelectProps) {
+  const { network } = useNetwork();
+  const types = getRelationshipTypes(network.relationshipTypes);
+  // Keep a type the vocabulary doesn't know selectable, so it isn't lost
+  const unrecognized = value && !types.some(t => t.id === value) ? value : null;
+
+  return (
+    <Select value={value || undefined} onValueChange={onValueChange}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {types.map(type => (
+          <SelectItem key={type.id} value={type.id}>
+            <span className="flex items-center gap-2">
+              <span className="w-3 text-muted-foreground">{type.directed ? '→' : '↔'}</span>
+              {type.label}
+              {type.directed && (
+                <span className="text-[10px] text-muted-foreground">/ {type.inverseLabel}</span>
+              )}
+            </span>
+          </SelectItem>
+        ))}
+        {unrecognized && (
+          <SelectItem value={unrecognized}>
+            <span className="flex items-center gap-2">
+              <span className="w-3 text-muted-foreground">?</span>
+              {unrecognized}
+              <span className="text-[10px] text-muted-foreground">(not in vocabulary)</span>
+            </span>
+          </SelectItem>
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
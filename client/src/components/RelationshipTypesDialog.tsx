@@ -0,0 +1,206 @@
+/**
+ * Silent Partners - Relationship Types Dialog
+ *
+ * Manage the current network's relationship vocabulary: each type's
+ * canonical label, direction, inverse label and synonyms.
+ */
+
+import { useState, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useNetwork } from '@/contexts/NetworkContext';
+import {
+  RelationshipTypeDefinition,
+  getRelationshipTypes,
+  relationshipTypeIdFromLabel,
+  validateRelationshipTypeDefinition,
+} from '@/lib/relationship-types';
+
+interface RelationshipTypesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface Draft {
+  id: string;
+  label: string;
+  inverseLabel: string;
+  directed: boolean;
+  synonyms: string; // Comma-separated while editing
+}
+
+const EMPTY_DRAFT: Draft = { id: '', label: '', inverseLabel: '', directed: true, synonyms: '' };
+
+export default function RelationshipTypesDialog({ open, onOpenChange }: RelationshipTypesDialogProps) {
+  const { network, saveRelationshipType, deleteRelationshipType } = useNetwork();
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isNew, setIsNew] = useState(false);
+
+  const types = getRelationshipTypes(network.relationshipTypes);
+  const usage = useMemo(() => {
+    const counts = new Map<string, number>();
+    network.relationships.forEach(r => r.type && counts.set(r.type, (counts.get(r.type) || 0) + 1));
+    return counts;
+  }, [network.relationships]);
+
+  const update = (changes: Partial<Draft>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const handleNew = () => {
+    setDraft({ ...EMPTY_DRAFT });
+    setIsNew(true);
+  };
+
+  const handleEdit = (type: RelationshipTypeDefinition) => {
+    setDraft({ ...type, synonyms: type.synonyms.join(', ') });
+    setIsNew(false);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const label = draft.label.trim();
+    const definition: RelationshipTypeDefinition = {
+      id: isNew ? relationshipTypeIdFromLabel(label) : draft.id,
+      label,
+      inverseLabel: draft.directed ? draft.inverseLabel.trim() || label : label,
+      directed: draft.directed,
+      synonyms: draft.synonyms.split(',').map(s => s.trim()).filter(Boolean),
+    };
+    const error = validateRelationshipTypeDefinition(definition);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    if (isNew && types.some(t => t.id === definition.id)) {
+      toast.error(`A relationship type with the ID "${definition.id}" already exists`);
+      return;
+    }
+    saveRelationshipType(definition);
+    toast.success(isNew ? `Added "${definition.label}"` : `Updated "${definition.label}"`);
+    setDraft(null);
+  };
+
+  const handleDelete = (type: RelationshipTypeDefinition) => {
+    const count = usage.get(type.id) || 0;
+    if (count > 0 && !confirm(`Delete "${type.label}"? ${count} ${count === 1 ? 'relationship keeps' : 'relationships keep'} the type, but it will no longer be normalized.`)) {
+      return;
+    }
+    deleteRelationshipType(type.id);
+    if (draft?.id === type.id) setDraft(null);
+    toast.success(`Deleted "${type.label}"`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) setDraft(null); onOpenChange(next); }}>
+      <DialogContent className="max-w-md max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Relationship Vocabulary</DialogTitle>
+          <DialogDescription>
+            Relationships added with a synonym or inverse label are stored under the canonical type.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+          {/* Add / edit form */}
+          {draft ? (
+            <div className="space-y-3 border border-primary/30 rounded-lg p-3 bg-muted/30">
+              <div className="space-y-1">
+                <Label htmlFor="relationship-type-label" className="text-xs">Label</Label>
+                <Input
+                  id="relationship-type-label"
+                  value={draft.label}
+                  onChange={(e) => update({ label: e.target.value })}
+                  className="h-8 text-sm"
+                  placeholder="e.g. trustee of"
+                  autoFocus
+                />
+                {isNew && draft.label.trim() && (
+                  <p className="text-[10px] text-muted-foreground">ID: {relationshipTypeIdFromLabel(draft.label) || '—'}</p>
+                )}
+              </div>
+
+              <label className="flex items-center gap-2 text-xs cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="w-3.5 h-3.5"
+                  checked={draft.directed}
+                  onChange={(e) => update({ directed: e.target.checked })}
+                />
+                Directed (drawn with an arrow from source to target)
+              </label>
+
+              {draft.directed && (
+                <div className="space-y-1">
+                  <Label htmlFor="relationship-type-inverse" className="text-xs">Inverse label</Label>
+                  <Input
+                    id="relationship-type-inverse"
+                    value={draft.inverseLabel}
+                    onChange={(e) => update({ inverseLabel: e.target.value })}
+                    className="h-8 text-sm"
+                    placeholder="e.g. has trustee"
+                  />
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <Label htmlFor="relationship-type-synonyms" className="text-xs">Synonyms</Label>
+                <Input
+                  id="relationship-type-synonyms"
+                  value={draft.synonyms}
+                  onChange={(e) => update({ synonyms: e.target.value })}
+                  className="h-8 text-sm"
+                  placeholder="Comma-separated, e.g. trustee for, acts as trustee of"
+                />
+              </div>
+
+              <div className="flex gap-2">
+                <Button size="sm" className="flex-1 h-7 text-xs" onClick={handleSave} disabled={!draft.label.trim()}>
+                  {isNew ? 'Add Type' : 'Save Type'}
+                </Button>
+                <Button variant="outline" size="sm" className="flex-1 h-7 text-xs" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button variant="outline" size="sm" className="w-full h-8 text-xs" onClick={handleNew}>
+              <Plus className="w-3 h-3 mr-1" /> New Relationship Type
+            </Button>
+          )}
+
+          {types.map(type => (
+            <div key={type.id} className="flex items-center gap-2 border border-border rounded-lg px-3 py-2">
+              <span className="w-4 text-center text-muted-foreground">{type.directed ? '→' : '↔'}</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {type.label}
+                  {type.directed && <span className="text-muted-foreground font-normal"> / {type.inverseLabel}</span>}
+                </p>
+                <p className="text-[11px] text-muted-foreground truncate" title={type.synonyms.join(', ')}>
+                  {usage.get(type.id) || 0} in use{type.synonyms.length > 0 && ` · ${type.synonyms.join(', ')}`}
+                </p>
+              </div>
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleEdit(type)} title="Edit type">
+                <Pencil className="w-3 h-3" />
+              </Button>
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-muted-foreground" onClick={() => handleDelete(type)} title="Delete type">
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
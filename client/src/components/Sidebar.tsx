@@ -20,6 +20,7 @@ import {
   NetworkPanel,
   ManualEntryPanel,
   ToolsPanel,
+  AnalysisPanel,
   SearchPanel,
   ViewPanel,
 } from './sidebar';
@@ -51,6 +52,7 @@ export default function Sidebar({
   const [networkOpen, setNetworkOpen] = useState(true);
   const [manualOpen, setManualOpen] = useState(false);
   const [toolsOpen, setToolsOpen] = useState(false);
+  const [analysisOpen, setAnalysisOpen] = useState(false);
   const [searchOpen, setSearchOpen] = useState(false);
   const [viewOpen, setViewOpen] = useState(false);
 
@@ -174,6 +176,11 @@ export default function Sidebar({
 
           <div className="border-t border-sidebar-border" />
 
+          {/* Analysis Section */}
+          <AnalysisPanel isOpen={analysisOpen} onOpenChange={setAnalysisOpen} />
+
+          <div className="border-t border-sidebar-border" />
+
           {/* Search Section */}
           <SearchPanel isOpen={searchOpen} onOpenChange={setSearchOpen} />
 
@@ -0,0 +1,230 @@
+/**
+ * Silent Partners - Split Entity Dialog
+ *
+ * The inverse of a merge: creates a second entity from an existing one and
+ * lets the user assign each relationship, fact and source snippet to
+ * either side. The split is applied as a single undoable action.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Scissors } from 'lucide-react';
+import { toast } from 'sonner';
+import { useNetwork } from '@/contexts/NetworkContext';
+import { Entity, splitDescriptionFacts, splitSourceSnippets } from '@/lib/store';
+import EntityTypeSelect from './EntityTypeSelect';
+
+type Side = 'original' | 'new';
+
+interface SplitEntityDialogProps {
+  entity: Entity;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Two-way toggle used for every assignable item
+function SideToggle({ value, onChange }: { value: Side; onChange: (side: Side) => void }) {
+  return (
+    <div className="flex shrink-0 rounded border border-border overflow-hidden text-[10px]">
+      {(['original', 'new'] as Side[]).map(side => (
+        <button
+          key={side}
+          type="button"
+          className={`px-2 py-0.5 transition-colors ${
+            value === side ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+          }`}
+          onClick={() => onChange(side)}
+        >
+          {side === 'original' ? 'Original' : 'New'}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default function SplitEntityDialog({ entity, open, onOpenChange }: SplitEntityDialogProps) {
+  const { network, splitEntity } = useNetwork();
+
+  const [name, setName] = useState('');
+  const [type, setType] = useState<Entity['type']>(entity.type);
+  const [relationshipSides, setRelationshipSides] = useState<Record<string, Side>>({});
+  const [attributeSides, setAttributeSides] = useState<Record<string, Side>>({});
+  const [factSides, setFactSides] = useState<Record<number, Side>>({});
+  const [snippetSides, setSnippetSides] = useState<Record<number, Side>>({});
+
+  // Facts live in attributes; older entities still keep them in the description
+  const attributes = useMemo(() => entity.attributes || [], [entity.attributes]);
+  const facts = useMemo(
+    () => (entity.attributes ? [] : splitDescriptionFacts(entity.description)),
+    [entity.attributes, entity.description]
+  );
+  const snippets = useMemo(() => splitSourceSnippets(entity.source_text), [entity.source_text]);
+  const relationships = useMemo(
+    () => network.relationships.filter(r => r.source === entity.id || r.target === entity.id),
+    [network.relationships, entity.id]
+  );
+
+  // Reset choices each time the dialog opens; suggest an alias as the new name
+  useEffect(() => {
+    if (!open) return;
+    const alias = entity.aliases?.find(a => a !== entity.name);
+    setName(alias || '');
+    setType(entity.type);
+    setRelationshipSides({});
+    setAttributeSides({});
+    setFactSides({});
+    setSnippetSides({});
+  }, [open, entity]);
+
+  const otherName = (entityId: string) =>
+    network.entities.find(e => e.id === entityId)?.name || 'Unknown';
+
+  const handleSplit = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      toast.error('Give the new entity a name');
+      return;
+    }
+    splitEntity(entity.id, {
+      name: trimmed,
+      type,
+      relationshipIds: relationships.filter(r => relationshipSides[r.id] === 'new').map(r => r.id),
+      attributeIds: attributes.filter(a => attributeSides[a.id] === 'new').map(a => a.id),
+      facts: facts.filter((_, i) => factSides[i] === 'new'),
+      snippets: snippets.filter((_, i) => snippetSides[i] === 'new'),
+    });
+    toast.success(`Split "${trimmed}" from "${entity.name}"`);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Split "{entity.name}"</DialogTitle>
+          <DialogDescription>
+            Create a second entity and choose which connections, facts and sources belong to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+          <div className="grid grid-cols-[1fr_auto] gap-2 items-end">
+            <div>
+              <Label htmlFor="split-name" className="text-xs text-muted-foreground">New entity name</Label>
+              <Input
+                id="split-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="h-8 text-sm"
+                placeholder="e.g. John A. Smith"
+                autoFocus
+              />
+            </div>
+            <EntityTypeSelect value={type} onValueChange={setType} className="h-8 text-sm w-36" />
+          </div>
+
+          {relationships.length > 0 && (
+            <div>
+              <div className="text-xs font-medium text-muted-foreground mb-1.5">
+                Connections ({relationships.length})
+              </div>
+              <div className="space-y-1">
+                {relationships.map(r => {
+                  const outgoing = r.source === entity.id;
+                  return (
+                    <div key={r.id} className="flex items-center gap-2 text-xs bg-muted/30 rounded px-2 py-1">
+                      <span className="text-muted-foreground">{outgoing ? '→' : '←'}</span>
+                      <span className="flex-1 truncate">
+                        {otherName(outgoing ? r.target : r.source)}
+                        {(r.label || r.type) && (
+                          <span className="text-muted-foreground"> · {r.label || r.type}</span>
+                        )}
+                      </span>
+                      <SideToggle
+                        value={relationshipSides[r.id] || 'original'}
+                        onChange={(side) => setRelationshipSides(prev => ({ ...prev, [r.id]: side }))}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {attributes.length > 0 && (
+            <div>
+              <div className="text-xs font-medium text-muted-foreground mb-1.5">
+                Facts ({attributes.length})
+              </div>
+              <div className="space-y-1">
+                {attributes.map(attribute => (
+                  <div key={attribute.id} className="flex items-start gap-2 text-xs bg-muted/30 rounded px-2 py-1">
+                    <span className="flex-1 line-clamp-3">
+                      <span className="text-muted-foreground">{attribute.key}: </span>
+                      {attribute.value}
+                    </span>
+                    <SideToggle
+                      value={attributeSides[attribute.id] || 'original'}
+                      onChange={(side) => setAttributeSides(prev => ({ ...prev, [attribute.id]: side }))}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {facts.length > 0 && (
+            <div>
+              <div className="text-xs font-medium text-muted-foreground mb-1.5">
+                Description facts ({facts.length})
+              </div>
+              <div className="space-y-1">
+                {facts.map((fact, i) => (
+                  <div key={i} className="flex items-start gap-2 text-xs bg-muted/30 rounded px-2 py-1">
+                    <span className="flex-1 line-clamp-3">{fact}</span>
+                    <SideToggle
+                      value={factSides[i] || 'original'}
+                      onChange={(side) => setFactSides(prev => ({ ...prev, [i]: side }))}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {snippets.length > 0 && (
+            <div>
+              <div className="text-xs font-medium text-muted-foreground mb-1.5">
+                Source snippets ({snippets.length})
+              </div>
+              <div className="space-y-1">
+                {snippets.map((snippet, i) => (
+                  <div key={i} className="flex items-start gap-2 text-xs bg-muted/30 rounded px-2 py-1">
+                    <span className="flex-1 italic line-clamp-3">"{snippet}"</span>
+                    <SideToggle
+                      value={snippetSides[i] || 'original'}
+                      onChange={(side) => setSnippetSides(prev => ({ ...prev, [i]: side }))}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSplit} disabled={!name.trim()}>
+            <Scissors className="w-3 h-3 mr-1" />
+            Split Entity
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
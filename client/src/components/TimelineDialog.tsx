@@ -0,0 +1,149 @@
+/**
+ * Silent Partners - Timeline Dialog
+ *
+ * A horizontal timeline of the network's dated relationships and events,
+ * one row per entity. Relationships are bars from start to end (running on
+ * to the last date when still open); events are points. Clicking an item
+ * highlights it on the canvas and moves the time slider to its date.
+ */
+
+import { useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { useNetwork } from '@/contexts/NetworkContext';
+import { TimelineItem, buildTimeline, dateToDay, getDateBounds } from '@/lib/timeline';
+
+interface TimelineDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Aim for about this many year ticks across the axis
+const TARGET_TICKS = 10;
+
+export default function TimelineDialog({ open, onOpenChange }: TimelineDialogProps) {
+  const { network, timeFilter, setTimeFilter, setHighlight, selectEntity } = useNetwork();
+
+  const rows = useMemo(() => buildTimeline(network), [network]);
+  const bounds = useMemo(() => getDateBounds(network), [network]);
+
+  const minDay = bounds ? dateToDay(bounds.min) : 0;
+  const maxDay = bounds ? Math.max(dateToDay(bounds.max), minDay + 1) : 1;
+  const percent = (date: string) => ((dateToDay(date) - minDay) / (maxDay - minDay)) * 100;
+
+  const ticks = useMemo(() => {
+    if (!bounds) return [];
+    const first = parseInt(bounds.min.slice(0, 4));
+    const last = parseInt(bounds.max.slice(0, 4));
+    const every = Math.max(1, Math.ceil((last - first + 1) / TARGET_TICKS));
+    const years: number[] = [];
+    for (let year = first + 1; year <= last; year += every) years.push(year);
+    return years;
+  }, [bounds]);
+
+  const handleShowItem = (item: TimelineItem) => {
+    const relationship = item.relationshipId
+      ? network.relationships.find(r => r.id === item.relationshipId)
+      : undefined;
+    setHighlight({
+      entityIds: relationship ? [relationship.source, relationship.target] : [item.entityId],
+      relationshipIds: relationship ? [relationship.id] : [],
+      label: `${item.label} (${item.end ? `${item.start} – ${item.end}` : item.start})`,
+    });
+    setTimeFilter({
+      from: item.start,
+      to: item.start,
+      includeUndated: timeFilter?.includeUndated ?? true,
+      hideInactiveEntities: timeFilter?.hideInactiveEntities ?? false,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Timeline</DialogTitle>
+          <DialogDescription>
+            Dated relationships and events by entity. Click an item to see the network on that date.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!bounds ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            No relationship or attribute has a date yet. Add start and end dates to relationships to build a timeline.
+          </p>
+        ) : (
+          <div className="flex-1 min-h-0 overflow-auto border border-border/50 rounded">
+            {/* Axis */}
+            <div className="sticky top-0 z-10 flex bg-background border-b border-border/50 text-[10px] text-muted-foreground">
+              <div className="w-40 flex-shrink-0 px-2 py-1 border-r border-border/50 tabular-nums">{bounds.min}</div>
+              <div className="relative flex-1 h-6 mx-3">
+                {ticks.map(year => (
+                  <span
+                    key={year}
+                    className="absolute top-1 -translate-x-1/2 tabular-nums"
+                    style={{ left: `${percent(`${year}-01-01`)}%` }}
+                  >
+                    {year}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {rows.map(({ entity, items }) => (
+              <div key={entity.id} className="flex border-b border-border/30 hover:bg-muted/30">
+                <button
+                  type="button"
+                  onClick={() => selectEntity(entity.id)}
+                  className="w-40 flex-shrink-0 px-2 py-1.5 text-left text-xs truncate border-r border-border/50 hover:underline"
+                  title={entity.name}
+                >
+                  {entity.name}
+                </button>
+                <div className="relative flex-1 mx-3" style={{ height: `${Math.max(1, items.length) * 10 + 8}px` }}>
+                  {/* Current time slider position */}
+                  {timeFilter && (
+                    <div
+                      className="absolute inset-y-0 bg-primary/10 border-x border-primary/40"
+                      style={{
+                        left: `${percent(timeFilter.from)}%`,
+                        width: `max(1px, ${percent(timeFilter.to) - percent(timeFilter.from)}%)`,
+                      }}
+                    />
+                  )}
+                  {items.map((item, i) => {
+                    const top = 4 + i * 10;
+                    const title = `${item.label}: ${item.end ? `${item.start} – ${item.end}` : item.start}`;
+                    if (item.kind === 'event' || item.end === item.start) {
+                      return (
+                        <button
+                          key={item.id}
+                          type="button"
+                          onClick={() => handleShowItem(item)}
+                          className="absolute w-2 h-2 -translate-x-1/2 rotate-45 bg-[#B8860B] hover:scale-150 transition-transform"
+                          style={{ left: `${percent(item.start)}%`, top }}
+                          title={title}
+                        />
+                      );
+                    }
+                    const left = percent(item.start);
+                    const right = item.end ? percent(item.end) : 100;
+                    return (
+                      <button
+                        key={item.id}
+                        type="button"
+                        onClick={() => handleShowItem(item)}
+                        className={`absolute h-2 rounded-full hover:ring-2 hover:ring-primary/40 ${item.end ? 'bg-primary/70' : 'bg-gradient-to-r from-primary/70 to-primary/10'}`}
+                        style={{ left: `${left}%`, width: `max(4px, ${right - left}%)`, top }}
+                        title={item.end ? title : `${title} (ongoing)`}
+                      />
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -620,7 +620,7 @@ export default function UnifiedAIInput({ onNarrativeEvent, clearFirst = false, i
     
     // Start orchestration
     abortRef.current = streamOrchestrate(input, context, callbacks);
-  }, [input, isProcessing, clearFirst, clearNetwork, investigationContext, network, onNarrativeEvent, convertEntity, convertRelationship, addEntity, addRelationship, dispatch, processPendingRelationships, onContextUpdate]);
+  }, [input, isProcessing, clearFirst, clearNetwork, investigationContext, network, onNarrativeEvent, convertEntity, convertRelationship, addEntity, addRelationship, addOrMergeEntity, addOrMergeRelationship, dispatch, processPendingRelationships, onContextUpdate]);
   
   // Cancel handler
   const handleCancel = useCallback(() => {
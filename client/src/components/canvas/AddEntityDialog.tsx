@@ -9,9 +9,9 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Entity } from '@/lib/store';
+import EntityTypeSelect from '@/components/EntityTypeSelect';
 
 interface AddEntityDialogProps {
   open: boolean;
@@ -56,21 +56,7 @@ export function AddEntityDialog({ open, onOpenChange, onAddEntity }: AddEntityDi
           </div>
           <div className="grid gap-2">
             <Label htmlFor="type">Type</Label>
-            <Select value={type} onValueChange={(v) => setType(v as Entity['type'])}>
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="person">Person</SelectItem>
-                <SelectItem value="corporation">Corporation</SelectItem>
-                <SelectItem value="organization">Organization</SelectItem>
-                <SelectItem value="financial">Financial</SelectItem>
-                <SelectItem value="government">Government</SelectItem>
-                <SelectItem value="location">Location</SelectItem>
-                <SelectItem value="event">Event</SelectItem>
-                <SelectItem value="asset">Asset</SelectItem>
-              </SelectContent>
-            </Select>
+            <EntityTypeSelect value={type} onValueChange={setType} />
           </div>
         </div>
         <DialogFooter>
@@ -0,0 +1,393 @@
+/**
+ * Silent Partners - Annotation Layer
+ *
+ * Draws the network's annotations over the Sigma canvas and edits them.
+ * Pick a tool, then click for a note (on an entity to attach it), drag for
+ * a box or an arrow (ends dropped on entities stay attached to them), or
+ * draw round a group with the lasso. With the pointer tool, annotations can
+ * be dragged, double-clicked to edit and deleted.
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type Sigma from 'sigma';
+import { Button } from '@/components/ui/button';
+import { MousePointer2, MessageSquareText, Square, LassoSelect, MoveUpRight, Trash2 } from 'lucide-react';
+import {
+  Annotation, AnnotationStyle, Point, ProjectedAnnotation,
+  anchorPoint, annotationsToSvg, boxPoints, getBoxBounds, projectAnnotations,
+} from '@/lib/annotations';
+
+type AnnotationTool = 'select' | 'callout' | 'box' | 'lasso' | 'arrow';
+
+const TOOLS: Array<{ id: AnnotationTool; label: string; icon: typeof Square }> = [
+  { id: 'select', label: 'Select and move annotations', icon: MousePointer2 },
+  { id: 'callout', label: 'Note: click the canvas or an entity', icon: MessageSquareText },
+  { id: 'box', label: 'Box: drag round a group', icon: Square },
+  { id: 'lasso', label: 'Lasso: draw round a group', icon: LassoSelect },
+  { id: 'arrow', label: 'Arrow: drag from one point to another', icon: MoveUpRight },
+];
+
+function boxOutline({ annotation, points }: ProjectedAnnotation): string {
+  if (annotation.lasso) return `M ${points.map(p => `${p.x} ${p.y}`).join(' L ')} Z`;
+  const b = getBoxBounds(points);
+  return `M ${b.x} ${b.y} h ${b.width} v ${b.height} h ${-b.width} Z`;
+}
+
+// Pixels a pointer must travel before a press counts as a drag
+const DRAG_THRESHOLD = 4;
+// Extra pixels around a node that still count as clicking it
+const NODE_HIT_SLOP = 4;
+
+interface AnnotationLayerProps {
+  sigma: Sigma | null;
+  annotations: Annotation[];
+  style: AnnotationStyle;
+  onAdd: (annotation: Omit<Annotation, 'id'>) => void;
+  onUpdate: (id: string, updates: Partial<Omit<Annotation, 'id'>>) => void;
+  onDelete: (id: string) => void;
+}
+
+// A shape being drawn, in viewport pixels
+interface Stroke {
+  tool: 'box' | 'lasso' | 'arrow';
+  points: Point[];
+  startEntityId: string | null;
+}
+
+// Text being typed for a new annotation or an existing one
+interface TextEditor {
+  at: Point;
+  text: string;
+  annotationId?: string;
+  pending?: Omit<Annotation, 'id'>;
+}
+
+// An annotation being dragged, in viewport pixels
+interface Move {
+  id: string;
+  from: Point;
+  to: Point;
+}
+
+export function AnnotationLayer({ sigma, annotations, style, onAdd, onUpdate, onDelete }: AnnotationLayerProps) {
+  const [tool, setTool] = useState<AnnotationTool>('select');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [stroke, setStroke] = useState<Stroke | null>(null);
+  const [editor, setEditor] = useState<TextEditor | null>(null);
+  const [move, setMove] = useState<Move | null>(null);
+  const [, setFrame] = useState(0);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+
+  // Follow the camera and node movement
+  useEffect(() => {
+    if (!sigma) return;
+    const rerender = () => setFrame(n => n + 1);
+    sigma.on('afterRender', rerender);
+    return () => {
+      sigma.off('afterRender', rerender);
+    };
+  }, [sigma]);
+
+  useEffect(() => {
+    if (editor) editorRef.current?.focus();
+  }, [editor?.annotationId, editor?.pending]);
+
+  // Forget a selection whose annotation is gone (deleted or undone)
+  useEffect(() => {
+    if (selectedId && !annotations.some(a => a.id === selectedId)) setSelectedId(null);
+  }, [annotations, selectedId]);
+
+  const positionOf = useCallback((entityId: string): Point | undefined => {
+    const graph = sigma?.getGraph();
+    if (!graph?.hasNode(entityId)) return undefined;
+    const { x, y } = graph.getNodeAttributes(entityId);
+    return { x, y };
+  }, [sigma]);
+
+  const toViewport = useCallback((p: Point) => sigma!.graphToViewport(p), [sigma]);
+  const toGraph = useCallback((p: Point) => sigma!.viewportToGraph(p), [sigma]);
+
+  // The entity under a viewport point, if any
+  const entityAt = useCallback((p: Point): string | null => {
+    if (!sigma) return null;
+    let closest: string | null = null;
+    let closestDistance = Infinity;
+    sigma.getGraph().forEachNode((node, attrs) => {
+      const display = sigma.getNodeDisplayData(node);
+      if (!display || display.hidden) return;
+      const center = sigma.graphToViewport({ x: attrs.x, y: attrs.y });
+      const distance = Math.hypot(center.x - p.x, center.y - p.y);
+      if (distance <= sigma.scaleSize(display.size) + NODE_HIT_SLOP && distance < closestDistance) {
+        closest = node;
+        closestDistance = distance;
+      }
+    });
+    return closest;
+  }, [sigma]);
+
+  // Keyboard: Escape backs out, Delete removes the selected annotation
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+      if (e.key === 'Escape') {
+        setStroke(null);
+        setSelectedId(null);
+        setTool('select');
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedId) {
+        onDelete(selectedId);
+        setSelectedId(null);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [selectedId, onDelete]);
+
+  if (!sigma) return null;
+
+  const viewportPoint = (e: React.PointerEvent | React.MouseEvent): Point => {
+    const rect = (e.currentTarget as Element).closest('[data-annotation-layer]')!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  // ---- Drawing new annotations ----
+
+  const handleDrawStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0 || tool === 'select') return;
+    const p = viewportPoint(e);
+    setSelectedId(null);
+    if (tool === 'callout') {
+      // Attached notes start up and to the right of their entity
+      const entityId = entityAt(p);
+      const entityPosition = entityId ? positionOf(entityId) : undefined;
+      const at = entityPosition ? { x: toViewport(entityPosition).x + 24, y: toViewport(entityPosition).y - 24 } : p;
+      setEditor({
+        at,
+        text: '',
+        pending: { kind: 'callout', points: [anchorPoint(toGraph(at), entityId, positionOf)] },
+      });
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setStroke({ tool, points: [p], startEntityId: tool === 'arrow' ? entityAt(p) : null });
+  };
+
+  const handleDrawMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!stroke) return;
+    const p = viewportPoint(e);
+    const last = stroke.points[stroke.points.length - 1];
+    if (Math.hypot(p.x - last.x, p.y - last.y) < DRAG_THRESHOLD) return;
+    // Boxes and arrows only need their two ends
+    setStroke({ ...stroke, points: stroke.tool === 'lasso' ? [...stroke.points, p] : [stroke.points[0], p] });
+  };
+
+  const handleDrawEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!stroke) return;
+    setStroke(null);
+    if (stroke.tool === 'arrow') {
+      const [from, to] = stroke.points;
+      if (!to) return;
+      onAdd({
+        kind: 'arrow',
+        points: [
+          anchorPoint(toGraph(from), stroke.startEntityId, positionOf),
+          anchorPoint(toGraph(to), entityAt(viewportPoint(e)), positionOf),
+        ],
+      });
+      return;
+    }
+    const points = boxPoints(stroke.points, stroke.tool === 'lasso');
+    if (!points) return;
+    const bounds = getBoxBounds(points);
+    setEditor({
+      at: { x: bounds.x, y: bounds.y - style.fontSize - 8 },
+      text: '',
+      pending: {
+        kind: 'box',
+        points: points.map(p => toGraph(p)).map(({ x, y }) => ({ x, y })),
+        ...(stroke.tool === 'lasso' && { lasso: true }),
+      },
+    });
+  };
+
+  // ---- Editing text ----
+
+  const commitEditor = () => {
+    if (!editor) return;
+    setEditor(null);
+    const text = editor.text.trim();
+    if (editor.pending) {
+      // A note without words isn't worth keeping; a box can go untitled
+      if (editor.pending.kind === 'callout' && !text) return;
+      onAdd({ ...editor.pending, ...(text && { text }) });
+    } else if (editor.annotationId) {
+      const annotation = annotations.find(a => a.id === editor.annotationId);
+      if (!annotation || (annotation.text || '') === text) return;
+      if (annotation.kind === 'callout' && !text) {
+        onDelete(annotation.id);
+      } else {
+        onUpdate(annotation.id, { text: text || undefined });
+      }
+    }
+  };
+
+  const startEditing = (item: ProjectedAnnotation) => {
+    const { annotation, points } = item;
+    if (annotation.kind === 'arrow') return;
+    const bounds = getBoxBounds(points);
+    setEditor({
+      annotationId: annotation.id,
+      text: annotation.text || '',
+      at: annotation.kind === 'callout'
+        ? { x: points[0].x, y: points[0].y - style.fontSize }
+        : { x: bounds.x, y: bounds.y - style.fontSize - 8 },
+    });
+  };
+
+  // ---- Moving existing annotations ----
+
+  const handleMoveStart = (e: React.PointerEvent<SVGGElement>, id: string) => {
+    if (e.button !== 0 || tool !== 'select') return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const p = viewportPoint(e);
+    setSelectedId(id);
+    setMove({ id, from: p, to: p });
+  };
+
+  const handleMoveEnd = () => {
+    if (!move) return;
+    setMove(null);
+    if (Math.hypot(move.to.x - move.from.x, move.to.y - move.from.y) < DRAG_THRESHOLD) return;
+    const annotation = annotations.find(a => a.id === move.id);
+    if (!annotation) return;
+    // Attached points are offsets, so they shift by the same amount
+    const from = toGraph(move.from);
+    const to = toGraph(move.to);
+    onUpdate(annotation.id, {
+      points: annotation.points.map(p => ({ ...p, x: p.x + to.x - from.x, y: p.y + to.y - from.y })),
+    });
+  };
+
+  // ---- Rendering ----
+
+  const projected = projectAnnotations(annotations, positionOf, toViewport).map(item => {
+    if (move?.id !== item.annotation.id) return item;
+    const dx = move.to.x - move.from.x;
+    const dy = move.to.y - move.from.y;
+    return { ...item, points: item.points.map(p => ({ x: p.x + dx, y: p.y + dy })) };
+  });
+  const selected = projected.find(item => item.annotation.id === selectedId);
+  const drawing = tool !== 'select';
+
+  return (
+    <div data-annotation-layer className="absolute inset-0 pointer-events-none">
+      <svg className="absolute inset-0 w-full h-full overflow-visible">
+        {projected.map(item => (
+          <g
+            key={item.annotation.id}
+            style={{
+              pointerEvents: drawing ? 'none' : item.annotation.kind === 'box' ? 'visibleStroke' : 'visiblePainted',
+              cursor: 'move',
+              filter: item.annotation.id === selectedId ? 'drop-shadow(0 0 3px #B8860B)' : undefined,
+            }}
+            onPointerDown={(e) => handleMoveStart(e, item.annotation.id)}
+            onPointerMove={(e) => move && setMove({ ...move, to: viewportPoint(e) })}
+            onPointerUp={handleMoveEnd}
+            onDoubleClick={() => startEditing(item)}
+          >
+            {/* Boxes are picked up by their outline, which is hard to hit at 1.5px */}
+            {item.annotation.kind === 'box' && (
+              <path
+                d={boxOutline(item)}
+                fill="none"
+                stroke="transparent"
+                strokeWidth={10}
+              />
+            )}
+            <g dangerouslySetInnerHTML={{ __html: annotationsToSvg([item], style) }} />
+          </g>
+        ))}
+
+        {/* Shape being drawn */}
+        {stroke && stroke.points.length > 1 && (
+          stroke.tool === 'arrow' ? (
+            <g dangerouslySetInnerHTML={{
+              __html: annotationsToSvg([{ annotation: { id: '', kind: 'arrow', points: [] }, points: stroke.points, anchor: null }], style),
+            }} />
+          ) : stroke.tool === 'lasso' ? (
+            <polyline points={stroke.points.map(p => `${p.x},${p.y}`).join(' ')} fill="none" stroke={style.color} strokeWidth={style.lineWidth} strokeDasharray="6 4" />
+          ) : (
+            (() => {
+              const b = getBoxBounds(stroke.points);
+              return <rect x={b.x} y={b.y} width={b.width} height={b.height} rx={6} fill="none" stroke={style.color} strokeWidth={style.lineWidth} strokeDasharray="6 4" />;
+            })()
+          )
+        )}
+      </svg>
+
+      {/* Captures the pointer while a drawing tool is active */}
+      {drawing && (
+        <div
+          className="absolute inset-0 pointer-events-auto cursor-crosshair"
+          onPointerDown={handleDrawStart}
+          onPointerMove={handleDrawMove}
+          onPointerUp={handleDrawEnd}
+        />
+      )}
+
+      {/* Delete the selected annotation */}
+      {selected && !move && !editor && (
+        <Button
+          variant="outline"
+          size="icon"
+          className="absolute h-6 w-6 pointer-events-auto bg-background/90 shadow-sm"
+          style={{ left: getBoxBounds(selected.points).x - 28, top: getBoxBounds(selected.points).y - 28 }}
+          onClick={() => { onDelete(selected.annotation.id); setSelectedId(null); }}
+          title="Delete annotation"
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      )}
+
+      {editor && (
+        <textarea
+          ref={editorRef}
+          value={editor.text}
+          onChange={(e) => setEditor({ ...editor, text: e.target.value })}
+          onBlur={commitEditor}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              commitEditor();
+            } else if (e.key === 'Escape') {
+              setEditor(null);
+            }
+          }}
+          placeholder={editor.pending?.kind === 'box' || annotations.find(a => a.id === editor.annotationId)?.kind === 'box' ? 'Box title (optional)' : 'Note'}
+          rows={Math.max(1, editor.text.split('\n').length)}
+          className="absolute z-20 pointer-events-auto min-w-[160px] resize-none rounded border border-[#B8860B]/60 bg-background/95 px-1.5 py-0.5 shadow-sm outline-none"
+          style={{ left: editor.at.x, top: editor.at.y, fontFamily: style.fontFamily, fontSize: style.fontSize, color: style.color }}
+        />
+      )}
+
+      {/* Tools */}
+      <div className="absolute top-3 right-3 z-10 flex flex-col gap-0.5 p-0.5 rounded-lg bg-background/80 backdrop-blur-sm border border-border/50 shadow-sm pointer-events-auto">
+        {TOOLS.map(({ id, label, icon: Icon }) => (
+          <Button
+            key={id}
+            variant={tool === id ? 'default' : 'ghost'}
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => { setTool(id); setStroke(null); }}
+            title={label}
+          >
+            <Icon className="h-3.5 w-3.5" />
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default AnnotationLayer;
@@ -7,6 +7,7 @@
 
 import * as d3 from 'd3';
 import { Entity, Relationship } from '@/lib/store';
+import type { EntityTypeDefinition } from '@/lib/entity-types';
 
 // ============================================
 // Types
@@ -50,9 +51,10 @@ export interface SimulationConfig {
 
 /**
  * Check if a node type should be rendered as hollow (organizations)
- * vs solid (people) in Lombardi style
+ * vs solid (people) in Lombardi style. Custom types set this themselves.
  */
-export function isHollowNode(type: Entity['type']): boolean {
+export function isHollowNode(type: Entity['type'], definition?: EntityTypeDefinition): boolean {
+  if (definition) return !!definition.hollow;
   return ['corporation', 'organization', 'financial', 'government'].includes(type);
 }
 
@@ -0,0 +1,102 @@
+/**
+ * Silent Partners - Focus Bar
+ *
+ * Shown while the canvas is focused on an entity's neighbourhood: the trail
+ * of entities focused on so far as breadcrumbs back out, how many hops to
+ * show, whether the rest of the network fades or hides, and a button to
+ * open the focus as a network of its own.
+ */
+
+import { Fragment } from 'react';
+import { Button } from '@/components/ui/button';
+import { ChevronRight, Focus, SquareArrowOutUpRight, X } from 'lucide-react';
+import { FocusTrail, MAX_FOCUS_HOPS, MIN_FOCUS_HOPS } from '@/lib/focus';
+
+interface FocusBarProps {
+  trail: FocusTrail;
+  getName: (entityId: string) => string;
+  entityCount: number | null; // Entities in focus; null when the focused entity isn't shown
+  onChange: (trail: FocusTrail | null) => void;
+  onSpinOff: () => void;
+}
+
+const HOP_OPTIONS = Array.from({ length: MAX_FOCUS_HOPS - MIN_FOCUS_HOPS + 1 }, (_, i) => MIN_FOCUS_HOPS + i);
+
+export function FocusBar({ trail, getName, entityCount, onChange, onSpinOff }: FocusBarProps) {
+  const current = trail.steps[trail.steps.length - 1];
+
+  const setHops = (hops: number) => {
+    onChange({ ...trail, steps: [...trail.steps.slice(0, -1), { ...current, hops }] });
+  };
+
+  return (
+    <div className="absolute top-3 left-3 z-10 flex items-center gap-2 pl-2.5 pr-1 py-1 rounded-lg bg-background/90 backdrop-blur-sm border border-border/50 shadow-sm text-xs max-w-[calc(100%-1.5rem)]">
+      <Focus className="h-3.5 w-3.5 text-[#B8860B] flex-shrink-0" />
+
+      {/* Breadcrumbs back out to the whole network */}
+      <nav className="flex items-center gap-0.5 min-w-0">
+        <button type="button" className="text-muted-foreground hover:text-foreground hover:underline" onClick={() => onChange(null)}>
+          All
+        </button>
+        {trail.steps.map((step, i) => (
+          <Fragment key={`${step.entityId}-${i}`}>
+            <ChevronRight className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+            {i === trail.steps.length - 1 ? (
+              <span className="font-medium truncate max-w-[140px]">{getName(step.entityId)}</span>
+            ) : (
+              <button
+                type="button"
+                className="text-muted-foreground hover:text-foreground hover:underline truncate max-w-[100px]"
+                onClick={() => onChange({ ...trail, steps: trail.steps.slice(0, i + 1) })}
+              >
+                {getName(step.entityId)}
+              </button>
+            )}
+          </Fragment>
+        ))}
+      </nav>
+
+      <div className="flex items-center gap-1 flex-shrink-0" title="Relationships out from the focused entity">
+        <span className="text-[10px] text-muted-foreground">Hops</span>
+        <div className="flex rounded border border-border/50 overflow-hidden">
+          {HOP_OPTIONS.map(hops => (
+            <button
+              key={hops}
+              type="button"
+              onClick={() => setHops(hops)}
+              className={`px-1.5 py-0.5 text-[10px] tabular-nums ${current.hops === hops ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'}`}
+            >
+              {hops}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex rounded border border-border/50 overflow-hidden flex-shrink-0" title="What to do with the rest of the network">
+        {([false, true]).map(hideOthers => (
+          <button
+            key={String(hideOthers)}
+            type="button"
+            onClick={() => onChange({ ...trail, hideOthers })}
+            className={`px-2 py-0.5 text-[10px] ${trail.hideOthers === hideOthers ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'}`}
+          >
+            {hideOthers ? 'Hide' : 'Fade'}
+          </button>
+        ))}
+      </div>
+
+      <span className="text-[10px] text-muted-foreground tabular-nums whitespace-nowrap flex-shrink-0">
+        {entityCount === null ? 'Not shown' : `${entityCount} ${entityCount === 1 ? 'entity' : 'entities'}`}
+      </span>
+
+      <Button variant="ghost" size="icon" className="h-6 w-6 flex-shrink-0" onClick={onSpinOff} title="Open the focus as a new network">
+        <SquareArrowOutUpRight className="h-3 w-3" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-6 w-6 flex-shrink-0" onClick={() => onChange(null)} title="Show the whole network">
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
+
+export default FocusBar;
@@ -0,0 +1,28 @@
+/**
+ * Silent Partners - Highlight Banner
+ * 
+ * Names what an analysis tool has highlighted on the canvas, with a button
+ * to clear it.
+ */
+
+import { Button } from '@/components/ui/button';
+import { X } from 'lucide-react';
+
+interface HighlightBannerProps {
+  label: string;
+  onClear: () => void;
+}
+
+export function HighlightBanner({ label, onClear }: HighlightBannerProps) {
+  return (
+    <div className="absolute top-3 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 pl-3 pr-1 py-1 rounded-full bg-background/90 backdrop-blur-sm border border-[#B8860B]/50 shadow-sm text-xs">
+      <span className="w-2 h-2 rounded-full bg-[#B8860B]" />
+      <span className="max-w-[320px] truncate">{label}</span>
+      <Button variant="ghost" size="icon" className="h-6 w-6 rounded-full" onClick={onClear} title="Clear highlight">
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
+
+export default HighlightBanner;
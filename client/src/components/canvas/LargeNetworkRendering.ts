@@ -0,0 +1,38 @@
+/**
+ * Silent Partners - Large Network Rendering
+ *
+ * Above a few thousand entities the canvas switches to cheaper rendering:
+ * straight edges instead of curved arcs, edges hidden while panning, fewer
+ * labels until zoomed in, and no per-node entrance animations. The SVG
+ * canvas hands over to the WebGL canvas at the same threshold.
+ */
+
+// Entities at which large network rendering takes over
+export const LARGE_NETWORK_THRESHOLD = 2000;
+
+export function isLargeNetwork(entityCount: number): boolean {
+  return entityCount > LARGE_NETWORK_THRESHOLD;
+}
+
+// Sigma settings for each mode; labels are thinned by a coarser grid and
+// only drawn for nodes that are big enough on screen
+export const RENDER_SETTINGS = {
+  standard: {
+    hideEdgesOnMove: false,
+    labelDensity: 1,
+    labelGridCellSize: 100,
+    labelRenderedSizeThreshold: 3,
+  },
+  large: {
+    hideEdgesOnMove: true,
+    labelDensity: 0.4,
+    labelGridCellSize: 160,
+    labelRenderedSizeThreshold: 9,
+  },
+} as const;
+
+// Edge programs for straight rendering ("line" and "arrow" are Sigma built-ins)
+export function getEdgeType(large: boolean, directed: boolean): string {
+  if (large) return directed ? 'arrow' : 'line';
+  return directed ? 'curvedArrow' : 'curved';
+}
@@ -0,0 +1,137 @@
+/**
+ * Silent Partners - Node Shape Programs
+ *
+ * Sigma.js node programs for the non-circular node shapes custom entity
+ * types can use (square, diamond, triangle). Like the circle programs, each
+ * shape is filled with `color` and ringed with `borderColor`, the ring being
+ * `borderSize` of the way from the edge to the center.
+ */
+
+import { NodeProgram } from 'sigma/rendering';
+import type { ProgramInfo } from 'sigma/rendering';
+import type { NodeDisplayData, RenderParams } from 'sigma/types';
+import { floatColor } from 'sigma/utils';
+import type { NodeShape } from '@/lib/entity-types';
+
+// Distance from the edge of each shape, in point coordinates (p is -0.5..0.5,
+// y pointing down), and that distance at the shape's center
+const SHAPE_DISTANCE: Record<Exclude<NodeShape, 'circle'>, { distance: string; center: string }> = {
+  square: { distance: '0.42 - max(abs(p.x), abs(p.y))', center: '0.42' },
+  diamond: { distance: '0.5 - (abs(p.x) + abs(p.y))', center: '0.5' },
+  triangle: {
+    distance: 'min(0.25 - p.y, min(0.25 - dot(p, vec2(0.866, -0.5)), 0.25 - dot(p, vec2(-0.866, -0.5))))',
+    center: '0.25',
+  },
+};
+
+const VERTEX_SHADER_SOURCE = /* glsl */ `
+attribute vec4 a_id;
+attribute vec4 a_color;
+attribute vec4 a_borderColor;
+attribute vec2 a_position;
+attribute float a_size;
+attribute float a_borderSize;
+
+uniform float u_sizeRatio;
+uniform float u_pixelRatio;
+uniform mat3 u_matrix;
+
+varying vec4 v_color;
+varying vec4 v_borderColor;
+varying float v_borderSize;
+varying float v_pointSize;
+
+const float bias = 255.0 / 254.0;
+
+void main() {
+  gl_Position = vec4((u_matrix * vec3(a_position, 1)).xy, 0, 1);
+  gl_PointSize = a_size / u_sizeRatio * u_pixelRatio * 2.0;
+  v_pointSize = gl_PointSize;
+  v_borderSize = a_borderSize;
+
+  #ifdef PICKING_MODE
+  v_color = a_id;
+  v_borderColor = a_id;
+  #else
+  v_color = a_color;
+  v_borderColor = a_borderColor;
+  #endif
+
+  v_color.a *= bias;
+  v_borderColor.a *= bias;
+}
+`;
+
+function fragmentShaderSource(shape: Exclude<NodeShape, 'circle'>): string {
+  const { distance, center } = SHAPE_DISTANCE[shape];
+  return /* glsl */ `
+precision mediump float;
+
+varying vec4 v_color;
+varying vec4 v_borderColor;
+varying float v_borderSize;
+varying float v_pointSize;
+
+const vec4 transparent = vec4(0.0, 0.0, 0.0, 0.0);
+
+void main(void) {
+  vec2 p = gl_PointCoord - vec2(0.5, 0.5);
+  // 1 at the center, 0 on the edge
+  float t = (${distance}) / ${center};
+
+  #ifdef PICKING_MODE
+  gl_FragColor = t > 0.0 ? v_color : transparent;
+  #else
+  float feather = 1.5 / (v_pointSize * ${center});
+  vec4 color = t > v_borderSize ? v_color : v_borderColor;
+  gl_FragColor = mix(transparent, color, clamp(t / feather, 0.0, 1.0));
+  #endif
+}
+`;
+}
+
+const { UNSIGNED_BYTE, FLOAT } = WebGLRenderingContext;
+const UNIFORMS = ['u_sizeRatio', 'u_pixelRatio', 'u_matrix'] as const;
+
+type ShapeNodeData = NodeDisplayData & { borderColor?: string; borderSize?: number };
+
+export function createNodeShapeProgram(shape: Exclude<NodeShape, 'circle'>) {
+  const fragmentShader = fragmentShaderSource(shape);
+
+  return class NodeShapeProgram extends NodeProgram<(typeof UNIFORMS)[number]> {
+    getDefinition() {
+      return {
+        VERTICES: 1,
+        VERTEX_SHADER_SOURCE,
+        FRAGMENT_SHADER_SOURCE: fragmentShader,
+        METHOD: WebGLRenderingContext.POINTS,
+        UNIFORMS,
+        ATTRIBUTES: [
+          { name: 'a_position', size: 2, type: FLOAT },
+          { name: 'a_size', size: 1, type: FLOAT },
+          { name: 'a_borderSize', size: 1, type: FLOAT },
+          { name: 'a_color', size: 4, type: UNSIGNED_BYTE, normalized: true },
+          { name: 'a_borderColor', size: 4, type: UNSIGNED_BYTE, normalized: true },
+          { name: 'a_id', size: 4, type: UNSIGNED_BYTE, normalized: true },
+        ],
+      };
+    }
+
+    processVisibleItem(nodeIndex: number, startIndex: number, data: ShapeNodeData) {
+      const array = this.array;
+      array[startIndex++] = data.x;
+      array[startIndex++] = data.y;
+      array[startIndex++] = data.size;
+      array[startIndex++] = data.borderSize ?? 0;
+      array[startIndex++] = floatColor(data.color);
+      array[startIndex++] = floatColor(data.borderColor || data.color);
+      array[startIndex++] = nodeIndex;
+    }
+
+    setUniforms({ sizeRatio, pixelRatio, matrix }: RenderParams, { gl, uniformLocations }: ProgramInfo) {
+      gl.uniform1f(uniformLocations.u_pixelRatio, pixelRatio);
+      gl.uniform1f(uniformLocations.u_sizeRatio, sizeRatio);
+      gl.uniformMatrix3fv(uniformLocations.u_matrix, false, matrix);
+    }
+  };
+}
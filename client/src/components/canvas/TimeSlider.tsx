@@ -0,0 +1,160 @@
+/**
+ * Silent Partners - Time Slider
+ *
+ * Limits the canvas to the relationships active at a date or over a range,
+ * and plays the network's evolution forward. Shown under the canvas once
+ * relationships carry dates.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { CalendarClock, Play, Pause, ChartGantt, X } from 'lucide-react';
+import { DateBounds, TimeFilter, dateToDay, dayToDate } from '@/lib/timeline';
+
+type SliderMode = 'date' | 'range';
+
+// Frames in one play-through, a tenth of a second apart
+const PLAY_FRAMES = 80;
+const PLAY_INTERVAL_MS = 100;
+
+interface TimeSliderProps {
+  bounds: DateBounds;
+  filter: TimeFilter | null;
+  onChange: (filter: TimeFilter | null) => void;
+  onOpenTimeline: () => void;
+}
+
+export function TimeSlider({ bounds, filter, onChange, onOpenTimeline }: TimeSliderProps) {
+  const [mode, setMode] = useState<SliderMode>('date');
+  const [isPlaying, setIsPlaying] = useState(false);
+  const filterRef = useRef(filter);
+  filterRef.current = filter;
+
+  const minDay = dateToDay(bounds.min);
+  const maxDay = Math.max(dateToDay(bounds.max), minDay + 1);
+
+  // Advance the date (or slide the range) one frame at a time
+  useEffect(() => {
+    if (!isPlaying) return;
+    const step = Math.max(1, Math.round((maxDay - minDay) / PLAY_FRAMES));
+    const timer = setInterval(() => {
+      const current = filterRef.current;
+      if (!current) return;
+      const to = Math.min(maxDay, dateToDay(current.to) + step);
+      const from = mode === 'date' ? to : dateToDay(current.from) + (to - dateToDay(current.to));
+      onChange({ ...current, from: dayToDate(from), to: dayToDate(to) });
+      if (to >= maxDay) setIsPlaying(false);
+    }, PLAY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, mode, minDay, maxDay, onChange]);
+
+  // Stop playing when the filter is switched off
+  useEffect(() => {
+    if (!filter) setIsPlaying(false);
+  }, [filter]);
+
+  if (!filter) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        className="absolute bottom-4 left-4 z-10 h-8 gap-1.5 text-xs bg-background/80 backdrop-blur-sm shadow-sm border-border/50"
+        onClick={() => onChange({ from: bounds.max, to: bounds.max, includeUndated: true, hideInactiveEntities: false })}
+        title="Show the network at a point in time"
+      >
+        <CalendarClock className="h-3.5 w-3.5" />
+        Time
+      </Button>
+    );
+  }
+
+  const handlePlay = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    // Start over from the beginning once the end is reached
+    if (dateToDay(filter.to) >= maxDay) {
+      const width = dateToDay(filter.to) - dateToDay(filter.from);
+      onChange({ ...filter, from: dayToDate(minDay), to: dayToDate(mode === 'date' ? minDay : minDay + width) });
+    }
+    setIsPlaying(true);
+  };
+
+  const handleMode = (next: SliderMode) => {
+    setMode(next);
+    if (next === 'date') {
+      onChange({ ...filter, from: filter.to });
+    } else if (filter.from === filter.to) {
+      onChange({ ...filter, from: bounds.min });
+    }
+  };
+
+  const handleSlide = (values: number[]) => {
+    setIsPlaying(false);
+    const [first, second = first] = values;
+    onChange({ ...filter, from: dayToDate(first), to: dayToDate(mode === 'date' ? first : second) });
+  };
+
+  const value = mode === 'date' ? [dateToDay(filter.to)] : [dateToDay(filter.from), dateToDay(filter.to)];
+
+  return (
+    <div className="absolute bottom-4 left-4 right-16 z-10 flex items-center gap-3 px-3 py-2 rounded-lg bg-background/90 backdrop-blur-sm border border-border/50 shadow-sm text-xs">
+      <Button variant="ghost" size="icon" className="h-7 w-7 flex-shrink-0" onClick={handlePlay} title={isPlaying ? 'Pause' : 'Play the network over time'}>
+        {isPlaying ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+      </Button>
+      <div className="flex rounded border border-border/50 overflow-hidden flex-shrink-0">
+        {(['date', 'range'] as SliderMode[]).map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => handleMode(option)}
+            className={`px-2 py-0.5 text-[10px] capitalize ${mode === option ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'}`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+      <span className="text-[10px] text-muted-foreground tabular-nums flex-shrink-0">{bounds.min}</span>
+      <Slider
+        min={minDay}
+        max={maxDay}
+        step={1}
+        value={value}
+        onValueChange={handleSlide}
+        className="flex-1 min-w-[120px]"
+      />
+      <span className="text-[10px] text-muted-foreground tabular-nums flex-shrink-0">{bounds.max}</span>
+      <span className="font-medium tabular-nums whitespace-nowrap flex-shrink-0">
+        {mode === 'date' ? filter.to : `${filter.from} – ${filter.to}`}
+      </span>
+      <label className="flex items-center gap-1 whitespace-nowrap cursor-pointer flex-shrink-0" title="Keep relationships that have no dates">
+        <input
+          type="checkbox"
+          className="w-3 h-3"
+          checked={filter.includeUndated}
+          onChange={(e) => onChange({ ...filter, includeUndated: e.target.checked })}
+        />
+        Undated
+      </label>
+      <label className="flex items-center gap-1 whitespace-nowrap cursor-pointer flex-shrink-0" title="Hide entities with no relationship shown">
+        <input
+          type="checkbox"
+          className="w-3 h-3"
+          checked={filter.hideInactiveEntities}
+          onChange={(e) => onChange({ ...filter, hideInactiveEntities: e.target.checked })}
+        />
+        Hide idle entities
+      </label>
+      <Button variant="ghost" size="icon" className="h-7 w-7 flex-shrink-0" onClick={onOpenTimeline} title="Open timeline view">
+        <ChartGantt className="h-3.5 w-3.5" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-7 w-7 flex-shrink-0" onClick={() => onChange(null)} title="Show all dates">
+        <X className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+}
+
+export default TimeSlider;
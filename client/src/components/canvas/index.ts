@@ -8,10 +8,16 @@
 export { ZoomControls } from './ZoomControls';
 export { AddEntityDialog } from './AddEntityDialog';
 export { EmptyState } from './EmptyState';
+export { HighlightBanner } from './HighlightBanner';
+export { TimeSlider } from './TimeSlider';
+export { FocusBar } from './FocusBar';
+export { AnnotationLayer } from './AnnotationLayer';
 
 // Utilities
 export * from './AnimationController';
 export * from './D3SimulationEngine';
+export { createNodeShapeProgram } from './NodeShapeProgram';
+export * from './LargeNetworkRendering';
 
 // Hooks
 export { useCanvasDimensions } from './hooks/useCanvasDimensions';
@@ -0,0 +1,254 @@
+/**
+ * Silent Partners - Analysis Panel
+ *
+ * Local graph analysis: ranks entities by centrality, maps a metric to node
+ * size on the canvas, and flags the brokers that bridge otherwise
+ * disconnected clusters. Scores are computed in a Web Worker and refreshed
+ * as the network changes. Also hosts the path finder and community
+ * detection.
+ */
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronDown, ChartNetwork, Loader2, Waypoints, ArrowDown, ArrowUp } from 'lucide-react';
+import { toast } from 'sonner';
+import { useNetwork } from '@/contexts/NetworkContext';
+import {
+  CENTRALITY_METRICS,
+  CentralityMetric,
+  CentralityResult,
+  computeCentralityInWorker,
+  scaleMetric,
+  toCentralityGraph,
+} from '@/lib/centrality';
+import PathFinderTool from './PathFinderTool';
+import CommunitiesTool from './CommunitiesTool';
+
+interface AnalysisPanelProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const IMPORTANCE_SIZING = 'importance';
+
+function formatScore(metric: CentralityMetric, value: number): string {
+  return value.toFixed(metric === 'pagerank' ? 3 : 2);
+}
+
+export default function AnalysisPanel({ isOpen, onOpenChange }: AnalysisPanelProps) {
+  const { network, selectedEntityId, selectEntity, setHighlight, nodeSizing, setNodeSizing } = useNetwork();
+  const [result, setResult] = useState<CentralityResult | null>(null);
+  const [isComputing, setIsComputing] = useState(false);
+  const [sortMetric, setSortMetric] = useState<CentralityMetric>('betweenness');
+  const [sortAscending, setSortAscending] = useState(false);
+  const runIdRef = useRef(0);
+
+  const entitiesById = useMemo(() => new Map(network.entities.map(e => [e.id, e])), [network.entities]);
+
+  const runAnalysis = useCallback(async () => {
+    const runId = ++runIdRef.current;
+    setIsComputing(true);
+    try {
+      const next = await computeCentralityInWorker(toCentralityGraph(network));
+      if (runId === runIdRef.current) setResult(next);
+    } catch (error) {
+      console.error('Centrality analysis failed:', error);
+      toast.error('Centrality analysis failed');
+    } finally {
+      if (runId === runIdRef.current) setIsComputing(false);
+    }
+  }, [network]);
+
+  // Once computed, keep the scores in step with the network
+  const hasResult = result !== null;
+  useEffect(() => {
+    if (!hasResult) return;
+    const timer = setTimeout(runAnalysis, 500);
+    return () => clearTimeout(timer);
+  }, [network.entities, network.relationships, hasResult]);
+
+  // Rescale the mapped metric whenever the scores change (only on new scores,
+  // or setting the sizing would loop back here)
+  useEffect(() => {
+    if (!result || !nodeSizing) return;
+    const metric = nodeSizing.metric as CentralityMetric;
+    if (!CENTRALITY_METRICS.some(m => m.id === metric)) return;
+    setNodeSizing({ ...nodeSizing, scores: scaleMetric(result.scores, metric) });
+  }, [result]);
+
+  const handleSizeBy = useCallback((value: string) => {
+    if (value === IMPORTANCE_SIZING) {
+      setNodeSizing(null);
+      return;
+    }
+    if (!result) return;
+    const metric = CENTRALITY_METRICS.find(m => m.id === value)!;
+    setNodeSizing({ metric: metric.id, label: metric.label, scores: scaleMetric(result.scores, metric.id) });
+  }, [result, setNodeSizing]);
+
+  const handleSort = (metric: CentralityMetric) => {
+    if (metric === sortMetric) {
+      setSortAscending(prev => !prev);
+    } else {
+      setSortMetric(metric);
+      setSortAscending(false);
+    }
+  };
+
+  const handleShowBroker = useCallback((brokerId: string) => {
+    const broker = entitiesById.get(brokerId);
+    if (!broker) return;
+    const links = network.relationships.filter(r => r.source === brokerId || r.target === brokerId);
+    setHighlight({
+      entityIds: [brokerId, ...links.map(r => (r.source === brokerId ? r.target : r.source))],
+      relationshipIds: links.map(r => r.id),
+      label: `${broker.name} bridges separate groups`,
+    });
+  }, [entitiesById, network.relationships, setHighlight]);
+
+  const rows = useMemo(() => {
+    if (!result) return [];
+    const sorted = result.scores
+      .filter(s => entitiesById.has(s.id))
+      .sort((a, b) => b[sortMetric] - a[sortMetric]);
+    return sortAscending ? sorted.reverse() : sorted;
+  }, [result, sortMetric, sortAscending, entitiesById]);
+
+  const brokers = (result?.brokerIds || [])
+    .map(id => ({ entity: entitiesById.get(id), score: result!.scores.find(s => s.id === id)! }))
+    .filter(b => b.entity);
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={onOpenChange}>
+      <CollapsibleTrigger className="w-full px-4 py-3 flex items-center justify-between hover:bg-sidebar-accent/50 transition-colors">
+        <span className="section-header mb-0 border-0 pb-0">Analysis</span>
+        <ChevronDown className={`w-4 h-4 text-muted-foreground transition-transform ${isOpen ? '' : '-rotate-90'}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-4 pb-4 space-y-3">
+        <div className="space-y-1">
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full justify-start text-xs h-8"
+            onClick={runAnalysis}
+            disabled={isComputing || network.entities.length === 0}
+          >
+            {isComputing ? (
+              <Loader2 className="w-3.5 h-3.5 mr-2 animate-spin" />
+            ) : (
+              <ChartNetwork className="w-3.5 h-3.5 mr-2" />
+            )}
+            {result ? 'Recompute Centrality' : 'Compute Centrality'}
+          </Button>
+          <p className="text-[10px] text-muted-foreground pl-1">
+            Rank entities by how connected and central they are
+          </p>
+        </div>
+
+        {result && (
+          <>
+            <div className="space-y-1">
+              <label className="text-xs font-medium">Size nodes by</label>
+              <Select value={nodeSizing?.metric || IMPORTANCE_SIZING} onValueChange={handleSizeBy}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={IMPORTANCE_SIZING} className="text-xs">Importance</SelectItem>
+                  {CENTRALITY_METRICS.map(metric => (
+                    <SelectItem key={metric.id} value={metric.id} className="text-xs">{metric.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Ranked table */}
+            <div className="border border-border/50 rounded max-h-72 overflow-auto">
+              <table className="w-full text-[11px]">
+                <thead className="sticky top-0 bg-sidebar">
+                  <tr className="border-b border-border/50">
+                    <th className="text-left font-medium px-1.5 py-1">Entity</th>
+                    {CENTRALITY_METRICS.map(metric => (
+                      <th key={metric.id} className="px-1 py-1 font-medium text-right" title={`${metric.label}: ${metric.description}`}>
+                        <button
+                          type="button"
+                          onClick={() => handleSort(metric.id)}
+                          className={`inline-flex items-center gap-0.5 ${sortMetric === metric.id ? 'text-foreground' : 'text-muted-foreground'}`}
+                        >
+                          {metric.short}
+                          {sortMetric === metric.id && (sortAscending ? <ArrowUp className="w-2.5 h-2.5" /> : <ArrowDown className="w-2.5 h-2.5" />)}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr
+                      key={row.id}
+                      onClick={() => selectEntity(row.id)}
+                      className={`cursor-pointer border-b border-border/30 hover:bg-muted ${row.id === selectedEntityId ? 'bg-muted' : ''}`}
+                    >
+                      <td className="px-1.5 py-1 max-w-[80px]">
+                        <span className="flex items-center gap-1">
+                          {row.isBroker && (
+                            <span title="Broker">
+                              <Waypoints className="w-2.5 h-2.5 text-amber-600 flex-shrink-0" />
+                            </span>
+                          )}
+                          <span className="truncate">{entitiesById.get(row.id)?.name}</span>
+                        </span>
+                      </td>
+                      {CENTRALITY_METRICS.map(metric => (
+                        <td
+                          key={metric.id}
+                          className={`px-1 py-1 text-right tabular-nums ${sortMetric === metric.id ? 'font-medium' : 'text-muted-foreground'}`}
+                        >
+                          {formatScore(metric.id, row[metric.id])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Brokers */}
+            <div className="space-y-1">
+              <label className="text-xs font-medium flex items-center gap-1">
+                <Waypoints className="w-3 h-3" />
+                Brokers
+              </label>
+              {brokers.length === 0 ? (
+                <p className="text-[10px] text-muted-foreground pl-1">
+                  No single entity holds separate groups together
+                </p>
+              ) : (
+                brokers.map(({ entity, score }) => (
+                  <button
+                    key={entity!.id}
+                    type="button"
+                    onClick={() => handleShowBroker(entity!.id)}
+                    className="w-full flex items-center gap-2 rounded px-2 py-1.5 text-left text-xs border border-amber-500/60 bg-amber-500/5 transition-colors hover:bg-muted"
+                    title={`Removing ${entity!.name} would split its group into ${score.bridgedGroups}`}
+                  >
+                    <span className="flex-1 truncate">{entity!.name}</span>
+                    <span className="text-[10px] text-muted-foreground">bridges {score.bridgedGroups} groups</span>
+                  </button>
+                ))
+              )}
+            </div>
+          </>
+        )}
+
+        {/* Path Finder - Local action */}
+        <PathFinderTool />
+
+        {/* Communities - Local action */}
+        <CommunitiesTool />
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,169 @@
+/**
+ * Silent Partners - Beneficial Owners Tool
+ *
+ * Pick a company and list its ultimate beneficial owners, with effective
+ * stakes multiplied through the ownership chains. Owners at or above the
+ * reporting thresholds are flagged, and the chains are highlighted on the
+ * canvas.
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Landmark, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useNetwork } from '@/contexts/NetworkContext';
+import {
+  BeneficialOwner,
+  DEFAULT_UBO_THRESHOLDS,
+  computeBeneficialOwners,
+  formatPercentage,
+  getOwnershipLinks,
+  highestThresholdMet,
+  parseThresholds,
+} from '@/lib/ownership';
+
+// Collect the entities and links on a set of chains
+function chainHighlight(owners: BeneficialOwner[]) {
+  const entityIds = new Set<string>();
+  const relationshipIds = new Set<string>();
+  owners.forEach(owner => {
+    owner.entityIds.forEach(id => entityIds.add(id));
+    owner.relationshipIds.forEach(id => relationshipIds.add(id));
+  });
+  return { entityIds: Array.from(entityIds), relationshipIds: Array.from(relationshipIds) };
+}
+
+export default function BeneficialOwnersTool() {
+  const { network, selectedEntityId, setHighlight } = useNetwork();
+  const [companyId, setCompanyId] = useState('');
+  const [thresholdInput, setThresholdInput] = useState(DEFAULT_UBO_THRESHOLDS.join(', '));
+  const [asOf, setAsOf] = useState('');
+  const [analyzedId, setAnalyzedId] = useState<string | null>(null);
+
+  // Anything that is owned can be analyzed
+  const ownedIds = useMemo(
+    () => new Set(getOwnershipLinks(network).map(link => link.ownedId)),
+    [network]
+  );
+  const companies = network.entities.filter(e => ownedIds.has(e.id));
+  const thresholds = parseThresholds(thresholdInput);
+
+  // Results stay live as the network changes
+  const owners = useMemo(
+    () => (analyzedId ? computeBeneficialOwners(network, analyzedId, { asOf: asOf || undefined }) : []),
+    [network, analyzedId, asOf]
+  );
+  const analyzed = network.entities.find(e => e.id === analyzedId);
+
+  const handleAnalyze = useCallback(() => {
+    const targetId = companyId || (selectedEntityId && ownedIds.has(selectedEntityId) ? selectedEntityId : '');
+    const target = network.entities.find(e => e.id === targetId);
+    if (!target) {
+      toast.error('Select a company with recorded owners');
+      return;
+    }
+    const result = computeBeneficialOwners(network, target.id, { asOf: asOf || undefined });
+    setAnalyzedId(target.id);
+    if (result.length === 0) {
+      toast.info(`No owners found for ${target.name}`);
+      setHighlight(null);
+      return;
+    }
+    setHighlight({ ...chainHighlight(result), label: `Ownership chains of ${target.name}` });
+  }, [companyId, selectedEntityId, ownedIds, network, asOf, setHighlight]);
+
+  const handleShowOwner = useCallback((owner: BeneficialOwner) => {
+    setHighlight({
+      ...chainHighlight([owner]),
+      label: `${owner.entity.name} → ${analyzed?.name || 'company'}`,
+    });
+  }, [analyzed, setHighlight]);
+
+  return (
+    <div className="space-y-2 pt-2 border-t border-border/50">
+      <label className="text-xs font-medium flex items-center gap-1">
+        <Landmark className="w-3 h-3" />
+        Beneficial Owners
+      </label>
+      <Select value={companyId} onValueChange={setCompanyId}>
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue placeholder={companies.length ? 'Select company...' : 'No ownership links yet'} />
+        </SelectTrigger>
+        <SelectContent>
+          {companies.map(entity => (
+            <SelectItem key={entity.id} value={entity.id} className="text-xs">
+              {entity.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-0.5">
+          <span className="text-[10px] text-muted-foreground">Flag at %</span>
+          <Input
+            value={thresholdInput}
+            onChange={(e) => setThresholdInput(e.target.value)}
+            placeholder="10, 25"
+            className="h-7 text-xs"
+          />
+        </div>
+        <div className="space-y-0.5">
+          <span className="text-[10px] text-muted-foreground">As of (optional)</span>
+          <Input
+            value={asOf}
+            onChange={(e) => setAsOf(e.target.value)}
+            placeholder="YYYY-MM-DD"
+            className="h-7 text-xs"
+          />
+        </div>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full justify-start text-xs h-8"
+        onClick={handleAnalyze}
+        disabled={companies.length === 0}
+      >
+        <Landmark className="w-3.5 h-3.5 mr-2" />
+        Find Ultimate Owners
+      </Button>
+
+      {analyzed && owners.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-[10px] text-muted-foreground pl-1">
+            {owners.length} ultimate {owners.length === 1 ? 'owner' : 'owners'} of {analyzed.name}
+          </p>
+          {owners.map(owner => {
+            const threshold = highestThresholdMet(owner, thresholds);
+            return (
+              <button
+                key={owner.entity.id}
+                type="button"
+                onClick={() => handleShowOwner(owner)}
+                className={`w-full flex items-center gap-2 rounded px-2 py-1.5 text-left text-xs border transition-colors hover:bg-muted ${
+                  threshold !== null ? 'border-amber-500/60 bg-amber-500/5' : 'border-border/50'
+                }`}
+                title={`${owner.chainCount} ownership ${owner.chainCount === 1 ? 'chain' : 'chains'}`}
+              >
+                <span className="flex-1 truncate">{owner.entity.name}</span>
+                {owner.hasUnknownStake && (
+                  <span title="Some links in the chain have no recorded stake">
+                    <AlertTriangle className="w-3 h-3 text-muted-foreground" />
+                  </span>
+                )}
+                <span className="font-medium tabular-nums">
+                  {owner.hasUnknownStake && owner.effectivePercentage === 0 ? '?' : formatPercentage(owner.effectivePercentage)}
+                </span>
+                {threshold !== null && (
+                  <span className="text-[10px] px-1 rounded bg-amber-500/20 text-amber-700">≥{threshold}%</span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+/**
+ * Silent Partners - Circular Structures Tool
+ *
+ * Lists the loops in the network's ownership, control and money flows as
+ * findings. Clicking a finding highlights the loop on the canvas.
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Repeat, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useNetwork } from '@/contexts/NetworkContext';
+import { CYCLE_KIND_LABELS, CycleFinding, findCycles, formatCycleFinding } from '@/lib/cycles';
+
+export default function CircularStructuresTool() {
+  const { network, highlight, setHighlight } = useNetwork();
+  const [analyzed, setAnalyzed] = useState(false);
+
+  // Findings stay live as the network changes once the analysis has run
+  const analysis = useMemo(() => (analyzed ? findCycles(network) : null), [network, analyzed]);
+
+  const handleAnalyze = useCallback(() => {
+    const result = findCycles(network);
+    setAnalyzed(true);
+    if (result.cycles.length === 0) {
+      toast.info('No circular ownership or money flows found');
+      return;
+    }
+    toast.warning(`Found ${result.cycles.length} circular ${result.cycles.length === 1 ? 'structure' : 'structures'}`);
+  }, [network]);
+
+  const handleShowCycle = useCallback((finding: CycleFinding) => {
+    setHighlight({
+      entityIds: finding.entityIds,
+      relationshipIds: finding.relationshipIds,
+      label: formatCycleFinding(finding),
+    });
+  }, [setHighlight]);
+
+  const isShown = (finding: CycleFinding) =>
+    !!highlight && finding.relationshipIds.every(id => highlight.relationshipIds.includes(id))
+      && highlight.relationshipIds.length === finding.relationshipIds.length;
+
+  return (
+    <div className="space-y-2 pt-2 border-t border-border/50">
+      <label className="text-xs font-medium flex items-center gap-1">
+        <Repeat className="w-3 h-3" />
+        Circular Structures
+      </label>
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full justify-start text-xs h-8"
+        onClick={handleAnalyze}
+        disabled={network.relationships.length === 0}
+      >
+        <Repeat className="w-3.5 h-3.5 mr-2" />
+        Detect Cycles
+      </Button>
+      <p className="text-[10px] text-muted-foreground pl-1">
+        Loops in ownership, control and payments
+      </p>
+
+      {analysis && analysis.cycles.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-[10px] text-muted-foreground pl-1">
+            {analysis.cycles.length}{analysis.truncated ? '+' : ''} {analysis.cycles.length === 1 ? 'cycle' : 'cycles'} in{' '}
+            {analysis.components.length} {analysis.components.length === 1 ? 'group' : 'groups'}
+          </p>
+          {analysis.cycles.map(finding => (
+            <button
+              key={finding.id}
+              type="button"
+              onClick={() => handleShowCycle(finding)}
+              className={`w-full flex items-start gap-2 rounded px-2 py-1.5 text-left text-xs border border-amber-500/60 transition-colors hover:bg-muted ${
+                isShown(finding) ? 'bg-amber-500/15' : 'bg-amber-500/5'
+              }`}
+              title={finding.description}
+            >
+              <AlertTriangle className="w-3 h-3 mt-0.5 text-amber-600 flex-shrink-0" />
+              <span className="flex-1 min-w-0">
+                <span className="block font-medium">{CYCLE_KIND_LABELS[finding.kind]}</span>
+                <span className="block truncate text-muted-foreground">{finding.description}</span>
+              </span>
+            </button>
+          ))}
+          {analysis.truncated && (
+            <p className="text-[10px] text-muted-foreground pl-1">
+              Only the first {analysis.cycles.length} cycles are listed
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
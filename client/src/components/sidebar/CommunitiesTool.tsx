@@ -0,0 +1,132 @@
+/**
+ * Silent Partners - Communities Tool
+ *
+ * Detects communities of densely connected entities, colors them on the
+ * canvas, and collapses a community into a single node (or expands it
+ * again). Communities and their collapsed state are saved with the network.
+ */
+
+import { useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Boxes, Minimize2, Maximize2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useNetwork } from '@/contexts/NetworkContext';
+import { EntityCluster } from '@/lib/store';
+import { buildClusters, detectCommunities } from '@/lib/communities';
+
+export default function CommunitiesTool() {
+  const { network, setClusters, setClusterCollapsed, setHighlight } = useNetwork();
+  const clusters = network.clusters;
+  const entityIds = new Set(network.entities.map(e => e.id));
+
+  const handleDetect = useCallback(() => {
+    const result = detectCommunities(network);
+    const found = buildClusters(network, result.communities);
+    if (found.length === 0) {
+      toast.info('No communities found: add more relationships first');
+      setClusters(null);
+      return;
+    }
+    setClusters({
+      clusters: found,
+      collapsed: [],
+      colorNodes: clusters?.colorNodes ?? true,
+      modularity: result.modularity,
+    });
+    toast.success(`Found ${found.length} ${found.length === 1 ? 'community' : 'communities'}`);
+  }, [network, clusters, setClusters]);
+
+  const handleShowCluster = useCallback((cluster: EntityCluster) => {
+    const members = new Set(cluster.memberIds);
+    setHighlight({
+      entityIds: cluster.memberIds,
+      relationshipIds: network.relationships
+        .filter(r => members.has(r.source) && members.has(r.target))
+        .map(r => r.id),
+      label: `Community: ${cluster.label}`,
+    });
+  }, [network.relationships, setHighlight]);
+
+  const setAllCollapsed = (collapsed: boolean) => {
+    if (!clusters) return;
+    setClusters({ ...clusters, collapsed: collapsed ? clusters.clusters.map(c => c.id) : [] });
+  };
+
+  return (
+    <div className="space-y-2 pt-2 border-t border-border/50">
+      <label className="text-xs font-medium flex items-center gap-1">
+        <Boxes className="w-3 h-3" />
+        Communities
+      </label>
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full justify-start text-xs h-8"
+        onClick={handleDetect}
+        disabled={network.relationships.length === 0}
+      >
+        <Boxes className="w-3.5 h-3.5 mr-2" />
+        {clusters ? 'Re-detect Communities' : 'Detect Communities'}
+      </Button>
+      <p className="text-[10px] text-muted-foreground pl-1">
+        Group densely connected entities to untangle the graph
+      </p>
+
+      {clusters && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <label className="flex-1 flex items-center gap-2 text-xs cursor-pointer">
+              <input
+                type="checkbox"
+                className="w-3.5 h-3.5"
+                checked={clusters.colorNodes}
+                onChange={(e) => setClusters({ ...clusters, colorNodes: e.target.checked })}
+              />
+              Color by community
+            </label>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setAllCollapsed(true)} title="Collapse all">
+              <Minimize2 className="w-3 h-3" />
+            </Button>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setAllCollapsed(false)} title="Expand all">
+              <Maximize2 className="w-3 h-3" />
+            </Button>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0 text-muted-foreground" onClick={() => setClusters(null)} title="Clear communities">
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+          {clusters.modularity !== undefined && (
+            <p className="text-[10px] text-muted-foreground pl-1">
+              {clusters.clusters.length} communities · modularity {clusters.modularity.toFixed(2)}
+            </p>
+          )}
+          {clusters.clusters.map(cluster => {
+            const memberCount = cluster.memberIds.filter(id => entityIds.has(id)).length;
+            const collapsed = clusters.collapsed.includes(cluster.id);
+            return (
+              <div key={cluster.id} className="flex items-center gap-1 rounded border border-border/50 text-xs">
+                <button
+                  type="button"
+                  onClick={() => handleShowCluster(cluster)}
+                  className="flex-1 min-w-0 flex items-center gap-2 px-2 py-1.5 text-left hover:bg-muted rounded"
+                >
+                  <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: cluster.color }} />
+                  <span className="flex-1 truncate">{cluster.label}</span>
+                  <span className="text-[10px] text-muted-foreground tabular-nums">{memberCount}</span>
+                </button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 mr-1"
+                  onClick={() => setClusterCollapsed(cluster.id, !collapsed)}
+                  title={collapsed ? 'Expand community' : 'Collapse into one node'}
+                >
+                  {collapsed ? <Maximize2 className="w-3 h-3" /> : <Minimize2 className="w-3 h-3" />}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
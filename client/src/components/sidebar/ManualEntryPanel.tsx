@@ -11,10 +11,15 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
-import { ChevronDown, Plus, Link } from 'lucide-react';
+import { ChevronDown, Plus, Link, Settings2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { useNetwork } from '@/contexts/NetworkContext';
 import { generateId, Entity, Relationship } from '@/lib/store';
+import EntityTypeSelect from '@/components/EntityTypeSelect';
+import RelationshipTypeSelect from '@/components/RelationshipTypeSelect';
+import RelationshipTypesDialog from '@/components/RelationshipTypesDialog';
+import { getRelationshipTypeDefinition } from '@/lib/relationship-types';
+import { isOwnershipRelationship } from '@/lib/ownership';
 
 interface ManualEntryPanelProps {
   isOpen: boolean;
@@ -22,7 +27,7 @@ interface ManualEntryPanelProps {
 }
 
 export default function ManualEntryPanel({ isOpen, onOpenChange }: ManualEntryPanelProps) {
-  const { network, dispatch, addRelationship } = useNetwork();
+  const { network, dispatch, addOrMergeRelationship } = useNetwork();
 
   // Add entity form state
   const [entityName, setEntityName] = useState('');
@@ -36,6 +41,8 @@ export default function ManualEntryPanel({ isOpen, onOpenChange }: ManualEntryPa
   const [relTarget, setRelTarget] = useState('');
   const [relType, setRelType] = useState('');
   const [relLabel, setRelLabel] = useState('');
+  const [relStake, setRelStake] = useState('');
+  const [showVocabulary, setShowVocabulary] = useState(false);
 
   // Quick entity linking suggestions - find similar entities
   const suggestions = useMemo(() => {
@@ -70,14 +77,12 @@ export default function ManualEntryPanel({ isOpen, onOpenChange }: ManualEntryPa
 
     // If a connection was selected, create the relationship
     if (selectedConnection) {
-      const newRelationship: Relationship = {
-        id: generateId(),
+      addOrMergeRelationship({
         source: newEntity.id,
         target: selectedConnection,
         type: 'connected_to',
         label: 'connected to',
-      };
-      addRelationship(newRelationship);
+      });
       const targetName = network.entities.find((e) => e.id === selectedConnection)?.name;
       toast.success(`Added ${entityName} and connected to ${targetName}`);
     } else {
@@ -89,7 +94,7 @@ export default function ManualEntryPanel({ isOpen, onOpenChange }: ManualEntryPa
     setEntityImportance(5);
     setEntityDate('');
     setSelectedConnection(null);
-  }, [entityName, entityType, entityImportance, entityDate, selectedConnection, dispatch, addRelationship, network.entities]);
+  }, [entityName, entityType, entityImportance, entityDate, selectedConnection, dispatch, addOrMergeRelationship, network.entities]);
 
   // Add relationship manually
   const handleAddRelationship = useCallback(() => {
@@ -113,15 +118,21 @@ export default function ManualEntryPanel({ isOpen, onOpenChange }: ManualEntryPa
       return;
     }
 
+    // The vocabulary normalizes the type as it is added
+    const definition = getRelationshipTypeDefinition(network.relationshipTypes, relType);
     const newRelationship: Relationship = {
       id: generateId(),
       source: relSource,
       target: relTarget,
       type: relType || 'connection',
-      label: relLabel || relType || 'connection',
+      label: relLabel || definition?.label || relType || 'connection',
     };
+    const stake = parseFloat(relStake);
+    if (isOwnershipRelationship(newRelationship) && !isNaN(stake)) {
+      newRelationship.ownership = { percentage: Math.min(100, Math.max(0, stake)) };
+    }
 
-    dispatch({ type: 'ADD_RELATIONSHIP', payload: newRelationship });
+    dispatch({ type: 'ADD_OR_MERGE_RELATIONSHIP', payload: newRelationship });
 
     const sourceName = network.entities.find((e) => e.id === relSource)?.name || 'Entity';
     const targetName = network.entities.find((e) => e.id === relTarget)?.name || 'Entity';
@@ -132,7 +143,8 @@ export default function ManualEntryPanel({ isOpen, onOpenChange }: ManualEntryPa
     setRelTarget('');
     setRelType('');
     setRelLabel('');
-  }, [relSource, relTarget, relType, relLabel, network.entities, network.relationships, dispatch]);
+    setRelStake('');
+  }, [relSource, relTarget, relType, relLabel, relStake, network.entities, network.relationships, network.relationshipTypes, dispatch]);
 
   return (
     <Collapsible open={isOpen} onOpenChange={onOpenChange}>
@@ -173,20 +185,7 @@ export default function ManualEntryPanel({ isOpen, onOpenChange }: ManualEntryPa
             </div>
           )}
 
-          <Select value={entityType} onValueChange={(v) => setEntityType(v as Entity['type'])}>
-            <SelectTrigger className="h-8 text-sm bg-background">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="person">Person</SelectItem>
-              <SelectItem value="corporation">Corporation</SelectItem>
-              <SelectItem value="government">Government</SelectItem>
-              <SelectItem value="financial">Financial</SelectItem>
-              <SelectItem value="organization">Organization</SelectItem>
-              <SelectItem value="location">Location</SelectItem>
-              <SelectItem value="asset">Asset</SelectItem>
-            </SelectContent>
-          </Select>
+          <EntityTypeSelect value={entityType} onValueChange={setEntityType} className="h-8 text-sm bg-background" />
           <div className="space-y-1">
             <Label className="text-[10px] text-muted-foreground">Importance: {entityImportance}</Label>
             <Slider
@@ -215,6 +214,14 @@ export default function ManualEntryPanel({ isOpen, onOpenChange }: ManualEntryPa
           <div className="space-y-2 pt-2 border-t border-sidebar-border">
             <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
               <Link className="w-3 h-3" /> Add Relationship
+              <button
+                type="button"
+                className="ml-auto hover:text-foreground"
+                onClick={() => setShowVocabulary(true)}
+                title="Manage relationship vocabulary"
+              >
+                <Settings2 className="w-3 h-3" />
+              </button>
             </div>
             <Select value={relSource} onValueChange={setRelSource}>
               <SelectTrigger className="h-8 text-sm bg-background">
@@ -242,12 +249,19 @@ export default function ManualEntryPanel({ isOpen, onOpenChange }: ManualEntryPa
                   ))}
               </SelectContent>
             </Select>
-            <Input
-              value={relType}
-              onChange={(e) => setRelType(e.target.value)}
-              placeholder="Relationship type (e.g. Invested in)"
-              className="h-8 text-sm bg-background"
-            />
+            <RelationshipTypeSelect value={relType} onValueChange={setRelType} className="h-8 text-sm bg-background" />
+            {isOwnershipRelationship({ id: '', source: relSource, target: relTarget, type: relType }) && (
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                step="any"
+                value={relStake}
+                onChange={(e) => setRelStake(e.target.value)}
+                placeholder="Stake % (optional)"
+                className="h-8 text-sm bg-background"
+              />
+            )}
             <Input
               value={relLabel}
               onChange={(e) => setRelLabel(e.target.value)}
@@ -260,6 +274,8 @@ export default function ManualEntryPanel({ isOpen, onOpenChange }: ManualEntryPa
           </div>
         )}
       </CollapsibleContent>
+
+      <RelationshipTypesDialog open={showVocabulary} onOpenChange={setShowVocabulary} />
     </Collapsible>
   );
 }
@@ -11,14 +11,20 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ChevronDown, Loader2, Download, Upload, Share2, Save, RotateCcw, RefreshCw, Wand2 } from 'lucide-react';
+import { ChevronDown, Loader2, Download, Upload, Share2, Save, RotateCcw, RefreshCw, Wand2, ArchiveRestore } from 'lucide-react';
 import { toast } from 'sonner';
 import { useNetwork } from '@/contexts/NetworkContext';
 import { useAuth } from '@/contexts/AuthContext';
 import api from '@/lib/api';
+import { getLayoutPositions } from '@/lib/drafts';
 import { generateId, Entity, Relationship } from '@/lib/store';
+import { getEntityTypes, mergeEntityTypes } from '@/lib/entity-types';
+import { normalizeRelationships } from '@/lib/relationship-types';
+import { parseEntityTypes, parseOwnership } from '@/components/ImportJsonDialog';
 import pako from 'pako';
 import ExportModal from '@/components/ExportModal';
+import DedupReviewDialog from '@/components/DedupReviewDialog';
+import DraftRecoveryDialog from '@/components/DraftRecoveryDialog';
 import { INVESTIGATION_TEMPLATES } from './InvestigationTemplates';
 
 interface NetworkPanelProps {
@@ -28,7 +34,7 @@ interface NetworkPanelProps {
 }
 
 export default function NetworkPanel({ isOpen, onOpenChange, onSelectTemplate }: NetworkPanelProps) {
-  const { network, dispatch, clearNetwork, addEntitiesAndRelationships, setNetwork, deduplicateNetwork } = useNetwork();
+  const { network, dispatch, clearNetwork, addEntitiesAndRelationships, setNetwork } = useNetwork();
   const { isAuthenticated } = useAuth();
 
   const [isProcessing, setIsProcessing] = useState(false);
@@ -36,9 +42,10 @@ export default function NetworkPanel({ isOpen, onOpenChange, onSelectTemplate }:
   const [isSharing, setIsSharing] = useState(false);
   const [savedGraphId, setSavedGraphId] = useState<number | null>(null);
   const [isDeduplicating, setIsDeduplicating] = useState(false);
-  const [isNormalizing, setIsNormalizing] = useState(false);
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [showExportModal, setShowExportModal] = useState(false);
+  const [showDedupReview, setShowDedupReview] = useState(false);
+  const [showDrafts, setShowDrafts] = useState(false);
   const importInputRef = useRef<HTMLInputElement>(null);
 
   // Load example network from pre-built data or template
@@ -192,13 +199,23 @@ export default function NetworkPanel({ isOpen, onOpenChange, onSelectTemplate }:
             name: e.name,
             type: e.type,
             description: e.description,
+            attributes: e.attributes,
           })),
           relationships: network.relationships.map((r) => ({
             source: r.source,
             target: r.target,
             type: r.type,
             label: r.label,
+            ownership: r.ownership,
+            start_date: r.startDate,
+            end_date: r.endDate,
           })),
+          entity_types: network.entityTypes,
+          relationship_types: network.relationshipTypes,
+          merge_decisions: network.mergeDecisions,
+          clusters: network.clusters,
+          layout: network.layout,
+          annotations: network.annotations,
         });
         setSavedGraphId(id);
         toast.success('Network saved to cloud!');
@@ -208,6 +225,12 @@ export default function NetworkPanel({ isOpen, onOpenChange, onSelectTemplate }:
           description: network.description,
           entities: network.entities,
           relationships: network.relationships,
+          entityTypes: network.entityTypes,
+          relationshipTypes: network.relationshipTypes,
+          mergeDecisions: network.mergeDecisions,
+          clusters: network.clusters,
+          layout: network.layout,
+          annotations: network.annotations,
           savedAt: new Date().toISOString(),
         };
         const savedNetworks = JSON.parse(localStorage.getItem('silentPartners_savedNetworks') || '[]');
@@ -246,23 +269,40 @@ export default function NetworkPanel({ isOpen, onOpenChange, onSelectTemplate }:
             name: e.name,
             type: e.type,
             description: e.description,
+            attributes: e.attributes,
           })),
           relationships: network.relationships.map((r) => ({
             source: r.source,
             target: r.target,
             type: r.type,
             label: r.label,
+            ownership: r.ownership,
+            start_date: r.startDate,
+            end_date: r.endDate,
           })),
+          entity_types: network.entityTypes,
+          relationship_types: network.relationshipTypes,
+          clusters: network.clusters,
+          layout: network.layout,
+          annotations: network.annotations,
         });
         const { share_url } = await api.shareGraph(id);
         await navigator.clipboard.writeText(share_url);
         toast.success('Share link copied to clipboard!');
       } else {
+        // Entities carry where the canvas placed them, so the shared view
+        // draws the network (and its annotations) as laid out
+        const positions = getLayoutPositions();
         const networkData = {
           title: network.title || 'Untitled Network',
           description: network.description,
-          entities: network.entities,
+          entities: network.entities.map(e => (positions[e.id] ? { ...e, ...positions[e.id] } : e)),
           relationships: network.relationships,
+          entityTypes: network.entityTypes,
+          relationshipTypes: network.relationshipTypes,
+          clusters: network.clusters,
+          layout: network.layout,
+          annotations: network.annotations,
         };
         const jsonString = JSON.stringify(networkData);
         const compressed = pako.deflate(jsonString);
@@ -351,6 +391,10 @@ export default function NetworkPanel({ isOpen, onOpenChange, onSelectTemplate }:
         if (data.description) dispatch({ type: 'SET_DESCRIPTION', payload: data.description });
       }
 
+      // Custom entity types; entities of any other unknown type become "unknown"
+      const entityTypes = parseEntityTypes(data.entityTypes);
+      const knownTypes = new Set(getEntityTypes(mergeEntityTypes(network.entityTypes, entityTypes)).map(t => t.id));
+
       // Map IDs to avoid conflicts
       const existingIds = new Set(network.entities.map(e => e.id));
       const existingNames = new Set(network.entities.map(e => e.name.toLowerCase()));
@@ -370,7 +414,7 @@ export default function NetworkPanel({ isOpen, onOpenChange, onSelectTemplate }:
         newEntities.push({
           id: newId,
           name: entity.name,
-          type: entity.type || 'unknown',
+          type: knownTypes.has(entity.type) ? entity.type : 'unknown',
           description: entity.description,
           importance: entity.importance || 5,
           source_type: 'manual',
@@ -390,10 +434,13 @@ export default function NetworkPanel({ isOpen, onOpenChange, onSelectTemplate }:
           type: rel.type,
           label: rel.label,
           status: rel.status || 'confirmed',
+          startDate: rel.startDate,
+          endDate: rel.endDate,
+          ownership: parseOwnership(rel.ownership),
         });
       }
 
-      addEntitiesAndRelationships(newEntities, newRelationships);
+      addEntitiesAndRelationships(newEntities, newRelationships, entityTypes);
       toast.success(`Imported ${newEntities.length} entities and ${newRelationships.length} relationships`);
     } catch (error) {
       console.error('Import error:', error);
@@ -553,20 +600,10 @@ export default function NetworkPanel({ isOpen, onOpenChange, onSelectTemplate }:
     setShowExportMenu(false);
   }, [network]);
 
-  // Handle local deduplication (works without saving)
+  // Handle local deduplication (works without saving): open the review dialog
   const handleLocalDeduplicate = useCallback(() => {
-    const beforeCount = network.entities.length;
-    const beforeRelCount = network.relationships.length;
-    deduplicateNetwork();
-    // Use setTimeout to check counts after state update (MEDIUM-1 fix)
-    setTimeout(() => {
-      // Note: This won't show accurate counts due to React batching,
-      // but at least provides user feedback
-      toast.success(`Deduplication complete! Started with ${beforeCount} entities.`, {
-        description: 'Duplicate entities have been merged. Check the graph for changes.',
-      });
-    }, 100);
-  }, [network.entities.length, network.relationships.length, deduplicateNetwork]);
+    setShowDedupReview(true);
+  }, []);
 
   // Handle cloud deduplication (requires saving first)
   const handleDeduplicate = useCallback(async () => {
@@ -603,46 +640,33 @@ export default function NetworkPanel({ isOpen, onOpenChange, onSelectTemplate }:
     }
   }, [savedGraphId, handleLocalDeduplicate]);
 
-  // Handle normalization
-  const handleNormalize = useCallback(async () => {
-    if (!savedGraphId) {
-      toast.error('Please save the network first to use normalization');
+  // Handle normalization against the network's relationship vocabulary
+  const handleNormalize = useCallback(() => {
+    const result = normalizeRelationships(network.relationshipTypes, network.relationships);
+
+    if (result.changes.length === 0 && result.duplicatesRemoved === 0) {
+      toast.success('All relationships are already normalized!');
       return;
     }
 
-    setIsNormalizing(true);
-    try {
-      const dryResult = await api.normalizeRelationships(savedGraphId, true);
-
-      if (dryResult.result.type_changes === 0 && dryResult.result.duplicates_found === 0) {
-        toast.success('All relationships are already normalized!');
-        return;
-      }
-
-      const changes = dryResult.result.changes
-        .slice(0, 5)
-        .map((c) => `"${c.original_type}" → "${c.canonical_type}"`)
-        .join('\n');
+    const changes = result.changes
+      .slice(0, 5)
+      .map((c) => `"${c.from}" → "${c.to}"`)
+      .join('\n');
 
-      if (
-        !confirm(
-          `Found ${dryResult.result.type_changes} type changes and ${dryResult.result.duplicates_found} duplicates.\n\nExamples:\n${changes}\n\nApply normalization?`
-        )
-      ) {
-        return;
-      }
-
-      const result = await api.normalizeRelationships(savedGraphId, false);
-      toast.success(
-        `Normalized ${result.result.type_changes} relationships, removed ${result.result.duplicates_found} duplicates`
-      );
-    } catch (error) {
-      console.error('Normalization error:', error);
-      toast.error(error instanceof Error ? error.message : 'Failed to normalize');
-    } finally {
-      setIsNormalizing(false);
+    if (
+      !confirm(
+        `Found ${result.changes.length} type changes and ${result.duplicatesRemoved} duplicates.\n\nExamples:\n${changes}\n\nApply normalization?`
+      )
+    ) {
+      return;
     }
-  }, [savedGraphId]);
+
+    dispatch({ type: 'NORMALIZE_RELATIONSHIPS' });
+    toast.success(
+      `Normalized ${result.changes.length} relationships, removed ${result.duplicatesRemoved} duplicates`
+    );
+  }, [network.relationshipTypes, network.relationships, dispatch]);
 
   return (
     <>
@@ -749,6 +773,15 @@ export default function NetworkPanel({ isOpen, onOpenChange, onSelectTemplate }:
             >
               <RotateCcw className="w-3 h-3" />
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs px-2"
+              onClick={() => setShowDrafts(true)}
+              title="Recent local drafts"
+            >
+              <ArchiveRestore className="w-3 h-3" />
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -836,7 +869,7 @@ export default function NetworkPanel({ isOpen, onOpenChange, onSelectTemplate }:
                   className="flex-1 h-7 text-xs"
                   onClick={handleDeduplicate}
                   disabled={isDeduplicating}
-                  title="Find and merge duplicate entities"
+                  title="Review and merge duplicate entities"
                 >
                   {isDeduplicating ? (
                     <Loader2 className="w-3 h-3 mr-1 animate-spin" />
@@ -850,20 +883,12 @@ export default function NetworkPanel({ isOpen, onOpenChange, onSelectTemplate }:
                   size="sm"
                   className="flex-1 h-7 text-xs"
                   onClick={handleNormalize}
-                  disabled={isNormalizing || !savedGraphId}
-                  title={savedGraphId ? 'Normalize relationship types' : 'Save network first to use this feature'}
+                  title="Normalize relationship types against the vocabulary"
                 >
-                  {isNormalizing ? (
-                    <Loader2 className="w-3 h-3 mr-1 animate-spin" />
-                  ) : (
-                    <Wand2 className="w-3 h-3 mr-1" />
-                  )}
+                  <Wand2 className="w-3 h-3 mr-1" />
                   Normalize
                 </Button>
               </div>
-              {!savedGraphId && (
-                <p className="text-xs text-muted-foreground mt-1 italic">Dedupe works locally. Save network for cloud-based normalization.</p>
-              )}
             </div>
           )}
         </CollapsibleContent>
@@ -872,6 +897,12 @@ export default function NetworkPanel({ isOpen, onOpenChange, onSelectTemplate }:
       {/* Export Modal */}
       <ExportModal open={showExportModal} onOpenChange={setShowExportModal} />
 
+      {/* Duplicate review */}
+      <DedupReviewDialog open={showDedupReview} onOpenChange={setShowDedupReview} />
+
+      {/* Autosaved local drafts */}
+      <DraftRecoveryDialog open={showDrafts} onOpenChange={setShowDrafts} />
+
       {/* Hidden file input for JSON import */}
       <input
         ref={importInputRef}
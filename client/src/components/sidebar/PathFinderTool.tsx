@@ -0,0 +1,299 @@
+/**
+ * Silent Partners - Path Finder Tool
+ *
+ * Finds how two entities connect through relationships already in the
+ * network, without asking the AI. Lists the shortest paths or every path
+ * up to a length limit; clicking a path highlights it on the canvas, and
+ * the paths can be copied or downloaded as textual chains.
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Route, Copy, Download, X, ArrowLeftRight } from 'lucide-react';
+import { toast } from 'sonner';
+import { useNetwork } from '@/contexts/NetworkContext';
+import { getRelationshipTypeDefinition } from '@/lib/relationship-types';
+import {
+  GraphPath,
+  PathFilters,
+  findAllSimplePaths,
+  findShortestPaths,
+  formatPathChain,
+} from '@/lib/paths';
+
+type PathMode = 'shortest' | 'all';
+
+export default function PathFinderTool() {
+  const { network, selectedEntityId, highlight, setHighlight } = useNetwork();
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [mode, setMode] = useState<PathMode>('shortest');
+  const [maxLength, setMaxLength] = useState('4');
+  const [confirmedOnly, setConfirmedOnly] = useState(false);
+  const [excludedTypes, setExcludedTypes] = useState<string[]>([]);
+  const [excludedEntityIds, setExcludedEntityIds] = useState<string[]>([]);
+  const [search, setSearch] = useState<{ fromId: string; toId: string } | null>(null);
+
+  const entities = useMemo(
+    () => [...network.entities].sort((a, b) => a.name.localeCompare(b.name)),
+    [network.entities]
+  );
+  const entityName = useCallback(
+    (id: string) => network.entities.find(e => e.id === id)?.name || id,
+    [network.entities]
+  );
+  const typesInUse = useMemo(
+    () => Array.from(new Set(network.relationships.map(r => r.type).filter((t): t is string => !!t))).sort(),
+    [network.relationships]
+  );
+
+  // Results stay live as the network and filters change once searched
+  const result = useMemo(() => {
+    if (!search) return null;
+    const filters: PathFilters = { confirmedOnly, excludedTypes, excludedEntityIds };
+    const length = Math.max(1, Math.min(8, parseInt(maxLength) || 4));
+    return mode === 'shortest'
+      ? findShortestPaths(network, search.fromId, search.toId, filters)
+      : findAllSimplePaths(network, search.fromId, search.toId, filters, { maxLength: length });
+  }, [search, network, mode, maxLength, confirmedOnly, excludedTypes, excludedEntityIds]);
+
+  const chains = useMemo(
+    () => (result ? result.paths.map(path => formatPathChain(network, path)) : []),
+    [result, network]
+  );
+
+  const handleFind = useCallback(() => {
+    // An empty "From" falls back to the entity selected on the canvas
+    const start = fromId || selectedEntityId || '';
+    if (!start || !toId) {
+      toast.error('Choose two entities to connect');
+      return;
+    }
+    if (start === toId) {
+      toast.error('Choose two different entities');
+      return;
+    }
+    setFromId(start);
+    setSearch({ fromId: start, toId });
+    setHighlight(null);
+  }, [fromId, toId, selectedEntityId, setHighlight]);
+
+  const handleSwap = () => {
+    setFromId(toId);
+    setToId(fromId);
+    if (search) setSearch({ fromId: search.toId, toId: search.fromId });
+  };
+
+  const handleShowPath = useCallback((path: GraphPath, chain: string) => {
+    setHighlight({ entityIds: path.entityIds, relationshipIds: path.relationshipIds, label: chain });
+  }, [setHighlight]);
+
+  const handleCopy = useCallback(async (text: string, count: number) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(count === 1 ? 'Path copied' : `${count} paths copied`);
+    } catch {
+      toast.error('Failed to copy to clipboard');
+    }
+  }, []);
+
+  const handleDownload = useCallback(() => {
+    if (!search) return;
+    const header = `Paths from ${entityName(search.fromId)} to ${entityName(search.toId)}`;
+    const blob = new Blob([[header, '', ...chains].join('\n') + '\n'], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `paths-${entityName(search.fromId)}-${entityName(search.toId)}`.toLowerCase().replace(/[^a-z0-9]+/g, '-') + '.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [search, chains, entityName]);
+
+  const toggleType = (type: string) => {
+    setExcludedTypes(prev => (prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]));
+  };
+
+  const isShown = (path: GraphPath) =>
+    !!highlight && highlight.relationshipIds.length === path.relationshipIds.length
+      && path.relationshipIds.every((id, i) => highlight.relationshipIds[i] === id);
+
+  return (
+    <div className="space-y-2 pt-2 border-t border-border/50">
+      <label className="text-xs font-medium flex items-center gap-1">
+        <Route className="w-3 h-3" />
+        Path Finder
+      </label>
+
+      <div className="flex items-center gap-1">
+        <div className="flex-1 min-w-0 space-y-1">
+          <Select value={fromId} onValueChange={setFromId}>
+            <SelectTrigger className="h-7 text-xs">
+              <SelectValue placeholder={selectedEntityId ? `From: ${entityName(selectedEntityId)}` : 'From...'} />
+            </SelectTrigger>
+            <SelectContent>
+              {entities.map(entity => (
+                <SelectItem key={entity.id} value={entity.id} className="text-xs">{entity.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={toId} onValueChange={setToId}>
+            <SelectTrigger className="h-7 text-xs">
+              <SelectValue placeholder="To..." />
+            </SelectTrigger>
+            <SelectContent>
+              {entities.map(entity => (
+                <SelectItem key={entity.id} value={entity.id} className="text-xs">{entity.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={handleSwap} title="Swap entities">
+          <ArrowLeftRight className="w-3 h-3" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={mode} onValueChange={(v) => setMode(v as PathMode)}>
+          <SelectTrigger className="h-7 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="shortest" className="text-xs">Shortest paths</SelectItem>
+            <SelectItem value="all" className="text-xs">All paths</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-1">
+          <span className="text-[10px] text-muted-foreground whitespace-nowrap">Max steps</span>
+          <Input
+            type="number"
+            min={1}
+            max={8}
+            value={maxLength}
+            onChange={(e) => setMaxLength(e.target.value)}
+            className="h-7 text-xs"
+            disabled={mode === 'shortest'}
+          />
+        </div>
+      </div>
+
+      {/* Filters */}
+      <label className="flex items-center gap-2 text-xs cursor-pointer">
+        <input
+          type="checkbox"
+          className="w-3.5 h-3.5"
+          checked={confirmedOnly}
+          onChange={(e) => setConfirmedOnly(e.target.checked)}
+        />
+        Confirmed relationships only
+      </label>
+      {typesInUse.length > 0 && (
+        <div className="space-y-1">
+          <span className="text-[10px] text-muted-foreground">Follow relationship types</span>
+          <div className="flex flex-wrap gap-1">
+            {typesInUse.map(type => {
+              const excluded = excludedTypes.includes(type);
+              return (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => toggleType(type)}
+                  className={`text-[10px] px-1.5 py-0.5 rounded border transition-colors ${
+                    excluded ? 'border-border/50 text-muted-foreground line-through' : 'border-primary/40 bg-primary/5'
+                  }`}
+                  title={excluded ? 'Excluded: click to follow' : 'Followed: click to exclude'}
+                >
+                  {getRelationshipTypeDefinition(network.relationshipTypes, type)?.label || type}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+      <div className="space-y-1">
+        <Select value="" onValueChange={(id) => setExcludedEntityIds(prev => (prev.includes(id) ? prev : [...prev, id]))}>
+          <SelectTrigger className="h-7 text-xs">
+            <SelectValue placeholder="Avoid entity..." />
+          </SelectTrigger>
+          <SelectContent>
+            {entities
+              .filter(e => !excludedEntityIds.includes(e.id))
+              .map(entity => (
+                <SelectItem key={entity.id} value={entity.id} className="text-xs">{entity.name}</SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+        {excludedEntityIds.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {excludedEntityIds.map(id => (
+              <span key={id} className="text-[10px] px-1.5 py-0.5 rounded bg-muted flex items-center gap-1">
+                {entityName(id)}
+                <button
+                  type="button"
+                  onClick={() => setExcludedEntityIds(prev => prev.filter(e => e !== id))}
+                  title="Stop avoiding"
+                >
+                  <X className="w-2.5 h-2.5" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full justify-start text-xs h-8"
+        onClick={handleFind}
+        disabled={network.entities.length < 2}
+      >
+        <Route className="w-3.5 h-3.5 mr-2" />
+        Find Paths
+      </Button>
+
+      {search && result && (
+        result.paths.length === 0 ? (
+          <p className="text-[10px] text-muted-foreground pl-1">
+            No path from {entityName(search.fromId)} to {entityName(search.toId)} with these filters
+          </p>
+        ) : (
+          <div className="space-y-1">
+            <div className="flex items-center gap-1">
+              <p className="flex-1 text-[10px] text-muted-foreground pl-1">
+                {result.paths.length}{result.truncated ? '+' : ''} {result.paths.length === 1 ? 'path' : 'paths'}
+              </p>
+              <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => handleCopy(chains.join('\n'), chains.length)} title="Copy all paths">
+                <Copy className="w-3 h-3" />
+              </Button>
+              <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={handleDownload} title="Download paths as text">
+                <Download className="w-3 h-3" />
+              </Button>
+            </div>
+            {result.paths.map((path, i) => (
+              <div
+                key={path.relationshipIds.join('|')}
+                className={`flex items-start gap-1 rounded border text-xs transition-colors ${
+                  isShown(path) ? 'border-primary/60 bg-primary/10' : 'border-border/50'
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => handleShowPath(path, chains[i])}
+                  className="flex-1 min-w-0 px-2 py-1.5 text-left hover:bg-muted rounded"
+                >
+                  <span className="text-[10px] text-muted-foreground">{path.steps.length} {path.steps.length === 1 ? 'step' : 'steps'}</span>
+                  <span className="block break-words">{chains[i]}</span>
+                </button>
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0 mt-1" onClick={() => handleCopy(chains[i], 1)} title="Copy path">
+                  <Copy className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -10,7 +10,7 @@ import { Input } from '@/components/ui/input';
 import { ChevronDown, Search, X } from 'lucide-react';
 import { useNetwork } from '@/contexts/NetworkContext';
 import { useDebouncedValue } from '@/hooks/useDebouncedValue';
-import { entityColors } from '@/lib/store';
+import { getEntityTypeDefinition } from '@/lib/entity-types';
 
 interface SearchPanelProps {
   isOpen: boolean;
@@ -75,20 +75,23 @@ export default function SearchPanel({ isOpen, onOpenChange }: SearchPanelProps)
 
         {searchResults.length > 0 && (
           <div className="space-y-1 max-h-48 overflow-y-auto">
-            {searchResults.map((entity) => (
-              <button
-                key={entity.id}
-                onClick={() => handleSelectEntity(entity.id)}
-                className="w-full text-left px-2 py-1.5 rounded text-xs hover:bg-sidebar-accent/50 flex items-center gap-2"
-              >
-                <span
-                  className="w-2 h-2 rounded-full"
-                  style={{ backgroundColor: entityColors[entity.type] || '#78909C' }}
-                />
-                <span className="truncate">{entity.name}</span>
-                <span className="text-muted-foreground text-[10px] ml-auto">{entity.type}</span>
-              </button>
-            ))}
+            {searchResults.map((entity) => {
+              const typeDefinition = getEntityTypeDefinition(network.entityTypes, entity.type);
+              return (
+                <button
+                  key={entity.id}
+                  onClick={() => handleSelectEntity(entity.id)}
+                  className="w-full text-left px-2 py-1.5 rounded text-xs hover:bg-sidebar-accent/50 flex items-center gap-2"
+                >
+                  <span
+                    className="w-2 h-2 rounded-full"
+                    style={{ backgroundColor: typeDefinition.color }}
+                  />
+                  <span className="truncate">{entity.name}</span>
+                  <span className="text-muted-foreground text-[10px] ml-auto">{typeDefinition.label}</span>
+                </button>
+              );
+            })}
           </div>
         )}
 
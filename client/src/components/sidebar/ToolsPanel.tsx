@@ -1,7 +1,8 @@
 /**
  * Silent Partners - Tools Panel
  *
- * Graph manipulation tools: remove orphans, find links, enrich, custom prompts.
+ * Graph manipulation tools: remove orphans, find links, enrich, beneficial
+ * ownership, custom prompts.
  * 
  * v9.0: AI actions now route through orchestrator for unified handling
  */
@@ -19,6 +20,8 @@ import { toast } from 'sonner';
 import { api } from '@/lib/api';
 import { useNetwork } from '@/contexts/NetworkContext';
 import { useOrchestrator } from '@/contexts/OrchestratorContext';
+import BeneficialOwnersTool from './BeneficialOwnersTool';
+import CircularStructuresTool from './CircularStructuresTool';
 
 interface ToolsPanelProps {
   isOpen: boolean;
@@ -268,6 +271,12 @@ For each step, search for relevant information and extract entities and relation
           </p>
         </div>
 
+        {/* Beneficial Owners - Local action */}
+        <BeneficialOwnersTool />
+
+        {/* Circular Structures - Local action */}
+        <CircularStructuresTool />
+
         {/* F-02: Investigation Flows */}
         {investigationFlows.length > 0 && (
           <div className="space-y-2 pt-2 border-t border-border/50">
@@ -1,32 +1,28 @@
 /**
  * Silent Partners - View Panel
  *
- * Theme selector and display options.
+ * Theme selector, layout and display options.
  * MEDIUM-4: Entity type legend is now interactive for filtering.
  */
 
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ChevronDown, Eye, EyeOff } from 'lucide-react';
-import { useCanvasTheme, CanvasTheme, ENTITY_TYPES, EntityType, ENTITY_COLORS } from '@/contexts/CanvasThemeContext';
+import { useState } from 'react';
+import { ChevronDown, Eye, EyeOff, Settings2, Crosshair } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useCanvasTheme, CanvasTheme } from '@/contexts/CanvasThemeContext';
+import { useNetwork } from '@/contexts/NetworkContext';
+import { getEntityTypes } from '@/lib/entity-types';
+import { LAYOUT_ALGORITHMS, LayoutAlgorithm } from '@/lib/layouts';
+import EntityTypeIcon from '@/components/EntityTypeIcon';
+import EntityTypesDialog from '@/components/EntityTypesDialog';
 
 interface ViewPanelProps {
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
-// Entity type display config
-const ENTITY_TYPE_CONFIG: Record<EntityType, { label: string; color: string }> = {
-  person: { label: 'Person', color: ENTITY_COLORS.vibrant.person },
-  corporation: { label: 'Corporation', color: ENTITY_COLORS.vibrant.corporation },
-  organization: { label: 'Organization', color: ENTITY_COLORS.vibrant.organization },
-  financial: { label: 'Financial', color: ENTITY_COLORS.vibrant.financial },
-  government: { label: 'Government', color: ENTITY_COLORS.vibrant.government },
-  location: { label: 'Location', color: '#5C9EAD' },
-  asset: { label: 'Asset', color: '#D4A574' },
-};
-
 export default function ViewPanel({ isOpen, onOpenChange }: ViewPanelProps) {
   const { 
     theme, 
@@ -38,6 +34,13 @@ export default function ViewPanel({ isOpen, onOpenChange }: ViewPanelProps) {
     hiddenEntityTypes,
     toggleEntityType,
   } = useCanvasTheme();
+  const { network, selectedEntityId, setLayout } = useNetwork();
+  const [showTypesDialog, setShowTypesDialog] = useState(false);
+
+  // Built-in types plus this network's custom types; "unknown" only when in use
+  const legendTypes = getEntityTypes(network.entityTypes).filter(
+    t => t.id !== 'unknown' || network.entities.some(e => e.type === 'unknown')
+  );
 
   return (
     <Collapsible open={isOpen} onOpenChange={onOpenChange}>
@@ -68,6 +71,45 @@ export default function ViewPanel({ isOpen, onOpenChange }: ViewPanelProps) {
           </Select>
         </div>
 
+        {/* Layout selector */}
+        <div className="space-y-2">
+          <Label className="text-xs font-medium">Layout</Label>
+          <div className="flex items-center gap-1">
+            <Select
+              value={network.layout?.algorithm || 'force'}
+              onValueChange={(v) => setLayout({
+                algorithm: v as LayoutAlgorithm,
+                // Radial layouts center on the selected entity
+                centerId: v === 'radial' ? selectedEntityId || undefined : undefined,
+              })}
+            >
+              <SelectTrigger className="h-8 text-xs flex-1">
+                <SelectValue placeholder="Select layout" />
+              </SelectTrigger>
+              <SelectContent>
+                {LAYOUT_ALGORITHMS.map(layout => (
+                  <SelectItem key={layout.id} value={layout.id}>
+                    <span>{layout.label}</span>
+                    <span className="ml-2 text-[10px] text-muted-foreground">{layout.description}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {network.layout?.algorithm === 'radial' && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => setLayout({ algorithm: 'radial', centerId: selectedEntityId || undefined })}
+                disabled={!selectedEntityId || selectedEntityId === network.layout.centerId}
+                title="Center on the selected entity"
+              >
+                <Crosshair className="w-3.5 h-3.5" />
+              </Button>
+            )}
+          </div>
+        </div>
+
         {/* Show labels toggle */}
         <div className="flex items-center justify-between">
           <Label className="text-xs font-medium">Show All Labels</Label>
@@ -81,7 +123,7 @@ export default function ViewPanel({ isOpen, onOpenChange }: ViewPanelProps) {
 
         {/* Show arrows toggle */}
         <div className="flex items-center justify-between">
-          <Label className="text-xs font-medium">Show Arrows</Label>
+          <Label className="text-xs font-medium" title="Directed relationship types always show arrows; this adds them to types outside the vocabulary">Show Arrows</Label>
           <input
             type="checkbox"
             className="w-4 h-4 rounded border-border cursor-pointer"
@@ -92,13 +134,23 @@ export default function ViewPanel({ isOpen, onOpenChange }: ViewPanelProps) {
 
         {/* Entity type legend - now interactive! */}
         <div className="pt-2 border-t border-border">
-          <Label className="text-xs font-medium mb-2 block">
-            Entity Types
-            <span className="text-[10px] text-muted-foreground ml-1">(click to filter)</span>
-          </Label>
+          <div className="flex items-center justify-between mb-2">
+            <Label className="text-xs font-medium">
+              Entity Types
+              <span className="text-[10px] text-muted-foreground ml-1">(click to filter)</span>
+            </Label>
+            <button
+              onClick={() => setShowTypesDialog(true)}
+              className="text-muted-foreground hover:text-foreground"
+              title="Manage entity types"
+              aria-label="Manage entity types"
+            >
+              <Settings2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
           <div className="space-y-1 font-mono text-[10px]">
-            {ENTITY_TYPES.map((type) => {
-              const config = ENTITY_TYPE_CONFIG[type];
+            {legendTypes.map((config) => {
+              const type = config.id;
               const isHidden = hiddenEntityTypes.has(type);
               return (
                 <button
@@ -109,10 +161,7 @@ export default function ViewPanel({ isOpen, onOpenChange }: ViewPanelProps) {
                   }`}
                   title={isHidden ? `Show ${config.label} entities` : `Hide ${config.label} entities`}
                 >
-                  <span 
-                    className="w-3 h-3 rounded-full transition-opacity"
-                    style={{ backgroundColor: config.color }}
-                  />
+                  <EntityTypeIcon icon={config.icon} color={config.color} className="w-3 h-3" />
                   <span className="flex-1 text-left">{config.label}</span>
                   {isHidden ? (
                     <EyeOff className="w-3 h-3 text-muted-foreground" />
@@ -127,11 +176,7 @@ export default function ViewPanel({ isOpen, onOpenChange }: ViewPanelProps) {
             <button
               onClick={() => {
                 // Clear all filters
-                ENTITY_TYPES.forEach(type => {
-                  if (hiddenEntityTypes.has(type)) {
-                    toggleEntityType(type);
-                  }
-                });
+                hiddenEntityTypes.forEach(type => toggleEntityType(type));
               }}
               className="text-[10px] text-primary hover:underline mt-2"
             >
@@ -139,6 +184,7 @@ export default function ViewPanel({ isOpen, onOpenChange }: ViewPanelProps) {
             </button>
           )}
         </div>
+        <EntityTypesDialog open={showTypesDialog} onOpenChange={setShowTypesDialog} />
       </CollapsibleContent>
     </Collapsible>
   );
@@ -8,6 +8,7 @@ export { default as NetworkPanel } from './NetworkPanel';
 export { default as AIInputPanel } from './AIInputPanel';
 export { default as ManualEntryPanel } from './ManualEntryPanel';
 export { default as ToolsPanel } from './ToolsPanel';
+export { default as AnalysisPanel } from './AnalysisPanel';
 export { default as SearchPanel } from './SearchPanel';
 export { default as ViewPanel } from './ViewPanel';
 export { INVESTIGATION_TEMPLATES, type InvestigationTemplate } from './InvestigationTemplates';
@@ -14,6 +14,7 @@
  */
 
 import { createContext, useContext, useState, ReactNode } from 'react';
+import type { EntityTypeDefinition } from '@/lib/entity-types';
 
 // All available themes
 export type CanvasTheme = 
@@ -74,6 +75,7 @@ interface CanvasThemeConfig {
   linkLabelBg: string;
   linkLabelText: string;
   textColor: string;
+  annotationColor: string;  // Ink for notes, boxes and arrows drawn over the graph
   gridColor: string;
   secondaryColor?: string;  // For lombardiRed - alleged/disputed connections
   
@@ -93,6 +95,7 @@ interface CanvasThemeConfig {
   fontFamily: string;
   labelSize: number;        // Node label font size
   linkLabelSize: number;    // Link label font size
+  annotationFont: string;   // Annotation lettering; hand-written in the artistic themes
   
   // Line styling
   linkWidth: number;        // Default link stroke width
@@ -122,6 +125,7 @@ export const canvasThemes: Record<CanvasTheme, CanvasThemeConfig> = {
     linkLabelBg: 'transparent',
     linkLabelText: '#2C2C2C',
     textColor: '#2C2C2C',
+    annotationColor: '#2C2C2C',
     gridColor: 'transparent',
     
     showGrid: false,
@@ -137,6 +141,7 @@ export const canvasThemes: Record<CanvasTheme, CanvasThemeConfig> = {
     fontFamily: "'Source Serif 4', Georgia, serif",
     labelSize: 13,
     linkLabelSize: 10,
+    annotationFont: "'Caveat', 'Segoe Print', cursive",
     
     linkWidth: 1.5,
     curveIntensity: 0.8,
@@ -157,6 +162,7 @@ export const canvasThemes: Record<CanvasTheme, CanvasThemeConfig> = {
     linkLabelBg: 'transparent',
     linkLabelText: '#2C2C2C',
     textColor: '#2C2C2C',
+    annotationColor: '#B91C1C',
     gridColor: 'transparent',
     secondaryColor: '#B91C1C',  // Red for alleged/criminal connections
     
@@ -173,6 +179,7 @@ export const canvasThemes: Record<CanvasTheme, CanvasThemeConfig> = {
     fontFamily: "'Source Serif 4', Georgia, serif",
     labelSize: 13,
     linkLabelSize: 10,
+    annotationFont: "'Caveat', 'Segoe Print', cursive",
     
     linkWidth: 1.5,
     curveIntensity: 0.8,
@@ -197,6 +204,7 @@ export const canvasThemes: Record<CanvasTheme, CanvasThemeConfig> = {
     linkLabelBg: '#F5F0E6',
     linkLabelText: '#5D4E37',
     textColor: '#3D3425',
+    annotationColor: '#8B6914',
     gridColor: '#E8E0D0',
     
     showGrid: false,
@@ -212,6 +220,7 @@ export const canvasThemes: Record<CanvasTheme, CanvasThemeConfig> = {
     fontFamily: "'Source Sans 3', sans-serif",
     labelSize: 13,
     linkLabelSize: 9,
+    annotationFont: "'Caveat', 'Segoe Print', cursive",
     
     linkWidth: 1.5,
     curveIntensity: 0.6,
@@ -232,6 +241,7 @@ export const canvasThemes: Record<CanvasTheme, CanvasThemeConfig> = {
     linkLabelBg: '#FFFFFF',
     linkLabelText: '#475569',
     textColor: '#1E293B',
+    annotationColor: '#334155',
     gridColor: '#E2E8F0',
     
     showGrid: false,
@@ -247,6 +257,7 @@ export const canvasThemes: Record<CanvasTheme, CanvasThemeConfig> = {
     fontFamily: "'Inter', 'Source Sans 3', sans-serif",
     labelSize: 12,
     linkLabelSize: 9,
+    annotationFont: "'Inter', 'Source Sans 3', sans-serif",
     
     linkWidth: 1.5,
     curveIntensity: 0.5,
@@ -267,6 +278,7 @@ export const canvasThemes: Record<CanvasTheme, CanvasThemeConfig> = {
     linkLabelBg: '#1E1E28',
     linkLabelText: '#E2E8F0',
     textColor: '#F1F5F9',
+    annotationColor: '#FCD34D',
     gridColor: '#1E1E28',
     
     showGrid: false,
@@ -282,6 +294,7 @@ export const canvasThemes: Record<CanvasTheme, CanvasThemeConfig> = {
     fontFamily: "'Source Sans 3', sans-serif",
     labelSize: 13,
     linkLabelSize: 9,
+    annotationFont: "'Caveat', 'Segoe Print', cursive",
     
     linkWidth: 1.5,
     curveIntensity: 0.6,
@@ -306,6 +319,7 @@ export const canvasThemes: Record<CanvasTheme, CanvasThemeConfig> = {
     linkLabelBg: '#FFFFFF',
     linkLabelText: '#000000',
     textColor: '#000000',
+    annotationColor: '#000000',
     gridColor: '#E5E5E5',
     
     showGrid: false,
@@ -321,6 +335,7 @@ export const canvasThemes: Record<CanvasTheme, CanvasThemeConfig> = {
     fontFamily: "'Source Sans 3', sans-serif",
     labelSize: 14,
     linkLabelSize: 11,
+    annotationFont: "'Source Sans 3', sans-serif",
     
     linkWidth: 2,
     curveIntensity: 0.5,
@@ -341,6 +356,7 @@ export const canvasThemes: Record<CanvasTheme, CanvasThemeConfig> = {
     linkLabelBg: '#FFFFFF',
     linkLabelText: '#000000',
     textColor: '#000000',
+    annotationColor: '#000000',
     gridColor: 'transparent',
     
     showGrid: false,
@@ -356,6 +372,7 @@ export const canvasThemes: Record<CanvasTheme, CanvasThemeConfig> = {
     fontFamily: "'Source Serif 4', Georgia, serif",
     labelSize: 12,
     linkLabelSize: 9,
+    annotationFont: "'Source Serif 4', Georgia, serif",
     
     linkWidth: 1,
     curveIntensity: 0.6,
@@ -365,12 +382,16 @@ export const canvasThemes: Record<CanvasTheme, CanvasThemeConfig> = {
   },
 };
 
-// Helper function to get entity color for a given theme and type
-export function getEntityColor(theme: CanvasTheme, entityType: string): string {
+// Helper function to get entity color for a given theme and type. Custom
+// types bring their own colors; built-in types use the theme palette.
+export function getEntityColor(theme: CanvasTheme, entityType: string, definition?: EntityTypeDefinition): string {
   const config = canvasThemes[theme];
   if (!config.useEntityColors) {
     return config.nodeStroke;
   }
+  if (definition && !definition.builtIn) {
+    return definition.themeColors?.[theme] || definition.color;
+  }
   return config.entityColors[entityType] || config.nodeStroke;
 }
 
@@ -384,10 +405,6 @@ export function shouldUseSecondaryColor(relationshipType: string): boolean {
   return allegedKeywords.some(keyword => lowerType.includes(keyword));
 }
 
-// Entity types for filtering
-export const ENTITY_TYPES = ['person', 'corporation', 'organization', 'financial', 'government', 'location', 'asset'] as const;
-export type EntityType = typeof ENTITY_TYPES[number];
-
 // Context type
 interface CanvasThemeContextType {
   theme: CanvasTheme;
@@ -397,10 +414,10 @@ interface CanvasThemeContextType {
   setShowAllLabels: (show: boolean) => void;
   showArrows: boolean;
   setShowArrows: (show: boolean) => void;
-  getEntityColor: (entityType: string) => string;
-  // Entity type filtering (MEDIUM-4 fix)
-  hiddenEntityTypes: Set<EntityType>;
-  toggleEntityType: (type: EntityType) => void;
+  getEntityColor: (entityType: string, definition?: EntityTypeDefinition) => string;
+  // Entity type filtering (MEDIUM-4 fix); holds built-in and custom type IDs
+  hiddenEntityTypes: Set<string>;
+  toggleEntityType: (type: string) => void;
   isEntityTypeVisible: (type: string) => boolean;
 }
 
@@ -410,13 +427,13 @@ export function CanvasThemeProvider({ children }: { children: ReactNode }) {
   const [theme, setTheme] = useState<CanvasTheme>('lombardi');
   const [showAllLabels, setShowAllLabels] = useState(false);
   const [showArrows, setShowArrows] = useState(false);
-  const [hiddenEntityTypes, setHiddenEntityTypes] = useState<Set<EntityType>>(new Set());
+  const [hiddenEntityTypes, setHiddenEntityTypes] = useState<Set<string>>(new Set());
 
-  const getEntityColorForTheme = (entityType: string) => {
-    return getEntityColor(theme, entityType);
+  const getEntityColorForTheme = (entityType: string, definition?: EntityTypeDefinition) => {
+    return getEntityColor(theme, entityType, definition);
   };
 
-  const toggleEntityType = (type: EntityType) => {
+  const toggleEntityType = (type: string) => {
     setHiddenEntityTypes(prev => {
       const next = new Set(prev);
       if (next.has(type)) {
@@ -429,7 +446,7 @@ export function CanvasThemeProvider({ children }: { children: ReactNode }) {
   };
 
   const isEntityTypeVisible = (type: string) => {
-    return !hiddenEntityTypes.has(type as EntityType);
+    return !hiddenEntityTypes.has(type);
   };
 
   return (
@@ -3,6 +3,9 @@
  * 
  * Global state management for the network visualization.
  * Includes smart deduplication and entity merging.
+ * Every network-changing action is recorded in a shared undo/redo history.
+ * Several networks can be open at once as tabs; each tab keeps its own
+ * network, selection and history, and consumers see the active tab.
  */
 
 import React, { createContext, useContext, useReducer, useCallback, ReactNode } from 'react';
@@ -13,155 +16,154 @@ import {
   NetworkState, 
   initialState, 
   initialNetwork,
-  generateId 
+  generateId,
+  MatchStrategy,
+  MergeCandidate,
+  MergeDecision,
+  splitDescriptionFacts,
+  splitSourceSnippets,
+  joinSourceSnippets,
+  parseDescriptionAttributes,
+  mergeAttributes,
+  GraphHighlight,
+  NodeSizing,
+  NetworkClusters,
 } from '@/lib/store';
+import type { TimeFilter } from '@/lib/timeline';
+import { FocusTrail, pushFocus } from '@/lib/focus';
+import { Annotation, describeAnnotation, remapAnnotations } from '@/lib/annotations';
+import { NetworkLayout, getLayoutLabel } from '@/lib/layouts';
 
 import { InvestigationContext } from '@/lib/store';
+import { EntityTypeDefinition, isBuiltInEntityType, mergeEntityTypes } from '@/lib/entity-types';
+import {
+  RelationshipTypeDefinition,
+  getRelationshipTypes,
+  isSameRelationship,
+  relationshipKey,
+  normalizeRelationship,
+  normalizeRelationships,
+} from '@/lib/relationship-types';
+import {
+  HistoryEntry,
+  NetworkPatch,
+  diffNetworks,
+  isEmptyPatch,
+  applyPatch,
+  pushHistoryEntry,
+} from '@/lib/network-history';
+import { EntityMatchIndex, matchNames, normalizeEntityName } from '@/lib/entity-matching';
+import { LayoutPositions, getChatStorageKey } from '@/lib/drafts';
+import type { CanvasTheme } from '@/contexts/CanvasThemeContext';
 
-/**
- * Calculate Levenshtein distance between two strings.
- * Used for fuzzy matching of names with typos.
- */
-function levenshteinDistance(str1: string, str2: string): number {
-  const m = str1.length;
-  const n = str2.length;
-  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
-  
-  for (let i = 0; i <= m; i++) dp[i][0] = i;
-  for (let j = 0; j <= n; j++) dp[0][j] = j;
-  
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      if (str1[i - 1] === str2[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1];
-      } else {
-        dp[i][j] = 1 + Math.min(dp[i - 1][j], dp[i][j - 1], dp[i - 1][j - 1]);
-      }
-    }
-  }
-  return dp[m][n];
-}
+// Candidate index over each tab's entities. Synced incrementally against
+// whatever entities array is being matched in that tab, so only changed
+// entities are re-indexed between actions.
+const tabMatchIndexes = new Map<string, EntityMatchIndex>();
 
-/**
- * Simple Soundex implementation for phonetic matching.
- * Helps match names like "Tahnoon" vs "Tahnoun".
- */
-function soundex(str: string): string {
-  const s = str.toUpperCase().replace(/[^A-Z]/g, '');
-  if (!s) return '';
-  
-  const codes: { [key: string]: string } = {
-    B: '1', F: '1', P: '1', V: '1',
-    C: '2', G: '2', J: '2', K: '2', Q: '2', S: '2', X: '2', Z: '2',
-    D: '3', T: '3',
-    L: '4',
-    M: '5', N: '5',
-    R: '6'
-  };
-  
-  let result = s[0];
-  let prevCode = codes[s[0]] || '';
-  
-  for (let i = 1; i < s.length && result.length < 4; i++) {
-    const code = codes[s[i]] || '';
-    if (code && code !== prevCode) {
-      result += code;
-    }
-    prevCode = code;
+function matchIndexForTab(tabId: string): EntityMatchIndex {
+  let index = tabMatchIndexes.get(tabId);
+  if (!index) {
+    index = new EntityMatchIndex();
+    tabMatchIndexes.set(tabId, index);
   }
-  
-  return result.padEnd(4, '0');
-}
-
-/**
- * Normalize entity name for comparison.
- * Handles common variations like "Inc.", "Corp.", "LLC", etc.
- */
-function normalizeEntityName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/,?\s*(inc\.?|corp\.?|llc\.?|ltd\.?|co\.?|company|corporation|incorporated)$/i, '')
-    .replace(/\s*\([^)]*\)\s*$/, '') // Remove parenthetical suffixes like "(Meta Platforms)"
-    .replace(/\s+/g, ' ')
-    .trim();
+  return index;
 }
 
 /**
- * Check if two entity names are similar enough to be considered duplicates.
- * Uses multiple strategies: exact match, substring, abbreviation, fuzzy (Levenshtein), and phonetic (Soundex).
+ * Check whether a reviewer has ruled out merging these two entities.
+ * Rejected pairs are blocked by ID; never-merge pairs by ID or normalized name.
  */
-function areNamesSimilar(name1: string, name2: string): boolean {
-  const norm1 = normalizeEntityName(name1);
-  const norm2 = normalizeEntityName(name2);
-  
-  // Exact match after normalization
-  if (norm1 === norm2) return true;
-  
-  // One is a substring of the other (e.g., "Tesla" vs "Tesla, Inc.")
-  if (norm1.includes(norm2) || norm2.includes(norm1)) return true;
-  
-  // Check for common abbreviations
-  const abbrev1 = norm1.split(' ').map(w => w[0]).join('');
-  const abbrev2 = norm2.split(' ').map(w => w[0]).join('');
-  if (abbrev1.length > 2 && abbrev1 === norm2) return true;
-  if (abbrev2.length > 2 && abbrev2 === norm1) return true;
-  
-  // Fuzzy matching using Levenshtein distance
-  // Allow 1 edit for short names, 2 for longer names
-  const maxLen = Math.max(norm1.length, norm2.length);
-  const minLen = Math.min(norm1.length, norm2.length);
-  if (minLen >= 3) {
-    const distance = levenshteinDistance(norm1, norm2);
-    const threshold = maxLen <= 6 ? 1 : 2;
-    if (distance <= threshold) return true;
-  }
-  
-  // Phonetic matching using Soundex (for names like Tahnoon/Tahnoun)
-  // Only apply to single-word names (likely person names)
-  const words1 = norm1.split(' ');
-  const words2 = norm2.split(' ');
-  if (words1.length === words2.length) {
-    let allMatch = true;
-    for (let i = 0; i < words1.length; i++) {
-      const s1 = soundex(words1[i]);
-      const s2 = soundex(words2[i]);
-      if (s1 !== s2) {
-        allMatch = false;
-        break;
-      }
-    }
-    if (allMatch && words1.length > 0) return true;
-  }
+function isMergeBlocked(a: Entity, b: Entity, decisions: MergeDecision[] = []): boolean {
+  if (decisions.length === 0) return false;
+  const normA = normalizeEntityName(a.name);
+  const normB = normalizeEntityName(b.name);
   
-  return false;
+  return decisions.some(d => {
+    if (d.decision === 'accepted') return false;
+    const [id1, id2] = d.entityIds;
+    if ((id1 === a.id && id2 === b.id) || (id1 === b.id && id2 === a.id)) return true;
+    if (d.decision !== 'never_merge') return false;
+    const [n1, n2] = d.names.map(normalizeEntityName);
+    return (n1 === normA && n2 === normB) || (n1 === normB && n2 === normA);
+  });
 }
 
 /**
  * Find an existing entity that matches the given entity.
+ * Only candidates from the blocking index are compared, so the index must
+ * already cover the entities being matched against.
  */
-function findMatchingEntity(entities: Entity[], newEntity: Entity): Entity | null {
-  for (const existing of entities) {
-    if (areNamesSimilar(existing.name, newEntity.name)) {
+function findMatchingEntity(
+  index: EntityMatchIndex,
+  newEntity: Entity,
+  decisions: MergeDecision[] = []
+): Entity | null {
+  for (const existing of index.candidates(newEntity.name)) {
+    if (matchNames(existing.name, newEntity.name)) {
       // Also check type if both have types
       if (newEntity.type && existing.type && newEntity.type !== existing.type) {
         continue; // Different types, not a match
       }
+      if (isMergeBlocked(existing, newEntity, decisions)) {
+        continue; // Reviewer ruled this pair out
+      }
       return existing;
     }
   }
   return null;
 }
 
+/**
+ * List every pair of entities the matcher would merge, for manual review.
+ * Pairs that already have a decision are left out.
+ */
+function findMergeCandidates(index: EntityMatchIndex, entities: Entity[], decisions: MergeDecision[] = []): MergeCandidate[] {
+  const decided = new Set<string>();
+  decisions.forEach(d => {
+    decided.add(`${d.entityIds[0]}|${d.entityIds[1]}`);
+    decided.add(`${d.entityIds[1]}|${d.entityIds[0]}`);
+  });
+  
+  index.sync(entities);
+  const candidates: MergeCandidate[] = [];
+  for (let i = 0; i < entities.length; i++) {
+    const a = entities[i];
+    for (const b of index.candidates(a.name)) {
+      if ((index.position(b.id) ?? -1) <= i) continue;
+      if (a.type && b.type && a.type !== b.type) continue;
+      if (decided.has(`${a.id}|${b.id}`) || isMergeBlocked(a, b, decisions)) continue;
+      const match = matchNames(a.name, b.name);
+      if (match) {
+        candidates.push({ entityA: a, entityB: b, ...match });
+      }
+    }
+  }
+  return candidates.sort((x, y) => y.score - x.score);
+}
+
 /**
  * Merge two entities, keeping the best data from each.
  */
 function mergeEntities(existing: Entity, incoming: Entity): Entity {
+  // Move legacy "Key facts:" lines into attributes so neither side's facts are lost
+  const existingParsed = parseDescriptionAttributes(existing.description);
+  const incomingParsed = parseDescriptionAttributes(incoming.description);
+  const attributes = mergeAttributes(
+    existing.attributes ?? existingParsed.attributes,
+    incoming.attributes ?? incomingParsed.attributes
+  );
+  const hasAttributes = attributes.length > 0 || !!existing.attributes || !!incoming.attributes;
+
   return {
     ...existing,
     // Keep the longer/more descriptive name
     name: incoming.name.length > existing.name.length ? incoming.name : existing.name,
     // Merge descriptions
-    description: incoming.description || existing.description,
+    description: hasAttributes
+      ? incomingParsed.description || existingParsed.description || undefined
+      : incoming.description || existing.description,
+    attributes: hasAttributes ? attributes : undefined,
     // Keep the more specific type
     type: incoming.type || existing.type,
     // Merge aliases
@@ -170,13 +172,67 @@ function mergeEntities(existing: Entity, incoming: Entity): Entity {
     importance: Math.max(existing.importance || 5, incoming.importance || 5),
     // Merge sources
     sources: [...new Set([...(existing.sources || []), ...(incoming.sources || [])])],
+    // Keep every source snippet so a later split can reassign them
+    source_text: joinSourceSnippets([
+      ...splitSourceSnippets(existing.source_text),
+      ...splitSourceSnippets(incoming.source_text),
+    ]),
     // Keep existing ID
     id: existing.id,
   };
 }
 
+/**
+ * Point relationships at remapped entity IDs, dropping any that become
+ * self-referential or duplicate another relationship. Only remapped
+ * relationships are checked; the rest of the network is left as it is.
+ */
+function remapRelationships(
+  types: Network['relationshipTypes'],
+  relationships: Relationship[],
+  idMapping: Map<string, string>
+): Relationship[] {
+  const moved = (id: string) => (idMapping.get(id) ?? id) !== id;
+  const isRemapped = (r: Relationship) => moved(r.source) || moved(r.target);
+  const seen = new Set(relationships.filter(r => !isRemapped(r)).map(r => relationshipKey(types, r)));
+  const result: Relationship[] = [];
+  
+  for (const r of relationships) {
+    if (!isRemapped(r)) {
+      result.push(r);
+      continue;
+    }
+    const source = idMapping.get(r.source) || r.source;
+    const target = idMapping.get(r.target) || r.target;
+    if (source === target) continue;
+    
+    const remapped = { ...r, source, target };
+    const key = relationshipKey(types, remapped);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push(remapped);
+  }
+  return result;
+}
+
+/**
+ * How to divide an entity in two: the new entity's name and type, plus the
+ * relationships, attributes and source snippets that move to it. Entities
+ * whose facts still live in the description move description lines instead.
+ * Everything not listed stays with the original entity.
+ */
+export interface SplitEntityPlan {
+  name: string;
+  type: Entity['type'];
+  relationshipIds: string[];
+  attributeIds: string[];
+  facts: string[];
+  snippets: string[];
+}
+
 type NetworkAction =
   | { type: 'SET_NETWORK'; payload: Network }
+  | { type: 'IMPORT_NETWORK'; payload: { network: Network; mode: 'merge' | 'replace' } }
   | { type: 'UPDATE_NETWORK'; payload: Partial<Network> }
   | { type: 'ADD_ENTITY'; payload: Entity }
   | { type: 'ADD_OR_MERGE_ENTITY'; payload: Entity }
@@ -187,23 +243,62 @@ type NetworkAction =
   | { type: 'ADD_OR_MERGE_RELATIONSHIP'; payload: Relationship }
   | { type: 'UPDATE_RELATIONSHIP'; payload: { id: string; updates: Partial<Relationship> } }
   | { type: 'DELETE_RELATIONSHIP'; payload: string }
-  | { type: 'ADD_ENTITIES_AND_RELATIONSHIPS'; payload: { entities: Entity[]; relationships: Relationship[] } }
+  | { type: 'ADD_ENTITIES_AND_RELATIONSHIPS'; payload: { entities: Entity[]; relationships: Relationship[]; entityTypes?: EntityTypeDefinition[] } }
   | { type: 'SELECT_ENTITY'; payload: string | null }
   | { type: 'SELECT_RELATIONSHIP'; payload: string | null }
+  | { type: 'SET_HIGHLIGHT'; payload: GraphHighlight | null }
+  | { type: 'SET_NODE_SIZING'; payload: NodeSizing | null }
+  | { type: 'SET_TIME_FILTER'; payload: TimeFilter | null }
+  | { type: 'SET_FOCUS'; payload: FocusTrail | null }
+  | { type: 'FOCUS_ENTITY'; payload: string }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'UPDATE_INVESTIGATION_CONTEXT'; payload: InvestigationContext }
   | { type: 'DEDUPLICATE_NETWORK' }
-  | { type: 'CLEAR_NETWORK' };
+  | { type: 'MERGE_ENTITIES'; payload: { keepId: string; mergeId: string; strategy?: MatchStrategy } }
+  | { type: 'RECORD_MERGE_DECISION'; payload: MergeDecision }
+  | { type: 'SPLIT_ENTITY'; payload: { entityId: string; newId: string; plan: SplitEntityPlan } }
+  | { type: 'SAVE_ENTITY_TYPE'; payload: EntityTypeDefinition }
+  | { type: 'DELETE_ENTITY_TYPE'; payload: { id: string; replacement: Entity['type'] } }
+  | { type: 'SAVE_RELATIONSHIP_TYPE'; payload: RelationshipTypeDefinition }
+  | { type: 'DELETE_RELATIONSHIP_TYPE'; payload: string }
+  | { type: 'NORMALIZE_RELATIONSHIPS' }
+  | { type: 'SET_CLUSTERS'; payload: NetworkClusters | null }
+  | { type: 'SET_CLUSTER_COLLAPSED'; payload: { id: string; collapsed: boolean } }
+  | { type: 'SET_LAYOUT'; payload: NetworkLayout }
+  | { type: 'ADD_ANNOTATION'; payload: Annotation }
+  | { type: 'UPDATE_ANNOTATION'; payload: { id: string; updates: Partial<Omit<Annotation, 'id'>> } }
+  | { type: 'DELETE_ANNOTATION'; payload: string }
+  | { type: 'CLEAR_NETWORK' }
+  | { type: 'UNDO'; payload?: { steps?: number } }
+  | { type: 'REDO'; payload?: { steps?: number } };
 
-function networkReducer(state: NetworkState, action: NetworkAction): NetworkState {
+// Actions that only touch UI state and never enter the undo history
+const UNRECORDED_ACTIONS = new Set<NetworkAction['type']>([
+  'SELECT_ENTITY',
+  'SELECT_RELATIONSHIP',
+  'SET_HIGHLIGHT',
+  'SET_NODE_SIZING',
+  'SET_TIME_FILTER',
+  'SET_FOCUS',
+  'FOCUS_ENTITY',
+  'SET_LOADING',
+  'SET_ERROR',
+]);
+
+function applyNetworkAction(state: NetworkState, action: NetworkAction, matchIndex: EntityMatchIndex): NetworkState {
   switch (action.type) {
     case 'SET_NETWORK':
-      return { ...state, network: action.payload, selectedEntityId: null, selectedRelationshipId: null };
+      return { ...state, network: action.payload, selectedEntityId: null, selectedRelationshipId: null, highlight: null, nodeSizing: null, timeFilter: null, focus: null };
     
     case 'UPDATE_NETWORK':
       return { ...state, network: { ...state.network, ...action.payload } };
     
+    case 'IMPORT_NETWORK':
+      // The importer builds the whole result, so the import is one undo step
+      if (action.payload.mode === 'merge') return { ...state, network: action.payload.network };
+      return { ...state, network: action.payload.network, selectedEntityId: null, selectedRelationshipId: null, highlight: null, nodeSizing: null, timeFilter: null, focus: null };
+    
     case 'ADD_ENTITY':
       return {
         ...state,
@@ -214,7 +309,8 @@ function networkReducer(state: NetworkState, action: NetworkAction): NetworkStat
       };
     
     case 'ADD_OR_MERGE_ENTITY': {
-      const matchingEntity = findMatchingEntity(state.network.entities, action.payload);
+      matchIndex.sync(state.network.entities);
+      const matchingEntity = findMatchingEntity(matchIndex, action.payload, state.network.mergeDecisions);
       
       if (matchingEntity) {
         // Merge with existing entity
@@ -307,18 +403,20 @@ function networkReducer(state: NetworkState, action: NetworkAction): NetworkStat
     }
     
     case 'ADD_OR_MERGE_RELATIONSHIP': {
-      const { source, target, type } = action.payload;
+      // Map the type onto the network's vocabulary first, so "owner of" and
+      // "owned by" find an existing "owns"
+      const relationship = normalizeRelationship(state.network.relationshipTypes, action.payload);
       
       // Prevent self-referential relationships
-      if (source === target) {
+      if (relationship.source === relationship.target) {
         console.warn('Prevented self-referential relationship:', action.payload);
         return state;
       }
       
-      // Check if relationship already exists (same source, target, and type)
-      const existingRel = state.network.relationships.find(r => 
-        (r.source === source && r.target === target && r.type === type) ||
-        (r.source === target && r.target === source && r.type === type)
+      // Check if relationship already exists (same entities and type, same
+      // direction for directed types)
+      const existingRel = state.network.relationships.find(r =>
+        isSameRelationship(state.network.relationshipTypes, r, relationship)
       );
       
       if (existingRel) {
@@ -332,6 +430,7 @@ function networkReducer(state: NetworkState, action: NetworkAction): NetworkStat
                 ? { 
                     ...r, 
                     evidence: action.payload.evidence || r.evidence,
+                    ownership: relationship.ownership || r.ownership,
                     confidence: Math.max(r.confidence || 0, action.payload.confidence || 0)
                   }
                 : r
@@ -345,7 +444,7 @@ function networkReducer(state: NetworkState, action: NetworkAction): NetworkStat
         ...state,
         network: {
           ...state.network,
-          relationships: [...state.network.relationships, { ...action.payload, id: action.payload.id || generateId() }],
+          relationships: [...state.network.relationships, { ...relationship, id: relationship.id || generateId() }],
         },
       };
     }
@@ -374,10 +473,12 @@ function networkReducer(state: NetworkState, action: NetworkAction): NetworkStat
     case 'ADD_ENTITIES_AND_RELATIONSHIPS': {
       // Merge new entities, avoiding duplicates by name (with smart matching)
       const newEntities: Entity[] = [];
+      const batchIndex = new EntityMatchIndex();
       const entityIdMap = new Map<string, string>(); // Map old IDs to new/existing IDs
+      matchIndex.sync(state.network.entities);
       
       for (const entity of action.payload.entities) {
-        const matchingEntity = findMatchingEntity(state.network.entities, entity);
+        const matchingEntity = findMatchingEntity(matchIndex, entity, state.network.mergeDecisions);
         
         if (matchingEntity) {
           // Entity already exists, map to existing ID
@@ -386,13 +487,15 @@ function networkReducer(state: NetworkState, action: NetworkAction): NetworkStat
           // For now, we just skip adding duplicates
         } else {
           // Check if we already added a similar entity in this batch
-          const matchInBatch = findMatchingEntity(newEntities, entity);
+          const matchInBatch = findMatchingEntity(batchIndex, entity, state.network.mergeDecisions);
           if (matchInBatch) {
             entityIdMap.set(entity.id || entity.name, matchInBatch.id);
           } else {
             const newId = entity.id || generateId();
+            const added = { ...entity, id: newId };
             entityIdMap.set(entity.id || entity.name, newId);
-            newEntities.push({ ...entity, id: newId });
+            batchIndex.add(added, newEntities.length);
+            newEntities.push(added);
           }
         }
       }
@@ -400,12 +503,20 @@ function networkReducer(state: NetworkState, action: NetworkAction): NetworkStat
       // Create name-to-id mapping for relationships (using all entities)
       const allEntities = [...state.network.entities, ...newEntities];
       const nameToId = new Map<string, string>();
+      const entityIds = new Set<string>();
       allEntities.forEach((e) => {
+        entityIds.add(e.id);
         nameToId.set(e.name.toLowerCase(), e.id);
         nameToId.set(e.name, e.id);
         nameToId.set(normalizeEntityName(e.name), e.id);
       });
       
+      // Existing relationship keys, for duplicate checks in either direction
+      const relationshipKeys = new Set<string>();
+      state.network.relationships.forEach(existing => {
+        relationshipKeys.add(`${existing.source}|${existing.target}|${existing.type}`);
+      });
+      
       // Map relationship source/target from names to IDs
       const newRelationships = action.payload.relationships
         .map((r) => {
@@ -428,14 +539,13 @@ function networkReducer(state: NetworkState, action: NetworkAction): NetworkStat
         })
         .filter((r) => {
           // Only add if both source and target exist as valid entity IDs
-          const sourceExists = allEntities.some((e) => e.id === r.source);
-          const targetExists = allEntities.some((e) => e.id === r.target);
+          const sourceExists = entityIds.has(r.source);
+          const targetExists = entityIds.has(r.target);
           
           // Also check for duplicate relationships
-          const isDuplicate = state.network.relationships.some(existing =>
-            (existing.source === r.source && existing.target === r.target && existing.type === r.type) ||
-            (existing.source === r.target && existing.target === r.source && existing.type === r.type)
-          );
+          const isDuplicate =
+            relationshipKeys.has(`${r.source}|${r.target}|${r.type}`) ||
+            relationshipKeys.has(`${r.target}|${r.source}|${r.type}`);
           
           return sourceExists && targetExists && !isDuplicate;
         });
@@ -452,6 +562,7 @@ function networkReducer(state: NetworkState, action: NetworkAction): NetworkStat
           ...state.network,
           entities: allEntities,
           relationships: [...state.network.relationships, ...newRelationships],
+          entityTypes: mergeEntityTypes(state.network.entityTypes, action.payload.entityTypes),
         },
       };
     }
@@ -459,38 +570,28 @@ function networkReducer(state: NetworkState, action: NetworkAction): NetworkStat
     case 'DEDUPLICATE_NETWORK': {
       // Find and merge duplicate entities
       const mergedEntities: Entity[] = [];
+      const mergedIndex = new EntityMatchIndex();
       const idMapping = new Map<string, string>(); // Old ID -> New ID
       
       for (const entity of state.network.entities) {
-        const match = findMatchingEntity(mergedEntities, entity);
+        const match = findMatchingEntity(mergedIndex, entity, state.network.mergeDecisions);
         
         if (match) {
           // Merge with existing
           const merged = mergeEntities(match, entity);
-          const idx = mergedEntities.findIndex(e => e.id === match.id);
+          const idx = mergedIndex.position(match.id)!;
           mergedEntities[idx] = merged;
+          mergedIndex.add(merged, idx);
           idMapping.set(entity.id, match.id);
         } else {
+          mergedIndex.add(entity, mergedEntities.length);
           mergedEntities.push(entity);
           idMapping.set(entity.id, entity.id);
         }
       }
       
       // Update relationships to use merged entity IDs
-      const updatedRelationships = state.network.relationships
-        .map(r => ({
-          ...r,
-          source: idMapping.get(r.source) || r.source,
-          target: idMapping.get(r.target) || r.target,
-        }))
-        .filter((r, idx, arr) => {
-          // Remove duplicate relationships
-          const firstIdx = arr.findIndex(other => 
-            (other.source === r.source && other.target === r.target && other.type === r.type) ||
-            (other.source === r.target && other.target === r.source && other.type === r.type)
-          );
-          return firstIdx === idx;
-        });
+      const updatedRelationships = remapRelationships(state.network.relationshipTypes, state.network.relationships, idMapping);
       
       console.log(`Deduplication: ${state.network.entities.length} -> ${mergedEntities.length} entities`);
       console.log(`Deduplication: ${state.network.relationships.length} -> ${updatedRelationships.length} relationships`);
@@ -505,12 +606,145 @@ function networkReducer(state: NetworkState, action: NetworkAction): NetworkStat
       };
     }
     
+    case 'MERGE_ENTITIES': {
+      // Merge one existing entity into another (accepted merge proposal)
+      const { keepId, mergeId, strategy } = action.payload;
+      const keep = state.network.entities.find(e => e.id === keepId);
+      const merge = state.network.entities.find(e => e.id === mergeId);
+      if (!keep || !merge || keepId === mergeId) return state;
+      
+      const mergedEntity = mergeEntities(keep, merge);
+      const decision: MergeDecision = {
+        id: generateId(),
+        entityIds: [keepId, mergeId],
+        names: [keep.name, merge.name],
+        decision: 'accepted',
+        strategy,
+        decidedAt: new Date().toISOString(),
+      };
+      
+      return {
+        ...state,
+        network: {
+          ...state.network,
+          entities: state.network.entities
+            .filter(e => e.id !== mergeId)
+            .map(e => (e.id === keepId ? mergedEntity : e)),
+          relationships: remapRelationships(state.network.relationshipTypes, state.network.relationships, new Map([[mergeId, keepId]])),
+          mergeDecisions: [...(state.network.mergeDecisions || []), decision],
+          ...(state.network.annotations && {
+            annotations: remapAnnotations(state.network.annotations, new Map([[mergeId, keepId]])),
+          }),
+        },
+        selectedEntityId: state.selectedEntityId === mergeId ? keepId : state.selectedEntityId,
+      };
+    }
+    
+    case 'SPLIT_ENTITY': {
+      // Inverse of a merge: carve a second entity out of an existing one
+      const { entityId, newId, plan } = action.payload;
+      const original = state.network.entities.find(e => e.id === entityId);
+      if (!original) return state;
+      
+      const movedAttributes = new Set(plan.attributeIds);
+      const movedFacts = new Set(plan.facts);
+      const movedSnippets = new Set(plan.snippets);
+      const movedRelationships = new Set(plan.relationshipIds);
+      const snippets = splitSourceSnippets(original.source_text);
+      
+      // Entities with attributes keep their summary description; older ones
+      // divide the description line by line
+      const { attributes } = original;
+      const facts = attributes ? [] : splitDescriptionFacts(original.description);
+      
+      const updatedOriginal: Entity = {
+        ...original,
+        description: attributes ? original.description : facts.filter(f => !movedFacts.has(f)).join('\n\n') || undefined,
+        attributes: attributes?.filter(a => !movedAttributes.has(a.id)),
+        source_text: joinSourceSnippets(snippets.filter(s => !movedSnippets.has(s))),
+        aliases: original.aliases?.filter(a => a !== plan.name),
+      };
+      const newEntity: Entity = {
+        id: newId,
+        name: plan.name,
+        type: plan.type,
+        description: attributes ? undefined : facts.filter(f => movedFacts.has(f)).join('\n\n') || undefined,
+        attributes: attributes?.filter(a => movedAttributes.has(a.id)),
+        importance: original.importance,
+        source_text: joinSourceSnippets(snippets.filter(s => movedSnippets.has(s))),
+        source_query: original.source_query,
+        source_type: original.source_type,
+        created_at: new Date().toISOString(),
+        x: original.x !== undefined ? original.x + 1 : undefined,
+        y: original.y !== undefined ? original.y + 1 : undefined,
+      };
+      
+      const entities: Entity[] = [];
+      state.network.entities.forEach(e => {
+        if (e.id === entityId) {
+          entities.push(updatedOriginal, newEntity);
+        } else {
+          entities.push(e);
+        }
+      });
+      // Recorded with the split so undo takes both back, and the pair isn't
+      // proposed for merging again
+      const decision: MergeDecision = {
+        id: generateId(),
+        entityIds: [entityId, newId],
+        names: [updatedOriginal.name, newEntity.name],
+        decision: 'rejected',
+        decidedAt: new Date().toISOString(),
+      };
+      
+      return {
+        ...state,
+        network: {
+          ...state.network,
+          entities,
+          relationships: state.network.relationships.map(r => {
+            if (!movedRelationships.has(r.id)) return r;
+            return {
+              ...r,
+              source: r.source === entityId ? newId : r.source,
+              target: r.target === entityId ? newId : r.target,
+            };
+          }),
+          mergeDecisions: [...(state.network.mergeDecisions || []), decision],
+        },
+      };
+    }
+    
+    case 'RECORD_MERGE_DECISION':
+      return {
+        ...state,
+        network: {
+          ...state.network,
+          mergeDecisions: [...(state.network.mergeDecisions || []), action.payload],
+        },
+      };
+    
     case 'SELECT_ENTITY':
       return { ...state, selectedEntityId: action.payload, selectedRelationshipId: null };
     
     case 'SELECT_RELATIONSHIP':
       return { ...state, selectedRelationshipId: action.payload, selectedEntityId: null };
     
+    case 'SET_HIGHLIGHT':
+      return { ...state, highlight: action.payload };
+    
+    case 'SET_NODE_SIZING':
+      return { ...state, nodeSizing: action.payload };
+    
+    case 'SET_TIME_FILTER':
+      return { ...state, timeFilter: action.payload };
+    
+    case 'SET_FOCUS':
+      return { ...state, focus: action.payload };
+    
+    case 'FOCUS_ENTITY':
+      return { ...state, focus: pushFocus(state.focus, action.payload) };
+    
     case 'SET_LOADING':
       return { ...state, isLoading: action.payload };
     
@@ -530,16 +764,435 @@ function networkReducer(state: NetworkState, action: NetworkAction): NetworkStat
         }
       };
     
+    case 'SAVE_ENTITY_TYPE': {
+      if (isBuiltInEntityType(action.payload.id)) return state;
+      const types = state.network.entityTypes || [];
+      const exists = types.some(t => t.id === action.payload.id);
+      return {
+        ...state,
+        network: {
+          ...state.network,
+          entityTypes: exists
+            ? types.map(t => (t.id === action.payload.id ? action.payload : t))
+            : [...types, action.payload],
+        },
+      };
+    }
+    
+    case 'DELETE_ENTITY_TYPE': {
+      // Entities of the deleted type move to the replacement type
+      const { id, replacement } = action.payload;
+      return {
+        ...state,
+        network: {
+          ...state.network,
+          entityTypes: (state.network.entityTypes || []).filter(t => t.id !== id),
+          entities: state.network.entities.map(e => (e.type === id ? { ...e, type: replacement } : e)),
+        },
+      };
+    }
+    
+    case 'SAVE_RELATIONSHIP_TYPE': {
+      // The first edit copies the default vocabulary into the network
+      const types = getRelationshipTypes(state.network.relationshipTypes);
+      const exists = types.some(t => t.id === action.payload.id);
+      return {
+        ...state,
+        network: {
+          ...state.network,
+          relationshipTypes: exists
+            ? types.map(t => (t.id === action.payload.id ? action.payload : t))
+            : [...types, action.payload],
+        },
+      };
+    }
+    
+    case 'DELETE_RELATIONSHIP_TYPE':
+      // Relationships keep the type ID; it just stops being recognized
+      return {
+        ...state,
+        network: {
+          ...state.network,
+          relationshipTypes: getRelationshipTypes(state.network.relationshipTypes).filter(t => t.id !== action.payload),
+        },
+      };
+    
+    case 'NORMALIZE_RELATIONSHIPS': {
+      const { relationships } = normalizeRelationships(state.network.relationshipTypes, state.network.relationships);
+      const ids = new Set(relationships.map(r => r.id));
+      return {
+        ...state,
+        network: { ...state.network, relationships },
+        selectedRelationshipId: state.selectedRelationshipId && ids.has(state.selectedRelationshipId)
+          ? state.selectedRelationshipId
+          : null,
+      };
+    }
+    
+    case 'SET_CLUSTERS': {
+      const { clusters: _clusters, ...network } = state.network;
+      return {
+        ...state,
+        network: action.payload ? { ...network, clusters: action.payload } : network,
+      };
+    }
+    
+    case 'SET_CLUSTER_COLLAPSED': {
+      const clusters = state.network.clusters;
+      if (!clusters) return state;
+      const { id, collapsed } = action.payload;
+      const others = clusters.collapsed.filter(c => c !== id);
+      return {
+        ...state,
+        network: {
+          ...state.network,
+          clusters: { ...clusters, collapsed: collapsed ? [...others, id] : others },
+        },
+      };
+    }
+    
+    case 'SET_LAYOUT': {
+      // The force layout is the default, so it isn't stored
+      const { layout: _layout, ...network } = state.network;
+      return {
+        ...state,
+        network: action.payload.algorithm === 'force' ? network : { ...network, layout: action.payload },
+      };
+    }
+    
+    case 'ADD_ANNOTATION':
+      return {
+        ...state,
+        network: { ...state.network, annotations: [...(state.network.annotations || []), action.payload] },
+      };
+    
+    case 'UPDATE_ANNOTATION': {
+      const annotations = state.network.annotations || [];
+      if (!annotations.some(a => a.id === action.payload.id)) return state;
+      return {
+        ...state,
+        network: {
+          ...state.network,
+          annotations: annotations.map(a => (a.id === action.payload.id ? { ...a, ...action.payload.updates } : a)),
+        },
+      };
+    }
+    
+    case 'DELETE_ANNOTATION': {
+      const annotations = (state.network.annotations || []).filter(a => a.id !== action.payload);
+      const { annotations: _annotations, ...network } = state.network;
+      return {
+        ...state,
+        network: annotations.length ? { ...network, annotations } : network,
+      };
+    }
+    
     case 'CLEAR_NETWORK':
-      return { ...state, network: initialNetwork, selectedEntityId: null, selectedRelationshipId: null };
+      return { ...state, network: initialNetwork, selectedEntityId: null, selectedRelationshipId: null, highlight: null, nodeSizing: null, timeFilter: null, focus: null };
     
     default:
       return state;
   }
 }
 
+/**
+ * Build a human-readable label for a history entry, e.g. "Merged 'Tesla Inc' into 'Tesla'".
+ */
+function describeAction(before: NetworkState, after: NetworkState, action: NetworkAction, patch: NetworkPatch): string {
+  const nameOf = (id: string) =>
+    before.network.entities.find(e => e.id === id)?.name ||
+    after.network.entities.find(e => e.id === id)?.name ||
+    'entity';
+  const relName = (r: Relationship | undefined) =>
+    r ? `${nameOf(r.source)} → ${nameOf(r.target)}` : 'relationship';
+  const countDiff = (a: unknown[], b: unknown[]) => b.length - a.length;
+  const plural = (n: number, one: string, many: string) => `${n} ${n === 1 ? one : many}`;
+
+  switch (action.type) {
+    case 'SET_NETWORK':
+      return action.payload.title ? `Loaded '${action.payload.title}'` : 'Replaced network contents';
+    case 'IMPORT_NETWORK': {
+      const { mode, network } = action.payload;
+      const entities = mode === 'merge' ? countDiff(before.network.entities, network.entities) : network.entities.length;
+      const relationships = mode === 'merge' ? countDiff(before.network.relationships, network.relationships) : network.relationships.length;
+      return `Imported ${plural(entities, 'entity', 'entities')}, ${plural(relationships, 'relationship', 'relationships')}`;
+    }
+    case 'UPDATE_NETWORK':
+      return action.payload.title ? `Renamed network to '${action.payload.title}'` : 'Updated network details';
+    case 'ADD_ENTITY':
+      return `Added '${action.payload.name}'`;
+    case 'ADD_OR_MERGE_ENTITY': {
+      // The reducer merged into an existing entity if it replaced one rather than adding one
+      const merged = patch.entities.find(change => change.before && change.after);
+      return merged ? `Merged '${action.payload.name}' into '${merged.before!.name}'` : `Added '${action.payload.name}'`;
+    }
+    case 'MERGE_ENTITY':
+      return `Merged '${action.payload.incoming.name}' into '${nameOf(action.payload.existingId)}'`;
+    case 'UPDATE_ENTITY': {
+      const keys = Object.keys(action.payload.updates);
+      const moved = keys.length > 0 && keys.every(k => ['x', 'y', 'fx', 'fy'].includes(k));
+      return `${moved ? 'Moved' : 'Edited'} '${nameOf(action.payload.id)}'`;
+    }
+    case 'DELETE_ENTITY':
+      return `Deleted '${nameOf(action.payload)}'`;
+    case 'ADD_RELATIONSHIP':
+    case 'ADD_OR_MERGE_RELATIONSHIP':
+      return `Connected ${relName(action.payload)}`;
+    case 'UPDATE_RELATIONSHIP':
+      return `Edited ${relName(before.network.relationships.find(r => r.id === action.payload.id))}`;
+    case 'DELETE_RELATIONSHIP':
+      return `Removed ${relName(before.network.relationships.find(r => r.id === action.payload))}`;
+    case 'ADD_ENTITIES_AND_RELATIONSHIPS': {
+      const added = countDiff(before.network.entities, after.network.entities);
+      const connected = countDiff(before.network.relationships, after.network.relationships);
+      return `Added ${plural(added, 'entity', 'entities')}, ${plural(connected, 'connection', 'connections')}`;
+    }
+    case 'MERGE_ENTITIES':
+      return `Merged '${nameOf(action.payload.mergeId)}' into '${nameOf(action.payload.keepId)}'`;
+    case 'SPLIT_ENTITY':
+      return `Split '${action.payload.plan.name}' from '${nameOf(action.payload.entityId)}'`;
+    case 'RECORD_MERGE_DECISION': {
+      const [a, b] = action.payload.names;
+      const verb = action.payload.decision === 'never_merge' ? 'Marked never merge' : 'Rejected merge';
+      return `${verb}: '${a}' / '${b}'`;
+    }
+    case 'DEDUPLICATE_NETWORK': {
+      const merged = -countDiff(before.network.entities, after.network.entities);
+      return `Deduplicated ${plural(merged, 'entity', 'entities')}`;
+    }
+    case 'SAVE_ENTITY_TYPE':
+      return before.network.entityTypes?.some(t => t.id === action.payload.id)
+        ? `Edited entity type '${action.payload.label}'`
+        : `Added entity type '${action.payload.label}'`;
+    case 'DELETE_ENTITY_TYPE': {
+      const label = before.network.entityTypes?.find(t => t.id === action.payload.id)?.label || action.payload.id;
+      return `Deleted entity type '${label}'`;
+    }
+    case 'SAVE_RELATIONSHIP_TYPE':
+      return getRelationshipTypes(before.network.relationshipTypes).some(t => t.id === action.payload.id)
+        ? `Edited relationship type '${action.payload.label}'`
+        : `Added relationship type '${action.payload.label}'`;
+    case 'DELETE_RELATIONSHIP_TYPE': {
+      const label = getRelationshipTypes(before.network.relationshipTypes).find(t => t.id === action.payload)?.label || action.payload;
+      return `Deleted relationship type '${label}'`;
+    }
+    case 'NORMALIZE_RELATIONSHIPS': {
+      const removed = -countDiff(before.network.relationships, after.network.relationships);
+      return removed > 0
+        ? `Normalized relationship types, removed ${plural(removed, 'duplicate', 'duplicates')}`
+        : 'Normalized relationship types';
+    }
+    case 'SET_CLUSTERS':
+      if (!action.payload) return 'Cleared communities';
+      return before.network.clusters
+        ? 'Updated communities'
+        : `Detected ${plural(action.payload.clusters.length, 'community', 'communities')}`;
+    case 'SET_CLUSTER_COLLAPSED': {
+      const label = before.network.clusters?.clusters.find(c => c.id === action.payload.id)?.label || 'cluster';
+      return `${action.payload.collapsed ? 'Collapsed' : 'Expanded'} cluster '${label}'`;
+    }
+    case 'SET_LAYOUT':
+      return `Switched to ${getLayoutLabel(action.payload)} layout`;
+    case 'ADD_ANNOTATION':
+      return `Added ${describeAnnotation(action.payload)}`;
+    case 'UPDATE_ANNOTATION': {
+      const annotation = before.network.annotations?.find(a => a.id === action.payload.id);
+      const verb = action.payload.updates.points ? 'Moved' : 'Edited';
+      return annotation ? `${verb} ${describeAnnotation(annotation)}` : 'Edited annotation';
+    }
+    case 'DELETE_ANNOTATION': {
+      const annotation = before.network.annotations?.find(a => a.id === action.payload);
+      return annotation ? `Deleted ${describeAnnotation(annotation)}` : 'Deleted annotation';
+    }
+    case 'UPDATE_INVESTIGATION_CONTEXT':
+      return 'Updated investigation context';
+    case 'CLEAR_NETWORK':
+      return 'Cleared network';
+    default:
+      return 'Modified network';
+  }
+}
+
+/**
+ * Step through the history in one direction, applying each entry's patch.
+ */
+function travelHistory(state: NetworkState, direction: 'undo' | 'redo', steps: number): NetworkState {
+  let { network } = state;
+  const past = [...state.history.past];
+  const future = [...state.history.future];
+  const from = direction === 'undo' ? past : future;
+  const to = direction === 'undo' ? future : past;
+
+  for (let i = 0; i < steps && from.length > 0; i++) {
+    const entry = from.pop()!;
+    network = applyPatch(network, entry.patch, direction);
+    to.push(entry);
+  }
+
+  if (network === state.network) return state;
+
+  const entityIds = new Set(network.entities.map(e => e.id));
+  const relationshipIds = new Set(network.relationships.map(r => r.id));
+  return {
+    ...state,
+    network,
+    history: { past, future },
+    selectedEntityId: state.selectedEntityId && entityIds.has(state.selectedEntityId) ? state.selectedEntityId : null,
+    selectedRelationshipId: state.selectedRelationshipId && relationshipIds.has(state.selectedRelationshipId)
+      ? state.selectedRelationshipId
+      : null,
+  };
+}
+
+function networkReducer(state: NetworkState, action: NetworkAction, matchIndex: EntityMatchIndex): NetworkState {
+  if (action.type === 'UNDO' || action.type === 'REDO') {
+    const direction = action.type === 'UNDO' ? 'undo' : 'redo';
+    return travelHistory(state, direction, action.payload?.steps ?? 1);
+  }
+
+  const next = applyNetworkAction(state, action, matchIndex);
+  if (next === state || next.network === state.network || UNRECORDED_ACTIONS.has(action.type)) {
+    return next;
+  }
+
+  const patch = diffNetworks(state.network, next.network);
+  if (isEmptyPatch(patch)) return next;
+
+  const entry: HistoryEntry = {
+    id: generateId(),
+    label: describeAction(state, next, action, patch),
+    actionType: action.type,
+    timestamp: new Date().toISOString(),
+    patch,
+  };
+  return { ...next, history: pushHistoryEntry(state.history, entry) };
+}
+
+// ============================================
+// Tabs: several open networks, one active
+// ============================================
+
+// The first tab keeps the chat storage key used before tabs existed
+const INITIAL_TAB_ID = 'default';
+
+// Canvas state kept per tab while another tab is showing
+export interface TabView {
+  theme?: CanvasTheme;
+  camera?: { x: number; y: number; ratio: number; angle: number };
+  positions?: LayoutPositions;
+}
+
+export interface NetworkTab {
+  id: string;
+  state: NetworkState;
+  view: TabView;
+}
+
+interface WorkspaceState {
+  tabs: NetworkTab[];
+  activeTabId: string;
+}
+
+type WorkspaceAction =
+  | { type: 'TAB_ACTION'; payload: { tabId: string; action: NetworkAction } }
+  | { type: 'OPEN_TAB'; payload: { id: string; network?: Network } }
+  | { type: 'CLOSE_TAB'; payload: string }
+  | { type: 'SWITCH_TAB'; payload: string }
+  | { type: 'SAVE_TAB_VIEW'; payload: { tabId: string; view: Partial<TabView> } }
+  | { type: 'TRANSFER_ENTITIES'; payload: { fromTabId: string; toTabId: string; entityIds: string[] } };
+
+const initialWorkspace: WorkspaceState = {
+  tabs: [{ id: INITIAL_TAB_ID, state: initialState, view: {} }],
+  activeTabId: INITIAL_TAB_ID,
+};
+
+function updateTab(state: WorkspaceState, tabId: string, update: (tab: NetworkTab) => NetworkTab): WorkspaceState {
+  return { ...state, tabs: state.tabs.map(tab => (tab.id === tabId ? update(tab) : tab)) };
+}
+
+/**
+ * Copy entities, and every relationship touching them, from one network for
+ * adding to another. Entities the target already has (same ID) are not
+ * copied again. Relationships to entities outside the set refer to them by
+ * name, so they are kept only if the target has a matching entity. Custom
+ * entity types the target lacks are copied with them.
+ */
+function buildEntityTransfer(source: Network, target: Network, entityIds: string[]) {
+  const ids = new Set(entityIds);
+  const targetIds = new Set(target.entities.map(e => e.id));
+  const names = new Map(source.entities.map(e => [e.id, e.name]));
+  const endpoint = (id: string) => (ids.has(id) || targetIds.has(id) ? id : names.get(id) || id);
+
+  const entities = source.entities
+    .filter(e => ids.has(e.id) && !targetIds.has(e.id))
+    // Positions belong to the source canvas; let the target lay them out
+    .map(({ x: _x, y: _y, fx: _fx, fy: _fy, ...entity }) => entity as Entity);
+  const relationships = source.relationships
+    .filter(r => ids.has(r.source) || ids.has(r.target))
+    .map(r => ({ ...r, id: generateId(), source: endpoint(r.source), target: endpoint(r.target) }));
+  // Bring along the definitions of any custom types the entities use
+  const usedTypes = new Set(entities.map(e => e.type));
+  const entityTypes = source.entityTypes?.filter(t => usedTypes.has(t.id));
+
+  return { entities, relationships, entityTypes };
+}
+
+function workspaceReducer(state: WorkspaceState, action: WorkspaceAction): WorkspaceState {
+  switch (action.type) {
+    case 'OPEN_TAB': {
+      const { id, network } = action.payload;
+      const tabState = network ? { ...initialState, network } : initialState;
+      return { tabs: [...state.tabs, { id, state: tabState, view: {} }], activeTabId: id };
+    }
+
+    case 'CLOSE_TAB': {
+      const index = state.tabs.findIndex(t => t.id === action.payload);
+      // The last tab can't be closed
+      if (index < 0 || state.tabs.length === 1) return state;
+      const tabs = state.tabs.filter(t => t.id !== action.payload);
+      const activeTabId = state.activeTabId === action.payload
+        ? tabs[Math.min(index, tabs.length - 1)].id
+        : state.activeTabId;
+      return { tabs, activeTabId };
+    }
+
+    case 'SWITCH_TAB':
+      if (action.payload === state.activeTabId || !state.tabs.some(t => t.id === action.payload)) return state;
+      return { ...state, activeTabId: action.payload };
+
+    case 'SAVE_TAB_VIEW':
+      return updateTab(state, action.payload.tabId, tab => ({
+        ...tab,
+        view: { ...tab.view, ...action.payload.view },
+      }));
+
+    case 'TRANSFER_ENTITIES': {
+      const { fromTabId, toTabId, entityIds } = action.payload;
+      const from = state.tabs.find(t => t.id === fromTabId);
+      const to = state.tabs.find(t => t.id === toTabId);
+      if (!from || !to || from === to) return state;
+
+      const payload = buildEntityTransfer(from.state.network, to.state.network, entityIds);
+      const next = networkReducer(to.state, { type: 'ADD_ENTITIES_AND_RELATIONSHIPS', payload }, matchIndexForTab(toTabId));
+      return updateTab(state, toTabId, tab => ({ ...tab, state: next }));
+    }
+
+    case 'TAB_ACTION': {
+      // Network actions apply to the tab they were started in, which may no
+      // longer be the active one
+      const { tabId, action: networkAction } = action.payload;
+      const tab = state.tabs.find(t => t.id === tabId);
+      if (!tab) return state;
+      const next = networkReducer(tab.state, networkAction, matchIndexForTab(tabId));
+      if (next === tab.state) return state;
+      return updateTab(state, tabId, t => ({ ...t, state: next }));
+    }
+  }
+}
+
 interface NetworkContextValue extends NetworkState {
-  dispatch: React.Dispatch<NetworkAction>;
+  dispatch: React.Dispatch<NetworkAction>; // Bound to the tab active when it was taken
+  dispatchToTab: (tabId: string, action: NetworkAction) => void;
   addEntity: (entity: Omit<Entity, 'id'> & { id?: string }) => void;
   addOrMergeEntity: (entity: Omit<Entity, 'id'> & { id?: string }) => void;
   mergeEntity: (existingId: string, incoming: Entity) => void;
@@ -549,106 +1202,271 @@ interface NetworkContextValue extends NetworkState {
   addOrMergeRelationship: (relationship: Omit<Relationship, 'id'>) => void;
   updateRelationship: (id: string, updates: Partial<Relationship>) => void;
   deleteRelationship: (id: string) => void;
-  addEntitiesAndRelationships: (entities: Entity[], relationships: Relationship[]) => void;
+  addEntitiesAndRelationships: (entities: Entity[], relationships: Relationship[], entityTypes?: EntityTypeDefinition[]) => void;
   selectEntity: (id: string | null) => void;
   selectRelationship: (id: string | null) => void;
+  setHighlight: (highlight: GraphHighlight | null) => void;
+  setNodeSizing: (sizing: NodeSizing | null) => void;
+  setTimeFilter: (filter: TimeFilter | null) => void;
+  setFocus: (focus: FocusTrail | null) => void;
+  focusEntity: (entityId: string) => void;
   clearNetwork: () => void;
   setNetwork: (network: Network) => void;
   updateInvestigationContext: (context: InvestigationContext) => void;
   deduplicateNetwork: () => void;
   findMatchingEntity: (entity: Entity) => Entity | null;
+  findMergeCandidates: () => MergeCandidate[];
+  mergeEntities: (keepId: string, mergeId: string, strategy?: MatchStrategy) => void;
+  recordMergeDecision: (
+    candidate: MergeCandidate,
+    decision: Exclude<MergeDecision['decision'], 'accepted'>
+  ) => void;
+  splitEntity: (entityId: string, plan: SplitEntityPlan) => string;
+  saveEntityType: (definition: EntityTypeDefinition) => void;
+  deleteEntityType: (id: string, replacement?: Entity['type']) => void;
+  saveRelationshipType: (definition: RelationshipTypeDefinition) => void;
+  deleteRelationshipType: (id: string) => void;
+  setClusters: (clusters: NetworkClusters | null) => void;
+  setClusterCollapsed: (id: string, collapsed: boolean) => void;
+  setLayout: (layout: NetworkLayout) => void;
+  addAnnotation: (annotation: Omit<Annotation, 'id'>) => string;
+  updateAnnotation: (id: string, updates: Partial<Omit<Annotation, 'id'>>) => void;
+  deleteAnnotation: (id: string) => void;
+  undo: (steps?: number) => void;
+  redo: (steps?: number) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  tabs: NetworkTab[];
+  activeTabId: string;
+  openTab: (network?: Network) => string;
+  closeTab: (tabId: string) => void;
+  switchTab: (tabId: string) => void;
+  saveTabView: (tabId: string, view: Partial<TabView>) => void;
+  transferEntities: (fromTabId: string, toTabId: string, entityIds: string[]) => void;
 }
 
 const NetworkContext = createContext<NetworkContextValue | null>(null);
 
 export function NetworkProvider({ children }: { children: ReactNode }) {
-  const [state, dispatch] = useReducer(networkReducer, initialState);
+  const [workspace, dispatchWorkspace] = useReducer(workspaceReducer, initialWorkspace);
+  const activeTab = workspace.tabs.find(t => t.id === workspace.activeTabId) ?? workspace.tabs[0];
+  const state = activeTab.state;
+
+  const dispatchToTab = useCallback((tabId: string, action: NetworkAction) => {
+    dispatchWorkspace({ type: 'TAB_ACTION', payload: { tabId, action } });
+  }, []);
+
+  // Everything below acts on the tab that is active now. Callers that hold on
+  // to these across an await keep writing to that tab after the user switches.
+  const dispatch = useCallback((action: NetworkAction) => {
+    dispatchToTab(activeTab.id, action);
+  }, [dispatchToTab, activeTab.id]);
 
   const addEntity = useCallback((entity: Omit<Entity, 'id'> & { id?: string }) => {
     dispatch({ type: 'ADD_ENTITY', payload: { ...entity, id: entity.id || generateId() } as Entity });
-  }, []);
+  }, [dispatch]);
 
   const addOrMergeEntity = useCallback((entity: Omit<Entity, 'id'> & { id?: string }) => {
     dispatch({ type: 'ADD_OR_MERGE_ENTITY', payload: { ...entity, id: entity.id || generateId() } as Entity });
-  }, []);
+  }, [dispatch]);
 
   const mergeEntity = useCallback((existingId: string, incoming: Entity) => {
     dispatch({ type: 'MERGE_ENTITY', payload: { existingId, incoming } });
-  }, []);
+  }, [dispatch]);
 
   const updateEntity = useCallback((id: string, updates: Partial<Entity>) => {
     dispatch({ type: 'UPDATE_ENTITY', payload: { id, updates } });
-  }, []);
+  }, [dispatch]);
 
   const deleteEntity = useCallback((id: string) => {
     dispatch({ type: 'DELETE_ENTITY', payload: id });
-  }, []);
+  }, [dispatch]);
 
   const addRelationship = useCallback((relationship: Omit<Relationship, 'id'>) => {
     dispatch({ type: 'ADD_RELATIONSHIP', payload: { ...relationship, id: generateId() } as Relationship });
-  }, []);
+  }, [dispatch]);
 
   const addOrMergeRelationship = useCallback((relationship: Omit<Relationship, 'id'>) => {
     dispatch({ type: 'ADD_OR_MERGE_RELATIONSHIP', payload: { ...relationship, id: generateId() } as Relationship });
-  }, []);
+  }, [dispatch]);
 
   const updateRelationship = useCallback((id: string, updates: Partial<Relationship>) => {
     dispatch({ type: 'UPDATE_RELATIONSHIP', payload: { id, updates } });
-  }, []);
+  }, [dispatch]);
 
   const deleteRelationship = useCallback((id: string) => {
     dispatch({ type: 'DELETE_RELATIONSHIP', payload: id });
-  }, []);
+  }, [dispatch]);
 
-  const addEntitiesAndRelationships = useCallback((entities: Entity[], relationships: Relationship[]) => {
-    dispatch({ type: 'ADD_ENTITIES_AND_RELATIONSHIPS', payload: { entities, relationships } });
-  }, []);
+  const addEntitiesAndRelationships = useCallback((entities: Entity[], relationships: Relationship[], entityTypes?: EntityTypeDefinition[]) => {
+    dispatch({ type: 'ADD_ENTITIES_AND_RELATIONSHIPS', payload: { entities, relationships, entityTypes } });
+  }, [dispatch]);
 
   const selectEntity = useCallback((id: string | null) => {
     dispatch({ type: 'SELECT_ENTITY', payload: id });
-  }, []);
+  }, [dispatch]);
 
   const selectRelationship = useCallback((id: string | null) => {
     dispatch({ type: 'SELECT_RELATIONSHIP', payload: id });
-  }, []);
+  }, [dispatch]);
+
+  const setHighlight = useCallback((highlight: GraphHighlight | null) => {
+    dispatch({ type: 'SET_HIGHLIGHT', payload: highlight });
+  }, [dispatch]);
+
+  const setNodeSizing = useCallback((sizing: NodeSizing | null) => {
+    dispatch({ type: 'SET_NODE_SIZING', payload: sizing });
+  }, [dispatch]);
+
+  const setTimeFilter = useCallback((filter: TimeFilter | null) => {
+    dispatch({ type: 'SET_TIME_FILTER', payload: filter });
+  }, [dispatch]);
+
+  const setFocus = useCallback((focus: FocusTrail | null) => {
+    dispatch({ type: 'SET_FOCUS', payload: focus });
+  }, [dispatch]);
+
+  const focusEntity = useCallback((entityId: string) => {
+    dispatch({ type: 'FOCUS_ENTITY', payload: entityId });
+  }, [dispatch]);
 
   const clearNetwork = useCallback(() => {
     dispatch({ type: 'CLEAR_NETWORK' });
-    // Also clear chat history from localStorage (HIGH-2, HIGH-3 fix)
+    // Also clear this tab's chat history from localStorage (HIGH-2, HIGH-3 fix);
+    // other open tabs keep theirs
     try {
-      // Clear all chat history keys
-      const keysToRemove: string[] = [];
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key && key.startsWith('sp-chat-')) {
-          keysToRemove.push(key);
-        }
-      }
-      keysToRemove.forEach(key => localStorage.removeItem(key));
+      localStorage.removeItem(getChatStorageKey(state.network.id, activeTab.id));
     } catch (e) {
       console.warn('Failed to clear chat history:', e);
     }
-  }, []);
+  }, [dispatch, state.network.id, activeTab.id]);
 
   const setNetwork = useCallback((network: Network) => {
     dispatch({ type: 'SET_NETWORK', payload: network });
-  }, []);
+  }, [dispatch]);
 
   const updateInvestigationContext = useCallback((context: InvestigationContext) => {
     dispatch({ type: 'UPDATE_INVESTIGATION_CONTEXT', payload: context });
-  }, []);
+  }, [dispatch]);
 
   const deduplicateNetwork = useCallback(() => {
     dispatch({ type: 'DEDUPLICATE_NETWORK' });
+  }, [dispatch]);
+
+  const findMergeCandidatesFn = useCallback(() => {
+    return findMergeCandidates(matchIndexForTab(activeTab.id), state.network.entities, state.network.mergeDecisions);
+  }, [activeTab.id, state.network.entities, state.network.mergeDecisions]);
+
+  const mergeEntitiesFn = useCallback((keepId: string, mergeId: string, strategy?: MatchStrategy) => {
+    dispatch({ type: 'MERGE_ENTITIES', payload: { keepId, mergeId, strategy } });
+  }, [dispatch]);
+
+  const recordMergeDecision = useCallback((
+    candidate: MergeCandidate,
+    decision: Exclude<MergeDecision['decision'], 'accepted'>
+  ) => {
+    dispatch({
+      type: 'RECORD_MERGE_DECISION',
+      payload: {
+        id: generateId(),
+        entityIds: [candidate.entityA.id, candidate.entityB.id],
+        names: [candidate.entityA.name, candidate.entityB.name],
+        decision,
+        strategy: candidate.strategy,
+        decidedAt: new Date().toISOString(),
+      },
+    });
+  }, [dispatch]);
+
+  const splitEntity = useCallback((entityId: string, plan: SplitEntityPlan) => {
+    const newId = generateId();
+    dispatch({ type: 'SPLIT_ENTITY', payload: { entityId, newId, plan } });
+    return newId;
+  }, [dispatch]);
+
+  const saveEntityType = useCallback((definition: EntityTypeDefinition) => {
+    dispatch({ type: 'SAVE_ENTITY_TYPE', payload: definition });
+  }, [dispatch]);
+
+  const deleteEntityType = useCallback((id: string, replacement: Entity['type'] = 'unknown') => {
+    dispatch({ type: 'DELETE_ENTITY_TYPE', payload: { id, replacement } });
+  }, [dispatch]);
+
+  const saveRelationshipType = useCallback((definition: RelationshipTypeDefinition) => {
+    dispatch({ type: 'SAVE_RELATIONSHIP_TYPE', payload: definition });
+  }, [dispatch]);
+
+  const deleteRelationshipType = useCallback((id: string) => {
+    dispatch({ type: 'DELETE_RELATIONSHIP_TYPE', payload: id });
+  }, [dispatch]);
+
+  const setClusters = useCallback((clusters: NetworkClusters | null) => {
+    dispatch({ type: 'SET_CLUSTERS', payload: clusters });
+  }, [dispatch]);
+
+  const setClusterCollapsed = useCallback((id: string, collapsed: boolean) => {
+    dispatch({ type: 'SET_CLUSTER_COLLAPSED', payload: { id, collapsed } });
+  }, [dispatch]);
+
+  const setLayout = useCallback((layout: NetworkLayout) => {
+    dispatch({ type: 'SET_LAYOUT', payload: layout });
+  }, [dispatch]);
+
+  const addAnnotation = useCallback((annotation: Omit<Annotation, 'id'>) => {
+    const id = generateId();
+    dispatch({ type: 'ADD_ANNOTATION', payload: { ...annotation, id } });
+    return id;
+  }, [dispatch]);
+
+  const updateAnnotation = useCallback((id: string, updates: Partial<Omit<Annotation, 'id'>>) => {
+    dispatch({ type: 'UPDATE_ANNOTATION', payload: { id, updates } });
+  }, [dispatch]);
+
+  const deleteAnnotation = useCallback((id: string) => {
+    dispatch({ type: 'DELETE_ANNOTATION', payload: id });
+  }, [dispatch]);
+
+  const undo = useCallback((steps: number = 1) => {
+    dispatch({ type: 'UNDO', payload: { steps } });
+  }, [dispatch]);
+
+  const redo = useCallback((steps: number = 1) => {
+    dispatch({ type: 'REDO', payload: { steps } });
+  }, [dispatch]);
+
+  const openTab = useCallback((network?: Network) => {
+    const id = generateId();
+    dispatchWorkspace({ type: 'OPEN_TAB', payload: { id, network } });
+    return id;
+  }, []);
+
+  const closeTab = useCallback((tabId: string) => {
+    dispatchWorkspace({ type: 'CLOSE_TAB', payload: tabId });
+    tabMatchIndexes.delete(tabId);
+  }, []);
+
+  const switchTab = useCallback((tabId: string) => {
+    dispatchWorkspace({ type: 'SWITCH_TAB', payload: tabId });
+  }, []);
+
+  const saveTabView = useCallback((tabId: string, view: Partial<TabView>) => {
+    dispatchWorkspace({ type: 'SAVE_TAB_VIEW', payload: { tabId, view } });
+  }, []);
+
+  const transferEntities = useCallback((fromTabId: string, toTabId: string, entityIds: string[]) => {
+    dispatchWorkspace({ type: 'TRANSFER_ENTITIES', payload: { fromTabId, toTabId, entityIds } });
   }, []);
 
   const findMatchingEntityFn = useCallback((entity: Entity) => {
-    return findMatchingEntity(state.network.entities, entity);
-  }, [state.network.entities]);
+    const index = matchIndexForTab(activeTab.id);
+    index.sync(state.network.entities);
+    return findMatchingEntity(index, entity, state.network.mergeDecisions);
+  }, [activeTab.id, state.network.entities, state.network.mergeDecisions]);
 
   const value: NetworkContextValue = {
     ...state,
     dispatch,
+    dispatchToTab,
     addEntity,
     addOrMergeEntity,
     mergeEntity,
@@ -661,11 +1479,41 @@ export function NetworkProvider({ children }: { children: ReactNode }) {
     addEntitiesAndRelationships,
     selectEntity,
     selectRelationship,
+    setHighlight,
+    setNodeSizing,
+    setTimeFilter,
+    setFocus,
+    focusEntity,
     clearNetwork,
     setNetwork,
     updateInvestigationContext,
     deduplicateNetwork,
     findMatchingEntity: findMatchingEntityFn,
+    findMergeCandidates: findMergeCandidatesFn,
+    mergeEntities: mergeEntitiesFn,
+    recordMergeDecision,
+    splitEntity,
+    saveEntityType,
+    deleteEntityType,
+    saveRelationshipType,
+    deleteRelationshipType,
+    setClusters,
+    setClusterCollapsed,
+    setLayout,
+    addAnnotation,
+    updateAnnotation,
+    deleteAnnotation,
+    undo,
+    redo,
+    canUndo: state.history.past.length > 0,
+    canRedo: state.history.future.length > 0,
+    tabs: workspace.tabs,
+    activeTabId: activeTab.id,
+    openTab,
+    closeTab,
+    switchTab,
+    saveTabView,
+    transferEntities,
   };
 
   return <NetworkContext.Provider value={value}>{children}</NetworkContext.Provider>;
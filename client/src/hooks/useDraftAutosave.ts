@@ -0,0 +1,128 @@
+/**
+ * Silent Partners - Draft Autosave Hook
+ *
+ * Continuously saves each open tab's investigation to a local IndexedDB
+ * draft: debounced after each network change (but at least every few
+ * seconds while changes keep streaming in), and immediately when the page
+ * is hidden or unloaded. Empty networks are not saved; clearing a network
+ * starts a new draft so the previous one stays recoverable.
+ */
+
+import { useEffect, useRef, useCallback } from 'react';
+import { useNetwork, NetworkTab } from '@/contexts/NetworkContext';
+import {
+  saveDraft,
+  getDraftIdForTab,
+  startNewDraft,
+  releaseTabDraft,
+  getLayoutPositions,
+  getChatMessages,
+  getChatStorageKey,
+  onChatMessagesChanged,
+} from '@/lib/drafts';
+
+const AUTOSAVE_DELAY_MS = 1500;
+const AUTOSAVE_MAX_WAIT_MS = 10000; // Longest a change waits while others keep arriving
+
+export function useDraftAutosave() {
+  const { tabs, activeTabId } = useNetwork();
+  const tabsRef = useRef<NetworkTab[]>(tabs);
+  const activeTabIdRef = useRef(activeTabId);
+  const seenTabsRef = useRef(new Map<string, NetworkTab>()); // Last state seen per tab
+  const dirtyTabsRef = useRef(new Set<string>());
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const firstDirtyAtRef = useRef<number | null>(null); // When the oldest unsaved change came in
+  tabsRef.current = tabs;
+  activeTabIdRef.current = activeTabId;
+
+  const saveTab = useCallback((tab: NetworkTab) => {
+    const { network } = tab.state;
+    if (network.entities.length === 0) return;
+    // The canvas only holds the active tab; other tabs keep positions in their view
+    const positions = tab.id === activeTabIdRef.current ? getLayoutPositions() : tab.view.positions || {};
+
+    saveDraft({
+      id: getDraftIdForTab(tab.id),
+      title: network.title || 'Untitled Network',
+      network,
+      positions,
+      messages: getChatMessages(getChatStorageKey(network.id, tab.id)),
+      entityCount: network.entities.length,
+      relationshipCount: network.relationships.length,
+      updatedAt: new Date().toISOString(),
+    }).catch(e => {
+      console.warn('Failed to autosave draft:', e);
+    });
+  }, []);
+
+  const flush = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    firstDirtyAtRef.current = null;
+    dirtyTabsRef.current.forEach(tabId => {
+      const tab = tabsRef.current.find(t => t.id === tabId);
+      if (tab) saveTab(tab);
+    });
+    dirtyTabsRef.current.clear();
+  }, [saveTab]);
+
+  const scheduleSave = useCallback((tabId: string) => {
+    dirtyTabsRef.current.add(tabId);
+    const now = Date.now();
+    if (firstDirtyAtRef.current === null) firstDirtyAtRef.current = now;
+    const maxWaitLeft = firstDirtyAtRef.current + AUTOSAVE_MAX_WAIT_MS - now;
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(flush, Math.max(0, Math.min(AUTOSAVE_DELAY_MS, maxWaitLeft)));
+  }, [flush]);
+
+  // Debounced save after each network change, in any tab
+  useEffect(() => {
+    const seen = seenTabsRef.current;
+
+    // Closed tabs: save pending changes, then forget them; their drafts stay
+    // listed for recovery
+    seen.forEach((tab, tabId) => {
+      if (tabs.some(t => t.id === tabId)) return;
+      if (dirtyTabsRef.current.delete(tabId)) saveTab(tab);
+      seen.delete(tabId);
+      releaseTabDraft(tabId);
+    });
+
+    tabs.forEach(tab => {
+      const { network } = tab.state;
+      const previous = seen.get(tab.id);
+      seen.set(tab.id, tab);
+      if (previous?.state.network === network) return;
+      if (network.entities.length === 0) {
+        dirtyTabsRef.current.delete(tab.id);
+        startNewDraft(tab.id);
+      } else {
+        scheduleSave(tab.id);
+      }
+    });
+  }, [tabs, scheduleSave, saveTab]);
+
+  // Chat changes don't touch the network, so listen for them separately
+  useEffect(() => onChatMessagesChanged(() => {
+    const tab = tabsRef.current.find(t => t.id === activeTabIdRef.current);
+    if (tab && tab.state.network.entities.length > 0) scheduleSave(tab.id);
+  }), [scheduleSave]);
+
+  // Save right away when the tab is hidden or closed
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      flush();
+    };
+  }, [flush]);
+
+  return { flush };
+}
@@ -1,82 +1,47 @@
 /**
  * Silent Partners - Keyboard Shortcuts Hook
- * 
+ *
  * Handles keyboard shortcuts for improved workflow:
  * - Ctrl+Z: Undo last action
+ * - Ctrl+Shift+Z / Ctrl+Y: Redo last undone action
  * - Delete/Backspace: Delete selected entity or relationship
  * - Escape: Deselect current selection
+ *
+ * Undo/redo use the shared history recorded by NetworkContext.
  */
 
-import { useEffect, useCallback, useRef } from 'react';
+import { useEffect, useCallback } from 'react';
 import { useNetwork } from '@/contexts/NetworkContext';
-import { NetworkState } from '@/lib/store';
-
-// History stack for undo functionality
-interface HistoryEntry {
-  entities: NetworkState['network']['entities'];
-  relationships: NetworkState['network']['relationships'];
-}
 
 export function useKeyboardShortcuts() {
-  const { 
-    network, 
-    selectedEntityId, 
+  const {
+    selectedEntityId,
     selectedRelationshipId,
     selectEntity,
     deleteEntity,
     deleteRelationship,
-    dispatch
+    dispatch,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
   } = useNetwork();
-  
-  // History for undo - store last 20 states
-  const historyRef = useRef<HistoryEntry[]>([]);
-  const lastNetworkRef = useRef<string>('');
-
-  // Track network changes for undo history
-  useEffect(() => {
-    const currentState = JSON.stringify({
-      entities: network.entities,
-      relationships: network.relationships
-    });
-    
-    // Only add to history if state actually changed
-    if (currentState !== lastNetworkRef.current && lastNetworkRef.current !== '') {
-      historyRef.current.push({
-        entities: JSON.parse(lastNetworkRef.current).entities || [],
-        relationships: JSON.parse(lastNetworkRef.current).relationships || []
-      });
-      
-      // Keep only last 20 entries
-      if (historyRef.current.length > 20) {
-        historyRef.current.shift();
-      }
-    }
-    
-    lastNetworkRef.current = currentState;
-  }, [network.entities, network.relationships]);
 
   const handleUndo = useCallback(() => {
-    if (historyRef.current.length === 0) {
+    if (!canUndo) {
       console.log('Nothing to undo');
       return;
     }
-    
-    const previousState = historyRef.current.pop();
-    if (previousState) {
-      // Temporarily disable history tracking
-      lastNetworkRef.current = JSON.stringify(previousState);
-      
-      dispatch({
-        type: 'SET_NETWORK',
-        payload: {
-          ...network,
-          entities: previousState.entities,
-          relationships: previousState.relationships
-        }
-      });
-      console.log('Undo: Restored previous state');
+    undo();
+  }, [undo, canUndo]);
+
+  const handleRedo = useCallback(() => {
+    if (!canRedo) {
+      console.log('Nothing to redo');
+      return;
     }
-  }, [dispatch, network]);
+    redo();
+  }, [redo, canRedo]);
 
   const handleDelete = useCallback(() => {
     if (selectedEntityId) {
@@ -102,8 +67,18 @@ export function useKeyboardShortcuts() {
         return;
       }
 
+      const key = event.key.toLowerCase();
+      const isModifier = event.ctrlKey || event.metaKey;
+
+      // Ctrl+Shift+Z / Cmd+Shift+Z or Ctrl+Y for redo
+      if (isModifier && ((key === 'z' && event.shiftKey) || key === 'y')) {
+        event.preventDefault();
+        handleRedo();
+        return;
+      }
+
       // Ctrl+Z or Cmd+Z for undo
-      if ((event.ctrlKey || event.metaKey) && event.key === 'z') {
+      if (isModifier && key === 'z') {
         event.preventDefault();
         handleUndo();
         return;
@@ -126,12 +101,14 @@ export function useKeyboardShortcuts() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleUndo, handleDelete, handleDeselect]);
+  }, [handleUndo, handleRedo, handleDelete, handleDeselect]);
 
   return {
     undo: handleUndo,
+    redo: handleRedo,
     deleteSelected: handleDelete,
     deselect: handleDeselect,
-    canUndo: historyRef.current.length > 0
+    canUndo,
+    canRedo,
   };
 }
@@ -0,0 +1,257 @@
+/**
+ * Silent Partners - Annotations
+ *
+ * Notes drawn over the network for published charts: text callouts pinned
+ * to an entity or a spot on the canvas, titled boxes (rectangles or lasso
+ * outlines) grouping entities, and arrows. Positions are in canvas units
+ * with y growing upwards, like entity positions. A point attached to an
+ * entity is an offset from it, so the annotation follows the entity and is
+ * hidden along with it.
+ */
+
+import { VectorShape, roundedRectPath } from './vector-export';
+
+export type AnnotationKind = 'callout' | 'box' | 'arrow';
+
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+  entityId?: string; // Offset from this entity rather than a canvas position
+}
+
+export interface Annotation {
+  id: string;
+  kind: AnnotationKind;
+  // Callout: [label]; box: two corners, or the outline when lasso; arrow: [from, to]
+  points: AnnotationPoint[];
+  text?: string;   // Callout text or box title
+  lasso?: boolean; // Box drawn freehand
+}
+
+export type Point = { x: number; y: number };
+
+// Fewest points in a lasso outline
+const MIN_LASSO_POINTS = 3;
+
+export function resolvePoint(
+  point: AnnotationPoint,
+  positionOf: (entityId: string) => Point | undefined
+): Point | null {
+  if (!point.entityId) return { x: point.x, y: point.y };
+  const anchor = positionOf(point.entityId);
+  return anchor ? { x: anchor.x + point.x, y: anchor.y + point.y } : null;
+}
+
+/**
+ * Where to draw an annotation, with the entity a callout is attached to.
+ * Null when an entity it is attached to isn't shown.
+ */
+export function resolveAnnotation(
+  annotation: Annotation,
+  positionOf: (entityId: string) => Point | undefined
+): { points: Point[]; anchor: Point | null } | null {
+  const points = annotation.points.map(p => resolvePoint(p, positionOf));
+  if (points.some(p => !p)) return null;
+  const callout = annotation.kind === 'callout' ? annotation.points[0] : undefined;
+  return {
+    points: points as Point[],
+    anchor: callout?.entityId ? positionOf(callout.entityId) ?? null : null,
+  };
+}
+
+// Attach a point to an entity, or leave it on the canvas
+export function anchorPoint(point: Point, entityId: string | null, positionOf: (entityId: string) => Point | undefined): AnnotationPoint {
+  const anchor = entityId ? positionOf(entityId) : undefined;
+  return anchor ? { x: point.x - anchor.x, y: point.y - anchor.y, entityId: entityId! } : { x: point.x, y: point.y };
+}
+
+// Rectangle corners from the first and last points dragged through, or
+// the whole lasso outline; null when too small to be a box
+export function boxPoints(drawn: Point[], lasso: boolean): Point[] | null {
+  if (lasso) return drawn.length >= MIN_LASSO_POINTS ? drawn : null;
+  const [a, b] = [drawn[0], drawn[drawn.length - 1]];
+  if (!a || !b || a.x === b.x || a.y === b.y) return null;
+  return [a, b];
+}
+
+export function describeAnnotation(annotation: Pick<Annotation, 'kind' | 'text'>): string {
+  const noun = annotation.kind === 'callout' ? 'note' : annotation.kind;
+  return annotation.text ? `${noun} "${annotation.text.length > 24 ? `${annotation.text.slice(0, 24)}…` : annotation.text}"` : noun;
+}
+
+// Re-point attached annotations at new entity IDs (after a merge or reload)
+export function remapAnnotations(annotations: Annotation[], idMap: Map<string, string>): Annotation[] {
+  return annotations.map(annotation => ({
+    ...annotation,
+    points: annotation.points.map(p => (p.entityId && idMap.has(p.entityId) ? { ...p, entityId: idMap.get(p.entityId) } : p)),
+  }));
+}
+
+// ============================================
+// Drawing
+// ============================================
+
+// How annotations are lettered and inked; the canvas theme supplies these
+export interface AnnotationStyle {
+  color: string;
+  fontFamily: string;
+  fontSize: number;   // Pixels
+  background: string; // Halo behind lettering
+  lineWidth: number;  // Pixels
+}
+
+// An annotation placed in a drawing's pixel space (y down)
+export interface ProjectedAnnotation {
+  annotation: Annotation;
+  points: Point[];
+  anchor: Point | null;
+}
+
+/**
+ * Place annotations in a drawing, skipping any attached to an entity the
+ * drawing doesn't show. `project` maps canvas units to pixels.
+ */
+export function projectAnnotations(
+  annotations: Annotation[] | undefined,
+  positionOf: (entityId: string) => Point | undefined,
+  project: (point: Point) => Point
+): ProjectedAnnotation[] {
+  return (annotations || []).flatMap(annotation => {
+    const resolved = resolveAnnotation(annotation, positionOf);
+    if (!resolved) return [];
+    return [{
+      annotation,
+      points: resolved.points.map(project),
+      anchor: resolved.anchor && project(resolved.anchor),
+    }];
+  });
+}
+
+export function getBoxBounds(points: Point[]): { x: number; y: number; width: number; height: number } {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * A gently bowed arrow from `from` to `to`: the curve's control point and
+ * the three corners of its head.
+ */
+export function getArrowGeometry(from: Point, to: Point, headSize: number): { control: Point; head: [Point, Point, Point] } {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.hypot(dx, dy) || 1;
+  const control = { x: (from.x + to.x) / 2 - (dy / length) * length * 0.15, y: (from.y + to.y) / 2 + (dx / length) * length * 0.15 };
+  // The head points along the curve's last stretch
+  const angle = Math.atan2(to.y - control.y, to.x - control.x);
+  const corner = (turn: number) => ({
+    x: to.x - headSize * Math.cos(angle + turn),
+    y: to.y - headSize * Math.sin(angle + turn),
+  });
+  return { control, head: [to, corner(Math.PI / 7), corner(-Math.PI / 7)] };
+}
+
+// Where the leader line of an attached callout leaves its text
+export function getLeaderStart(label: Point, anchor: Point, style: AnnotationStyle): Point {
+  return { x: label.x + (anchor.x < label.x ? -4 : 4), y: label.y - style.fontSize * 0.35 };
+}
+
+export function getAnnotationLines(text: string | undefined): string[] {
+  return (text || '').split('\n');
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function outlinePath(points: Point[]): string {
+  return `M ${points.map(p => `${p.x} ${p.y}`).join(' L ')} Z`;
+}
+
+/**
+ * SVG markup for annotations, for exported files and the shared view.
+ */
+export function annotationsToSvg(projected: ProjectedAnnotation[], style: AnnotationStyle): string {
+  const ink = `stroke="${style.color}" stroke-width="${style.lineWidth}"`;
+  const lettering = (x: number, y: number, text: string | undefined, weight = 400) => {
+    const tspans = getAnnotationLines(text)
+      .map((line, i) => `<tspan x="${x}" dy="${i === 0 ? 0 : style.fontSize * 1.15}">${escapeXml(line)}</tspan>`)
+      .join('');
+    return `<text x="${x}" y="${y}" font-family="${escapeXml(style.fontFamily)}" font-size="${style.fontSize}" font-weight="${weight}" fill="${style.color}" stroke="${style.background}" stroke-width="3" paint-order="stroke">${tspans}</text>`;
+  };
+
+  return projected.map(({ annotation, points, anchor }) => {
+    switch (annotation.kind) {
+      case 'callout': {
+        const [label] = points;
+        const leader = anchor ? getLeaderStart(label, anchor, style) : null;
+        return `<g class="annotation">${leader ? `<path d="M ${leader.x} ${leader.y} L ${anchor!.x} ${anchor!.y}" ${ink} fill="none"/>` : ''}${lettering(label.x, label.y, annotation.text)}</g>`;
+      }
+      case 'box': {
+        const bounds = getBoxBounds(points);
+        const shape = annotation.lasso
+          ? `<path d="${outlinePath(points)}" ${ink} stroke-dasharray="6 4" fill="${style.color}" fill-opacity="0.04"/>`
+          : `<rect x="${bounds.x}" y="${bounds.y}" width="${bounds.width}" height="${bounds.height}" rx="6" ${ink} stroke-dasharray="6 4" fill="${style.color}" fill-opacity="0.04"/>`;
+        const title = annotation.text ? lettering(bounds.x + 4, bounds.y - 6, annotation.text, 600) : '';
+        return `<g class="annotation">${shape}${title}</g>`;
+      }
+      case 'arrow': {
+        const [from, to] = points;
+        const { control, head } = getArrowGeometry(from, to, style.fontSize * 0.6);
+        return `<g class="annotation"><path d="M ${from.x} ${from.y} Q ${control.x} ${control.y} ${to.x} ${to.y}" ${ink} fill="none"/><path d="${outlinePath(head)}" fill="${style.color}"/></g>`;
+      }
+      default:
+        return '';
+    }
+  }).join('');
+}
+
+/**
+ * Annotations as vector shapes for exported artwork, matching annotationsToSvg.
+ */
+export function annotationsToShapes(projected: ProjectedAnnotation[], style: AnnotationStyle): VectorShape[] {
+  const ink = { stroke: style.color, strokeWidth: style.lineWidth };
+  const lettering = (x: number, y: number, text: string | undefined, weight = 400): VectorShape[] =>
+    getAnnotationLines(text).map((line, i) => ({
+      kind: 'text',
+      x,
+      y: y + i * style.fontSize * 1.15,
+      text: line,
+      font: { family: style.fontFamily, size: style.fontSize, weight },
+      fill: style.color,
+      halo: { color: style.background, width: 3 },
+    }));
+
+  return projected.flatMap(({ annotation, points, anchor }): VectorShape[] => {
+    switch (annotation.kind) {
+      case 'callout': {
+        const [label] = points;
+        const leader = anchor ? getLeaderStart(label, anchor, style) : null;
+        return [
+          ...(leader && anchor ? [{ kind: 'path' as const, d: `M ${leader.x} ${leader.y} L ${anchor.x} ${anchor.y}`, ...ink }] : []),
+          ...lettering(label.x, label.y, annotation.text),
+        ];
+      }
+      case 'box': {
+        const bounds = getBoxBounds(points);
+        const d = annotation.lasso ? outlinePath(points) : roundedRectPath(bounds.x, bounds.y, bounds.width, bounds.height, 6);
+        return [
+          { kind: 'path', d, ...ink, dash: [6, 4], fill: style.color, fillOpacity: 0.04 },
+          ...(annotation.text ? lettering(bounds.x + 4, bounds.y - 6, annotation.text, 600) : []),
+        ];
+      }
+      case 'arrow': {
+        const [from, to] = points;
+        const { control, head } = getArrowGeometry(from, to, style.fontSize * 0.6);
+        return [
+          { kind: 'path', d: `M ${from.x} ${from.y} Q ${control.x} ${control.y} ${to.x} ${to.y}`, ...ink },
+          { kind: 'path', d: outlinePath(head), fill: style.color },
+        ];
+      }
+      default:
+        return [];
+    }
+  });
+}
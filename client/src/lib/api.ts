@@ -4,6 +4,12 @@
  * Handles all communication with the Silent Partners backend API.
  */
 
+import type { EntityAttribute, MergeDecision, NetworkClusters, OwnershipStake } from './store';
+import type { NetworkLayout } from './layouts';
+import type { Annotation } from './annotations';
+import type { EntityTypeDefinition } from './entity-types';
+import type { RelationshipTypeDefinition } from './relationship-types';
+
 // API base URL from environment variable with validation
 const API_BASE = import.meta.env.VITE_API_URL || import.meta.env.VITE_API_BASE;
 
@@ -260,8 +266,17 @@ class ApiClient {
   async saveGraph(network: {
     name: string;
     description: string;
-    entities: Array<{ id: string; name: string; type: string; description?: string }>;
-    relationships: Array<{ source: string; target: string; type?: string; label?: string }>;
+    entities: Array<{ id: string; name: string; type: string; description?: string; attributes?: EntityAttribute[] }>;
+    relationships: Array<{
+      source: string; target: string; type?: string; label?: string;
+      ownership?: OwnershipStake; start_date?: string; end_date?: string;
+    }>;
+    entity_types?: EntityTypeDefinition[];
+    relationship_types?: RelationshipTypeDefinition[];
+    merge_decisions?: MergeDecision[];
+    clusters?: NetworkClusters;
+    layout?: NetworkLayout;
+    annotations?: Annotation[];
   }): Promise<{ id: number }> {
     return this.request('/graphs', {
       method: 'POST',
@@ -277,8 +292,17 @@ class ApiClient {
     id: number;
     title: string;
     description: string;
-    entities: Array<{ id: string; name: string; type: string }>;
-    relationships: Array<{ source: string; target: string; type?: string }>;
+    entities: Array<{ id: string; name: string; type: string; description?: string; attributes?: EntityAttribute[] }>;
+    relationships: Array<{
+      source: string; target: string; type?: string; label?: string;
+      ownership?: OwnershipStake; start_date?: string; end_date?: string;
+    }>;
+    entity_types?: EntityTypeDefinition[];
+    relationship_types?: RelationshipTypeDefinition[];
+    merge_decisions?: MergeDecision[];
+    clusters?: NetworkClusters;
+    layout?: NetworkLayout;
+    annotations?: Annotation[];
   }> {
     return this.request(`/graphs/${id}`);
   }
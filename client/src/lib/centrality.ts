@@ -0,0 +1,325 @@
+/**
+ * Silent Partners - Centrality Analysis
+ *
+ * Scores every entity by how central it is to the network: degree,
+ * betweenness, closeness, eigenvector and PageRank. Brokers are the
+ * entities whose removal splits a connected group in two, the
+ * intermediaries that bridge otherwise disconnected clusters.
+ *
+ * The algorithms are pure functions over a plain graph so they can run in
+ * a Web Worker (centrality.worker.ts); computeCentralityInWorker is the
+ * entry point for the UI.
+ */
+
+import type { Network } from './store';
+import { getRelationshipTypeDefinition } from './relationship-types';
+
+export type CentralityMetric = 'degree' | 'betweenness' | 'closeness' | 'eigenvector' | 'pagerank';
+
+export const CENTRALITY_METRICS: Array<{ id: CentralityMetric; label: string; short: string; description: string }> = [
+  { id: 'degree', label: 'Degree', short: 'Deg', description: 'Share of the network directly connected' },
+  { id: 'betweenness', label: 'Betweenness', short: 'Btw', description: 'How often it sits on the shortest path between others' },
+  { id: 'closeness', label: 'Closeness', short: 'Clo', description: 'How few steps it takes to reach everyone else' },
+  { id: 'eigenvector', label: 'Eigenvector', short: 'Eig', description: 'Connected to entities that are themselves well connected' },
+  { id: 'pagerank', label: 'PageRank', short: 'PR', description: 'Importance flowing along the direction of relationships' },
+];
+
+// Plain graph handed to the worker
+export interface CentralityGraph {
+  nodeIds: string[];
+  edges: Array<{ source: string; target: string; directed: boolean }>;
+}
+
+export interface CentralityScores {
+  id: string;
+  degree: number;
+  betweenness: number;
+  closeness: number;
+  eigenvector: number;
+  pagerank: number;
+  isBroker: boolean;
+  bridgedGroups: number; // Groups the entity's removal would leave, 0 for non-brokers
+}
+
+export interface CentralityResult {
+  scores: CentralityScores[];
+  brokerIds: string[]; // Most groups bridged first
+}
+
+/**
+ * Reduce a network to the plain graph the worker scores. Relationships to
+ * missing entities and self-links are dropped.
+ */
+export function toCentralityGraph(network: Network): CentralityGraph {
+  const nodeIds = network.entities.map(e => e.id);
+  const ids = new Set(nodeIds);
+  const edges = network.relationships
+    .filter(r => ids.has(r.source) && ids.has(r.target) && r.source !== r.target)
+    .map(r => ({
+      source: r.source,
+      target: r.target,
+      directed: getRelationshipTypeDefinition(network.relationshipTypes, r.type)?.directed ?? false,
+    }));
+  return { nodeIds, edges };
+}
+
+// Undirected neighbour sets; parallel relationships count once
+function buildNeighbours(graph: CentralityGraph): Map<string, Set<string>> {
+  const neighbours = new Map<string, Set<string>>(graph.nodeIds.map(id => [id, new Set<string>()]));
+  graph.edges.forEach(({ source, target }) => {
+    neighbours.get(source)?.add(target);
+    neighbours.get(target)?.add(source);
+  });
+  return neighbours;
+}
+
+function degreeCentrality(nodeIds: string[], neighbours: Map<string, Set<string>>): Map<string, number> {
+  const n = nodeIds.length;
+  return new Map(nodeIds.map(id => [id, n > 1 ? neighbours.get(id)!.size / (n - 1) : 0]));
+}
+
+/**
+ * Brandes' betweenness on the undirected graph, normalized to 0..1.
+ */
+function betweennessCentrality(nodeIds: string[], neighbours: Map<string, Set<string>>): Map<string, number> {
+  const betweenness = new Map(nodeIds.map(id => [id, 0]));
+
+  for (const source of nodeIds) {
+    const stack: string[] = [];
+    const predecessors = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+    const paths = new Map(nodeIds.map(id => [id, 0]));
+    const distance = new Map<string, number>();
+    paths.set(source, 1);
+    distance.set(source, 0);
+
+    const queue = [source];
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      stack.push(v);
+      for (const w of Array.from(neighbours.get(v)!)) {
+        if (!distance.has(w)) {
+          distance.set(w, distance.get(v)! + 1);
+          queue.push(w);
+        }
+        if (distance.get(w) === distance.get(v)! + 1) {
+          paths.set(w, paths.get(w)! + paths.get(v)!);
+          predecessors.get(w)!.push(v);
+        }
+      }
+    }
+
+    const dependency = new Map(nodeIds.map(id => [id, 0]));
+    while (stack.length > 0) {
+      const w = stack.pop()!;
+      for (const v of predecessors.get(w)!) {
+        dependency.set(v, dependency.get(v)! + (paths.get(v)! / paths.get(w)!) * (1 + dependency.get(w)!));
+      }
+      if (w !== source) betweenness.set(w, betweenness.get(w)! + dependency.get(w)!);
+    }
+  }
+
+  // Each pair was counted from both ends
+  const n = nodeIds.length;
+  const pairs = ((n - 1) * (n - 2)) / 2;
+  betweenness.forEach((value, id) => betweenness.set(id, pairs > 0 ? value / 2 / pairs : 0));
+  return betweenness;
+}
+
+/**
+ * Harmonic closeness: the average of 1/distance to every other entity, so
+ * disconnected parts of the network count as infinitely far rather than
+ * breaking the score.
+ */
+function closenessCentrality(nodeIds: string[], neighbours: Map<string, Set<string>>): Map<string, number> {
+  const n = nodeIds.length;
+  const closeness = new Map<string, number>();
+  for (const source of nodeIds) {
+    const distance = new Map([[source, 0]]);
+    const queue = [source];
+    let total = 0;
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      for (const w of Array.from(neighbours.get(v)!)) {
+        if (distance.has(w)) continue;
+        const d = distance.get(v)! + 1;
+        distance.set(w, d);
+        total += 1 / d;
+        queue.push(w);
+      }
+    }
+    closeness.set(source, n > 1 ? total / (n - 1) : 0);
+  }
+  return closeness;
+}
+
+/**
+ * Eigenvector centrality by power iteration, scaled so the top entity is 1.
+ */
+function eigenvectorCentrality(nodeIds: string[], neighbours: Map<string, Set<string>>): Map<string, number> {
+  let scores = new Map(nodeIds.map(id => [id, 1]));
+  for (let iteration = 0; iteration < 100; iteration++) {
+    // Adding the previous score keeps bipartite graphs from oscillating
+    const next = new Map<string, number>();
+    nodeIds.forEach(id => {
+      let sum = scores.get(id)!;
+      neighbours.get(id)!.forEach(w => { sum += scores.get(w)!; });
+      next.set(id, sum);
+    });
+    const max = Math.max(...Array.from(next.values()), 0);
+    if (max === 0) return new Map(nodeIds.map(id => [id, 0]));
+    next.forEach((value, id) => next.set(id, value / max));
+
+    let change = 0;
+    next.forEach((value, id) => { change += Math.abs(value - scores.get(id)!); });
+    scores = next;
+    if (change < 1e-6 * nodeIds.length) break;
+  }
+  // Isolated entities only ever scored themselves
+  nodeIds.forEach(id => { if (neighbours.get(id)!.size === 0) scores.set(id, 0); });
+  return scores;
+}
+
+/**
+ * PageRank along relationship direction; undirected relationships pass
+ * rank both ways. Dangling entities spread their rank evenly.
+ */
+function pageRank(graph: CentralityGraph, damping = 0.85): Map<string, number> {
+  const { nodeIds } = graph;
+  const n = nodeIds.length;
+  const outgoing = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+  graph.edges.forEach(({ source, target, directed }) => {
+    outgoing.get(source)?.push(target);
+    if (!directed) outgoing.get(target)?.push(source);
+  });
+
+  let rank = new Map(nodeIds.map(id => [id, 1 / n]));
+  for (let iteration = 0; iteration < 100; iteration++) {
+    let dangling = 0;
+    nodeIds.forEach(id => { if (outgoing.get(id)!.length === 0) dangling += rank.get(id)!; });
+    const base = (1 - damping) / n + (damping * dangling) / n;
+    const next = new Map(nodeIds.map(id => [id, base]));
+    nodeIds.forEach(id => {
+      const targets = outgoing.get(id)!;
+      const share = (damping * rank.get(id)!) / (targets.length || 1);
+      targets.forEach(t => next.set(t, next.get(t)! + share));
+    });
+
+    let change = 0;
+    next.forEach((value, id) => { change += Math.abs(value - rank.get(id)!); });
+    rank = next;
+    if (change < 1e-8) break;
+  }
+  return rank;
+}
+
+/**
+ * Articulation points: entities whose removal leaves their group in more
+ * pieces. Returns how many pieces each one would leave. Iterative DFS so
+ * long chains don't overflow the stack.
+ */
+function findBrokers(nodeIds: string[], neighbours: Map<string, Set<string>>): Map<string, number> {
+  const discovery = new Map<string, number>();
+  const low = new Map<string, number>();
+  const pieces = new Map<string, number>();
+  let counter = 0;
+
+  for (const root of nodeIds) {
+    if (discovery.has(root)) continue;
+    discovery.set(root, counter);
+    low.set(root, counter);
+    counter++;
+    let rootChildren = 0;
+    const frames = [{ id: root, parent: null as string | null, iterator: neighbours.get(root)!.values() }];
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const step = frame.iterator.next();
+
+      if (!step.done) {
+        const w = step.value;
+        if (w === frame.parent) continue;
+        if (discovery.has(w)) {
+          low.set(frame.id, Math.min(low.get(frame.id)!, discovery.get(w)!));
+        } else {
+          discovery.set(w, counter);
+          low.set(w, counter);
+          counter++;
+          if (frame.id === root) rootChildren++;
+          frames.push({ id: w, parent: frame.id, iterator: neighbours.get(w)!.values() });
+        }
+        continue;
+      }
+
+      frames.pop();
+      const parent = frame.parent;
+      if (parent === null) continue;
+      low.set(parent, Math.min(low.get(parent)!, low.get(frame.id)!));
+      // Nothing below this child reaches above the parent: the parent cuts it off
+      if (parent !== root && low.get(frame.id)! >= discovery.get(parent)!) {
+        pieces.set(parent, (pieces.get(parent) || 1) + 1);
+      }
+    }
+
+    if (rootChildren > 1) pieces.set(root, rootChildren);
+  }
+
+  return pieces;
+}
+
+/**
+ * Score every entity in the graph. Runs synchronously; use
+ * computeCentralityInWorker from the UI.
+ */
+export function computeCentrality(graph: CentralityGraph): CentralityResult {
+  const { nodeIds } = graph;
+  const neighbours = buildNeighbours(graph);
+  const degree = degreeCentrality(nodeIds, neighbours);
+  const betweenness = betweennessCentrality(nodeIds, neighbours);
+  const closeness = closenessCentrality(nodeIds, neighbours);
+  const eigenvector = eigenvectorCentrality(nodeIds, neighbours);
+  const pagerank = pageRank(graph);
+  const brokers = findBrokers(nodeIds, neighbours);
+
+  const scores = nodeIds.map(id => ({
+    id,
+    degree: degree.get(id)!,
+    betweenness: betweenness.get(id)!,
+    closeness: closeness.get(id)!,
+    eigenvector: eigenvector.get(id)!,
+    pagerank: pagerank.get(id)!,
+    isBroker: brokers.has(id),
+    bridgedGroups: brokers.get(id) || 0,
+  }));
+  const brokerIds = Array.from(brokers.keys()).sort(
+    (a, b) => brokers.get(b)! - brokers.get(a)! || betweenness.get(b)! - betweenness.get(a)!
+  );
+  return { scores, brokerIds };
+}
+
+/**
+ * Score the network in a Web Worker so large networks don't block the UI.
+ */
+export function computeCentralityInWorker(graph: CentralityGraph): Promise<CentralityResult> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./centrality.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<CentralityResult>) => {
+      resolve(event.data);
+      worker.terminate();
+    };
+    worker.onerror = (event) => {
+      reject(new Error(event.message || 'Centrality analysis failed'));
+      worker.terminate();
+    };
+    worker.postMessage(graph);
+  });
+}
+
+/**
+ * Scale one metric to 0..1 across the network, for sizing nodes.
+ */
+export function scaleMetric(scores: CentralityScores[], metric: CentralityMetric): Record<string, number> {
+  const values = scores.map(s => s[metric]);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min;
+  return Object.fromEntries(scores.map(s => [s.id, range > 0 ? (s[metric] - min) / range : 0]));
+}
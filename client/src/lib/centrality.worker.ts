@@ -0,0 +1,12 @@
+/**
+ * Silent Partners - Centrality Worker
+ *
+ * Runs the centrality analysis off the main thread. Receives a
+ * CentralityGraph and posts back a CentralityResult.
+ */
+
+import { computeCentrality, CentralityGraph } from './centrality';
+
+self.onmessage = (event: MessageEvent<CentralityGraph>) => {
+  self.postMessage(computeCentrality(event.data));
+};
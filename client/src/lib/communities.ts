@@ -0,0 +1,297 @@
+/**
+ * Silent Partners - Community Detection
+ *
+ * Splits the network into communities of densely connected entities with
+ * the Louvain method: entities move to the neighbouring community that most
+ * improves modularity, communities are merged into single nodes, and the
+ * two steps repeat until nothing improves. Communities can be colored on
+ * the canvas and collapsed into one meta-node each; applyCollapsedClusters
+ * rewrites a network's entities and relationships for display with the
+ * collapsed clusters replaced.
+ */
+
+import type { Entity, EntityCluster, Network, NetworkClusters, Relationship } from './store';
+
+// Distinct hues that read on both light and dark canvases
+export const CLUSTER_COLORS = [
+  '#E6194B', '#3CB44B', '#4363D8', '#F58231', '#911EB4', '#42D4F4',
+  '#F032E6', '#9A6324', '#469990', '#808000', '#000075', '#DCBEFF',
+];
+
+export const CLUSTER_NODE_PREFIX = 'cluster:';
+
+export interface CommunityDetectionOptions {
+  resolution?: number; // Above 1 favours smaller communities
+}
+
+export interface CommunityDetectionResult {
+  communities: string[][]; // Entity IDs, largest community first
+  modularity: number;
+}
+
+// Weighted undirected graph over node indices
+interface WeightedGraph {
+  size: number;
+  adjacency: Array<Map<number, number>>; // Neighbour -> edge weight; self-loops hold internal weight
+}
+
+function totalWeight(graph: WeightedGraph): number {
+  let total = 0;
+  graph.adjacency.forEach((neighbours, i) => {
+    neighbours.forEach((weight, j) => { total += i === j ? 2 * weight : weight; });
+  });
+  return total / 2;
+}
+
+function nodeStrength(graph: WeightedGraph, i: number): number {
+  let strength = 0;
+  graph.adjacency[i].forEach((weight, j) => { strength += j === i ? 2 * weight : weight; });
+  return strength;
+}
+
+/**
+ * One Louvain pass: move nodes between communities until no single move
+ * improves modularity. Returns each node's community, renumbered from 0.
+ */
+function moveNodes(graph: WeightedGraph, resolution: number): number[] {
+  const m2 = 2 * totalWeight(graph);
+  const community = Array.from({ length: graph.size }, (_, i) => i);
+  const strengths = Array.from({ length: graph.size }, (_, i) => nodeStrength(graph, i));
+  const communityStrength = [...strengths];
+  if (m2 === 0) return community;
+
+  let moved = true;
+  while (moved) {
+    moved = false;
+    for (let i = 0; i < graph.size; i++) {
+      const current = community[i];
+      // Weight from i into each neighbouring community
+      const links = new Map<number, number>();
+      graph.adjacency[i].forEach((weight, j) => {
+        if (j !== i) links.set(community[j], (links.get(community[j]) || 0) + weight);
+      });
+
+      communityStrength[current] -= strengths[i];
+      let best = current;
+      let bestGain = (links.get(current) || 0) - (resolution * communityStrength[current] * strengths[i]) / m2;
+      links.forEach((weight, candidate) => {
+        const gain = weight - (resolution * communityStrength[candidate] * strengths[i]) / m2;
+        if (gain > bestGain + 1e-12) {
+          best = candidate;
+          bestGain = gain;
+        }
+      });
+      communityStrength[best] += strengths[i];
+
+      if (best !== current) {
+        community[i] = best;
+        moved = true;
+      }
+    }
+  }
+
+  const renumber = new Map<number, number>();
+  return community.map(c => {
+    if (!renumber.has(c)) renumber.set(c, renumber.size);
+    return renumber.get(c)!;
+  });
+}
+
+// Merge each community into a single node, summing the weights between them
+function aggregate(graph: WeightedGraph, community: number[]): WeightedGraph {
+  const size = Math.max(-1, ...community) + 1;
+  const adjacency = Array.from({ length: size }, () => new Map<number, number>());
+  graph.adjacency.forEach((neighbours, i) => {
+    neighbours.forEach((weight, j) => {
+      if (j < i) return; // Each undirected edge once
+      const a = community[i];
+      const b = community[j];
+      adjacency[a].set(b, (adjacency[a].get(b) || 0) + weight);
+      if (a !== b) adjacency[b].set(a, (adjacency[b].get(a) || 0) + weight);
+    });
+  });
+  return { size, adjacency };
+}
+
+function modularity(graph: WeightedGraph, community: number[], resolution: number): number {
+  const m2 = 2 * totalWeight(graph);
+  if (m2 === 0) return 0;
+  const internal = new Map<number, number>();
+  const strength = new Map<number, number>();
+  graph.adjacency.forEach((neighbours, i) => {
+    const c = community[i];
+    strength.set(c, (strength.get(c) || 0) + nodeStrength(graph, i));
+    neighbours.forEach((weight, j) => {
+      if (community[j] === c) internal.set(c, (internal.get(c) || 0) + (i === j ? 2 * weight : weight));
+    });
+  });
+  let q = 0;
+  strength.forEach((s, c) => {
+    q += (internal.get(c) || 0) / m2 - resolution * (s / m2) ** 2;
+  });
+  return q;
+}
+
+/**
+ * Louvain community detection over the network's relationships, ignoring
+ * direction. Parallel relationships add weight; entities with no
+ * relationships are left in communities of their own.
+ */
+export function detectCommunities(network: Network, options: CommunityDetectionOptions = {}): CommunityDetectionResult {
+  const { resolution = 1 } = options;
+  const ids = network.entities.map(e => e.id);
+  const index = new Map(ids.map((id, i) => [id, i]));
+
+  const base: WeightedGraph = { size: ids.length, adjacency: ids.map(() => new Map()) };
+  network.relationships.forEach(r => {
+    const a = index.get(r.source);
+    const b = index.get(r.target);
+    if (a === undefined || b === undefined || a === b) return;
+    base.adjacency[a].set(b, (base.adjacency[a].get(b) || 0) + 1);
+    base.adjacency[b].set(a, (base.adjacency[b].get(a) || 0) + 1);
+  });
+
+  // membership[i] is entity i's node in the current aggregated graph
+  let membership = ids.map((_, i) => i);
+  let graph = base;
+  for (let level = 0; level < 20; level++) {
+    const community = moveNodes(graph, resolution);
+    const merged = Math.max(-1, ...community) + 1;
+    membership = membership.map(node => community[node]);
+    if (merged === graph.size) break;
+    graph = aggregate(graph, community);
+  }
+
+  const groups = new Map<number, string[]>();
+  membership.forEach((c, i) => groups.set(c, [...(groups.get(c) || []), ids[i]]));
+  const communities = Array.from(groups.values()).sort((a, b) => b.length - a.length);
+
+  return { communities, modularity: modularity(base, membership, resolution) };
+}
+
+/**
+ * Turn detected communities into named, colored clusters. Single entities
+ * aren't clusters. Each cluster is named after its best-connected member.
+ */
+export function buildClusters(network: Network, communities: string[][]): EntityCluster[] {
+  const degree = new Map<string, number>();
+  network.relationships.forEach(r => {
+    degree.set(r.source, (degree.get(r.source) || 0) + 1);
+    degree.set(r.target, (degree.get(r.target) || 0) + 1);
+  });
+  const names = new Map(network.entities.map(e => [e.id, e.name]));
+
+  return communities
+    .filter(memberIds => memberIds.length > 1)
+    .map((memberIds, i) => {
+      const hub = memberIds.reduce((a, b) => ((degree.get(b) || 0) > (degree.get(a) || 0) ? b : a));
+      return {
+        id: `c${i + 1}`,
+        label: names.get(hub) || `Cluster ${i + 1}`,
+        color: CLUSTER_COLORS[i % CLUSTER_COLORS.length],
+        memberIds,
+      };
+    });
+}
+
+export function clusterNodeId(clusterId: string): string {
+  return `${CLUSTER_NODE_PREFIX}${clusterId}`;
+}
+
+export function isClusterNodeId(id: string): boolean {
+  return id.startsWith(CLUSTER_NODE_PREFIX);
+}
+
+/**
+ * The cluster each entity belongs to, for coloring.
+ */
+export function getClusterMembership(clusters: NetworkClusters | undefined): Map<string, EntityCluster> {
+  const membership = new Map<string, EntityCluster>();
+  clusters?.clusters.forEach(cluster => cluster.memberIds.forEach(id => membership.set(id, cluster)));
+  return membership;
+}
+
+export interface ClusterNode {
+  id: string;            // clusterNodeId(cluster.id)
+  cluster: EntityCluster;
+  memberIds: string[];   // Members still in the network
+}
+
+export interface CollapsedNetworkView {
+  entities: Entity[];            // Entities outside collapsed clusters
+  clusterNodes: ClusterNode[];   // One per collapsed cluster
+  relationships: Relationship[]; // Rewired onto cluster nodes
+  // Relationships drawn as one link to or between cluster nodes, by link ID
+  linkMembers: Map<string, string[]>;
+  // Which cluster node a hidden entity is inside
+  hiddenIn: Map<string, string>;
+}
+
+/**
+ * Rewrite entities and relationships for display with collapsed clusters
+ * replaced by one node each. Relationships inside a collapsed cluster are
+ * hidden; those crossing its edge are bundled into one link per pair of
+ * endpoints, labeled with the count when there are several.
+ */
+export function applyCollapsedClusters(
+  entities: Entity[],
+  relationships: Relationship[],
+  clusters: NetworkClusters | undefined
+): CollapsedNetworkView {
+  const entityIds = new Set(entities.map(e => e.id));
+  const collapsed = new Set(clusters?.collapsed || []);
+  const hiddenIn = new Map<string, string>();
+  const clusterNodes: ClusterNode[] = [];
+
+  clusters?.clusters.forEach(cluster => {
+    if (!collapsed.has(cluster.id)) return;
+    const memberIds = cluster.memberIds.filter(id => entityIds.has(id));
+    if (memberIds.length === 0) return;
+    const id = clusterNodeId(cluster.id);
+    memberIds.forEach(memberId => hiddenIn.set(memberId, id));
+    clusterNodes.push({ id, cluster, memberIds });
+  });
+
+  if (clusterNodes.length === 0) {
+    return { entities, clusterNodes, relationships, linkMembers: new Map(), hiddenIn };
+  }
+
+  const endpoint = (id: string) => hiddenIn.get(id) || id;
+  const kept: Relationship[] = [];
+  const bundles = new Map<string, Relationship[]>();
+  relationships.forEach(r => {
+    const source = endpoint(r.source);
+    const target = endpoint(r.target);
+    if (source === r.source && target === r.target) {
+      kept.push(r);
+    } else if (source !== target) {
+      const key = [source, target].sort().join('|');
+      bundles.set(key, [...(bundles.get(key) || []), { ...r, source, target }]);
+    }
+  });
+
+  const linkMembers = new Map<string, string[]>();
+  bundles.forEach((bundle, key) => {
+    const id = `cluster-link:${key}`;
+    linkMembers.set(id, bundle.map(r => r.id));
+    const first = bundle[0];
+    kept.push(bundle.length === 1
+      ? { ...first, id }
+      : {
+          id,
+          source: first.source,
+          target: first.target,
+          type: bundle.every(r => r.type === first.type) ? first.type : undefined,
+          label: `${bundle.length} links`,
+          status: bundle.every(r => r.status === first.status) ? first.status : undefined,
+        });
+  });
+
+  return {
+    entities: entities.filter(e => !hiddenIn.has(e.id)),
+    clusterNodes,
+    relationships: kept,
+    linkMembers,
+    hiddenIn,
+  };
+}
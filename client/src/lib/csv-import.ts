@@ -0,0 +1,318 @@
+/**
+ * Silent Partners - Spreadsheet Import
+ *
+ * Turns CSV and TSV exports (company lists, officer registers, transaction
+ * ledgers) into entities and relationships. Each column is given a role:
+ * a row can describe an entity (name, type, identifier, attributes), a
+ * relationship (source and target names, type, dates, ownership), or both,
+ * as in an officer register where the officer named on the row is the
+ * source of a link to the company in another column. Rows naming the same
+ * entity are combined according to a dedup strategy before the result goes
+ * to the network, where similar names are merged as for any other import.
+ */
+
+import { Entity, EntityAttribute, Network, Relationship, generateId } from './store';
+import { entityTypeIdFromLabel, getEntityTypes } from './entity-types';
+import { normalizeRelationship, relationshipTypeIdFromLabel } from './relationship-types';
+import { normalizeEntityName } from './entity-matching';
+
+// ============================================
+// Parsing
+// ============================================
+
+export type CsvDelimiter = ',' | '\t' | ';';
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+  delimiter: CsvDelimiter;
+}
+
+const DELIMITERS: CsvDelimiter[] = [',', '\t', ';'];
+
+/**
+ * The delimiter used most in the first line, outside quotes.
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const counts = new Map<CsvDelimiter, number>(DELIMITERS.map(d => [d, 0]));
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === '\n' || char === '\r')) break;
+    else if (!quoted && counts.has(char as CsvDelimiter)) counts.set(char as CsvDelimiter, counts.get(char as CsvDelimiter)! + 1);
+  }
+  return DELIMITERS.reduce((best, d) => (counts.get(d)! > counts.get(best)! ? d : best), ',');
+}
+
+/**
+ * Parse delimited text with a header row. Quoted fields may contain
+ * delimiters, newlines and doubled quotes. Blank lines are skipped and
+ * short rows padded to the header's width.
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter = detectDelimiter(text)): CsvTable {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.some(value => value.trim() !== '')) records.push(record);
+    record = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) endRecord();
+
+  const [headerRow = [], ...rows] = records;
+  const headers = headerRow.map((h, i) => h.trim() || `Column ${i + 1}`);
+  return {
+    headers,
+    rows: rows.map(row => headers.map((_, i) => (row[i] ?? '').trim())),
+    delimiter,
+  };
+}
+
+// ============================================
+// Column roles
+// ============================================
+
+export type CsvColumnRole =
+  | 'name' | 'type' | 'description' | 'identifier' | 'attribute'
+  | 'source' | 'target' | 'relationshipType' | 'label' | 'startDate' | 'endDate' | 'ownership'
+  | 'ignore';
+
+export const CSV_COLUMN_ROLES: Array<{ id: CsvColumnRole; label: string; group: 'Entity' | 'Relationship' | 'Other' }> = [
+  { id: 'name', label: 'Entity name', group: 'Entity' },
+  { id: 'type', label: 'Entity type', group: 'Entity' },
+  { id: 'description', label: 'Description', group: 'Entity' },
+  { id: 'identifier', label: 'Identifier', group: 'Entity' },
+  { id: 'attribute', label: 'Attribute', group: 'Entity' },
+  { id: 'source', label: 'Source name', group: 'Relationship' },
+  { id: 'target', label: 'Target name', group: 'Relationship' },
+  { id: 'relationshipType', label: 'Relationship type', group: 'Relationship' },
+  { id: 'label', label: 'Label', group: 'Relationship' },
+  { id: 'startDate', label: 'Start date', group: 'Relationship' },
+  { id: 'endDate', label: 'End date', group: 'Relationship' },
+  { id: 'ownership', label: 'Ownership %', group: 'Relationship' },
+  { id: 'ignore', label: 'Ignore', group: 'Other' },
+];
+
+// Header patterns for each role, tried in order
+const ROLE_PATTERNS: Array<[CsvColumnRole, RegExp]> = [
+  ['source', /^(source|from|payer|sender|shareholder|owner)( name| entity)?$/],
+  ['target', /^(target|to|payee|recipient|beneficiary)( name| entity)?$/],
+  ['identifier', /^(id|identifier)$|\b(number|no|registration|reg)$/],
+  ['name', /^(name|entity|full name|(company|organi[sz]ation|person|officer) name)$/],
+  ['type', /^(type|entity type|kind|category)$/],
+  ['description', /^(description|notes?|summary|details)$/],
+  ['relationshipType', /^(relationship|relationship type|relation|role|position|link type)$/],
+  ['ownership', /(ownership|percent|stake|%)/],
+  ['startDate', /(start|appointed|since|began|from date|^date$)/],
+  ['endDate', /(end|resigned|ceased|until|to date)/],
+  ['label', /^(label|amount|value)$/],
+];
+
+/**
+ * Guess each column's role from its header. Each role other than
+ * attributes is given to one column at most; a second name column is
+ * taken as the target, as in officer registers. Other columns become
+ * attributes of the row's entity, or are ignored when rows don't name one.
+ */
+export function suggestCsvRoles(headers: string[]): CsvColumnRole[] {
+  const used = new Set<CsvColumnRole>();
+  const roles = headers.map(header => {
+    const normalized = header.trim().toLowerCase().replace(/[_\s]+/g, ' ');
+    const match = ROLE_PATTERNS.find(([role, pattern]) => (!used.has(role) || role === 'name') && pattern.test(normalized));
+    if (!match) return null;
+    const role = match[0] === 'name' && used.has('name') ? 'target' : match[0];
+    if (used.has(role)) return null;
+    used.add(role);
+    return role;
+  });
+  const fallback: CsvColumnRole = used.has('name') ? 'attribute' : 'ignore';
+  return roles.map(role => role ?? fallback);
+}
+
+// ============================================
+// Building the import
+// ============================================
+
+// How rows naming the same entity are combined before import
+export type CsvDedupStrategy = 'exact' | 'normalized' | 'identifier';
+
+export const CSV_DEDUP_STRATEGIES: Array<{ id: CsvDedupStrategy; label: string; description: string }> = [
+  { id: 'exact', label: 'Same name', description: 'Rows whose names match, ignoring case and spacing, are one entity.' },
+  { id: 'normalized', label: 'Same name, ignoring suffixes', description: 'Also treats "Acme Ltd" and "Acme, Inc." as one entity.' },
+  { id: 'identifier', label: 'Same identifier', description: 'Rows with the same identifier (e.g. company number) are one entity, whatever their names.' },
+];
+
+export interface CsvImportOptions {
+  roles: CsvColumnRole[];
+  entityType: string;       // For named entities without a type
+  sourceType: string;       // For entities created from source names
+  targetType: string;       // For entities created from target names
+  relationshipType: string; // For relationships without a type; may be empty
+  dedup: CsvDedupStrategy;
+  fileName: string;         // Recorded as the source of attributes
+}
+
+export interface CsvImportResult {
+  entities: Entity[];
+  relationships: Relationship[];
+  skippedRows: number[]; // 1-based line numbers of rows that gave nothing
+}
+
+function parseOwnershipPercentage(value: string): number | undefined {
+  const percentage = parseFloat(value.replace('%', ''));
+  return Number.isFinite(percentage) && percentage >= 0 && percentage <= 100 ? percentage : undefined;
+}
+
+// Keep dates as entered, but drop the time from ISO timestamps
+function cleanDate(value: string): string | undefined {
+  if (!value) return undefined;
+  return /^\d{4}-\d{2}-\d{2}T/.test(value) ? value.slice(0, 10) : value;
+}
+
+/**
+ * Entities and relationships from the table. Relationship types are
+ * matched against the network's vocabulary.
+ */
+export function buildCsvImport(
+  table: CsvTable,
+  options: CsvImportOptions,
+  network: Pick<Network, 'entityTypes' | 'relationshipTypes'>
+): CsvImportResult {
+  const { roles } = options;
+  const entityTypes = getEntityTypes(network.entityTypes);
+  const columnsWith = (role: CsvColumnRole) => roles.flatMap((r, i) => (r === role ? [i] : []));
+  const first = (row: string[], role: CsvColumnRole) => columnsWith(role).map(i => row[i]).find(v => v) || '';
+
+  const resolveType = (value: string, fallback: string) => {
+    if (!value) return fallback;
+    const id = entityTypeIdFromLabel(value);
+    const match = entityTypes.find(t => t.id === id || t.label.toLowerCase() === value.toLowerCase());
+    return match?.id ?? fallback;
+  };
+
+  const now = new Date().toISOString();
+  const byKey = new Map<string, Entity>();
+  const entities: Entity[] = [];
+
+  const keyOf = (name: string, identifier: string) => {
+    if (options.dedup === 'identifier' && identifier) return `id:${identifier.toLowerCase()}`;
+    if (options.dedup === 'normalized') return `name:${normalizeEntityName(name)}`;
+    return `name:${name.toLowerCase().replace(/\s+/g, ' ')}`;
+  };
+
+  // The entity for a name, adding it or filling in what earlier rows left out
+  const upsert = (name: string, type: string, details: { identifier?: string; description?: string; attributes?: EntityAttribute[] } = {}) => {
+    const key = keyOf(name, details.identifier || '');
+    const existing = byKey.get(key);
+    if (existing) {
+      if (existing.type === 'unknown' && type !== 'unknown') existing.type = type;
+      if (!existing.description && details.description) existing.description = details.description;
+      (details.attributes || []).forEach(attribute => {
+        const attributes = existing.attributes || (existing.attributes = []);
+        if (!attributes.some(a => a.key === attribute.key && a.value === attribute.value)) attributes.push(attribute);
+      });
+      return existing;
+    }
+    const entity: Entity = {
+      id: generateId(),
+      name,
+      type,
+      description: details.description || undefined,
+      attributes: details.attributes?.length ? details.attributes : undefined,
+      source_type: 'document',
+      created_at: now,
+    };
+    byKey.set(key, entity);
+    // Under the identifier strategy, relationship ends given by name find it too
+    if (options.dedup === 'identifier' && details.identifier) byKey.set(keyOf(name, ''), entity);
+    entities.push(entity);
+    return entity;
+  };
+
+  const attribute = (key: string, value: string): EntityAttribute => ({
+    id: generateId(),
+    key,
+    value,
+    confidence: 0.8,
+    source: options.fileName,
+  });
+
+  const relationships: Relationship[] = [];
+  const skippedRows: number[] = [];
+
+  table.rows.forEach((row, index) => {
+    const name = first(row, 'name');
+    const identifier = first(row, 'identifier');
+    const rowEntity = name
+      ? upsert(name, resolveType(first(row, 'type'), options.entityType), {
+        identifier,
+        description: first(row, 'description'),
+        attributes: [
+          ...columnsWith('identifier').filter(i => row[i]).map(i => attribute(table.headers[i], row[i])),
+          ...columnsWith('attribute').filter(i => row[i]).map(i => attribute(table.headers[i], row[i])),
+        ],
+      })
+      : null;
+
+    // A row naming an entity and a target links them
+    const sourceName = first(row, 'source');
+    const targetName = first(row, 'target');
+    const source = sourceName ? upsert(sourceName, options.sourceType) : rowEntity;
+    const target = targetName ? upsert(targetName, options.targetType) : null;
+
+    if (source && target && source !== target) {
+      const phrase = first(row, 'relationshipType') || options.relationshipType;
+      const label = first(row, 'label');
+      const percentage = parseOwnershipPercentage(first(row, 'ownership'));
+      const relationship = normalizeRelationship(network.relationshipTypes, {
+        id: generateId(),
+        source: source.id,
+        target: target.id,
+        type: phrase || undefined,
+        label: label || undefined,
+        startDate: cleanDate(first(row, 'startDate')),
+        endDate: cleanDate(first(row, 'endDate')),
+        ownership: percentage !== undefined ? { percentage } : undefined,
+      });
+      // Phrases outside the vocabulary become types of their own
+      if (phrase && relationship.type === phrase) {
+        relationship.type = relationshipTypeIdFromLabel(phrase);
+        relationship.label = label || phrase;
+      }
+      relationships.push(relationship);
+    } else if (!rowEntity) {
+      skippedRows.push(index + 2);
+    }
+  });
+
+  return { entities, relationships, skippedRows };
+}
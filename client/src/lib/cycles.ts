@@ -0,0 +1,231 @@
+/**
+ * Silent Partners - Circular Structure Detection
+ *
+ * Finds loops in the flow of ownership, control and money: a company that
+ * ends up owning itself through a chain of holdings, or funds that leave an
+ * entity and come back to it. The network is reduced to its ownership,
+ * control and financial links, split into strongly connected components
+ * (Tarjan), and the simple cycles inside each component are listed as
+ * findings.
+ */
+
+import type { Network, Relationship } from './store';
+import { isOwnershipRelationship } from './ownership';
+
+// Types whose direction carries ownership or control
+export const CONTROL_CYCLE_TYPES = ['owns', 'controls', 'subsidiary_of'];
+// Types whose direction carries money
+export const FINANCIAL_CYCLE_TYPES = ['paid', 'lent_to', 'invested_in'];
+
+export type CycleKind = 'ownership' | 'financial' | 'mixed';
+
+// One directed step of control or money, read off a relationship
+export interface FlowLink {
+  relationshipId: string;
+  fromId: string;
+  toId: string;
+  financial: boolean;
+}
+
+export interface CycleFinding {
+  id: string;
+  kind: CycleKind;
+  entityIds: string[];       // In order around the loop, starting entity first
+  relationshipIds: string[]; // relationshipIds[i] joins entityIds[i] to the next
+  description: string;       // "A → B → C → A"
+}
+
+export interface CycleAnalysis {
+  components: string[][];    // Strongly connected components with a loop in them
+  cycles: CycleFinding[];
+  truncated: boolean;        // More cycles exist than were listed
+}
+
+export interface CycleAnalysisOptions {
+  maxCycles?: number;  // Stop listing after this many
+  maxLength?: number;  // Longest loop to follow
+}
+
+export const CYCLE_KIND_LABELS: Record<CycleKind, string> = {
+  ownership: 'Circular ownership',
+  financial: 'Round-tripped funds',
+  mixed: 'Control and money loop',
+};
+
+/**
+ * Whether a relationship belongs in the cycle analysis.
+ */
+export function isCycleRelationship(relationship: Relationship): boolean {
+  if (relationship.status === 'former') return false;
+  const type = relationship.type || '';
+  return isOwnershipRelationship(relationship)
+    || CONTROL_CYCLE_TYPES.includes(type)
+    || FINANCIAL_CYCLE_TYPES.includes(type);
+}
+
+/**
+ * The network's ownership, control and financial links, oriented in the
+ * direction control or money flows. "A subsidiary of B" is a link from B
+ * to A.
+ */
+export function getFlowLinks(network: Network): FlowLink[] {
+  return network.relationships
+    .filter(isCycleRelationship)
+    .map(r => {
+      const reversed = r.type === 'subsidiary_of';
+      return {
+        relationshipId: r.id,
+        fromId: reversed ? r.target : r.source,
+        toId: reversed ? r.source : r.target,
+        financial: FINANCIAL_CYCLE_TYPES.includes(r.type || '') && !r.ownership,
+      };
+    });
+}
+
+/**
+ * Tarjan's strongly connected components, iterative so deep chains don't
+ * overflow the stack. Every node is in exactly one component.
+ */
+export function findStronglyConnectedComponents(nodeIds: string[], links: FlowLink[]): string[][] {
+  const adjacency = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+  links.forEach(link => adjacency.get(link.fromId)?.push(link.toId));
+
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  for (const root of nodeIds) {
+    if (index.has(root)) continue;
+    // Each frame is a node and how far through its neighbours we are
+    const frames: Array<{ id: string; next: number }> = [{ id: root, next: 0 }];
+    index.set(root, counter);
+    lowLink.set(root, counter);
+    counter++;
+    stack.push(root);
+    onStack.add(root);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const neighbours = adjacency.get(frame.id) || [];
+
+      if (frame.next < neighbours.length) {
+        const neighbour = neighbours[frame.next++];
+        if (!adjacency.has(neighbour)) continue;
+        if (!index.has(neighbour)) {
+          index.set(neighbour, counter);
+          lowLink.set(neighbour, counter);
+          counter++;
+          stack.push(neighbour);
+          onStack.add(neighbour);
+          frames.push({ id: neighbour, next: 0 });
+        } else if (onStack.has(neighbour)) {
+          lowLink.set(frame.id, Math.min(lowLink.get(frame.id)!, index.get(neighbour)!));
+        }
+        continue;
+      }
+
+      frames.pop();
+      if (frames.length > 0) {
+        const parent = frames[frames.length - 1].id;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.id)!));
+      }
+      if (lowLink.get(frame.id) === index.get(frame.id)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.id);
+        components.push(component);
+      }
+    }
+  }
+
+  return components;
+}
+
+function cycleKind(links: FlowLink[]): CycleKind {
+  if (links.every(l => l.financial)) return 'financial';
+  if (links.every(l => !l.financial)) return 'ownership';
+  return 'mixed';
+}
+
+/**
+ * Find the strongly connected components and simple cycles in the network's
+ * ownership, control and financial links. Each cycle is listed once,
+ * starting from its earliest entity in the network; parallel relationships
+ * between the same entities make separate cycles.
+ */
+export function findCycles(network: Network, options: CycleAnalysisOptions = {}): CycleAnalysis {
+  const { maxCycles = 100, maxLength = 12 } = options;
+  const links = getFlowLinks(network);
+  const nodeIds = network.entities.map(e => e.id);
+  const order = new Map(nodeIds.map((id, i) => [id, i]));
+  const names = new Map(network.entities.map(e => [e.id, e.name]));
+
+  // A component only loops if it has several members or a self-link
+  const components = findStronglyConnectedComponents(nodeIds, links).filter(component =>
+    component.length > 1 || links.some(l => l.fromId === component[0] && l.toId === component[0])
+  );
+
+  const cycles: CycleFinding[] = [];
+  let truncated = false;
+
+  for (const component of components) {
+    if (truncated) break;
+    const members = new Set(component);
+    const outgoing = new Map<string, FlowLink[]>();
+    links
+      .filter(l => members.has(l.fromId) && members.has(l.toId))
+      .forEach(l => outgoing.set(l.fromId, [...(outgoing.get(l.fromId) || []), l]));
+
+    const sorted = [...component].sort((a, b) => order.get(a)! - order.get(b)!);
+    for (const start of sorted) {
+      if (truncated) break;
+      const startOrder = order.get(start)!;
+
+      // Only visit entities later than the start, so each loop is found once
+      const walk = (entityId: string, path: string[], pathLinks: FlowLink[]) => {
+        for (const link of outgoing.get(entityId) || []) {
+          if (cycles.length >= maxCycles) {
+            truncated = true;
+            return;
+          }
+          if (link.toId === start) {
+            const loop = [...pathLinks, link];
+            cycles.push({
+              id: '',
+              kind: cycleKind(loop),
+              entityIds: path,
+              relationshipIds: loop.map(l => l.relationshipId),
+              description: [...path, start].map(id => names.get(id) || id).join(' → '),
+            });
+          } else if (
+            order.get(link.toId)! > startOrder &&
+            !path.includes(link.toId) &&
+            path.length < maxLength
+          ) {
+            walk(link.toId, [...path, link.toId], [...pathLinks, link]);
+          }
+        }
+      };
+      walk(start, [start], []);
+    }
+  }
+
+  // Shortest loops first: they are the easiest to read and verify
+  cycles.sort((a, b) => a.entityIds.length - b.entityIds.length);
+  cycles.forEach((cycle, i) => { cycle.id = `cycle-${i + 1}`; });
+  return { components, cycles, truncated };
+}
+
+/**
+ * One line per finding for reports: "Circular ownership: A → B → A".
+ */
+export function formatCycleFinding(finding: CycleFinding): string {
+  return `${CYCLE_KIND_LABELS[finding.kind]}: ${finding.description}`;
+}
@@ -0,0 +1,649 @@
+/**
+ * Silent Partners - Dossier
+ *
+ * A report on an investigation, in place of the memo written by hand at
+ * the end: the network artwork, the investigation context (topic, key
+ * questions, findings, red flags, hypotheses), a profile of each entity
+ * with its facts, a table of relationships, and a numbered list of the
+ * sources everything is cited to. Sources come from the text and search
+ * queries entities were extracted from, the sources of their facts, and
+ * the evidence behind confirmed claims. The report is written as
+ * standalone HTML, Markdown, or a print-ready PDF.
+ */
+
+import type { Claim, Evidence } from './claims-api';
+import { Entity, Network, splitSourceSnippets } from './store';
+import { getEntityTypeDefinition } from './entity-types';
+import { getRelationshipTypeDefinition } from './relationship-types';
+import { normalizeEntityName } from './entity-matching';
+import { formatPercentage } from './ownership';
+import {
+  PDF_PAPERS, PdfPaper, VectorFont, VectorScene, VectorShape,
+  cssFont, loadSceneFonts, measureText, pagesToPdf, wrapText,
+} from './vector-export';
+
+export type DossierFormat = 'html' | 'markdown' | 'pdf';
+
+export type DossierSection = 'graph' | 'context' | 'entities' | 'relationships' | 'sources';
+
+export const DOSSIER_SECTIONS: Array<{ id: DossierSection; label: string }> = [
+  { id: 'graph', label: 'Network graph' },
+  { id: 'context', label: 'Investigation context' },
+  { id: 'entities', label: 'Entity profiles' },
+  { id: 'relationships', label: 'Relationship table' },
+  { id: 'sources', label: 'Sources and citations' },
+];
+
+export type DossierSections = Record<DossierSection, boolean>;
+
+// A confirmed claim with the evidence the backend holds for it
+export type ClaimWithEvidence = Claim & { evidence: Evidence[] };
+
+export interface DossierSource {
+  number: number;
+  title: string;
+  url?: string;
+  excerpts: string[];
+}
+
+export interface DossierFact {
+  label: string;
+  value: string;
+  detail?: string;     // Date observed and confidence
+  citations: number[];
+}
+
+export interface DossierEntity {
+  id: string;
+  name: string;
+  typeLabel: string;
+  description?: string;
+  aliases: string[];
+  facts: DossierFact[];
+  connections: number;
+  citations: number[];
+}
+
+export interface DossierRelationship {
+  id: string;
+  from: string;
+  label: string;
+  to: string;
+  detail: string;      // Status, dates and ownership stake
+  citations: number[];
+}
+
+export interface DossierContext {
+  topic: string;
+  domain: string;
+  focus: string;
+  keyQuestions: string[];
+  keyFindings: string[];
+  redFlags: Array<{ description: string; severity: string; entities: string[] }>;
+  hypotheses: Array<{ hypothesis: string; status: string }>;
+}
+
+export interface Dossier {
+  title: string;
+  description: string;
+  generatedAt: string; // ISO date
+  context: DossierContext | null;
+  entities: DossierEntity[];
+  relationships: DossierRelationship[];
+  sources: DossierSource[];
+}
+
+// Excerpts quoted under each source before the rest are left out
+const MAX_EXCERPTS = 3;
+const MAX_EXCERPT_LENGTH = 400;
+
+// ============================================
+// Building
+// ============================================
+
+function truncate(text: string, length: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > length ? `${flat.slice(0, length - 1).trimEnd()}…` : flat;
+}
+
+// Only web addresses become links; anything else (javascript:, data:) is shown as text
+const isWebUrl = (url: string | undefined): url is string => !!url && /^https?:\/\//i.test(url.trim());
+
+// Search queries are sometimes the URL of the page the entity came from
+function querySource(query: string): Omit<DossierSource, 'number' | 'excerpts'> {
+  return isWebUrl(query) ? { title: query, url: query } : { title: `Search: ${query}` };
+}
+
+function buildContext(network: Network): DossierContext | null {
+  const context = network.investigationContext;
+  if (!context) return null;
+  const byId = new Map(network.entities.map(e => [e.id, e.name]));
+  const built: DossierContext = {
+    topic: context.topic?.trim() || '',
+    domain: context.domain?.trim() || '',
+    focus: context.focus?.trim() || '',
+    keyQuestions: (context.keyQuestions || []).filter(q => q.trim()),
+    keyFindings: (context.key_findings || []).filter(f => f.trim()),
+    redFlags: (context.red_flags || []).map(flag => ({
+      description: flag.description,
+      severity: flag.severity,
+      entities: (flag.entities_involved || []).map(id => byId.get(id) || id),
+    })),
+    hypotheses: context.hypotheses || [],
+  };
+  const empty = !built.topic && !built.domain && !built.focus && built.keyQuestions.length === 0
+    && built.keyFindings.length === 0 && built.redFlags.length === 0 && built.hypotheses.length === 0;
+  return empty ? null : built;
+}
+
+/**
+ * Assemble the dossier for a network. Sources are numbered in the order
+ * the report first cites them; claim evidence is cited on the
+ * relationship between the claim's subject and object, or else on the
+ * subject's profile.
+ */
+export function buildDossier(network: Network, claims: ClaimWithEvidence[] = []): Dossier {
+  const sources = new Map<string, DossierSource>();
+  const cite = (key: string, make: () => Omit<DossierSource, 'number' | 'excerpts'>, excerpt?: string): number => {
+    let source = sources.get(key);
+    if (!source) {
+      source = { ...make(), number: sources.size + 1, excerpts: [] };
+      sources.set(key, source);
+    }
+    const quoted = excerpt && truncate(excerpt, MAX_EXCERPT_LENGTH);
+    if (quoted && !source.excerpts.includes(quoted) && source.excerpts.length < MAX_EXCERPTS) source.excerpts.push(quoted);
+    return source.number;
+  };
+  const unique = (numbers: number[]) => Array.from(new Set(numbers)).sort((a, b) => a - b);
+
+  // Entities by normalized name, for matching claims made about them
+  const byName = new Map<string, Entity>();
+  network.entities.forEach(entity => {
+    [entity.name, ...(entity.aliases || [])].forEach(name => {
+      const key = normalizeEntityName(name);
+      if (!byName.has(key)) byName.set(key, entity);
+    });
+  });
+  const relationshipClaims = new Map<string, ClaimWithEvidence[]>();
+  const entityClaims = new Map<string, ClaimWithEvidence[]>();
+  const unmatchedClaims: ClaimWithEvidence[] = [];
+  claims.forEach(claim => {
+    const subject = byName.get(normalizeEntityName(claim.subject_name));
+    const object = byName.get(normalizeEntityName(claim.object_name));
+    const relationship = subject && object && network.relationships.find(r =>
+      (r.source === subject.id && r.target === object.id) || (r.source === object.id && r.target === subject.id));
+    const [map, key] = relationship ? [relationshipClaims, relationship.id] : subject ? [entityClaims, subject.id] : [null, ''];
+    if (!map) {
+      unmatchedClaims.push(claim);
+      return;
+    }
+    map.set(key, [...(map.get(key) || []), claim]);
+  });
+  const citeClaims = (list: ClaimWithEvidence[] = []) => list.flatMap(claim => claim.evidence.map(evidence => cite(
+    `evidence:${evidence.source_id}`,
+    () => ({ title: evidence.source_title || evidence.source_url || `Source ${evidence.source_id}`, url: isWebUrl(evidence.source_url) ? evidence.source_url.trim() : undefined }),
+    evidence.excerpt
+  )));
+
+  const degree = new Map<string, number>();
+  network.relationships.forEach(r => {
+    degree.set(r.source, (degree.get(r.source) || 0) + 1);
+    degree.set(r.target, (degree.get(r.target) || 0) + 1);
+  });
+
+  // Best-connected entities first
+  const entities: DossierEntity[] = network.entities
+    .slice()
+    .sort((a, b) => (degree.get(b.id) || 0) - (degree.get(a.id) || 0) || a.name.localeCompare(b.name))
+    .map(entity => {
+      const query = entity.source_query?.trim();
+      const snippets = splitSourceSnippets(entity.source_text);
+      const extracted = snippets.length > 0
+        ? snippets.map(snippet => cite(
+          query ? `query:${query}` : `text:${snippet}`,
+          () => (query ? querySource(query) : { title: `Extract on ${entity.name}` }),
+          snippet
+        ))
+        : query ? [cite(`query:${query}`, () => querySource(query))] : [];
+
+      const facts = (entity.attributes || []).map(attribute => {
+        const detail = [
+          attribute.observedAt && `observed ${attribute.observedAt}`,
+          attribute.confidence < 1 && `${Math.round(attribute.confidence * 100)}% confidence`,
+        ].filter(Boolean).join(', ');
+        return {
+          label: attribute.key,
+          value: attribute.value,
+          detail: detail || undefined,
+          citations: attribute.source ? [cite(`attribute:${attribute.source}`, () => ({ title: attribute.source! }))] : [],
+        };
+      });
+
+      return {
+        id: entity.id,
+        name: entity.name,
+        typeLabel: getEntityTypeDefinition(network.entityTypes, entity.type).label,
+        description: entity.description?.trim() || undefined,
+        aliases: entity.aliases || [],
+        facts,
+        connections: degree.get(entity.id) || 0,
+        citations: unique([...extracted, ...citeClaims(entityClaims.get(entity.id))]),
+      };
+    });
+
+  const names = new Map(network.entities.map(e => [e.id, e.name]));
+  const relationships: DossierRelationship[] = network.relationships
+    .filter(r => names.has(r.source) && names.has(r.target))
+    .map(r => {
+      const definition = getRelationshipTypeDefinition(network.relationshipTypes, r.type);
+      const period = r.startDate || r.endDate ? `${r.startDate || '?'} – ${r.endDate || 'present'}` : '';
+      const stake = r.ownership ? `${formatPercentage(r.ownership.percentage)}${r.ownership.shareClass ? ` ${r.ownership.shareClass}` : ''}` : '';
+      return {
+        id: r.id,
+        from: names.get(r.source)!,
+        label: r.label || definition?.label || r.type?.replace(/_/g, ' ') || 'connected to',
+        to: names.get(r.target)!,
+        detail: [r.status && r.status !== 'confirmed' ? r.status : '', period, stake].filter(Boolean).join('; '),
+        citations: unique(citeClaims(relationshipClaims.get(r.id))),
+      };
+    })
+    .sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+
+  // Evidence for claims about no entity on the graph is still listed
+  citeClaims(unmatchedClaims);
+
+  return {
+    title: network.title || 'Untitled investigation',
+    description: network.description || '',
+    generatedAt: new Date().toISOString().slice(0, 10),
+    context: buildContext(network),
+    entities,
+    relationships,
+    sources: Array.from(sources.values()),
+  };
+}
+
+// ============================================
+// Markdown
+// ============================================
+
+function citationMark(citations: number[], sections: DossierSections): string {
+  return sections.sources && citations.length > 0 ? ` [${citations.join(', ')}]` : '';
+}
+
+// Investigation text is literal, so HTML and Markdown syntax in it is escaped
+function markdownText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    .replace(/[\\`*_{}[\]()#+\-.!|~]/g, '\\$&');
+}
+
+function markdownCell(text: string): string {
+  return markdownText(text).replace(/\s*\n\s*/g, ' ');
+}
+
+// Link destination in angle brackets, which can't hold brackets or whitespace
+function markdownUrl(url: string): string {
+  return `<${url.replace(/[<>\s]/g, c => encodeURIComponent(c))}>`;
+}
+
+/**
+ * The dossier as Markdown; the graph, when given, is a PNG data URL.
+ */
+export function dossierToMarkdown(dossier: Dossier, sections: DossierSections, graphImage?: string): string {
+  const lines: string[] = [`# ${markdownText(dossier.title)}`, ''];
+  if (dossier.description) lines.push(markdownText(dossier.description), '');
+  lines.push(`*Dossier generated ${dossier.generatedAt}. ${dossier.entities.length} entities, ${dossier.relationships.length} relationships.*`, '');
+
+  if (sections.graph && graphImage) lines.push('## Network', '', `![Network graph](${markdownUrl(graphImage)})`, '');
+
+  const context = dossier.context;
+  if (sections.context && context) {
+    lines.push('## Investigation context', '');
+    if (context.topic) lines.push(`**Topic:** ${markdownText(context.topic)}  `);
+    if (context.domain) lines.push(`**Domain:** ${markdownText(context.domain)}  `);
+    if (context.focus) lines.push(`**Focus:** ${markdownText(context.focus)}  `);
+    lines.push('');
+    const list = (heading: string, items: string[]) => {
+      if (items.length > 0) lines.push(`### ${heading}`, '', ...items.map(item => `- ${markdownText(item)}`), '');
+    };
+    list('Key questions', context.keyQuestions.map(markdownText));
+    list('Key findings', context.keyFindings.map(markdownText));
+    list('Red flags', context.redFlags.map(flag =>
+      `**${markdownText(flag.severity)}:** ${markdownText(flag.description)}`
+      + (flag.entities.length > 0 ? ` (${markdownText(flag.entities.join(', '))})` : '')));
+    list('Hypotheses', context.hypotheses.map(h => `${markdownText(h.hypothesis)} *(${markdownText(h.status)})*`));
+  }
+
+  if (sections.entities && dossier.entities.length > 0) {
+    lines.push('## Entities', '');
+    dossier.entities.forEach(entity => {
+      lines.push(`### ${markdownText(entity.name)}${citationMark(entity.citations, sections)}`, '');
+      lines.push(`*${markdownText(entity.typeLabel)}, ${entity.connections} ${entity.connections === 1 ? 'connection' : 'connections'}*`, '');
+      if (entity.description) lines.push(markdownText(entity.description), '');
+      if (entity.aliases.length > 0) lines.push(`Also known as: ${markdownText(entity.aliases.join(', '))}`, '');
+      if (entity.facts.length > 0) {
+        lines.push(...entity.facts.map(fact =>
+          `- **${markdownText(fact.label)}:** ${markdownText(fact.value)}${fact.detail ? ` *(${markdownText(fact.detail)})*` : ''}${citationMark(fact.citations, sections)}`), '');
+      }
+    });
+  }
+
+  if (sections.relationships && dossier.relationships.length > 0) {
+    lines.push('## Relationships', '');
+    const withSources = sections.sources;
+    lines.push(
+      `| From | Relationship | To | Details |${withSources ? ' Sources |' : ''}`,
+      `| --- | --- | --- | --- |${withSources ? ' --- |' : ''}`,
+      ...dossier.relationships.map(r =>
+        `| ${markdownCell(r.from)} | ${markdownCell(r.label)} | ${markdownCell(r.to)} | ${markdownCell(r.detail)} |`
+        + (withSources ? ` ${r.citations.join(', ')} |` : '')),
+      ''
+    );
+  }
+
+  if (sections.sources && dossier.sources.length > 0) {
+    lines.push('## Sources', '');
+    dossier.sources.forEach(source => {
+      const title = isWebUrl(source.url) ? `[${markdownText(source.title)}](${markdownUrl(source.url)})` : markdownText(source.title);
+      lines.push(`${source.number}. ${title}`);
+      source.excerpts.forEach(excerpt => lines.push(`   > ${markdownCell(excerpt)}`));
+    });
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================
+// HTML
+// ============================================
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const HTML_STYLE = `
+  body { font-family: 'Source Sans 3', 'Helvetica Neue', Arial, sans-serif; color: #222; max-width: 50rem; margin: 2rem auto; padding: 0 1.5rem; line-height: 1.5; }
+  h1, h2, h3 { font-family: 'Source Serif 4', Georgia, serif; line-height: 1.25; }
+  h2 { border-bottom: 1px solid #ccc; padding-bottom: 0.2em; margin-top: 2em; }
+  .meta, .type { color: #666; font-size: 0.9em; }
+  .graph svg { width: 100%; height: auto; border: 1px solid #ddd; }
+  sup a { text-decoration: none; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9em; }
+  th, td { border-bottom: 1px solid #ddd; padding: 0.35em 0.5em; text-align: left; vertical-align: top; }
+  blockquote { margin: 0.25em 0 0.5em 1em; padding-left: 0.75em; border-left: 3px solid #ddd; color: #555; font-size: 0.9em; }
+  .entity { break-inside: avoid; }
+  @media print { body { margin: 0; max-width: none; } h2 { break-after: avoid; } a { color: inherit; } }
+`;
+
+/**
+ * The dossier as a standalone HTML page; the graph, when given, is SVG
+ * markup to inline.
+ */
+export function dossierToHtml(dossier: Dossier, sections: DossierSections, graphSvg?: string): string {
+  const cites = (citations: number[]) => (sections.sources && citations.length > 0
+    ? `<sup>${citations.map(n => `<a href="#source-${n}">${n}</a>`).join(', ')}</sup>`
+    : '');
+  const list = (items: string[]) => `<ul>${items.map(item => `<li>${item}</li>`).join('')}</ul>`;
+  const parts: string[] = [
+    `<h1>${escapeHtml(dossier.title)}</h1>`,
+    dossier.description ? `<p>${escapeHtml(dossier.description)}</p>` : '',
+    `<p class="meta">Dossier generated ${dossier.generatedAt}. ${dossier.entities.length} entities, ${dossier.relationships.length} relationships.</p>`,
+  ];
+
+  if (sections.graph && graphSvg) {
+    parts.push('<h2>Network</h2>', `<div class="graph">${graphSvg.replace(/^<\?xml[^>]*>\s*/, '')}</div>`);
+  }
+
+  const context = dossier.context;
+  if (sections.context && context) {
+    parts.push('<h2>Investigation context</h2>');
+    const fields = [['Topic', context.topic], ['Domain', context.domain], ['Focus', context.focus]].filter(([, value]) => value);
+    if (fields.length > 0) parts.push(`<p>${fields.map(([label, value]) => `<strong>${label}:</strong> ${escapeHtml(value)}`).join('<br>')}</p>`);
+    if (context.keyQuestions.length > 0) parts.push('<h3>Key questions</h3>', list(context.keyQuestions.map(escapeHtml)));
+    if (context.keyFindings.length > 0) parts.push('<h3>Key findings</h3>', list(context.keyFindings.map(escapeHtml)));
+    if (context.redFlags.length > 0) {
+      parts.push('<h3>Red flags</h3>', list(context.redFlags.map(flag =>
+        `<strong>${escapeHtml(flag.severity)}:</strong> ${escapeHtml(flag.description)}`
+        + (flag.entities.length > 0 ? ` <span class="meta">(${escapeHtml(flag.entities.join(', '))})</span>` : ''))));
+    }
+    if (context.hypotheses.length > 0) {
+      parts.push('<h3>Hypotheses</h3>', list(context.hypotheses.map(h => `${escapeHtml(h.hypothesis)} <em class="meta">(${escapeHtml(h.status)})</em>`)));
+    }
+  }
+
+  if (sections.entities && dossier.entities.length > 0) {
+    parts.push('<h2>Entities</h2>');
+    dossier.entities.forEach(entity => {
+      parts.push(
+        `<section class="entity"><h3>${escapeHtml(entity.name)}${cites(entity.citations)}</h3>`,
+        `<p class="type">${escapeHtml(entity.typeLabel)}, ${entity.connections} ${entity.connections === 1 ? 'connection' : 'connections'}</p>`,
+        entity.description ? `<p>${escapeHtml(entity.description)}</p>` : '',
+        entity.aliases.length > 0 ? `<p>Also known as: ${escapeHtml(entity.aliases.join(', '))}</p>` : '',
+        entity.facts.length > 0 ? list(entity.facts.map(fact =>
+          `<strong>${escapeHtml(fact.label)}:</strong> ${escapeHtml(fact.value)}`
+          + (fact.detail ? ` <span class="meta">(${escapeHtml(fact.detail)})</span>` : '') + cites(fact.citations))) : '',
+        '</section>'
+      );
+    });
+  }
+
+  if (sections.relationships && dossier.relationships.length > 0) {
+    parts.push(
+      '<h2>Relationships</h2>',
+      `<table><thead><tr><th>From</th><th>Relationship</th><th>To</th><th>Details</th>${sections.sources ? '<th>Sources</th>' : ''}</tr></thead><tbody>`,
+      ...dossier.relationships.map(r => `<tr><td>${escapeHtml(r.from)}</td><td>${escapeHtml(r.label)}</td><td>${escapeHtml(r.to)}</td>`
+        + `<td>${escapeHtml(r.detail)}</td>${sections.sources ? `<td>${r.citations.map(n => `<a href="#source-${n}">${n}</a>`).join(', ')}</td>` : ''}</tr>`),
+      '</tbody></table>'
+    );
+  }
+
+  if (sections.sources && dossier.sources.length > 0) {
+    parts.push('<h2>Sources</h2>', '<ol>');
+    dossier.sources.forEach(source => {
+      const title = isWebUrl(source.url) ? `<a href="${escapeHtml(source.url)}">${escapeHtml(source.title)}</a>` : escapeHtml(source.title);
+      parts.push(`<li id="source-${source.number}">${title}${source.excerpts.map(e => `<blockquote>${escapeHtml(e)}</blockquote>`).join('')}</li>`);
+    });
+    parts.push('</ol>');
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(dossier.title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    ...parts.filter(Boolean),
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+// ============================================
+// PDF
+// ============================================
+
+const PAGE_MARGIN = 56;
+const TEXT_COLOR = '#222222';
+const MUTED_COLOR = '#666666';
+const RULE_COLOR = '#cccccc';
+const SERIF = "'Source Serif 4', Georgia, serif";
+const SANS = "'Source Sans 3', sans-serif";
+const BODY: VectorFont = { family: SANS, size: 10, weight: 400 };
+const BOLD: VectorFont = { ...BODY, weight: 700 };
+const SMALL: VectorFont = { ...BODY, size: 8.5 };
+const TITLE: VectorFont = { family: SERIF, size: 22, weight: 700 };
+const HEADING: VectorFont = { family: SERIF, size: 15, weight: 700 };
+const SUBHEADING: VectorFont = { family: SERIF, size: 11.5, weight: 700 };
+
+// Relationship table columns, as shares of the text width
+const TABLE_COLUMNS = [0.25, 0.2, 0.25, 0.2, 0.1];
+
+/**
+ * Lay the dossier out on pages of the given paper, in points. Text is
+ * measured in the browser, so the theme fonts are loaded first.
+ */
+async function layoutPages(dossier: Dossier, sections: DossierSections, graph: VectorScene | null, paper: PdfPaper): Promise<VectorScene[]> {
+  if (typeof document !== 'undefined' && document.fonts) {
+    await Promise.all([BODY, BOLD, TITLE].map(font => document.fonts.load(cssFont(font)).catch(() => [])));
+  }
+
+  const { width, height } = PDF_PAPERS[paper];
+  const textWidth = width - PAGE_MARGIN * 2;
+  const bottom = height - PAGE_MARGIN;
+  const pages: VectorScene[] = [];
+  let shapes: VectorShape[] = [];
+  let y = PAGE_MARGIN;
+
+  const newPage = () => {
+    shapes = [];
+    pages.push({ width, height, background: '#ffffff', shapes });
+    y = PAGE_MARGIN;
+  };
+  // Start a new page unless `needed` points still fit on this one
+  const ensure = (needed: number) => {
+    if (y + needed > bottom && y > PAGE_MARGIN) newPage();
+  };
+  const text = (x: number, baseline: number, line: string, font: VectorFont, fill = TEXT_COLOR) => {
+    shapes.push({ kind: 'text', x, y: baseline, text: line, font, fill });
+  };
+  const paragraph = (content: string, font = BODY, { indent = 0, fill = TEXT_COLOR, after = 4 } = {}) => {
+    const lineHeight = font.size * 1.35;
+    wrapText(content, font, textWidth - indent, Infinity).forEach(line => {
+      ensure(lineHeight);
+      y += lineHeight;
+      text(PAGE_MARGIN + indent, y - font.size * 0.3, line, font, fill);
+    });
+    y += after;
+  };
+  const bullets = (items: string[]) => {
+    items.forEach(item => {
+      ensure(BODY.size * 1.35);
+      text(PAGE_MARGIN + 4, y + BODY.size * 1.05, '•', BODY);
+      paragraph(item, BODY, { indent: 14, after: 2 });
+    });
+    y += 4;
+  };
+  const heading = (content: string, font: VectorFont, rule = false) => {
+    // Keep headings with at least a few lines of what follows
+    ensure(font.size * 1.6 + BODY.size * 4);
+    y += font.size * 0.8;
+    paragraph(content, font, { after: rule ? 4 : 2 });
+    if (rule) {
+      shapes.push({ kind: 'path', d: `M ${PAGE_MARGIN} ${y} L ${width - PAGE_MARGIN} ${y}`, stroke: RULE_COLOR, strokeWidth: 0.75 });
+      y += 8;
+    }
+  };
+  const cites = (citations: number[]) => (sections.sources && citations.length > 0 ? ` [${citations.join(', ')}]` : '');
+
+  newPage();
+  paragraph(dossier.title, TITLE, { after: 6 });
+  if (dossier.description) paragraph(dossier.description, BODY, { after: 6 });
+  paragraph(`Dossier generated ${dossier.generatedAt}. ${dossier.entities.length} entities, ${dossier.relationships.length} relationships.`, SMALL, { fill: MUTED_COLOR, after: 10 });
+
+  if (sections.graph && graph) {
+    const scale = Math.min(textWidth / graph.width, (bottom - PAGE_MARGIN) * 0.75 / graph.height);
+    ensure(graph.height * scale);
+    shapes.push({ kind: 'scene', x: PAGE_MARGIN + (textWidth - graph.width * scale) / 2, y, scale, scene: graph });
+    y += graph.height * scale + 12;
+  }
+
+  const context = dossier.context;
+  if (sections.context && context) {
+    heading('Investigation context', HEADING, true);
+    [['Topic', context.topic], ['Domain', context.domain], ['Focus', context.focus]]
+      .filter(([, value]) => value)
+      .forEach(([label, value]) => paragraph(`${label}: ${value}`, BODY, { after: 2 }));
+    const list = (title: string, items: string[]) => {
+      if (items.length === 0) return;
+      heading(title, SUBHEADING);
+      bullets(items);
+    };
+    list('Key questions', context.keyQuestions);
+    list('Key findings', context.keyFindings);
+    list('Red flags', context.redFlags.map(flag =>
+      `${flag.severity}: ${flag.description}${flag.entities.length > 0 ? ` (${flag.entities.join(', ')})` : ''}`));
+    list('Hypotheses', context.hypotheses.map(h => `${h.hypothesis} (${h.status})`));
+  }
+
+  if (sections.entities && dossier.entities.length > 0) {
+    heading('Entities', HEADING, true);
+    dossier.entities.forEach(entity => {
+      heading(`${entity.name}${cites(entity.citations)}`, SUBHEADING);
+      paragraph(`${entity.typeLabel}, ${entity.connections} ${entity.connections === 1 ? 'connection' : 'connections'}`, SMALL, { fill: MUTED_COLOR });
+      if (entity.description) paragraph(entity.description);
+      if (entity.aliases.length > 0) paragraph(`Also known as: ${markdownText(entity.aliases.join(', '))}`);
+      if (entity.facts.length > 0) {
+        bullets(entity.facts.map(fact => `${fact.label}: ${fact.value}${fact.detail ? ` (${fact.detail})` : ''}${cites(fact.citations)}`));
+      }
+    });
+  }
+
+  if (sections.relationships && dossier.relationships.length > 0) {
+    heading('Relationships', HEADING, true);
+    const columns = sections.sources ? TABLE_COLUMNS : TABLE_COLUMNS.slice(0, 4).map(share => share / 0.9);
+    const lineHeight = SMALL.size * 1.3;
+    const headerFont = { ...SMALL, weight: 700 };
+    const header = ['From', 'Relationship', 'To', 'Details', ...(sections.sources ? ['Sources'] : [])];
+    const layoutRow = (cells: string[], font: VectorFont) => {
+      const wrapped = cells.map((cell, i) => wrapText(cell, font, columns[i] * textWidth - 6, Infinity));
+      return { wrapped, font, height: Math.max(...wrapped.map(lines => lines.length)) * lineHeight + 6 };
+    };
+    const drawRow = ({ wrapped, font, height: rowHeight }: ReturnType<typeof layoutRow>) => {
+      let x = PAGE_MARGIN;
+      wrapped.forEach((lines, i) => {
+        lines.forEach((line, j) => text(x, y + 3 + (j + 1) * lineHeight - SMALL.size * 0.3, line, font));
+        x += columns[i] * textWidth;
+      });
+      y += rowHeight;
+      shapes.push({ kind: 'path', d: `M ${PAGE_MARGIN} ${y} L ${width - PAGE_MARGIN} ${y}`, stroke: RULE_COLOR, strokeWidth: 0.5 });
+    };
+    const headerRow = layoutRow(header, headerFont);
+    ensure(headerRow.height + lineHeight * 2);
+    drawRow(headerRow);
+    dossier.relationships.forEach(r => {
+      const row = layoutRow([r.from, r.label, r.to, r.detail, ...(sections.sources ? [r.citations.join(', ')] : [])], SMALL);
+      // Repeat the header on each page the table runs onto
+      if (y + row.height > bottom) {
+        newPage();
+        drawRow(headerRow);
+      }
+      drawRow(row);
+    });
+    y += 8;
+  }
+
+  if (sections.sources && dossier.sources.length > 0) {
+    heading('Sources', HEADING, true);
+    dossier.sources.forEach(source => {
+      const number = `${source.number}.`;
+      ensure(BODY.size * 1.35);
+      text(PAGE_MARGIN + 18 - measureText(number, BODY), y + BODY.size * 1.05, number, BODY);
+      paragraph(source.url && source.url !== source.title ? `${source.title} (${source.url})` : source.title, BODY, { indent: 24, after: 1 });
+      source.excerpts.forEach(excerpt => paragraph(`“${excerpt}”`, SMALL, { indent: 34, fill: MUTED_COLOR, after: 2 }));
+      y += 4;
+    });
+  }
+
+  // Footers, once the page count is known
+  pages.forEach((page, i) => {
+    page.shapes.push({
+      kind: 'text', x: width / 2, y: height - PAGE_MARGIN / 2, anchor: 'middle',
+      text: `${dossier.title} · Page ${i + 1} of ${pages.length}`, font: SMALL, fill: MUTED_COLOR,
+    });
+  });
+  return pages;
+}
+
+/**
+ * The dossier as a print-ready PDF, with the graph drawn as vectors.
+ */
+export async function dossierToPdf(dossier: Dossier, sections: DossierSections, graph: VectorScene | null, paper: PdfPaper): Promise<Uint8Array> {
+  const pages = await layoutPages(dossier, sections, graph, paper);
+  return pagesToPdf(pages, await loadSceneFonts(...pages), dossier.title);
+}
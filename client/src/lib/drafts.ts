@@ -0,0 +1,250 @@
+/**
+ * Silent Partners - Local Drafts
+ *
+ * Autosaved snapshots of the working investigation, kept in IndexedDB so a
+ * crashed tab or accidental reload can be recovered. A draft holds the
+ * network (including its investigation context), the canvas layout
+ * positions and the assistant chat. Drafts are independent of the backend
+ * saveGraph and of the localStorage chat history that clearNetwork wipes.
+ */
+
+import { Network, generateId } from './store';
+
+const DB_NAME = 'silent-partners';
+const DB_VERSION = 1;
+const DRAFT_STORE = 'drafts';
+
+// Oldest drafts beyond this count are pruned after each save
+export const MAX_DRAFTS = 10;
+
+export interface LayoutPositions {
+  [entityId: string]: { x: number; y: number };
+}
+
+export interface Draft {
+  id: string;
+  title: string;
+  network: Network;
+  positions: LayoutPositions;
+  messages: unknown[];
+  entityCount: number;
+  relationshipCount: number;
+  updatedAt: string;
+}
+
+export type DraftSummary = Omit<Draft, 'network' | 'positions' | 'messages'>;
+
+// ============================================
+// IndexedDB access
+// ============================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(DRAFT_STORE)) {
+        const store = db.createObjectStore(DRAFT_STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a later retry if opening failed (e.g. private browsing)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(DRAFT_STORE, mode);
+  return promisify(run(tx.objectStore(DRAFT_STORE)));
+}
+
+// ============================================
+// Draft CRUD
+// ============================================
+
+/**
+ * Drafts newest first, without their (potentially large) contents.
+ */
+export async function listDrafts(): Promise<DraftSummary[]> {
+  const drafts = await withStore<Draft[]>('readonly', store => store.getAll());
+  return drafts
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(({ network: _network, positions: _positions, messages: _messages, ...summary }) => summary);
+}
+
+export async function loadDraft(id: string): Promise<Draft | undefined> {
+  return withStore<Draft | undefined>('readonly', store => store.get(id));
+}
+
+export async function deleteDraft(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export async function saveDraft(draft: Draft): Promise<void> {
+  await withStore('readwrite', store => store.put(draft));
+  await pruneDrafts();
+}
+
+// Walks the updatedAt index newest first by key only, so drafts' contents
+// are never read
+async function pruneDrafts(): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(DRAFT_STORE, 'readwrite');
+  const store = tx.objectStore(DRAFT_STORE);
+  const request = store.index('updatedAt').openKeyCursor(null, 'prev');
+  let kept = 0;
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    if (kept < MAX_DRAFTS) kept++;
+    else store.delete(cursor.primaryKey);
+    cursor.continue();
+  };
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * The network with saved layout positions written back onto its entities,
+ * so the canvas places nodes where they were.
+ */
+export function networkWithPositions(draft: Draft): Network {
+  return {
+    ...draft.network,
+    entities: draft.network.entities.map(entity => {
+      const pos = draft.positions[entity.id];
+      return pos ? { ...entity, x: pos.x, y: pos.y } : entity;
+    }),
+  };
+}
+
+// ============================================
+// Session state shared with the canvas and assistant
+// ============================================
+
+// Draft each open tab autosaves to. A tab gets a fresh draft per page load
+// and whenever its network is cleared, so older drafts are kept.
+const tabDraftIds = new Map<string, string>();
+
+export function getDraftIdForTab(tabId: string): string {
+  let id = tabDraftIds.get(tabId);
+  if (!id) {
+    id = generateId();
+    tabDraftIds.set(tabId, id);
+  }
+  return id;
+}
+
+export function setDraftIdForTab(tabId: string, draftId: string) {
+  tabDraftIds.set(tabId, draftId);
+}
+
+export function startNewDraft(tabId: string) {
+  tabDraftIds.set(tabId, generateId());
+}
+
+export function releaseTabDraft(tabId: string) {
+  tabDraftIds.delete(tabId);
+}
+
+export function getOpenDraftIds(): Set<string> {
+  return new Set(tabDraftIds.values());
+}
+
+// The canvas owns node positions after layout; it registers a reader here
+let layoutPositionsProvider: (() => LayoutPositions) | null = null;
+
+export function setLayoutPositionsProvider(provider: (() => LayoutPositions) | null) {
+  layoutPositionsProvider = provider;
+}
+
+export function getLayoutPositions(): LayoutPositions {
+  try {
+    return layoutPositionsProvider?.() ?? {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * localStorage key the assistant keeps its chat under for a network. Networks
+ * without an ID (not yet saved) are keyed by the tab they are open in.
+ */
+export function getChatStorageKey(networkId: Network['id'], tabId: string = 'default'): string {
+  return `sp-chat-${networkId || tabId}`;
+}
+
+// Latest assistant chat, published by the assistant as it changes
+let latestMessages: { key: string; messages: unknown[] } | null = null;
+const messageRestoreListeners = new Set<(key: string, messages: unknown[]) => void>();
+const messageChangeListeners = new Set<() => void>();
+
+export function publishChatMessages(key: string, messages: unknown[]) {
+  latestMessages = { key, messages };
+  messageChangeListeners.forEach(listener => listener());
+}
+
+export function onChatMessagesChanged(listener: () => void): () => void {
+  messageChangeListeners.add(listener);
+  return () => {
+    messageChangeListeners.delete(listener);
+  };
+}
+
+export function getChatMessages(key: string): unknown[] {
+  if (latestMessages?.key === key) return latestMessages.messages;
+  try {
+    const saved = localStorage.getItem(key);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Put a draft's chat back: into localStorage for the next mount, and into
+ * the assistant directly if it is open.
+ */
+export function restoreChatMessages(key: string, messages: unknown[]) {
+  latestMessages = { key, messages };
+  try {
+    localStorage.setItem(key, JSON.stringify(messages));
+  } catch (e) {
+    console.warn('Failed to restore chat history to localStorage:', e);
+  }
+  messageRestoreListeners.forEach(listener => listener(key, messages));
+}
+
+export function onChatMessagesRestored(listener: (key: string, messages: unknown[]) => void): () => void {
+  messageRestoreListeners.add(listener);
+  return () => {
+    messageRestoreListeners.delete(listener);
+  };
+}
@@ -0,0 +1,360 @@
+/**
+ * Silent Partners - Entity Matching
+ *
+ * Fuzzy entity-name matching used for deduplication, plus a blocking index
+ * so that each incoming entity is only compared against plausible candidates
+ * instead of every entity in the network.
+ */
+
+import type { Entity, MatchStrategy } from './store';
+
+/**
+ * Calculate Levenshtein distance between two strings.
+ * Used for fuzzy matching of names with typos.
+ */
+export function levenshteinDistance(str1: string, str2: string): number {
+  const m = str1.length;
+  const n = str2.length;
+  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
+  
+  for (let i = 0; i <= m; i++) dp[i][0] = i;
+  for (let j = 0; j <= n; j++) dp[0][j] = j;
+  
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      if (str1[i - 1] === str2[j - 1]) {
+        dp[i][j] = dp[i - 1][j - 1];
+      } else {
+        dp[i][j] = 1 + Math.min(dp[i - 1][j], dp[i][j - 1], dp[i - 1][j - 1]);
+      }
+    }
+  }
+  return dp[m][n];
+}
+
+/**
+ * Simple Soundex implementation for phonetic matching.
+ * Helps match names like "Tahnoon" vs "Tahnoun".
+ */
+export function soundex(str: string): string {
+  const s = str.toUpperCase().replace(/[^A-Z]/g, '');
+  if (!s) return '';
+  
+  const codes: { [key: string]: string } = {
+    B: '1', F: '1', P: '1', V: '1',
+    C: '2', G: '2', J: '2', K: '2', Q: '2', S: '2', X: '2', Z: '2',
+    D: '3', T: '3',
+    L: '4',
+    M: '5', N: '5',
+    R: '6'
+  };
+  
+  let result = s[0];
+  let prevCode = codes[s[0]] || '';
+  
+  for (let i = 1; i < s.length && result.length < 4; i++) {
+    const code = codes[s[i]] || '';
+    if (code && code !== prevCode) {
+      result += code;
+    }
+    prevCode = code;
+  }
+  
+  return result.padEnd(4, '0');
+}
+
+/**
+ * Normalize entity name for comparison.
+ * Handles common variations like "Inc.", "Corp.", "LLC", etc.
+ */
+export function normalizeEntityName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/,?\s*(inc\.?|corp\.?|llc\.?|ltd\.?|co\.?|company|corporation|incorporated)$/i, '')
+    .replace(/\s*\([^)]*\)\s*$/, '') // Remove parenthetical suffixes like "(Meta Platforms)"
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export interface NameMatch {
+  strategy: MatchStrategy;
+  score: number;
+}
+
+/**
+ * Compare two entity names and report which strategy matched, if any.
+ * Strategies are tried in order: exact match, substring, abbreviation,
+ * fuzzy (Levenshtein), and phonetic (Soundex).
+ */
+export function matchNames(name1: string, name2: string): NameMatch | null {
+  const norm1 = normalizeEntityName(name1);
+  const norm2 = normalizeEntityName(name2);
+  
+  // Exact match after normalization
+  if (norm1 === norm2) return { strategy: 'exact', score: 1 };
+  
+  // One is a substring of the other (e.g., "Tesla" vs "Tesla, Inc.")
+  if (norm1.includes(norm2) || norm2.includes(norm1)) {
+    const ratio = Math.min(norm1.length, norm2.length) / Math.max(norm1.length, norm2.length, 1);
+    return { strategy: 'substring', score: 0.6 + 0.3 * ratio };
+  }
+  
+  // Check for common abbreviations
+  const abbrev1 = norm1.split(' ').map(w => w[0]).join('');
+  const abbrev2 = norm2.split(' ').map(w => w[0]).join('');
+  if ((abbrev1.length > 2 && abbrev1 === norm2) || (abbrev2.length > 2 && abbrev2 === norm1)) {
+    return { strategy: 'abbreviation', score: 0.75 };
+  }
+  
+  // Fuzzy matching using Levenshtein distance
+  // Allow 1 edit for short names, 2 for longer names
+  const maxLen = Math.max(norm1.length, norm2.length);
+  const minLen = Math.min(norm1.length, norm2.length);
+  if (minLen >= 3) {
+    const threshold = maxLen <= 6 ? 1 : 2;
+    // The distance is at least the length difference, so skip the DP when that already exceeds it
+    if (maxLen - minLen <= threshold) {
+      const distance = levenshteinDistance(norm1, norm2);
+      if (distance <= threshold) return { strategy: 'levenshtein', score: 1 - distance / maxLen };
+    }
+  }
+  
+  // Phonetic matching using Soundex (for names like Tahnoon/Tahnoun)
+  // Only apply to single-word names (likely person names)
+  const words1 = norm1.split(' ');
+  const words2 = norm2.split(' ');
+  if (words1.length === words2.length) {
+    let allMatch = true;
+    for (let i = 0; i < words1.length; i++) {
+      const s1 = soundex(words1[i]);
+      const s2 = soundex(words2[i]);
+      if (s1 !== s2) {
+        allMatch = false;
+        break;
+      }
+    }
+    if (allMatch && words1.length > 0) return { strategy: 'soundex', score: 0.5 };
+  }
+  
+  return null;
+}
+
+/**
+ * Check if two entity names are similar enough to be considered duplicates.
+ */
+export function areNamesSimilar(name1: string, name2: string): boolean {
+  return matchNames(name1, name2) !== null;
+}
+
+// ============================================
+// Blocking index
+// ============================================
+
+interface IndexedEntry {
+  entity: Entity;
+  norm: string;
+  initials: string;
+  soundexKey: string;
+  bigrams: Map<string, number>;
+}
+
+function initialsOf(norm: string): string {
+  return norm.split(' ').map(w => w[0]).join('');
+}
+
+function soundexKeyOf(norm: string): string {
+  return norm.split(' ').map(soundex).join(' ');
+}
+
+function bigramsOf(norm: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < norm.length - 1; i++) {
+    const gram = norm.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+}
+
+function addToBucket<K>(buckets: Map<K, Set<string>>, key: K, id: string) {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = new Set();
+    buckets.set(key, bucket);
+  }
+  bucket.add(id);
+}
+
+function removeFromBucket<K>(buckets: Map<K, Set<string>>, key: K, id: string) {
+  const bucket = buckets.get(key);
+  if (!bucket) return;
+  bucket.delete(id);
+  if (bucket.size === 0) buckets.delete(key);
+}
+
+/**
+ * Candidate index over entity names. For any name, `candidates()` returns a
+ * superset of the entities `matchNames` could match, so checking only those
+ * gives exactly the same results as a full scan:
+ * - exact: same normalized name
+ * - abbreviation: initials of one equal the other's normalized name
+ * - soundex: same per-word Soundex codes
+ * - substring / Levenshtein: enough shared character bigrams (q-gram lemma)
+ * Names shorter than 3 characters can be substrings of anything, so they
+ * are always candidates (and a short query is compared against everything).
+ */
+export class EntityMatchIndex {
+  private entries = new Map<string, IndexedEntry>();
+  private positions = new Map<string, number>();
+  private byNorm = new Map<string, Set<string>>();
+  private byInitials = new Map<string, Set<string>>();
+  private bySoundex = new Map<string, Set<string>>();
+  private byBigram = new Map<string, Map<string, number>>();
+  private byLength = new Map<number, Set<string>>();
+  private shortIds = new Set<string>();
+  private syncedEntities: Entity[] | null = null;
+  private nextPosition = 0;
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Add or replace an entity. Replacing keeps its position unless one is given.
+   */
+  add(entity: Entity, position?: number) {
+    const existing = this.entries.get(entity.id);
+    if (existing) {
+      if (existing.entity.name === entity.name) {
+        existing.entity = entity;
+        if (position !== undefined) this.positions.set(entity.id, position);
+        return;
+      }
+      this.removeKeys(existing);
+    }
+
+    const norm = normalizeEntityName(entity.name);
+    const entry: IndexedEntry = {
+      entity,
+      norm,
+      initials: initialsOf(norm),
+      soundexKey: soundexKeyOf(norm),
+      bigrams: bigramsOf(norm),
+    };
+    this.entries.set(entity.id, entry);
+    if (position !== undefined) {
+      this.positions.set(entity.id, position);
+    } else if (!this.positions.has(entity.id)) {
+      this.positions.set(entity.id, this.nextPosition);
+    }
+    this.nextPosition = Math.max(this.nextPosition, (this.positions.get(entity.id) ?? 0) + 1);
+
+    addToBucket(this.byNorm, norm, entity.id);
+    addToBucket(this.byInitials, entry.initials, entity.id);
+    addToBucket(this.bySoundex, entry.soundexKey, entity.id);
+    addToBucket(this.byLength, norm.length, entity.id);
+    if (norm.length < 3) this.shortIds.add(entity.id);
+    entry.bigrams.forEach((count, gram) => {
+      let posting = this.byBigram.get(gram);
+      if (!posting) {
+        posting = new Map();
+        this.byBigram.set(gram, posting);
+      }
+      posting.set(entity.id, count);
+    });
+  }
+
+  remove(id: string) {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    this.removeKeys(entry);
+    this.entries.delete(id);
+    this.positions.delete(id);
+  }
+
+  private removeKeys(entry: IndexedEntry) {
+    const id = entry.entity.id;
+    removeFromBucket(this.byNorm, entry.norm, id);
+    removeFromBucket(this.byInitials, entry.initials, id);
+    removeFromBucket(this.bySoundex, entry.soundexKey, id);
+    removeFromBucket(this.byLength, entry.norm.length, id);
+    this.shortIds.delete(id);
+    entry.bigrams.forEach((_count, gram) => {
+      const posting = this.byBigram.get(gram);
+      if (!posting) return;
+      posting.delete(id);
+      if (posting.size === 0) this.byBigram.delete(gram);
+    });
+  }
+
+  /**
+   * Bring the index in line with an entities array. Unchanged entities are
+   * detected by reference, so this costs O(n) plus the work for changed names.
+   */
+  sync(entities: Entity[]) {
+    if (entities === this.syncedEntities) return;
+
+    const seen = new Set<string>();
+    entities.forEach((entity, position) => {
+      if (seen.has(entity.id)) return; // Duplicate IDs: first occurrence wins
+      seen.add(entity.id);
+      this.add(entity, position);
+    });
+    Array.from(this.entries.keys()).forEach(id => {
+      if (!seen.has(id)) this.remove(id);
+    });
+    this.nextPosition = entities.length;
+    this.syncedEntities = entities;
+  }
+
+  /**
+   * Indexed entities that could match `name`, in array order.
+   */
+  candidates(name: string): Entity[] {
+    const norm = normalizeEntityName(name);
+    if (norm.length < 3) return this.ordered(this.entries.keys());
+
+    const ids = new Set<string>(this.shortIds);
+    const addAll = (bucket?: Set<string>) => bucket?.forEach(id => ids.add(id));
+
+    addAll(this.byNorm.get(norm));
+    addAll(this.byInitials.get(norm));
+    const initials = initialsOf(norm);
+    if (initials.length > 2) addAll(this.byNorm.get(initials));
+    addAll(this.bySoundex.get(soundexKeyOf(norm)));
+    // Two 3-character names within one edit may share no bigrams at all
+    if (norm.length === 3) addAll(this.byLength.get(3));
+
+    // Count shared bigrams (multiset intersection) per entity
+    const shared = new Map<string, number>();
+    bigramsOf(norm).forEach((count, gram) => {
+      this.byBigram.get(gram)?.forEach((otherCount, id) => {
+        shared.set(id, (shared.get(id) || 0) + Math.min(count, otherCount));
+      });
+    });
+    shared.forEach((common, id) => {
+      const otherLen = this.entries.get(id)!.norm.length;
+      const minLen = Math.min(norm.length, otherLen);
+      const maxLen = Math.max(norm.length, otherLen);
+      // Substring: the shorter name's bigrams all appear in the longer one
+      if (common >= minLen - 1) {
+        ids.add(id);
+        return;
+      }
+      // Levenshtein within k edits shares at least maxLen - 1 - 2k bigrams
+      const k = maxLen <= 6 ? 1 : 2;
+      if (maxLen - minLen <= k && common >= maxLen - 1 - 2 * k) ids.add(id);
+    });
+
+    return this.ordered(ids);
+  }
+
+  private ordered(ids: Iterable<string>): Entity[] {
+    return Array.from(ids)
+      .sort((a, b) => (this.positions.get(a) ?? 0) - (this.positions.get(b) ?? 0))
+      .map(id => this.entries.get(id)!.entity);
+  }
+
+  position(id: string): number | undefined {
+    return this.positions.get(id);
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Silent Partners - Entity Types
+ *
+ * Registry of entity types: the built-in types every network has, plus the
+ * custom types a network defines for itself (vessels, aircraft, trusts...).
+ * A type sets the label, colors, icon and node shape used wherever entities
+ * of that type are drawn or listed.
+ */
+
+import type { CanvasTheme } from '@/contexts/CanvasThemeContext';
+import type { BuiltInEntityType, Network } from './store';
+
+export type NodeShape = 'circle' | 'square' | 'diamond' | 'triangle';
+
+export const NODE_SHAPES: { value: NodeShape; label: string }[] = [
+  { value: 'circle', label: 'Circle' },
+  { value: 'square', label: 'Square' },
+  { value: 'diamond', label: 'Diamond' },
+  { value: 'triangle', label: 'Triangle' },
+];
+
+// Lucide icon names offered for entity types (see EntityTypeIcon)
+export const ENTITY_TYPE_ICON_NAMES = [
+  'user', 'building', 'landmark', 'banknote', 'users', 'map-pin', 'calendar', 'package', 'help-circle',
+  'ship', 'plane', 'car', 'credit-card', 'wallet', 'scale', 'globe', 'home', 'briefcase', 'file-text', 'key',
+] as const;
+export type EntityTypeIconName = typeof ENTITY_TYPE_ICON_NAMES[number];
+
+export interface EntityTypeDefinition {
+  id: string;                 // Stored in Entity.type, e.g. "vessel"
+  label: string;
+  color: string;              // Used by any color theme without an override
+  themeColors?: Partial<Record<CanvasTheme, string>>;
+  icon: EntityTypeIconName;
+  shape: NodeShape;
+  hollow?: boolean;           // Drawn as a ring in Lombardi themes
+  builtIn?: boolean;
+}
+
+export const BUILT_IN_ENTITY_TYPES: EntityTypeDefinition[] = [
+  { id: 'person', label: 'Person', color: '#4A90A4', icon: 'user', shape: 'circle', builtIn: true },
+  { id: 'corporation', label: 'Corporation', color: '#7CB342', icon: 'building', shape: 'circle', hollow: true, builtIn: true },
+  { id: 'organization', label: 'Organization', color: '#9575CD', icon: 'users', shape: 'circle', hollow: true, builtIn: true },
+  { id: 'financial', label: 'Financial', color: '#C9A227', icon: 'banknote', shape: 'circle', hollow: true, builtIn: true },
+  { id: 'government', label: 'Government', color: '#8B7355', icon: 'landmark', shape: 'circle', hollow: true, builtIn: true },
+  { id: 'event', label: 'Event', color: '#FF8A65', icon: 'calendar', shape: 'circle', builtIn: true },
+  { id: 'location', label: 'Location', color: '#5C9EAD', icon: 'map-pin', shape: 'circle', builtIn: true },
+  { id: 'asset', label: 'Asset', color: '#D4A574', icon: 'package', shape: 'circle', builtIn: true },
+  { id: 'unknown', label: 'Unknown', color: '#78909C', icon: 'help-circle', shape: 'circle', builtIn: true },
+];
+
+const BUILT_IN_IDS = new Set(BUILT_IN_ENTITY_TYPES.map(t => t.id));
+const UNKNOWN_TYPE = BUILT_IN_ENTITY_TYPES[BUILT_IN_ENTITY_TYPES.length - 1];
+
+export function isBuiltInEntityType(id: string): id is BuiltInEntityType {
+  return BUILT_IN_IDS.has(id);
+}
+
+/**
+ * Built-in types followed by the network's custom types. Custom types can't
+ * replace a built-in.
+ */
+export function getEntityTypes(customTypes?: Network['entityTypes']): EntityTypeDefinition[] {
+  return [...BUILT_IN_ENTITY_TYPES, ...(customTypes || []).filter(t => !BUILT_IN_IDS.has(t.id))];
+}
+
+/**
+ * The definition for a type ID, falling back to "unknown" for types the
+ * network doesn't define.
+ */
+export function getEntityTypeDefinition(customTypes: Network['entityTypes'], id: string): EntityTypeDefinition {
+  return BUILT_IN_ENTITY_TYPES.find(t => t.id === id)
+    ?? customTypes?.find(t => t.id === id)
+    ?? { ...UNKNOWN_TYPE, id, label: id, builtIn: false };
+}
+
+/**
+ * Turn a label into a type ID: "Bank Account" -> "bank_account".
+ */
+export function entityTypeIdFromLabel(label: string): string {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Check a custom type definition from an import or the type editor. Returns
+ * an error message, or null if it is usable.
+ */
+export function validateEntityTypeDefinition(value: unknown): string | null {
+  if (!value || typeof value !== 'object') return 'Entity type is not an object';
+  const t = value as Record<string, unknown>;
+  if (typeof t.id !== 'string' || !/^[a-z0-9_]+$/.test(t.id)) return 'Entity type "id" must be lowercase letters, digits or underscores';
+  if (BUILT_IN_IDS.has(t.id)) return `Entity type "${t.id}" is built in and can't be redefined`;
+  if (typeof t.label !== 'string' || !t.label.trim()) return `Entity type "${t.id}" is missing a "label"`;
+  if (typeof t.color !== 'string' || !/^#[0-9a-f]{6}$/i.test(t.color)) return `Entity type "${t.id}" needs a hex "color"`;
+  if (t.shape !== undefined && !NODE_SHAPES.some(s => s.value === t.shape)) return `Entity type "${t.id}" has unknown shape "${t.shape}"`;
+  return null;
+}
+
+/**
+ * Normalize a validated custom type, defaulting the optional fields.
+ */
+export function normalizeEntityTypeDefinition(value: Record<string, unknown>): EntityTypeDefinition {
+  const icon = ENTITY_TYPE_ICON_NAMES.includes(value.icon as EntityTypeIconName) ? value.icon as EntityTypeIconName : 'help-circle';
+  const themeColors = value.themeColors && typeof value.themeColors === 'object'
+    ? Object.fromEntries(
+        Object.entries(value.themeColors as Record<string, unknown>).filter(([, c]) => typeof c === 'string' && /^#[0-9a-f]{6}$/i.test(c))
+      ) as EntityTypeDefinition['themeColors']
+    : undefined;
+  return {
+    id: value.id as string,
+    label: (value.label as string).trim(),
+    color: value.color as string,
+    themeColors,
+    icon,
+    shape: (value.shape as NodeShape) || 'circle',
+    hollow: value.hollow === true,
+  };
+}
+
+/**
+ * Add custom types to a list, keeping existing definitions on ID clashes.
+ */
+export function mergeEntityTypes(
+  existing: EntityTypeDefinition[] | undefined,
+  incoming: EntityTypeDefinition[] | undefined
+): EntityTypeDefinition[] | undefined {
+  if (!incoming?.length) return existing;
+  const ids = new Set((existing || []).map(t => t.id));
+  return [...(existing || []), ...incoming.filter(t => !ids.has(t.id) && !BUILT_IN_IDS.has(t.id))];
+}
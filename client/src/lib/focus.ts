@@ -0,0 +1,111 @@
+/**
+ * Silent Partners - Ego Focus
+ *
+ * Narrows the canvas to one entity and everything within a few hops of it,
+ * for working through one person in a large network. Focusing on another
+ * entity from inside a focus adds a step to the trail, so the investigator
+ * can step back out the way they came in. A focus can be spun off into a
+ * network of its own.
+ */
+
+import type { Entity, Network, Relationship } from './store';
+
+export const MIN_FOCUS_HOPS = 1;
+export const MAX_FOCUS_HOPS = 4;
+export const DEFAULT_FOCUS_HOPS = 1;
+
+// One step of the trail: an entity and how far out from it to show
+export interface EgoFocus {
+  entityId: string;
+  hops: number;
+}
+
+// The canvas focus; the last step is the one shown
+export interface FocusTrail {
+  steps: EgoFocus[];
+  hideOthers: boolean; // Hide everything outside the focus instead of fading it
+}
+
+export interface EgoNetwork {
+  entityIds: Set<string>;
+  relationshipIds: Set<string>; // Relationships with both ends in the focus
+}
+
+export function getCurrentFocus(trail: FocusTrail | null): EgoFocus | null {
+  return trail?.steps[trail.steps.length - 1] ?? null;
+}
+
+/**
+ * Add a step for an entity to the trail, or start a trail. Focusing again
+ * on the entity already in focus changes nothing.
+ */
+export function pushFocus(trail: FocusTrail | null, entityId: string): FocusTrail {
+  const current = getCurrentFocus(trail);
+  if (trail && current?.entityId === entityId) return trail;
+  return {
+    steps: [...(trail?.steps || []), { entityId, hops: current?.hops ?? DEFAULT_FOCUS_HOPS }],
+    hideOthers: trail?.hideOthers ?? false,
+  };
+}
+
+/**
+ * The entities within `hops` relationships of the focused entity, following
+ * relationships in either direction. Null when the entity isn't among the
+ * entities given.
+ */
+export function getEgoNetwork(
+  entities: Array<Pick<Entity, 'id'>>,
+  relationships: Array<Pick<Relationship, 'id' | 'source' | 'target'>>,
+  focus: EgoFocus
+): EgoNetwork | null {
+  if (!entities.some(e => e.id === focus.entityId)) return null;
+  const ids = new Set(entities.map(e => e.id));
+  const neighbours = new Map<string, string[]>();
+  relationships.forEach(r => {
+    if (!ids.has(r.source) || !ids.has(r.target)) return;
+    neighbours.set(r.source, [...(neighbours.get(r.source) || []), r.target]);
+    neighbours.set(r.target, [...(neighbours.get(r.target) || []), r.source]);
+  });
+
+  const entityIds = new Set([focus.entityId]);
+  let frontier = [focus.entityId];
+  for (let hop = 0; hop < focus.hops && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    frontier.forEach(id => (neighbours.get(id) || []).forEach(other => {
+      if (entityIds.has(other)) return;
+      entityIds.add(other);
+      next.push(other);
+    }));
+    frontier = next;
+  }
+
+  const relationshipIds = new Set(
+    relationships.filter(r => entityIds.has(r.source) && entityIds.has(r.target)).map(r => r.id)
+  );
+  return { entityIds, relationshipIds };
+}
+
+/**
+ * A new network holding just the focus: its entities, where they were
+ * placed, and the relationships among them.
+ */
+export function extractFocusNetwork(network: Network, focus: EgoFocus): Network | null {
+  const ego = getEgoNetwork(network.entities, network.relationships, focus);
+  if (!ego) return null;
+  const entities = network.entities.filter(e => ego.entityIds.has(e.id));
+  const usedTypes = new Set(entities.map(e => e.type));
+  const center = network.entities.find(e => e.id === focus.entityId)!;
+  const layout = network.layout?.centerId && !ego.entityIds.has(network.layout.centerId)
+    ? { ...network.layout, centerId: focus.entityId }
+    : network.layout;
+
+  return {
+    title: `${center.name} (${focus.hops} ${focus.hops === 1 ? 'hop' : 'hops'})`,
+    description: `Spun off from "${network.title}"`,
+    entities,
+    relationships: network.relationships.filter(r => ego.relationshipIds.has(r.id)),
+    entityTypes: network.entityTypes?.filter(t => usedTypes.has(t.id)),
+    relationshipTypes: network.relationshipTypes,
+    layout,
+  };
+}
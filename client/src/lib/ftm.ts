@@ -0,0 +1,473 @@
+/**
+ * Silent Partners - FollowTheMoney
+ *
+ * Reads and writes FollowTheMoney (FtM), the entity format of Aleph and
+ * OpenSanctions: one JSON object per line, each with an ID, a schema
+ * (Person, Company, Ownership...) and properties holding lists of strings.
+ * Thing schemata become entities of the matching type; interval schemata
+ * (Ownership, Directorship, Payment...) become relationships between them
+ * with their dates. FtM IDs are used as our entity and relationship IDs,
+ * and written back out as they came in, so a dataset can go to Aleph and
+ * back without losing its identifiers.
+ */
+
+import type { Entity, EntityAttribute, Network, Relationship } from './store';
+import type { EntityTypeDefinition } from './entity-types';
+import { getRelationshipTypeDefinition, normalizeRelationship } from './relationship-types';
+
+export interface FtmEntity {
+  id: string;
+  schema: string;
+  properties: Record<string, string[]>;
+  caption?: string;     // Display name, in OpenSanctions exports
+  datasets?: string[];  // Source datasets, in OpenSanctions exports
+}
+
+// ============================================
+// Schemata
+// ============================================
+
+// Properties of the thing schemata we map, by the schema that defines them.
+// Attributes are only written to properties the entity's schema has.
+const SCHEMA_MODEL: Record<string, { extends: string[]; properties: string[] }> = {
+  Thing: {
+    extends: [],
+    properties: [
+      'name', 'alias', 'weakAlias', 'previousName', 'description', 'summary', 'notes', 'country', 'address',
+      'sourceUrl', 'keywords', 'topics', 'wikidataId', 'program',
+    ],
+  },
+  Value: { extends: [], properties: ['amount', 'currency'] },
+  LegalEntity: {
+    extends: ['Thing'],
+    properties: [
+      'email', 'phone', 'website', 'legalForm', 'incorporationDate', 'dissolutionDate', 'taxNumber',
+      'registrationNumber', 'idNumber', 'jurisdiction', 'mainCountry', 'status', 'sector', 'classification',
+      'opencorporatesUrl', 'innCode', 'vatCode', 'leiCode', 'swiftBic', 'icijId', 'okpoCode', 'ogrnCode',
+    ],
+  },
+  Person: {
+    extends: ['LegalEntity'],
+    properties: [
+      'birthDate', 'birthPlace', 'deathDate', 'nationality', 'citizenship', 'gender', 'title', 'firstName',
+      'lastName', 'middleName', 'fatherName', 'position', 'education', 'religion', 'political',
+    ],
+  },
+  Organization: { extends: ['LegalEntity'], properties: [] },
+  PublicBody: { extends: ['Organization'], properties: [] },
+  Asset: { extends: ['Thing', 'Value'], properties: [] },
+  Company: { extends: ['Organization', 'Asset'], properties: ['capital'] },
+  Address: { extends: ['Thing'], properties: ['full', 'street', 'city', 'postalCode', 'region', 'state'] },
+  Event: { extends: ['Thing'], properties: ['date', 'startDate', 'endDate', 'location'] },
+  BankAccount: { extends: ['Asset'], properties: ['iban', 'accountNumber', 'bankName', 'bic', 'accountType', 'balance'] },
+  CryptoWallet: { extends: ['Asset'], properties: ['publicKey', 'balance'] },
+  Security: { extends: ['Asset'], properties: ['isin', 'ticker'] },
+  RealEstate: { extends: ['Asset'], properties: ['area', 'cadastralCode', 'landType', 'titleNumber', 'tenure'] },
+  Vehicle: { extends: ['Asset'], properties: ['registrationNumber', 'type', 'model', 'buildDate'] },
+  Vessel: { extends: ['Vehicle'], properties: ['imoNumber', 'mmsi', 'flag', 'callSign', 'tonnage'] },
+  Airplane: { extends: ['Vehicle'], properties: ['serialNumber', 'icaoCode', 'manufacturer'] },
+};
+
+// Entity types for the asset schemata that have no built-in type
+export const FTM_ENTITY_TYPES: EntityTypeDefinition[] = [
+  { id: 'bank_account', label: 'Bank Account', color: '#B8892A', icon: 'credit-card', shape: 'square' },
+  { id: 'crypto_wallet', label: 'Crypto Wallet', color: '#A67C52', icon: 'wallet', shape: 'square' },
+  { id: 'security', label: 'Security', color: '#8D6E63', icon: 'file-text', shape: 'square' },
+  { id: 'real_estate', label: 'Real Estate', color: '#6D8B74', icon: 'home', shape: 'square' },
+  { id: 'vehicle', label: 'Vehicle', color: '#607D8B', icon: 'car', shape: 'diamond' },
+  { id: 'vessel', label: 'Vessel', color: '#3F7CAC', icon: 'ship', shape: 'diamond' },
+  { id: 'airplane', label: 'Airplane', color: '#5C6BC0', icon: 'plane', shape: 'diamond' },
+];
+
+const SCHEMA_ENTITY_TYPES: Record<string, string> = {
+  Person: 'person',
+  Company: 'corporation',
+  Organization: 'organization',
+  PublicBody: 'government',
+  LegalEntity: 'unknown',
+  Event: 'event',
+  Address: 'location',
+  Asset: 'asset',
+  BankAccount: 'bank_account',
+  CryptoWallet: 'crypto_wallet',
+  Security: 'security',
+  RealEstate: 'real_estate',
+  Vehicle: 'vehicle',
+  Vessel: 'vessel',
+  Airplane: 'airplane',
+};
+
+// Written for each entity type; types not listed are written as LegalEntity
+const ENTITY_TYPE_SCHEMATA: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(SCHEMA_ENTITY_TYPES).map(([schema, type]) => [type, schema])),
+  financial: 'Company',
+};
+
+// Interval schemata: the properties naming each end, the relationship type,
+// and the property read as the relationship's label
+interface IntervalSchema {
+  source: string;
+  target: string;
+  type?: string;
+  labelProperty?: string;
+}
+
+const INTERVAL_SCHEMATA: Record<string, IntervalSchema> = {
+  Ownership: { source: 'owner', target: 'asset', type: 'owns', labelProperty: 'role' },
+  Directorship: { source: 'director', target: 'organization', type: 'director_of', labelProperty: 'role' },
+  Membership: { source: 'member', target: 'organization', type: 'member_of', labelProperty: 'role' },
+  Employment: { source: 'employee', target: 'employer', type: 'employed_by', labelProperty: 'role' },
+  Representation: { source: 'agent', target: 'client', type: 'advised', labelProperty: 'role' },
+  Payment: { source: 'payer', target: 'beneficiary', type: 'paid', labelProperty: 'purpose' },
+  Debt: { source: 'creditor', target: 'debtor', type: 'lent_to', labelProperty: 'purpose' },
+  Family: { source: 'person', target: 'relative', type: 'family', labelProperty: 'relationship' },
+  Associate: { source: 'person', target: 'associate', type: 'associate_of', labelProperty: 'relationship' },
+  UnknownLink: { source: 'subject', target: 'object', labelProperty: 'role' },
+};
+
+// Written for each relationship type; reversed types swap the ends, and
+// types not listed are written as UnknownLink
+const RELATIONSHIP_SCHEMATA: Record<string, { schema: string; reversed?: boolean }> = {
+  owns: { schema: 'Ownership' },
+  subsidiary_of: { schema: 'Ownership', reversed: true },
+  director_of: { schema: 'Directorship' },
+  officer_of: { schema: 'Directorship' },
+  member_of: { schema: 'Membership' },
+  employed_by: { schema: 'Employment' },
+  advised: { schema: 'Representation' },
+  paid: { schema: 'Payment' },
+  lent_to: { schema: 'Debt' },
+  family: { schema: 'Family' },
+  associate_of: { schema: 'Associate' },
+};
+
+// Properties that point at another entity, and the relationship they become
+const REFERENCE_TYPES: Record<string, string> = {
+  addressEntity: 'located_in',
+  parent: 'subsidiary_of',
+};
+
+// Read into entity fields rather than attributes
+const NAME_PROPERTIES = ['name'];
+const ALIAS_PROPERTIES = ['alias', 'weakAlias', 'previousName'];
+const DESCRIPTION_PROPERTIES = ['description', 'summary'];
+
+// Attribute keys for properties the generic "birthDate" -> "Birth date"
+// doesn't read well for
+const PROPERTY_LABELS: Record<string, string> = {
+  birthDate: 'Date of birth',
+  idNumber: 'ID number',
+  innCode: 'INN',
+  leiCode: 'LEI',
+  vatCode: 'VAT number',
+  okpoCode: 'OKPO',
+  ogrnCode: 'OGRN',
+  swiftBic: 'SWIFT/BIC',
+  icijId: 'ICIJ ID',
+  iban: 'IBAN',
+  bic: 'BIC',
+  isin: 'ISIN',
+  imoNumber: 'IMO number',
+  mmsi: 'MMSI',
+  icaoCode: 'ICAO code',
+  sourceUrl: 'Source URL',
+  opencorporatesUrl: 'OpenCorporates URL',
+  wikidataId: 'Wikidata ID',
+};
+
+function propertyLabel(property: string): string {
+  if (PROPERTY_LABELS[property]) return PROPERTY_LABELS[property];
+  const words = property.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const LABEL_PROPERTIES = new Map<string, string>();
+Object.values(SCHEMA_MODEL).forEach(({ properties }) => properties.forEach(property => {
+  LABEL_PROPERTIES.set(normalizeKey(property), property);
+  LABEL_PROPERTIES.set(normalizeKey(propertyLabel(property)), property);
+}));
+
+function schemaProperties(schema: string, into = new Set<string>()): Set<string> {
+  const model = SCHEMA_MODEL[schema];
+  if (!model) return into;
+  model.properties.forEach(p => into.add(p));
+  model.extends.forEach(parent => schemaProperties(parent, into));
+  return into;
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+export function isFtmFileName(fileName: string): boolean {
+  return /\.(ftm|ftm\.json|ijson|jsonl)$/i.test(fileName);
+}
+
+function isFtmEntity(value: unknown): value is FtmEntity {
+  if (!value || typeof value !== 'object') return false;
+  const e = value as Record<string, unknown>;
+  return typeof e.id === 'string' && typeof e.schema === 'string' && !!e.properties && typeof e.properties === 'object';
+}
+
+/**
+ * Whether text reads as FtM: its first line is an entity with an ID, a
+ * schema and properties.
+ */
+export function looksLikeFtm(text: string): boolean {
+  const firstLine = text.trimStart().split('\n', 1)[0];
+  try {
+    return isFtmEntity(JSON.parse(firstLine));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read FtM entities from JSON lines, or from a JSON array of them. Lines
+ * that aren't entities are counted and skipped.
+ */
+export function parseFtm(text: string): { entities: FtmEntity[]; invalidLines: number } {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) {
+    const values = JSON.parse(trimmed) as unknown[];
+    const entities = values.filter(isFtmEntity);
+    return { entities, invalidLines: values.length - entities.length };
+  }
+
+  const entities: FtmEntity[] = [];
+  let invalidLines = 0;
+  trimmed.split(/\r?\n/).forEach(line => {
+    if (!line.trim()) return;
+    try {
+      const value = JSON.parse(line);
+      if (isFtmEntity(value)) entities.push(value);
+      else invalidLines++;
+    } catch {
+      invalidLines++;
+    }
+  });
+  return { entities, invalidLines };
+}
+
+// ============================================
+// Import
+// ============================================
+
+function values(entity: FtmEntity, property: string): string[] {
+  const raw = entity.properties[property];
+  return Array.isArray(raw) ? raw.filter((v): v is string => typeof v === 'string' && v.trim() !== '') : [];
+}
+
+const first = (entity: FtmEntity, property: string | undefined) => (property ? values(entity, property)[0] : undefined);
+
+function entityName(entity: FtmEntity): string {
+  return values(entity, 'name')[0]
+    || entity.caption
+    || first(entity, 'full')
+    || [first(entity, 'firstName'), first(entity, 'lastName')].filter(Boolean).join(' ')
+    || entity.id;
+}
+
+function parsePercentage(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const percentage = parseFloat(value.replace('%', ''));
+  return Number.isFinite(percentage) && percentage >= 0 && percentage <= 100 ? percentage : undefined;
+}
+
+export interface FtmImport {
+  data: Record<string, unknown>;         // Shaped like our JSON export
+  skippedSchemata: Record<string, number>; // Schemata with no entity type or relationship
+}
+
+/**
+ * FtM entities as import data, shaped like our JSON export so they go
+ * through the same validation and import as a dropped JSON file.
+ */
+export function ftmToImportData(ftmEntities: FtmEntity[], title?: string): FtmImport {
+  const entities: Entity[] = [];
+  const relationships: Relationship[] = [];
+  const skippedSchemata: Record<string, number> = {};
+  const usedTypes = new Set<string>();
+  const ids = new Set(ftmEntities.filter(e => SCHEMA_ENTITY_TYPES[e.schema]).map(e => e.id));
+  const now = new Date().toISOString();
+
+  ftmEntities.forEach(ftm => {
+    const interval = INTERVAL_SCHEMATA[ftm.schema];
+    if (interval) {
+      const source = first(ftm, interval.source);
+      const target = first(ftm, interval.target);
+      if (!source || !target) {
+        skippedSchemata[ftm.schema] = (skippedSchemata[ftm.schema] || 0) + 1;
+        return;
+      }
+      const amount = first(ftm, 'amount');
+      const label = first(ftm, interval.labelProperty)
+        || first(ftm, 'summary')
+        || (amount ? [amount, first(ftm, 'currency')].filter(Boolean).join(' ') : undefined);
+      const percentage = ftm.schema === 'Ownership' ? parsePercentage(first(ftm, 'percentage')) : undefined;
+      const relationship: Relationship = {
+        id: ftm.id,
+        source,
+        target,
+        type: interval.type,
+        label,
+        status: 'confirmed',
+        startDate: first(ftm, 'startDate') || first(ftm, 'date'),
+        endDate: first(ftm, 'endDate'),
+        ownership: percentage !== undefined ? { percentage, shareClass: first(ftm, 'sharesType') } : undefined,
+      };
+      // An unknown link's role may still name a type in the vocabulary
+      relationships.push(interval.type ? relationship : normalizeRelationship(undefined, relationship));
+      return;
+    }
+
+    const type = SCHEMA_ENTITY_TYPES[ftm.schema];
+    if (!type) {
+      skippedSchemata[ftm.schema] = (skippedSchemata[ftm.schema] || 0) + 1;
+      return;
+    }
+    usedTypes.add(type);
+
+    const name = entityName(ftm);
+    const source = ftm.datasets?.[0] || 'FollowTheMoney';
+    const aliases = [...values(ftm, 'name').slice(1), ...ALIAS_PROPERTIES.flatMap(p => values(ftm, p))]
+      .filter((alias, i, all) => alias !== name && all.indexOf(alias) === i);
+    const attributes: EntityAttribute[] = [];
+
+    Object.keys(ftm.properties).forEach(property => {
+      if (NAME_PROPERTIES.includes(property) || ALIAS_PROPERTIES.includes(property) || DESCRIPTION_PROPERTIES.includes(property)) return;
+      values(ftm, property).forEach((value, index) => {
+        if (ids.has(value) && value !== ftm.id) {
+          relationships.push({
+            id: `${ftm.id}.${property}.${index}`,
+            source: ftm.id,
+            target: value,
+            type: REFERENCE_TYPES[property],
+            label: REFERENCE_TYPES[property] ? undefined : propertyLabel(property).toLowerCase(),
+            status: 'confirmed',
+          });
+          return;
+        }
+        attributes.push({
+          id: `${ftm.id}.${property}.${index}`,
+          key: propertyLabel(property),
+          value,
+          confidence: 0.8,
+          source,
+        });
+      });
+    });
+
+    entities.push({
+      id: ftm.id,
+      name,
+      type,
+      description: DESCRIPTION_PROPERTIES.map(p => first(ftm, p)).find(Boolean),
+      aliases: aliases.length > 0 ? aliases : undefined,
+      attributes: attributes.length > 0 ? attributes : undefined,
+      source_type: 'document',
+      created_at: now,
+    });
+  });
+
+  const entityTypes = FTM_ENTITY_TYPES.filter(t => usedTypes.has(t.id));
+  return {
+    data: {
+      title,
+      entities,
+      relationships,
+      entityTypes: entityTypes.length > 0 ? entityTypes : undefined,
+    },
+    skippedSchemata,
+  };
+}
+
+// ============================================
+// Export
+// ============================================
+
+function addValue(properties: Record<string, string[]>, property: string, value: string | number | undefined) {
+  if (value === undefined || value === '') return;
+  if (!properties[property]) properties[property] = [];
+  properties[property].push(String(value));
+}
+
+// The property a link was read from, when it has the ID ftmToImportData gives
+// links read from an entity's reference properties
+function referenceProperty(rel: Relationship): string | undefined {
+  if (!rel.id.startsWith(`${rel.source}.`)) return undefined;
+  return rel.id.slice(rel.source.length + 1).match(/^(\w+)\.\d+$/)?.[1];
+}
+
+/**
+ * The network as FtM JSON lines. Entities and relationships keep their IDs,
+ * so ones that came from FtM go back with the IDs they came with.
+ */
+export function networkToFtm(network: Network): string {
+  const things = new Map<string, FtmEntity>();
+  const intervals: FtmEntity[] = [];
+  const schemaOf = (id: string) => things.get(id)?.schema;
+
+  network.entities.forEach(entity => {
+    const schema = ENTITY_TYPE_SCHEMATA[entity.type] || 'LegalEntity';
+    const allowed = schemaProperties(schema);
+    const properties: Record<string, string[]> = {};
+
+    addValue(properties, 'name', entity.name);
+    entity.aliases?.forEach(alias => addValue(properties, 'alias', alias));
+    addValue(properties, 'description', entity.description);
+    entity.attributes?.forEach(attribute => {
+      const property = LABEL_PROPERTIES.get(normalizeKey(attribute.key));
+      if (property && allowed.has(property)) addValue(properties, property, attribute.value);
+      else addValue(properties, 'notes', `${attribute.key}: ${attribute.value}`);
+    });
+
+    things.set(entity.id, { id: entity.id, schema, properties });
+  });
+
+  network.relationships.forEach(rel => {
+    const from = things.get(rel.source);
+    if (!from || !things.has(rel.target)) return;
+    const properties: Record<string, string[]> = {};
+
+    // Addresses are linked through a property of the entity at them
+    if (rel.type === 'located_in' && schemaOf(rel.target) === 'Address') {
+      addValue(from.properties, 'addressEntity', rel.target);
+      return;
+    }
+
+    // As are links read from other reference properties
+    const property = referenceProperty(rel);
+    if (property) {
+      addValue(from.properties, property, rel.target);
+      return;
+    }
+
+    let mapping = (rel.type && RELATIONSHIP_SCHEMATA[rel.type]) || { schema: 'UnknownLink' };
+    // Family and associates link people only
+    if ((mapping.schema === 'Family' || mapping.schema === 'Associate')
+      && (schemaOf(rel.source) !== 'Person' || schemaOf(rel.target) !== 'Person')) {
+      mapping = { schema: 'UnknownLink' };
+    }
+    const interval = INTERVAL_SCHEMATA[mapping.schema];
+    const [source, target] = mapping.reversed ? [rel.target, rel.source] : [rel.source, rel.target];
+    addValue(properties, interval.source, source);
+    addValue(properties, interval.target, target);
+
+    const typeLabel = getRelationshipTypeDefinition(network.relationshipTypes, rel.type)?.label ?? rel.type;
+    const label = rel.label || (mapping.schema === 'UnknownLink' ? typeLabel : undefined);
+    addValue(properties, interval.labelProperty || 'summary', label);
+    addValue(properties, 'startDate', rel.startDate);
+    addValue(properties, 'endDate', rel.endDate);
+    if (mapping.schema === 'Ownership' && rel.ownership) {
+      addValue(properties, 'percentage', rel.ownership.percentage);
+      addValue(properties, 'sharesType', rel.ownership.shareClass);
+    }
+
+    intervals.push({ id: rel.id, schema: mapping.schema, properties });
+  });
+
+  return [...Array.from(things.values()), ...intervals].map(e => JSON.stringify(e)).join('\n') + '\n';
+}
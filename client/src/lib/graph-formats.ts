@@ -0,0 +1,574 @@
+/**
+ * Silent Partners - GraphML and GEXF
+ *
+ * Writes networks as GraphML (yEd, Gephi, NetworkX) and GEXF (Gephi) with
+ * every entity and relationship field as an attribute column, and reads
+ * those files back. A file read in is a set of columns; the investigator
+ * maps each column to a field (names we write map themselves), and the
+ * result is shaped like our JSON export so it goes through the same
+ * validation and import as a dropped JSON file.
+ */
+
+import type { Entity, Network, Relationship } from './store';
+import type { LayoutPositions } from './drafts';
+
+export type GraphFileFormat = 'graphml' | 'gexf';
+
+// ============================================
+// Fields
+// ============================================
+
+// Where a column's values go on an entity; 'attribute' keeps it as a fact
+// named after the column
+export type EntityField =
+  | 'name' | 'type' | 'description' | 'aliases' | 'attributes' | 'importance'
+  | 'x' | 'y' | 'source_text' | 'source_query' | 'source_type' | 'created_at'
+  | 'attribute' | 'ignore';
+
+export type RelationshipField =
+  | 'type' | 'label' | 'status' | 'strength' | 'startDate' | 'endDate'
+  | 'ownershipPercentage' | 'shareClass' | 'votingPercentage'
+  | 'ignore';
+
+export const ENTITY_FIELDS: Array<{ id: EntityField; label: string }> = [
+  { id: 'name', label: 'Name' },
+  { id: 'type', label: 'Type' },
+  { id: 'description', label: 'Description' },
+  { id: 'aliases', label: 'Aliases' },
+  { id: 'attributes', label: 'Attributes (JSON)' },
+  { id: 'importance', label: 'Importance' },
+  { id: 'x', label: 'Position x' },
+  { id: 'y', label: 'Position y' },
+  { id: 'source_text', label: 'Source text' },
+  { id: 'source_query', label: 'Source query' },
+  { id: 'source_type', label: 'Source type' },
+  { id: 'created_at', label: 'Added on' },
+  { id: 'attribute', label: 'Keep as attribute' },
+  { id: 'ignore', label: 'Ignore' },
+];
+
+export const RELATIONSHIP_FIELDS: Array<{ id: RelationshipField; label: string }> = [
+  { id: 'type', label: 'Type' },
+  { id: 'label', label: 'Label' },
+  { id: 'status', label: 'Status' },
+  { id: 'strength', label: 'Strength' },
+  { id: 'startDate', label: 'Start date' },
+  { id: 'endDate', label: 'End date' },
+  { id: 'ownershipPercentage', label: 'Ownership %' },
+  { id: 'shareClass', label: 'Share class' },
+  { id: 'votingPercentage', label: 'Voting %' },
+  { id: 'ignore', label: 'Ignore' },
+];
+
+const ALIAS_SEPARATOR = '; ';
+
+// Columns written for each field; numeric ones are typed as doubles
+interface ColumnSpec<T> {
+  name: string;
+  numeric?: boolean;
+  value: (item: T) => string | number | undefined;
+}
+
+function entityColumns(positionOf: (entity: Entity) => { x: number; y: number } | undefined): ColumnSpec<Entity>[] {
+  return [
+    { name: 'name', value: e => e.name },
+    { name: 'type', value: e => e.type },
+    { name: 'description', value: e => e.description },
+    { name: 'aliases', value: e => e.aliases?.join(ALIAS_SEPARATOR) },
+    { name: 'attributes', value: e => (e.attributes?.length ? JSON.stringify(e.attributes) : undefined) },
+    { name: 'importance', numeric: true, value: e => e.importance },
+    { name: 'x', numeric: true, value: e => positionOf(e)?.x },
+    { name: 'y', numeric: true, value: e => positionOf(e)?.y },
+    { name: 'source_text', value: e => e.source_text },
+    { name: 'source_query', value: e => e.source_query },
+    { name: 'source_type', value: e => e.source_type },
+    { name: 'created_at', value: e => e.created_at },
+  ];
+}
+
+const RELATIONSHIP_COLUMNS: ColumnSpec<Relationship>[] = [
+  { name: 'type', value: r => r.type },
+  { name: 'label', value: r => r.label },
+  { name: 'status', value: r => r.status },
+  { name: 'strength', numeric: true, value: r => r.strength },
+  { name: 'startDate', value: r => r.startDate },
+  { name: 'endDate', value: r => r.endDate },
+  { name: 'ownershipPercentage', numeric: true, value: r => r.ownership?.percentage },
+  { name: 'shareClass', value: r => r.ownership?.shareClass },
+  { name: 'votingPercentage', numeric: true, value: r => r.ownership?.votingPercentage },
+];
+
+// ============================================
+// Export
+// ============================================
+
+// Control characters other than tab and newlines aren't allowed in XML 1.0,
+// even escaped, so they are dropped
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Where the canvas placed each entity, or where it was last dragged to
+function positionReader(positions: LayoutPositions) {
+  return (entity: Entity) =>
+    positions[entity.id] ?? (entity.x !== undefined && entity.y !== undefined ? { x: entity.x, y: entity.y } : undefined);
+}
+
+function hasValue(value: string | number | undefined): value is string | number {
+  return value !== undefined && value !== '';
+}
+
+/**
+ * The network as GraphML. Positions are canvas units with y up.
+ */
+export function networkToGraphML(network: Network, positions: LayoutPositions = {}): string {
+  const nodeColumns = entityColumns(positionReader(positions));
+  const key = (domain: 'node' | 'edge', column: { name: string; numeric?: boolean }) =>
+    `  <key id="${domain[0]}_${column.name}" for="${domain}" attr.name="${column.name}" attr.type="${column.numeric ? 'double' : 'string'}"/>`;
+  const data = <T>(domain: 'node' | 'edge', columns: ColumnSpec<T>[], item: T) => columns
+    .map(column => {
+      const value = column.value(item);
+      return hasValue(value) ? `\n      <data key="${domain[0]}_${column.name}">${escapeXml(String(value))}</data>` : '';
+    })
+    .join('');
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    '  <key id="g_title" for="graph" attr.name="title" attr.type="string"/>',
+    '  <key id="g_description" for="graph" attr.name="description" attr.type="string"/>',
+    ...nodeColumns.map(c => key('node', c)),
+    ...RELATIONSHIP_COLUMNS.map(c => key('edge', c)),
+    '  <graph id="G" edgedefault="directed">',
+    `    <data key="g_title">${escapeXml(network.title || '')}</data>`,
+    `    <data key="g_description">${escapeXml(network.description || '')}</data>`,
+    ...network.entities.map(e => `    <node id="${escapeXml(e.id)}">${data('node', nodeColumns, e)}\n    </node>`),
+    ...network.relationships.map(r =>
+      `    <edge id="${escapeXml(r.id)}" source="${escapeXml(r.source)}" target="${escapeXml(r.target)}">${data('edge', RELATIONSHIP_COLUMNS, r)}\n    </edge>`
+    ),
+    '  </graph>',
+    '</graphml>',
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * The network as GEXF 1.3. Entity names are node labels, positions go in
+ * viz:position, and everything else is an attribute column.
+ */
+export function networkToGEXF(network: Network, positions: LayoutPositions = {}): string {
+  const positionOf = positionReader(positions);
+  // Names, positions and relationship labels have their own GEXF slots
+  const nodeColumns = entityColumns(positionOf).filter(c => !['name', 'x', 'y'].includes(c.name));
+  const edgeColumns = RELATIONSHIP_COLUMNS.filter(c => c.name !== 'label');
+  const declare = (columns: Array<{ name: string; numeric?: boolean }>) => columns
+    .map(c => `      <attribute id="${c.name}" title="${c.name}" type="${c.numeric ? 'double' : 'string'}"/>`);
+  const attvalues = <T>(columns: ColumnSpec<T>[], item: T) => {
+    const values = columns.flatMap(column => {
+      const value = column.value(item);
+      return hasValue(value) ? [`          <attvalue for="${column.name}" value="${escapeXml(String(value))}"/>`] : [];
+    });
+    return values.length > 0 ? `\n        <attvalues>\n${values.join('\n')}\n        </attvalues>` : '';
+  };
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://gexf.net/1.3 http://gexf.net/1.3/gexf.xsd" version="1.3">',
+    `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">`,
+    '    <creator>Silent Partners</creator>',
+    `    <title>${escapeXml(network.title || '')}</title>`,
+    `    <description>${escapeXml(network.description || '')}</description>`,
+    '  </meta>',
+    '  <graph defaultedgetype="directed" mode="static">',
+    '    <attributes class="node">',
+    ...declare(nodeColumns),
+    '    </attributes>',
+    '    <attributes class="edge">',
+    ...declare(edgeColumns),
+    '    </attributes>',
+    '    <nodes>',
+    ...network.entities.map(e => {
+      const position = positionOf(e);
+      const viz = position ? `\n        <viz:position x="${position.x}" y="${position.y}" z="0"/>` : '';
+      return `      <node id="${escapeXml(e.id)}" label="${escapeXml(e.name)}">${attvalues(nodeColumns, e)}${viz}\n      </node>`;
+    }),
+    '    </nodes>',
+    '    <edges>',
+    ...network.relationships.map(r => {
+      const label = r.label ? ` label="${escapeXml(r.label)}"` : '';
+      return `      <edge id="${escapeXml(r.id)}" source="${escapeXml(r.source)}" target="${escapeXml(r.target)}"${label}>${attvalues(edgeColumns, r)}\n      </edge>`;
+    }),
+    '    </edges>',
+    '  </graph>',
+    '</gexf>',
+  ];
+  return lines.join('\n');
+}
+
+// ============================================
+// Import
+// ============================================
+
+// An attribute column in a file; id is how elements refer to it
+export interface GraphFileColumn {
+  id: string;
+  name: string;
+}
+
+export interface GraphFileNode {
+  id: string;
+  values: Record<string, string>; // By column ID
+}
+
+export interface GraphFileEdge extends GraphFileNode {
+  source: string;
+  target: string;
+}
+
+export interface ParsedGraphFile {
+  format: GraphFileFormat;
+  title?: string;
+  description?: string;
+  nodeColumns: GraphFileColumn[];
+  edgeColumns: GraphFileColumn[];
+  nodes: GraphFileNode[];
+  edges: GraphFileEdge[];
+}
+
+// Column IDs for values GEXF and yEd keep outside attribute columns
+const LABEL_COLUMN = '@label';
+const X_COLUMN = '@x';
+const Y_COLUMN = '@y';
+const WEIGHT_COLUMN = '@weight';
+
+export function getGraphFileFormat(fileName: string): GraphFileFormat | null {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.graphml')) return 'graphml';
+  if (name.endsWith('.gexf')) return 'gexf';
+  return null;
+}
+
+// Elements matched by local name, whatever namespace prefix the file uses
+function elements(parent: Element | Document, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === localName);
+}
+
+function addColumn(columns: GraphFileColumn[], id: string, name: string) {
+  if (!columns.some(c => c.id === id)) columns.push({ id, name });
+}
+
+function parseGraphML(doc: Document): ParsedGraphFile {
+  const nodeColumns: GraphFileColumn[] = [];
+  const edgeColumns: GraphFileColumn[] = [];
+  const graphKeys = new Map<string, string>();
+  elements(doc, 'key').forEach(key => {
+    const id = key.getAttribute('id');
+    const name = key.getAttribute('attr.name');
+    // yEd's graphics keys have no name; labels and positions are read from them below
+    if (!id || !name) return;
+    const domain = key.getAttribute('for');
+    if (domain === 'node' || domain === 'all') addColumn(nodeColumns, id, name);
+    if (domain === 'edge' || domain === 'all') addColumn(edgeColumns, id, name);
+    if (domain === 'graph') graphKeys.set(id, name);
+  });
+
+  const dataValues = (el: Element) => Object.fromEntries(
+    childElements(el, 'data')
+      .filter(d => d.getAttribute('key') && !d.children.length)
+      .map(d => [d.getAttribute('key')!, (d.textContent || '').trim()])
+  );
+
+  const graph = elements(doc, 'graph')[0];
+  const graphData = graph ? dataValues(graph) : {};
+  const graphValue = (name: string) => {
+    const entry = Array.from(graphKeys.entries()).find(([, n]) => n === name);
+    return entry ? graphData[entry[0]] || undefined : undefined;
+  };
+
+  const nodes = elements(doc, 'node').flatMap(node => {
+    const id = node.getAttribute('id');
+    if (!id) return [];
+    const values = dataValues(node);
+    // yEd: the label and geometry (y down) of the node's shape
+    const label = elements(node, 'NodeLabel')[0]?.textContent?.trim();
+    if (label) {
+      values[LABEL_COLUMN] = label;
+      addColumn(nodeColumns, LABEL_COLUMN, 'label');
+    }
+    const geometry = elements(node, 'Geometry')[0];
+    if (geometry?.getAttribute('x') && geometry.getAttribute('y')) {
+      values[X_COLUMN] = geometry.getAttribute('x')!;
+      values[Y_COLUMN] = String(-parseFloat(geometry.getAttribute('y')!));
+      addColumn(nodeColumns, X_COLUMN, 'x');
+      addColumn(nodeColumns, Y_COLUMN, 'y');
+    }
+    return [{ id, values }];
+  });
+
+  const edges = elements(doc, 'edge').flatMap((edge, index) => {
+    const source = edge.getAttribute('source');
+    const target = edge.getAttribute('target');
+    if (!source || !target) return [];
+    const values = dataValues(edge);
+    const label = elements(edge, 'EdgeLabel')[0]?.textContent?.trim();
+    if (label) {
+      values[LABEL_COLUMN] = label;
+      addColumn(edgeColumns, LABEL_COLUMN, 'label');
+    }
+    return [{ id: edge.getAttribute('id') || `e${index}`, source, target, values }];
+  });
+
+  return {
+    format: 'graphml',
+    title: graphValue('title'),
+    description: graphValue('description'),
+    nodeColumns,
+    edgeColumns,
+    nodes,
+    edges,
+  };
+}
+
+function parseGEXF(doc: Document): ParsedGraphFile {
+  const nodeColumns: GraphFileColumn[] = [{ id: LABEL_COLUMN, name: 'label' }];
+  const edgeColumns: GraphFileColumn[] = [{ id: LABEL_COLUMN, name: 'label' }];
+  elements(doc, 'attributes').forEach(group => {
+    const columns = group.getAttribute('class') === 'edge' ? edgeColumns : nodeColumns;
+    childElements(group, 'attribute').forEach(attribute => {
+      const id = attribute.getAttribute('id');
+      if (id) addColumn(columns, id, attribute.getAttribute('title') || id);
+    });
+  });
+
+  const attValues = (el: Element) => {
+    const values: Record<string, string> = {};
+    childElements(el, 'attvalues').forEach(group => childElements(group, 'attvalue').forEach(v => {
+      const column = v.getAttribute('for') || v.getAttribute('id');
+      if (column) values[column] = v.getAttribute('value') || '';
+    }));
+    const label = el.getAttribute('label');
+    if (label) values[LABEL_COLUMN] = label;
+    return values;
+  };
+
+  const nodes = elements(doc, 'node').flatMap(node => {
+    const id = node.getAttribute('id');
+    if (!id) return [];
+    const values = attValues(node);
+    const position = childElements(node, 'position')[0];
+    if (position?.getAttribute('x') && position.getAttribute('y')) {
+      values[X_COLUMN] = position.getAttribute('x')!;
+      values[Y_COLUMN] = position.getAttribute('y')!;
+      addColumn(nodeColumns, X_COLUMN, 'x');
+      addColumn(nodeColumns, Y_COLUMN, 'y');
+    }
+    return [{ id, values }];
+  });
+
+  const edges = elements(doc, 'edge').flatMap((edge, index) => {
+    const source = edge.getAttribute('source');
+    const target = edge.getAttribute('target');
+    if (!source || !target) return [];
+    const values = attValues(edge);
+    const weight = edge.getAttribute('weight');
+    if (weight) {
+      values[WEIGHT_COLUMN] = weight;
+      addColumn(edgeColumns, WEIGHT_COLUMN, 'weight');
+    }
+    return [{ id: edge.getAttribute('id') || `e${index}`, source, target, values }];
+  });
+
+  const meta = elements(doc, 'meta')[0];
+  const metaText = (name: string) => (meta && childElements(meta, name)[0]?.textContent?.trim()) || undefined;
+  return {
+    format: 'gexf',
+    title: metaText('title'),
+    description: metaText('description'),
+    nodeColumns,
+    edgeColumns,
+    nodes,
+    edges,
+  };
+}
+
+/**
+ * Read a GraphML or GEXF file. Throws when it isn't well-formed XML of
+ * the expected kind.
+ */
+export function parseGraphFile(text: string, format: GraphFileFormat): ParsedGraphFile {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const error = doc.getElementsByTagName('parsererror')[0];
+  if (error) throw new Error(`Not valid XML: ${(error.textContent || '').trim().split('\n')[0]}`);
+  const root = doc.documentElement.localName;
+  if (format === 'graphml' && root !== 'graphml') throw new Error(`Expected a <graphml> document, found <${root}>`);
+  if (format === 'gexf' && root !== 'gexf') throw new Error(`Expected a <gexf> document, found <${root}>`);
+  return format === 'graphml' ? parseGraphML(doc) : parseGEXF(doc);
+}
+
+// ============================================
+// Field mapping
+// ============================================
+
+export interface GraphFileMapping {
+  nodes: Record<string, EntityField>;       // By column ID
+  edges: Record<string, RelationshipField>;
+}
+
+// Other names tools give our fields
+const ENTITY_SYNONYMS: Record<string, EntityField> = {
+  label: 'name',
+  title: 'name',
+  kind: 'type',
+  category: 'type',
+  weight: 'importance',
+  size: 'importance',
+};
+
+const RELATIONSHIP_SYNONYMS: Record<string, RelationshipField> = {
+  relationship: 'type',
+  kind: 'type',
+  weight: 'strength',
+  start: 'startDate',
+  end: 'endDate',
+  ownership: 'ownershipPercentage',
+  percentage: 'ownershipPercentage',
+};
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Map columns named like our fields to them. Other entity columns are kept
+ * as attributes; other relationship columns are ignored.
+ */
+export function suggestGraphFileMapping(parsed: ParsedGraphFile): GraphFileMapping {
+  const nodes: Record<string, EntityField> = {};
+  const used = new Set<EntityField>();
+  // Columns named exactly like a field claim it before synonyms do
+  const byName = (fields: Array<{ id: string }>, name: string) => fields.find(f => normalizeName(f.id) === normalizeName(name));
+  const ordered = [...parsed.nodeColumns].sort((a, b) => Number(!byName(ENTITY_FIELDS, a.name)) - Number(!byName(ENTITY_FIELDS, b.name)));
+  ordered.forEach(column => {
+    const field = (byName(ENTITY_FIELDS, column.name)?.id as EntityField | undefined) ?? ENTITY_SYNONYMS[normalizeName(column.name)];
+    if (field && field !== 'attribute' && field !== 'ignore' && !used.has(field)) {
+      nodes[column.id] = field;
+      used.add(field);
+    } else {
+      nodes[column.id] = 'attribute';
+    }
+  });
+
+  const edges: Record<string, RelationshipField> = {};
+  const usedEdge = new Set<RelationshipField>();
+  parsed.edgeColumns.forEach(column => {
+    const field = (byName(RELATIONSHIP_FIELDS, column.name)?.id as RelationshipField | undefined) ?? RELATIONSHIP_SYNONYMS[normalizeName(column.name)];
+    if (field && field !== 'ignore' && !usedEdge.has(field)) {
+      edges[column.id] = field;
+      usedEdge.add(field);
+    } else {
+      edges[column.id] = 'ignore';
+    }
+  });
+  return { nodes, edges };
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const number = parseFloat(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function parseJsonArray(value: string): unknown[] | undefined {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The file as our JSON import shape, for validateImportData and
+ * parseImportData. Nodes without a name are named by their ID.
+ */
+export function graphFileToImportData(parsed: ParsedGraphFile, mapping: GraphFileMapping): Record<string, unknown> {
+  const columnName = new Map(parsed.nodeColumns.map(c => [c.id, c.name]));
+
+  const entities = parsed.nodes.map(node => {
+    const entity: Record<string, unknown> = { id: node.id };
+    const attributes: unknown[] = [];
+    Object.entries(node.values).forEach(([columnId, value]) => {
+      const field = mapping.nodes[columnId];
+      if (!field || field === 'ignore' || value === '') return;
+      switch (field) {
+        case 'importance':
+        case 'x':
+        case 'y':
+          entity[field] = toNumber(value);
+          break;
+        case 'type':
+          entity.type = value.trim().toLowerCase();
+          break;
+        case 'aliases':
+          entity.aliases = value.split(/[;|]/).map(a => a.trim()).filter(Boolean);
+          break;
+        case 'attributes':
+          attributes.push(...(parseJsonArray(value) || []));
+          break;
+        case 'attribute':
+          attributes.push({ key: columnName.get(columnId) || columnId, value, source: `${parsed.format === 'gexf' ? 'GEXF' : 'GraphML'} import` });
+          break;
+        default:
+          entity[field] = value;
+      }
+    });
+    if (attributes.length > 0) entity.attributes = attributes;
+    if (!entity.name) entity.name = node.id;
+    return entity;
+  });
+
+  const relationships = parsed.edges.map(edge => {
+    const rel: Record<string, unknown> = { id: edge.id, source: edge.source, target: edge.target };
+    const ownership: Record<string, unknown> = {};
+    Object.entries(edge.values).forEach(([columnId, value]) => {
+      const field = mapping.edges[columnId];
+      if (!field || field === 'ignore' || value === '') return;
+      switch (field) {
+        case 'strength':
+          rel.strength = toNumber(value);
+          break;
+        case 'ownershipPercentage':
+          ownership.percentage = toNumber(value);
+          break;
+        case 'votingPercentage':
+          ownership.votingPercentage = toNumber(value);
+          break;
+        case 'shareClass':
+          ownership.shareClass = value;
+          break;
+        case 'status':
+          rel.status = value.trim().toLowerCase();
+          break;
+        default:
+          rel[field] = value;
+      }
+    });
+    if (Object.keys(ownership).length > 0) rel.ownership = ownership;
+    return rel;
+  });
+
+  return {
+    title: parsed.title,
+    description: parsed.description,
+    entities,
+    relationships,
+  };
+}
@@ -0,0 +1,255 @@
+/**
+ * Silent Partners - Layouts
+ *
+ * Fixed layouts to use in place of the force layout: a top-down hierarchy
+ * of ownership and control, rings of hops around a central entity, a
+ * circle grouped by entity type, and a Lombardi-style arc layout with the
+ * entities along one line in the order their relationships began.
+ * Positions are in layout units with y growing downwards; the canvas
+ * scales and flips them as it needs.
+ */
+
+import type { Entity, Relationship } from './store';
+import type { LayoutPositions } from './drafts';
+import { isOwnershipRelationship } from './ownership';
+import { CONTROL_CYCLE_TYPES } from './cycles';
+import { normalizeDate } from './timeline';
+
+export type LayoutAlgorithm = 'force' | 'hierarchical' | 'radial' | 'circular' | 'arc';
+
+// The layout chosen for a network
+export interface NetworkLayout {
+  algorithm: LayoutAlgorithm;
+  centerId?: string; // Radial layout center; the best-connected entity when unset
+}
+
+export const LAYOUT_ALGORITHMS: Array<{ id: LayoutAlgorithm; label: string; description: string }> = [
+  { id: 'force', label: 'Force', description: 'Connected entities pull together' },
+  { id: 'hierarchical', label: 'Hierarchy', description: 'Owners and controllers above what they hold' },
+  { id: 'radial', label: 'Radial', description: 'Rings of hops around the selected entity' },
+  { id: 'circular', label: 'Circular', description: 'One circle, grouped by entity type' },
+  { id: 'arc', label: 'Lombardi Arc', description: 'One line in the order relationships began' },
+];
+
+// Space between neighbouring entities, in layout units
+const SPACING = 10;
+
+export interface LayoutInput {
+  entities: Array<Pick<Entity, 'id' | 'name' | 'type'>>;
+  relationships: Array<Pick<Relationship, 'id' | 'source' | 'target' | 'type' | 'startDate' | 'ownership'>>;
+}
+
+type LayoutRelationship = LayoutInput['relationships'][number];
+
+function neighbourMap(input: LayoutInput): Map<string, string[]> {
+  const neighbours = new Map(input.entities.map(e => [e.id, [] as string[]]));
+  input.relationships.forEach(r => {
+    if (r.source === r.target || !neighbours.has(r.source) || !neighbours.has(r.target)) return;
+    neighbours.get(r.source)!.push(r.target);
+    neighbours.get(r.target)!.push(r.source);
+  });
+  return neighbours;
+}
+
+// Ownership and control links oriented from the holder to what it holds
+function controlLinks(input: LayoutInput): Array<[string, string]> {
+  return input.relationships
+    .filter(r => isOwnershipRelationship(r as Relationship) || CONTROL_CYCLE_TYPES.includes(r.type || ''))
+    .map((r): [string, string] => (r.type === 'subsidiary_of' ? [r.target, r.source] : [r.source, r.target]))
+    .filter(([from, to]) => from !== to);
+}
+
+/**
+ * Top-down hierarchy: each entity sits one level below the lowest of its
+ * owners and controllers. Loops are broken where they are first reached;
+ * entities outside any ownership chain share a row underneath.
+ */
+function hierarchicalLayout(input: LayoutInput): LayoutPositions {
+  const ids = new Set(input.entities.map(e => e.id));
+  const links = controlLinks(input).filter(([from, to]) => ids.has(from) && ids.has(to));
+  const children = new Map<string, string[]>();
+  const parents = new Map<string, string[]>();
+  links.forEach(([from, to]) => {
+    children.set(from, [...(children.get(from) || []), to]);
+    parents.set(to, [...(parents.get(to) || []), from]);
+  });
+
+  const inHierarchy = input.entities.filter(e => children.has(e.id) || parents.has(e.id));
+  const roots = inHierarchy.filter(e => !parents.has(e.id));
+  // A hierarchy that is one big loop still needs somewhere to start
+  if (roots.length === 0 && inHierarchy.length > 0) roots.push(inHierarchy[0]);
+
+  // Longest path from a root, never revisiting an entity on the current path
+  const level = new Map<string, number>();
+  const place = (id: string, depth: number, path: Set<string>) => {
+    if ((level.get(id) ?? -1) >= depth || path.has(id)) return;
+    level.set(id, depth);
+    path.add(id);
+    (children.get(id) || []).forEach(child => place(child, depth + 1, path));
+    path.delete(id);
+  };
+  roots.forEach(root => place(root.id, 0, new Set()));
+  // Loops not reachable from any root
+  inHierarchy.forEach(e => { if (!level.has(e.id)) place(e.id, 0, new Set()); });
+
+  const depth = Math.max(-1, ...Array.from(level.values())) + 1;
+  input.entities.forEach(e => { if (!level.has(e.id)) level.set(e.id, depth); });
+
+  // Order each level by the average position of its parents
+  const rows: string[][] = [];
+  input.entities.forEach(e => {
+    const row = level.get(e.id)!;
+    (rows[row] = rows[row] || []).push(e.id);
+  });
+  const order = new Map<string, number>();
+  const positions: LayoutPositions = {};
+  rows.forEach((row, y) => {
+    const barycenter = (id: string) => {
+      const placed = (parents.get(id) || []).filter(p => order.has(p));
+      return placed.length ? placed.reduce((sum, p) => sum + order.get(p)!, 0) / placed.length : Infinity;
+    };
+    const sorted = [...row].sort((a, b) => barycenter(a) - barycenter(b));
+    sorted.forEach((id, x) => {
+      order.set(id, x - (sorted.length - 1) / 2);
+      positions[id] = { x: order.get(id)! * SPACING, y: y * SPACING * 1.5 };
+    });
+  });
+  return positions;
+}
+
+/**
+ * Rings of hops around a central entity. Each entity is placed near the
+ * entity it was reached from; unreachable entities form the outer ring.
+ */
+function radialLayout(input: LayoutInput, centerId?: string): LayoutPositions {
+  const neighbours = neighbourMap(input);
+  const center = centerId && neighbours.has(centerId)
+    ? centerId
+    : input.entities.reduce<string | undefined>(
+        (best, e) => (!best || neighbours.get(e.id)!.length > neighbours.get(best)!.length ? e.id : best),
+        undefined
+      );
+  if (!center) return {};
+
+  // Breadth-first rings, each entity remembering its parent
+  const ring = new Map([[center, 0]]);
+  const parent = new Map<string, string>();
+  const queue = [center];
+  for (let head = 0; head < queue.length; head++) {
+    const id = queue[head];
+    neighbours.get(id)!.forEach(next => {
+      if (ring.has(next)) return;
+      ring.set(next, ring.get(id)! + 1);
+      parent.set(next, id);
+      queue.push(next);
+    });
+  }
+  const outer = Math.max(...Array.from(ring.values())) + 1;
+  input.entities.forEach(e => { if (!ring.has(e.id)) ring.set(e.id, outer); });
+
+  const rings: string[][] = [];
+  input.entities.forEach(e => {
+    const r = ring.get(e.id)!;
+    (rings[r] = rings[r] || []).push(e.id);
+  });
+
+  const angle = new Map<string, number>([[center, 0]]);
+  const positions: LayoutPositions = { [center]: { x: 0, y: 0 } };
+  rings.forEach((members, r) => {
+    if (r === 0) return;
+    // Keep children in their parent's direction
+    const sorted = [...members].sort((a, b) => (angle.get(parent.get(a) || '') ?? Infinity) - (angle.get(parent.get(b) || '') ?? Infinity));
+    sorted.forEach((id, i) => {
+      const theta = (i / sorted.length) * 2 * Math.PI;
+      angle.set(id, theta);
+      positions[id] = { x: Math.cos(theta) * r * SPACING * 1.5, y: Math.sin(theta) * r * SPACING * 1.5 };
+    });
+  });
+  return positions;
+}
+
+/**
+ * One circle with entities of the same type together and a gap between
+ * types.
+ */
+function circularLayout(input: LayoutInput): LayoutPositions {
+  const sorted = [...input.entities].sort((a, b) => a.type.localeCompare(b.type) || a.name.localeCompare(b.name));
+  const groups = new Set(sorted.map(e => e.type)).size;
+  const slots = sorted.length + (groups > 1 ? groups : 0);
+  const radius = Math.max(SPACING, (slots * SPACING) / (2 * Math.PI));
+  const positions: LayoutPositions = {};
+  let slot = 0;
+  sorted.forEach((entity, i) => {
+    if (i > 0 && groups > 1 && entity.type !== sorted[i - 1].type) slot++;
+    const theta = (slot / slots) * 2 * Math.PI - Math.PI / 2;
+    positions[entity.id] = { x: Math.cos(theta) * radius, y: Math.sin(theta) * radius };
+    slot++;
+  });
+  return positions;
+}
+
+/**
+ * Lombardi's arc diagrams: entities along a horizontal line in the order
+ * their earliest relationship began, so the story reads left to right.
+ * Undated entities follow the dated entity they connect to, or go last.
+ */
+function arcLayout(input: LayoutInput): LayoutPositions {
+  const neighbours = neighbourMap(input);
+  const earliest = new Map<string, string>();
+  input.relationships.forEach((r: LayoutRelationship) => {
+    const start = normalizeDate(r.startDate);
+    if (!start) return;
+    [r.source, r.target].forEach(id => {
+      if (!earliest.has(id) || start < earliest.get(id)!) earliest.set(id, start);
+    });
+  });
+
+  const dated = input.entities
+    .filter(e => earliest.has(e.id))
+    .sort((a, b) => earliest.get(a.id)!.localeCompare(earliest.get(b.id)!));
+  const order: string[] = [];
+  const placed = new Set<string>();
+  // Depth-first from each entity in date order, so neighbours stay close
+  const visit = (id: string) => {
+    if (placed.has(id)) return;
+    placed.add(id);
+    order.push(id);
+    neighbours.get(id)!
+      .filter(next => !earliest.has(next))
+      .forEach(visit);
+  };
+  dated.forEach(e => visit(e.id));
+  // Entities with no dated relationship anywhere near them, most connected first
+  [...input.entities]
+    .sort((a, b) => neighbours.get(b.id)!.length - neighbours.get(a.id)!.length)
+    .forEach(e => visit(e.id));
+
+  const positions: LayoutPositions = {};
+  order.forEach((id, i) => {
+    positions[id] = { x: (i - (order.length - 1) / 2) * SPACING, y: 0 };
+  });
+  return positions;
+}
+
+/**
+ * Positions for every entity under a fixed layout, or null for the force
+ * layout, which the canvas simulates itself.
+ */
+export function computeLayout(input: LayoutInput, layout: NetworkLayout | undefined): LayoutPositions | null {
+  switch (layout?.algorithm) {
+    case 'hierarchical':
+      return hierarchicalLayout(input);
+    case 'radial':
+      return radialLayout(input, layout.centerId);
+    case 'circular':
+      return circularLayout(input);
+    case 'arc':
+      return arcLayout(input);
+    default:
+      return null;
+  }
+}
+
+export function getLayoutLabel(layout: NetworkLayout | undefined): string {
+  return LAYOUT_ALGORITHMS.find(l => l.id === (layout?.algorithm || 'force'))!.label;
+}
@@ -0,0 +1,168 @@
+/**
+ * Silent Partners - Network History
+ *
+ * Undo/redo support for the network reducer. Every action that changes the
+ * network is recorded as an invertible patch: only the entities and
+ * relationships that were added, removed or replaced are stored (by
+ * reference), plus any changed top-level network fields. This keeps memory
+ * bounded on large graphs, unlike storing full snapshots.
+ */
+
+import { Network, Entity, Relationship } from './store';
+
+interface ItemChange<T> {
+  id: string;
+  before?: T;       // undefined when the item was added
+  after?: T;        // undefined when the item was removed
+  index: number;    // Position in the array before the change (for re-insertion)
+}
+
+export interface NetworkPatch {
+  entities: ItemChange<Entity>[];
+  relationships: ItemChange<Relationship>[];
+  fields: {
+    before: Partial<Network>;
+    after: Partial<Network>;
+  };
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  actionType: string;
+  timestamp: string;
+  patch: NetworkPatch;
+}
+
+export interface NetworkHistory {
+  past: HistoryEntry[];   // Most recent last
+  future: HistoryEntry[]; // Next redo last
+}
+
+export const initialHistory: NetworkHistory = { past: [], future: [] };
+
+// Bounds: number of entries, and total item changes held across all entries
+export const MAX_HISTORY_ENTRIES = 100;
+export const MAX_HISTORY_CHANGES = 20000;
+
+function diffItems<T extends { id: string }>(before: T[], after: T[]): ItemChange<T>[] {
+  if (before === after) return [];
+
+  const changes: ItemChange<T>[] = [];
+  const afterById = new Map<string, T>();
+  after.forEach(item => afterById.set(item.id, item));
+
+  const beforeIds = new Set<string>();
+  before.forEach((item, index) => {
+    beforeIds.add(item.id);
+    const next = afterById.get(item.id);
+    if (next === undefined) {
+      changes.push({ id: item.id, before: item, index });
+    } else if (next !== item) {
+      changes.push({ id: item.id, before: item, after: next, index });
+    }
+  });
+
+  after.forEach((item, index) => {
+    if (!beforeIds.has(item.id)) {
+      changes.push({ id: item.id, after: item, index });
+    }
+  });
+
+  return changes;
+}
+
+function copyField<K extends keyof Network>(target: Partial<Network>, source: Network, key: K) {
+  target[key] = source[key];
+}
+
+/**
+ * Compute the patch that turns `before` into `after`.
+ */
+export function diffNetworks(before: Network, after: Network): NetworkPatch {
+  const fields: NetworkPatch['fields'] = { before: {}, after: {} };
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof Network>;
+  keys.forEach(key => {
+    if (key === 'entities' || key === 'relationships') return;
+    if (before[key] !== after[key]) {
+      copyField(fields.before, before, key);
+      copyField(fields.after, after, key);
+    }
+  });
+
+  return {
+    entities: diffItems(before.entities, after.entities),
+    relationships: diffItems(before.relationships, after.relationships),
+    fields,
+  };
+}
+
+export function isEmptyPatch(patch: NetworkPatch): boolean {
+  return patch.entities.length === 0 &&
+    patch.relationships.length === 0 &&
+    Object.keys(patch.fields.after).length === 0 &&
+    Object.keys(patch.fields.before).length === 0;
+}
+
+export function patchSize(patch: NetworkPatch): number {
+  return patch.entities.length + patch.relationships.length + 1;
+}
+
+function applyItems<T extends { id: string }>(
+  items: T[],
+  changes: ItemChange<T>[],
+  direction: 'undo' | 'redo'
+): T[] {
+  if (changes.length === 0) return items;
+
+  const target = (c: ItemChange<T>) => (direction === 'undo' ? c.before : c.after);
+  const source = (c: ItemChange<T>) => (direction === 'undo' ? c.after : c.before);
+
+  // Replace in place and drop removed items
+  const replacements = new Map<string, T | undefined>();
+  changes.forEach(c => {
+    if (source(c) !== undefined) replacements.set(c.id, target(c));
+  });
+  const result: T[] = [];
+  items.forEach(item => {
+    if (!replacements.has(item.id)) {
+      result.push(item);
+    } else {
+      const next = replacements.get(item.id);
+      if (next !== undefined) result.push(next);
+    }
+  });
+
+  // Re-insert restored items at their recorded positions
+  const insertions = changes
+    .filter(c => source(c) === undefined && target(c) !== undefined)
+    .sort((a, b) => a.index - b.index);
+  insertions.forEach(c => {
+    result.splice(Math.min(c.index, result.length), 0, target(c) as T);
+  });
+
+  return result;
+}
+
+/**
+ * Apply a patch to a network, either reverting it (undo) or re-applying it (redo).
+ */
+export function applyPatch(network: Network, patch: NetworkPatch, direction: 'undo' | 'redo'): Network {
+  const fieldValues = direction === 'undo' ? patch.fields.before : patch.fields.after;
+  const next: Network = { ...network, ...fieldValues };
+  next.entities = applyItems(network.entities, patch.entities, direction);
+  next.relationships = applyItems(network.relationships, patch.relationships, direction);
+  return next;
+}
+
+/**
+ * Record a new entry, dropping the redo stack and trimming to the memory bounds.
+ */
+export function pushHistoryEntry(history: NetworkHistory, entry: HistoryEntry): NetworkHistory {
+  const past = [...history.past, entry];
+  let total = past.reduce((sum, e) => sum + patchSize(e.patch), 0);
+  while (past.length > 1 && (past.length > MAX_HISTORY_ENTRIES || total > MAX_HISTORY_CHANGES)) {
+    total -= patchSize(past.shift()!.patch);
+  }
+  return { past, future: [] };
+}
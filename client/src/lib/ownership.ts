@@ -0,0 +1,194 @@
+/**
+ * Silent Partners - Ownership Analysis
+ *
+ * Walks ownership links up from a company to find its ultimate beneficial
+ * owners (UBOs). Stakes multiply through each chain, so a person holding
+ * 50% of a holding company that owns 40% of the target holds 20% of it
+ * effectively, and the chains through several holdings add up.
+ */
+
+import type { Entity, Network, Relationship } from './store';
+
+// One "owner holds percentage of owned" step, read off a relationship
+export interface OwnershipLink {
+  relationshipId: string;
+  ownerId: string;
+  ownedId: string;
+  percentage: number | null; // null when the link has no recorded stake
+}
+
+export interface BeneficialOwner {
+  entity: Entity;
+  effectivePercentage: number; // Sum of the chains with known stakes
+  hasUnknownStake: boolean;    // Some chain has a link without a percentage
+  chainCount: number;
+  entityIds: string[];         // Everything on the owner's chains to the company
+  relationshipIds: string[];
+}
+
+export interface BeneficialOwnershipOptions {
+  asOf?: string;      // Only count holdings current on this date (YYYY-MM-DD)
+  maxDepth?: number;  // Longest chain to follow
+}
+
+export const DEFAULT_UBO_THRESHOLDS = [10, 25];
+
+/**
+ * Whether a relationship is an ownership link. Links with a stake count
+ * whatever their type; otherwise the type must be "owns" or "subsidiary of"
+ * after normalization.
+ */
+export function isOwnershipRelationship(relationship: Relationship): boolean {
+  return !!relationship.ownership || relationship.type === 'owns' || relationship.type === 'subsidiary_of';
+}
+
+// Whether a holding with this date range is current on the given date
+function isCurrent(relationship: Relationship, asOf?: string): boolean {
+  if (!asOf) return relationship.status !== 'former';
+  if (relationship.startDate && relationship.startDate > asOf) return false;
+  if (relationship.endDate && relationship.endDate < asOf) return false;
+  return true;
+}
+
+/**
+ * The network's ownership links, oriented owner -> owned. "A subsidiary of
+ * B" (source A, target B) is a link from B to A, and its stake is B's
+ * share of A.
+ */
+export function getOwnershipLinks(network: Network, asOf?: string): OwnershipLink[] {
+  return network.relationships
+    .filter(r => isOwnershipRelationship(r) && isCurrent(r, asOf))
+    .map(r => {
+      const reversed = r.type === 'subsidiary_of';
+      return {
+        relationshipId: r.id,
+        ownerId: reversed ? r.target : r.source,
+        ownedId: reversed ? r.source : r.target,
+        percentage: r.ownership ? r.ownership.percentage : null,
+      };
+    });
+}
+
+// The chains from one entity up to one of its ultimate owners, taken together
+interface ChainTotals {
+  fraction: number;       // Sum over the chains with known stakes, as a share of the entity
+  hasUnknownStake: boolean;
+  chainCount: number;
+  entityIds: Set<string>;
+  relationshipIds: Set<string>;
+}
+
+/**
+ * Total the effective stake of each ultimate owner of a company: a person,
+ * or any entity nobody is recorded as owning, following every ownership
+ * chain up from the company. Links that loop back down a chain are cut.
+ * Totals are kept per entity and depth rather than per chain, so networks
+ * with many crossing chains stay quick to analyze.
+ */
+export function computeBeneficialOwners(
+  network: Network,
+  companyId: string,
+  options: BeneficialOwnershipOptions = {}
+): BeneficialOwner[] {
+  const { asOf, maxDepth = 12 } = options;
+  const ownersOf = new Map<string, OwnershipLink[]>();
+  for (const link of getOwnershipLinks(network, asOf)) {
+    const list = ownersOf.get(link.ownedId) || [];
+    list.push(link);
+    ownersOf.set(link.ownedId, list);
+  }
+  const entitiesById = new Map(network.entities.map(e => [e.id, e]));
+
+  // Drop the links that close a loop, leaving the chains without cycles
+  const cut = new Set<string>();
+  const state = new Map<string, 'open' | 'done'>();
+  const visit = (entityId: string) => {
+    state.set(entityId, 'open');
+    for (const link of ownersOf.get(entityId) || []) {
+      const seen = state.get(link.ownerId);
+      if (seen === 'open') cut.add(link.relationshipId);
+      else if (!seen) visit(link.ownerId);
+    }
+    state.set(entityId, 'done');
+  };
+  visit(companyId);
+
+  const memo = new Map<string, Map<string, ChainTotals>>();
+  // Ultimate owners of an entity `depth` links up from the company
+  const totalsFor = (entityId: string, depth: number): Map<string, ChainTotals> => {
+    const key = `${depth}:${entityId}`;
+    const cached = memo.get(key);
+    if (cached) return cached;
+
+    const links = (ownersOf.get(entityId) || []).filter(link => !cut.has(link.relationshipId));
+    const isPerson = entitiesById.get(entityId)?.type === 'person';
+    const totals = new Map<string, ChainTotals>();
+    if (entityId !== companyId && (isPerson || links.length === 0 || depth >= maxDepth)) {
+      totals.set(entityId, {
+        fraction: 1, hasUnknownStake: false, chainCount: 1,
+        entityIds: new Set([entityId]), relationshipIds: new Set(),
+      });
+    } else {
+      for (const link of links) {
+        totalsFor(link.ownerId, depth + 1).forEach((above, ownerId) => {
+          const total = totals.get(ownerId) || {
+            fraction: 0, hasUnknownStake: false, chainCount: 0,
+            entityIds: new Set([entityId]), relationshipIds: new Set<string>(),
+          };
+          if (link.percentage === null) {
+            total.hasUnknownStake = true;
+          } else {
+            total.fraction += above.fraction * (link.percentage / 100);
+            total.hasUnknownStake = total.hasUnknownStake || above.hasUnknownStake;
+          }
+          total.chainCount += above.chainCount;
+          above.entityIds.forEach(id => total.entityIds.add(id));
+          above.relationshipIds.forEach(id => total.relationshipIds.add(id));
+          total.relationshipIds.add(link.relationshipId);
+          totals.set(ownerId, total);
+        });
+      }
+    }
+    memo.set(key, totals);
+    return totals;
+  };
+
+  return Array.from(totalsFor(companyId, 0))
+    .flatMap(([ownerId, total]) => {
+      const entity = entitiesById.get(ownerId);
+      if (!entity) return [];
+      return [{
+        entity,
+        effectivePercentage: total.fraction * 100,
+        hasUnknownStake: total.hasUnknownStake,
+        chainCount: total.chainCount,
+        entityIds: Array.from(total.entityIds),
+        relationshipIds: Array.from(total.relationshipIds),
+      }];
+    })
+    .sort((a, b) => b.effectivePercentage - a.effectivePercentage);
+}
+
+/**
+ * The highest threshold an owner's effective stake reaches, if any.
+ */
+export function highestThresholdMet(owner: BeneficialOwner, thresholds: number[]): number | null {
+  const met = thresholds.filter(t => owner.effectivePercentage >= t);
+  return met.length > 0 ? Math.max(...met) : null;
+}
+
+/**
+ * Read a comma-separated threshold list like "10, 25", dropping anything
+ * that isn't a percentage.
+ */
+export function parseThresholds(input: string): number[] {
+  return input
+    .split(',')
+    .map(t => parseFloat(t))
+    .filter(t => !isNaN(t) && t > 0 && t <= 100)
+    .sort((a, b) => a - b);
+}
+
+export function formatPercentage(value: number): string {
+  return `${value.toFixed(value < 1 ? 2 : 1).replace(/\.0+$/, '')}%`;
+}
@@ -0,0 +1,192 @@
+/**
+ * Silent Partners - Path Finder
+ *
+ * Finds how two entities connect through the network's own relationships:
+ * every shortest path, or every simple path up to a length limit.
+ * Relationships are followed in either direction; the chain text reads
+ * each step the way it is traversed ("A —director of→ B —owned by→ C").
+ */
+
+import type { Network, Relationship } from './store';
+import { getRelationshipTypeDefinition } from './relationship-types';
+
+export interface PathFilters {
+  confirmedOnly?: boolean;       // Skip suspected and former relationships
+  excludedTypes?: string[];      // Relationship types never followed
+  excludedEntityIds?: string[];  // Entities the path may not pass through
+}
+
+export interface PathStep {
+  relationship: Relationship;
+  fromId: string;
+  toId: string;
+  forward: boolean; // Traversed source -> target
+}
+
+export interface GraphPath {
+  entityIds: string[];       // From the start entity to the end entity
+  relationshipIds: string[];
+  steps: PathStep[];
+}
+
+export interface PathSearchOptions {
+  maxLength?: number;  // Most relationships in a simple path
+  maxPaths?: number;   // Stop after this many paths
+}
+
+export interface PathSearchResult {
+  paths: GraphPath[];
+  truncated: boolean;  // More paths exist than were returned
+}
+
+// Relationships that pass the filters, indexed by the entities they touch
+function buildSteps(network: Network, filters: PathFilters): Map<string, PathStep[]> {
+  const excludedTypes = new Set(filters.excludedTypes || []);
+  const excludedEntities = new Set(filters.excludedEntityIds || []);
+  const steps = new Map<string, PathStep[]>();
+  const add = (step: PathStep) => steps.set(step.fromId, [...(steps.get(step.fromId) || []), step]);
+
+  network.relationships.forEach(relationship => {
+    if (filters.confirmedOnly && (relationship.status || 'confirmed') !== 'confirmed') return;
+    if (relationship.type && excludedTypes.has(relationship.type)) return;
+    if (excludedEntities.has(relationship.source) || excludedEntities.has(relationship.target)) return;
+    if (relationship.source === relationship.target) return;
+    add({ relationship, fromId: relationship.source, toId: relationship.target, forward: true });
+    add({ relationship, fromId: relationship.target, toId: relationship.source, forward: false });
+  });
+  return steps;
+}
+
+function toPath(fromId: string, steps: PathStep[]): GraphPath {
+  return {
+    entityIds: [fromId, ...steps.map(s => s.toId)],
+    relationshipIds: steps.map(s => s.relationship.id),
+    steps,
+  };
+}
+
+/**
+ * Every shortest path between two entities. Parallel relationships between
+ * the same entities make separate paths.
+ */
+export function findShortestPaths(
+  network: Network,
+  fromId: string,
+  toId: string,
+  filters: PathFilters = {},
+  options: PathSearchOptions = {}
+): PathSearchResult {
+  const { maxPaths = 50 } = options;
+  if (fromId === toId) return { paths: [], truncated: false };
+  const stepsFrom = buildSteps(network, filters);
+
+  // Breadth-first from the start, remembering every step that arrives at
+  // an entity on a shortest route
+  const distance = new Map([[fromId, 0]]);
+  const arrivals = new Map<string, PathStep[]>();
+  const queue = [fromId];
+  for (let head = 0; head < queue.length; head++) {
+    const current = queue[head];
+    if (current === toId) continue;
+    for (const step of stepsFrom.get(current) || []) {
+      const d = distance.get(current)! + 1;
+      if (!distance.has(step.toId)) {
+        distance.set(step.toId, d);
+        queue.push(step.toId);
+      }
+      if (distance.get(step.toId) === d) {
+        arrivals.set(step.toId, [...(arrivals.get(step.toId) || []), step]);
+      }
+    }
+  }
+  if (!distance.has(toId)) return { paths: [], truncated: false };
+
+  // Walk the arrivals back from the end
+  const paths: GraphPath[] = [];
+  let truncated = false;
+  const collect = (entityId: string, suffix: PathStep[]) => {
+    if (entityId === fromId) {
+      if (paths.length >= maxPaths) {
+        truncated = true;
+        return;
+      }
+      paths.push(toPath(fromId, suffix));
+      return;
+    }
+    for (const step of arrivals.get(entityId) || []) {
+      if (truncated) return;
+      collect(step.fromId, [step, ...suffix]);
+    }
+  };
+  collect(toId, []);
+
+  return { paths, truncated };
+}
+
+/**
+ * Every simple path (no entity visited twice) between two entities, up to
+ * the length limit, shortest first.
+ */
+export function findAllSimplePaths(
+  network: Network,
+  fromId: string,
+  toId: string,
+  filters: PathFilters = {},
+  options: PathSearchOptions = {}
+): PathSearchResult {
+  const { maxLength = 4, maxPaths = 100 } = options;
+  if (fromId === toId) return { paths: [], truncated: false };
+  const stepsFrom = buildSteps(network, filters);
+  const paths: GraphPath[] = [];
+  let truncated = false;
+
+  // Iterative deepening: all paths of one length before any longer ones,
+  // so hitting the limit drops the longest paths
+  const visited = new Set([fromId]);
+  const walk = (entityId: string, steps: PathStep[], length: number) => {
+    for (const step of stepsFrom.get(entityId) || []) {
+      if (truncated) return;
+      if (steps.length + 1 === length) {
+        if (step.toId !== toId) continue;
+        if (paths.length >= maxPaths) {
+          truncated = true;
+          return;
+        }
+        paths.push(toPath(fromId, [...steps, step]));
+      } else if (step.toId !== toId && !visited.has(step.toId)) {
+        visited.add(step.toId);
+        walk(step.toId, [...steps, step], length);
+        visited.delete(step.toId);
+      }
+    }
+  };
+  for (let length = 1; length <= maxLength && !truncated; length++) {
+    walk(fromId, [], length);
+  }
+
+  return { paths, truncated };
+}
+
+// How one step reads in the direction it was traversed
+function formatStep(network: Network, step: PathStep): string {
+  const { relationship, forward } = step;
+  const definition = getRelationshipTypeDefinition(network.relationshipTypes, relationship.type);
+  const label = relationship.label || definition?.label || relationship.type || 'connected to';
+  if (definition && !definition.directed) return `—${label}—`;
+  if (forward) return `—${label}→`;
+  // Read a backwards step with the inverse label where the vocabulary has one
+  const isCanonicalLabel = !relationship.label || relationship.label === definition?.label;
+  return definition && isCanonicalLabel ? `—${definition.inverseLabel}→` : `←${label}—`;
+}
+
+/**
+ * A path as a textual chain: "A —director of→ B —owns→ C".
+ */
+export function formatPathChain(network: Network, path: GraphPath): string {
+  const names = new Map(network.entities.map(e => [e.id, e.name]));
+  const name = (id: string) => names.get(id) || id;
+  return path.steps.reduce(
+    (chain, step) => `${chain} ${formatStep(network, step)} ${name(step.toId)}`,
+    name(path.entityIds[0])
+  );
+}
@@ -0,0 +1,274 @@
+/**
+ * Silent Partners - Relationship Vocabulary
+ *
+ * Each network keeps a vocabulary of relationship types: a canonical name,
+ * whether the type has a direction, the label read from the other end
+ * ("owns" / "owned by") and the synonyms that mean the same thing. The
+ * vocabulary normalizes relationships as they are added, so "owner of",
+ * "shareholder in" and "OWNS" all become one "owns" type, and decides which
+ * links get arrowheads on the canvas.
+ */
+
+import type { Network, Relationship } from './store';
+
+export interface RelationshipTypeDefinition {
+  id: string;             // Stored in Relationship.type, e.g. "owns"
+  label: string;          // Read source -> target, e.g. "owns"
+  inverseLabel: string;   // Read target -> source, e.g. "owned by"
+  directed: boolean;      // Undirected types read the same both ways
+  synonyms: string[];     // Other phrasings that mean this type
+}
+
+export const DEFAULT_RELATIONSHIP_TYPES: RelationshipTypeDefinition[] = [
+  {
+    id: 'owns', label: 'owns', inverseLabel: 'owned by', directed: true,
+    synonyms: ['owner of', 'ownership', 'shareholder in', 'shareholder of', 'holds stake in', 'stake in', 'beneficial owner of'],
+  },
+  {
+    id: 'controls', label: 'controls', inverseLabel: 'controlled by', directed: true,
+    synonyms: ['control', 'in control of', 'has control over'],
+  },
+  {
+    id: 'subsidiary_of', label: 'subsidiary of', inverseLabel: 'parent of', directed: true,
+    synonyms: ['subsidiary', 'child company of', 'division of'],
+  },
+  {
+    id: 'director_of', label: 'director of', inverseLabel: 'has director', directed: true,
+    synonyms: ['director', 'board member of', 'board member', 'sits on board of', 'chairman of', 'chair of'],
+  },
+  {
+    id: 'officer_of', label: 'officer of', inverseLabel: 'has officer', directed: true,
+    synonyms: ['ceo of', 'cfo of', 'executive of', 'president of', 'manages', 'manager of'],
+  },
+  {
+    id: 'employed_by', label: 'employed by', inverseLabel: 'employs', directed: true,
+    synonyms: ['employee of', 'works for', 'worked for', 'employment'],
+  },
+  {
+    id: 'founded', label: 'founded', inverseLabel: 'founded by', directed: true,
+    synonyms: ['founder of', 'co-founded', 'cofounder of', 'established', 'created'],
+  },
+  {
+    id: 'invested_in', label: 'invested in', inverseLabel: 'received investment from', directed: true,
+    synonyms: ['investor in', 'investment', 'funded', 'financed'],
+  },
+  {
+    id: 'paid', label: 'paid', inverseLabel: 'received payment from', directed: true,
+    synonyms: ['payment to', 'paid to', 'transferred funds to', 'transfer to', 'wired', 'financial transfer'],
+  },
+  {
+    id: 'lent_to', label: 'lent to', inverseLabel: 'borrowed from', directed: true,
+    synonyms: ['loan to', 'loaned to', 'lender to', 'creditor of'],
+  },
+  {
+    id: 'advised', label: 'advised', inverseLabel: 'advised by', directed: true,
+    synonyms: ['advisor to', 'adviser to', 'consultant to', 'counsel to', 'lawyer for', 'represented'],
+  },
+  {
+    id: 'member_of', label: 'member of', inverseLabel: 'has member', directed: true,
+    synonyms: ['belongs to', 'part of', 'membership'],
+  },
+  {
+    id: 'located_in', label: 'located in', inverseLabel: 'location of', directed: true,
+    synonyms: ['based in', 'headquartered in', 'registered in', 'incorporated in', 'resides in', 'lives in'],
+  },
+  {
+    id: 'sued', label: 'sued', inverseLabel: 'sued by', directed: true,
+    synonyms: ['lawsuit against', 'litigation against', 'filed suit against', 'prosecuted'],
+  },
+  {
+    id: 'family', label: 'family of', inverseLabel: 'family of', directed: false,
+    synonyms: ['family', 'related to', 'relative of', 'married to', 'spouse of', 'sibling of', 'brother of', 'sister of'],
+  },
+  {
+    id: 'associate_of', label: 'associate of', inverseLabel: 'associate of', directed: false,
+    synonyms: ['associated with', 'associate', 'connected to', 'connection', 'linked to', 'knows', 'partner of', 'business partner of', 'affiliate of'],
+  },
+];
+
+/**
+ * The network's vocabulary, or the defaults for networks that haven't
+ * customized theirs.
+ */
+export function getRelationshipTypes(types?: Network['relationshipTypes']): RelationshipTypeDefinition[] {
+  return types ?? DEFAULT_RELATIONSHIP_TYPES;
+}
+
+/**
+ * Add another network's types to a vocabulary, keeping existing definitions
+ * on ID clashes. Stays on the defaults when nothing new comes in.
+ */
+export function mergeRelationshipTypes(
+  existing: Network['relationshipTypes'],
+  incoming: Network['relationshipTypes']
+): Network['relationshipTypes'] {
+  const current = getRelationshipTypes(existing);
+  const ids = new Set(current.map(t => t.id));
+  const added = (incoming || []).filter(t => !ids.has(t.id));
+  return added.length ? [...current, ...added] : existing;
+}
+
+export function getRelationshipTypeDefinition(
+  types: Network['relationshipTypes'],
+  id: string | undefined
+): RelationshipTypeDefinition | undefined {
+  if (!id) return undefined;
+  return getRelationshipTypes(types).find(t => t.id === id);
+}
+
+// Compare phrasings ignoring case, underscores, hyphens and extra spaces
+function normalizeTerm(term: string): string {
+  return term.trim().toLowerCase().replace(/[_\-\s]+/g, ' ');
+}
+
+/**
+ * Turn a label into a type ID: "Director of" -> "director_of".
+ */
+export function relationshipTypeIdFromLabel(label: string): string {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+export interface RelationshipTypeMatch {
+  definition: RelationshipTypeDefinition;
+  reversed: boolean; // The phrase was the inverse, so source and target swap
+}
+
+/**
+ * Look up a phrase in the vocabulary by ID, label, synonym or inverse label.
+ */
+export function matchRelationshipType(
+  types: Network['relationshipTypes'],
+  phrase: string | undefined
+): RelationshipTypeMatch | null {
+  if (!phrase?.trim()) return null;
+  const term = normalizeTerm(phrase);
+  const vocabulary = getRelationshipTypes(types);
+
+  for (const definition of vocabulary) {
+    const forward = [definition.id, definition.label, ...definition.synonyms].map(normalizeTerm);
+    if (forward.includes(term)) return { definition, reversed: false };
+  }
+  for (const definition of vocabulary) {
+    if (normalizeTerm(definition.inverseLabel) === term) {
+      return { definition, reversed: definition.directed };
+    }
+  }
+  return null;
+}
+
+/**
+ * Rewrite a relationship onto the vocabulary's canonical type, swapping
+ * source and target when it was phrased from the other end. Labels that are
+ * just another phrasing of the type are replaced by the canonical label;
+ * descriptive labels ("CEO since 2009") are kept.
+ */
+export function normalizeRelationship<T extends Relationship>(types: Network['relationshipTypes'], relationship: T): T {
+  const match = matchRelationshipType(types, relationship.type) ?? matchRelationshipType(types, relationship.label);
+  if (!match) return relationship;
+
+  const { definition, reversed } = match;
+  const labelMatch = matchRelationshipType(types, relationship.label);
+  const label = !relationship.label || labelMatch?.definition.id === definition.id
+    ? definition.label
+    : relationship.label;
+
+  return {
+    ...relationship,
+    type: definition.id,
+    label,
+    source: reversed ? relationship.target : relationship.source,
+    target: reversed ? relationship.source : relationship.target,
+  };
+}
+
+/**
+ * Whether two relationships join the same entities with the same type.
+ * Directed types only match in the same direction.
+ */
+export function isSameRelationship(types: Network['relationshipTypes'], a: Relationship, b: Relationship): boolean {
+  if (a.type !== b.type) return false;
+  if (a.source === b.source && a.target === b.target) return true;
+  const directed = getRelationshipTypeDefinition(types, a.type)?.directed ?? false;
+  return !directed && a.source === b.target && a.target === b.source;
+}
+
+/**
+ * A key that is identical for relationships isSameRelationship considers
+ * the same, for finding duplicates without comparing every pair.
+ */
+export function relationshipKey(types: Network['relationshipTypes'], relationship: Relationship): string {
+  const directed = getRelationshipTypeDefinition(types, relationship.type)?.directed ?? false;
+  const ends = directed || relationship.source < relationship.target
+    ? [relationship.source, relationship.target]
+    : [relationship.target, relationship.source];
+  return JSON.stringify([...ends, relationship.type ?? null]);
+}
+
+export interface NormalizationResult {
+  relationships: Relationship[];
+  changes: Array<{ id: string; from: string; to: string }>;
+  duplicatesRemoved: number;
+}
+
+/**
+ * Normalize every relationship in a network and drop the duplicates that
+ * normalizing reveals, keeping the first of each.
+ */
+export function normalizeRelationships(
+  types: Network['relationshipTypes'],
+  relationships: Relationship[]
+): NormalizationResult {
+  const changes: NormalizationResult['changes'] = [];
+  const kept: Relationship[] = [];
+  const seen = new Set<string>();
+  let duplicatesRemoved = 0;
+
+  for (const relationship of relationships) {
+    const normalized = normalizeRelationship(types, relationship);
+    if (normalized.type !== relationship.type || normalized.source !== relationship.source) {
+      changes.push({ id: relationship.id, from: relationship.label || relationship.type || '', to: normalized.type || '' });
+    }
+    const key = relationshipKey(types, normalized);
+    if (seen.has(key)) {
+      duplicatesRemoved++;
+    } else {
+      seen.add(key);
+      kept.push(normalized);
+    }
+  }
+
+  return { relationships: kept, changes, duplicatesRemoved };
+}
+
+/**
+ * Check a relationship type from an import or the vocabulary editor.
+ * Returns an error message, or null if it is usable.
+ */
+export function validateRelationshipTypeDefinition(value: unknown): string | null {
+  if (!value || typeof value !== 'object') return 'Relationship type is not an object';
+  const t = value as Record<string, unknown>;
+  if (typeof t.id !== 'string' || !/^[a-z0-9_]+$/.test(t.id)) return 'Relationship type "id" must be lowercase letters, digits or underscores';
+  if (typeof t.label !== 'string' || !t.label.trim()) return `Relationship type "${t.id}" is missing a "label"`;
+  if (t.inverseLabel !== undefined && typeof t.inverseLabel !== 'string') return `Relationship type "${t.id}" has a non-text "inverseLabel"`;
+  if (t.synonyms !== undefined && !(Array.isArray(t.synonyms) && t.synonyms.every(s => typeof s === 'string'))) {
+    return `Relationship type "${t.id}" needs "synonyms" to be a list of text`;
+  }
+  return null;
+}
+
+/**
+ * Normalize a validated relationship type, defaulting the optional fields.
+ */
+export function normalizeRelationshipTypeDefinition(value: Record<string, unknown>): RelationshipTypeDefinition {
+  const label = (value.label as string).trim();
+  const directed = value.directed !== false;
+  return {
+    id: value.id as string,
+    label,
+    inverseLabel: (typeof value.inverseLabel === 'string' && value.inverseLabel.trim()) || label,
+    directed,
+    synonyms: Array.isArray(value.synonyms)
+      ? (value.synonyms as string[]).map(s => s.trim()).filter(Boolean)
+      : [],
+  };
+}
@@ -5,11 +5,24 @@
  * Handles entities, relationships, and UI state.
  */
 
+import type { NetworkHistory } from './network-history';
+import type { EntityTypeDefinition } from './entity-types';
+import type { RelationshipTypeDefinition } from './relationship-types';
+import type { TimeFilter } from './timeline';
+import type { NetworkLayout } from './layouts';
+import type { FocusTrail } from './focus';
+import type { Annotation } from './annotations';
+
+// Types every network has; networks can define their own (see entity-types.ts)
+export type BuiltInEntityType = 'person' | 'corporation' | 'organization' | 'financial' | 'government' | 'event' | 'location' | 'asset' | 'unknown';
+
 export interface Entity {
   id: string;
   name: string;
-  type: 'person' | 'corporation' | 'organization' | 'financial' | 'government' | 'event' | 'location' | 'asset' | 'unknown';
+  type: BuiltInEntityType | (string & {}); // Built-in or a custom type ID from Network.entityTypes
   description?: string;
+  aliases?: string[];    // Alternate names, e.g. collected when entities are merged
+  attributes?: EntityAttribute[]; // Structured facts, e.g. role, date of birth, registration number
   importance?: number;
   x?: number;
   y?: number;
@@ -22,6 +35,16 @@ export interface Entity {
   created_at?: string;   // When this entity was added
 }
 
+// A single fact about an entity, with how sure we are of it and where it came from
+export interface EntityAttribute {
+  id: string;
+  key: string;           // e.g. "Role", "Jurisdiction", "Fact"
+  value: string;
+  confidence: number;    // 0-1
+  source?: string;       // e.g. "Court Filing", "AI Enrichment", "User"
+  observedAt?: string;   // When the fact was observed (ISO date)
+}
+
 export interface Relationship {
   id: string;
   source: string;
@@ -32,6 +55,14 @@ export interface Relationship {
   endDate?: string;
   status?: 'confirmed' | 'suspected' | 'former';
   strength?: number;
+  ownership?: OwnershipStake; // Set on ownership links; startDate/endDate bound the holding
+}
+
+// The stake the source holds in the target of an ownership link
+export interface OwnershipStake {
+  percentage: number;        // 0-100, share of the equity held
+  shareClass?: string;       // e.g. "Ordinary", "Class B"
+  votingPercentage?: number; // 0-100, when voting rights differ from equity
 }
 
 export interface InvestigationContext {
@@ -39,6 +70,31 @@ export interface InvestigationContext {
   domain: string;
   focus: string;
   keyQuestions: string[];
+  // Kept up to date by the investigative assistant
+  key_findings?: string[];
+  red_flags?: Array<{ description: string; severity: string; entities_involved?: string[] }>;
+  hypotheses?: Array<{ hypothesis: string; status: string }>;
+}
+
+// Name-matching strategy that flagged two entities as possible duplicates
+export type MatchStrategy = 'exact' | 'substring' | 'abbreviation' | 'levenshtein' | 'soundex';
+
+export interface MergeCandidate {
+  entityA: Entity;
+  entityB: Entity;
+  strategy: MatchStrategy;
+  score: number; // 0-1, higher is a stronger match
+}
+
+// A reviewer's decision on a merge proposal. Rejected and never-merge pairs
+// are excluded from automatic merging; never-merge also blocks by name.
+export interface MergeDecision {
+  id: string;
+  entityIds: [string, string];
+  names: [string, string];
+  decision: 'accepted' | 'rejected' | 'never_merge';
+  strategy?: MatchStrategy;
+  decidedAt: string;
 }
 
 export interface Network {
@@ -48,16 +104,56 @@ export interface Network {
   entities: Entity[];
   relationships: Relationship[];
   investigationContext?: InvestigationContext;
+  mergeDecisions?: MergeDecision[];
+  entityTypes?: EntityTypeDefinition[]; // Custom entity types defined for this network
+  relationshipTypes?: RelationshipTypeDefinition[]; // Relationship vocabulary; the defaults when unset
+  clusters?: NetworkClusters; // Detected communities and which are collapsed on the canvas
+  layout?: NetworkLayout;     // Layout algorithm; the force layout when unset
+  annotations?: Annotation[]; // Notes, boxes and arrows drawn over the canvas
   createdAt?: string;
   updatedAt?: string;
 }
 
+// A community of densely connected entities (see communities.ts)
+export interface EntityCluster {
+  id: string;
+  label: string;       // Named after the best-connected member
+  color: string;
+  memberIds: string[];
+}
+
+export interface NetworkClusters {
+  clusters: EntityCluster[];
+  collapsed: string[];  // IDs of clusters shown as a single node
+  colorNodes: boolean;  // Color entities by cluster instead of by type
+  modularity?: number;
+}
+
 export interface NetworkState {
   network: Network;
   selectedEntityId: string | null;
   selectedRelationshipId: string | null;
   isLoading: boolean;
   error: string | null;
+  history: NetworkHistory;
+  highlight: GraphHighlight | null;
+  nodeSizing: NodeSizing | null;
+  timeFilter: TimeFilter | null; // Canvas limited to a date or range
+  focus: FocusTrail | null;      // Canvas narrowed to an entity's neighbourhood
+}
+
+// Entities and links picked out on the canvas by an analysis tool
+export interface GraphHighlight {
+  entityIds: string[];
+  relationshipIds: string[];
+  label: string; // What is highlighted, e.g. "Ownership chains of Acme Ltd"
+}
+
+// Node sizes driven by an analysis score instead of entity importance
+export interface NodeSizing {
+  metric: string;                 // e.g. "betweenness"
+  label: string;                  // e.g. "Betweenness"
+  scores: Record<string, number>; // Entity ID -> score scaled to 0..1
 }
 
 export const initialNetwork: Network = {
@@ -73,6 +169,11 @@ export const initialState: NetworkState = {
   selectedRelationshipId: null,
   isLoading: false,
   error: null,
+  history: { past: [], future: [] },
+  highlight: null,
+  nodeSizing: null,
+  timeFilter: null,
+  focus: null,
 };
 
 // Generate unique IDs
@@ -80,12 +181,99 @@ export function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+// Source text snippets are stored in one string, separated by blank lines
+export const SOURCE_SNIPPET_SEPARATOR = '\n\n';
+
+/**
+ * Split an entity description into its individual facts (one per line).
+ */
+export function splitDescriptionFacts(description?: string): string[] {
+  if (!description) return [];
+  return description.split('\n').map(l => l.trim()).filter(Boolean);
+}
+
+// Older networks stored facts in the description as "Key facts: a; b" and
+// "Note: ..." lines
+const LEGACY_FACTS_PREFIX = 'Key facts:';
+const LEGACY_NOTE_PREFIX = 'Note:';
+
+/**
+ * Pull legacy "Key facts:" and "Note:" lines out of a description, returning
+ * them as attributes along with the remaining description.
+ */
+export function parseDescriptionAttributes(description?: string): { description: string; attributes: EntityAttribute[] } {
+  const attributes: EntityAttribute[] = [];
+  const remaining: string[] = [];
+
+  splitDescriptionFacts(description).forEach(line => {
+    if (line.startsWith(LEGACY_FACTS_PREFIX)) {
+      line.slice(LEGACY_FACTS_PREFIX.length).split(';').forEach(fact => {
+        if (fact.trim()) {
+          attributes.push({ id: generateId(), key: 'Fact', value: fact.trim(), confidence: 0.7, source: 'AI Enrichment' });
+        }
+      });
+    } else if (line.startsWith(LEGACY_NOTE_PREFIX)) {
+      attributes.push({ id: generateId(), key: 'Note', value: line.slice(LEGACY_NOTE_PREFIX.length).trim(), confidence: 1.0, source: 'User' });
+    } else {
+      remaining.push(line);
+    }
+  });
+
+  return { description: remaining.join('\n\n'), attributes };
+}
+
+/**
+ * An entity's attributes, falling back to facts stored in a legacy description.
+ */
+export function getEntityAttributes(entity: Entity): EntityAttribute[] {
+  return entity.attributes ?? parseDescriptionAttributes(entity.description).attributes;
+}
+
+/**
+ * Combine attribute lists, collapsing entries with the same key and value
+ * (case-insensitive) into the one with the higher confidence. Distinct facts
+ * that arrive with the same ID are given fresh ones.
+ */
+export function mergeAttributes(...lists: (EntityAttribute[] | undefined)[]): EntityAttribute[] {
+  const byFact = new Map<string, EntityAttribute>();
+  const factKeyById = new Map<string, string>();
+  for (const listed of lists.flatMap(list => list || [])) {
+    const factKey = `${listed.key.trim().toLowerCase()}|${listed.value.trim().toLowerCase()}`;
+    const idOwner = factKeyById.get(listed.id);
+    const attribute = idOwner !== undefined && idOwner !== factKey ? { ...listed, id: generateId() } : listed;
+    const existing = byFact.get(factKey);
+    if (!existing) factKeyById.set(attribute.id, factKey);
+    if (!existing || attribute.confidence > existing.confidence) {
+      byFact.set(factKey, existing
+        ? { ...attribute, id: existing.id, source: attribute.source || existing.source, observedAt: attribute.observedAt || existing.observedAt }
+        : attribute);
+    }
+  }
+  return Array.from(byFact.values());
+}
+
+/**
+ * Split an entity's source_text into the snippets it was built from.
+ */
+export function splitSourceSnippets(sourceText?: string): string[] {
+  if (!sourceText) return [];
+  return sourceText.split(/\n\s*\n/).map(s => s.trim()).filter(Boolean);
+}
+
+/**
+ * Join snippets back into a single source_text, dropping duplicates.
+ */
+export function joinSourceSnippets(snippets: string[]): string | undefined {
+  const unique = Array.from(new Set(snippets.map(s => s.trim()).filter(Boolean)));
+  return unique.length > 0 ? unique.join(SOURCE_SNIPPET_SEPARATOR) : undefined;
+}
+
 /**
  * Entity type colors
  * @deprecated Use ENTITY_COLORS from '@/contexts/CanvasThemeContext' instead.
  * This is kept for backward compatibility with components that don't use themes.
  */
-export const entityColors: Record<Entity['type'], string> = {
+export const entityColors: Record<BuiltInEntityType, string> = {
   person: '#4A90A4',
   corporation: '#7CB342',
   organization: '#7BA05B',
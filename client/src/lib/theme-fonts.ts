@@ -0,0 +1,94 @@
+/**
+ * Silent Partners - Theme Fonts
+ *
+ * The web font files behind the canvas themes, bundled with the app so
+ * exports can embed them. Each family comes in the weights the export
+ * layout draws with, split into the same Latin, Latin Extended and
+ * Cyrillic subsets the page's font stylesheet uses.
+ */
+
+import sourceSerif4Latin400 from '@fontsource/source-serif-4/files/source-serif-4-latin-400-normal.woff?url';
+import sourceSerif4LatinExt400 from '@fontsource/source-serif-4/files/source-serif-4-latin-ext-400-normal.woff?url';
+import sourceSerif4Cyrillic400 from '@fontsource/source-serif-4/files/source-serif-4-cyrillic-400-normal.woff?url';
+import sourceSerif4Latin500 from '@fontsource/source-serif-4/files/source-serif-4-latin-500-normal.woff?url';
+import sourceSerif4LatinExt500 from '@fontsource/source-serif-4/files/source-serif-4-latin-ext-500-normal.woff?url';
+import sourceSerif4Cyrillic500 from '@fontsource/source-serif-4/files/source-serif-4-cyrillic-500-normal.woff?url';
+import sourceSerif4Latin700 from '@fontsource/source-serif-4/files/source-serif-4-latin-700-normal.woff?url';
+import sourceSerif4LatinExt700 from '@fontsource/source-serif-4/files/source-serif-4-latin-ext-700-normal.woff?url';
+import sourceSerif4Cyrillic700 from '@fontsource/source-serif-4/files/source-serif-4-cyrillic-700-normal.woff?url';
+import sourceSans3Latin400 from '@fontsource/source-sans-3/files/source-sans-3-latin-400-normal.woff?url';
+import sourceSans3LatinExt400 from '@fontsource/source-sans-3/files/source-sans-3-latin-ext-400-normal.woff?url';
+import sourceSans3Cyrillic400 from '@fontsource/source-sans-3/files/source-sans-3-cyrillic-400-normal.woff?url';
+import sourceSans3Latin500 from '@fontsource/source-sans-3/files/source-sans-3-latin-500-normal.woff?url';
+import sourceSans3LatinExt500 from '@fontsource/source-sans-3/files/source-sans-3-latin-ext-500-normal.woff?url';
+import sourceSans3Cyrillic500 from '@fontsource/source-sans-3/files/source-sans-3-cyrillic-500-normal.woff?url';
+import sourceSans3Latin700 from '@fontsource/source-sans-3/files/source-sans-3-latin-700-normal.woff?url';
+import sourceSans3LatinExt700 from '@fontsource/source-sans-3/files/source-sans-3-latin-ext-700-normal.woff?url';
+import sourceSans3Cyrillic700 from '@fontsource/source-sans-3/files/source-sans-3-cyrillic-700-normal.woff?url';
+import interLatin400 from '@fontsource/inter/files/inter-latin-400-normal.woff?url';
+import interLatinExt400 from '@fontsource/inter/files/inter-latin-ext-400-normal.woff?url';
+import interCyrillic400 from '@fontsource/inter/files/inter-cyrillic-400-normal.woff?url';
+import interLatin500 from '@fontsource/inter/files/inter-latin-500-normal.woff?url';
+import interLatinExt500 from '@fontsource/inter/files/inter-latin-ext-500-normal.woff?url';
+import interCyrillic500 from '@fontsource/inter/files/inter-cyrillic-500-normal.woff?url';
+import interLatin700 from '@fontsource/inter/files/inter-latin-700-normal.woff?url';
+import interLatinExt700 from '@fontsource/inter/files/inter-latin-ext-700-normal.woff?url';
+import interCyrillic700 from '@fontsource/inter/files/inter-cyrillic-700-normal.woff?url';
+import caveatLatin400 from '@fontsource/caveat/files/caveat-latin-400-normal.woff?url';
+import caveatLatinExt400 from '@fontsource/caveat/files/caveat-latin-ext-400-normal.woff?url';
+import caveatCyrillic400 from '@fontsource/caveat/files/caveat-cyrillic-400-normal.woff?url';
+import caveatLatin600 from '@fontsource/caveat/files/caveat-latin-600-normal.woff?url';
+import caveatLatinExt600 from '@fontsource/caveat/files/caveat-latin-ext-600-normal.woff?url';
+import caveatCyrillic600 from '@fontsource/caveat/files/caveat-cyrillic-600-normal.woff?url';
+
+export type FontSubset = 'latin' | 'latin-ext' | 'cyrillic';
+
+export interface ThemeFontFile {
+  family: string;
+  weight: number;
+  subset: FontSubset;
+  url: string;
+}
+
+// The characters in each subset, as the fonts' unicode-range declares them
+export const FONT_SUBSET_RANGES: Record<FontSubset, string> = {
+  latin: 'U+0000-00FF,U+0131,U+0152-0153,U+02BB-02BC,U+02C6,U+02DA,U+02DC,U+0304,U+0308,U+0329,U+2000-206F,U+20AC,U+2122,U+2191,U+2193,U+2212,U+2215,U+FEFF,U+FFFD',
+  'latin-ext': 'U+0100-02BA,U+02BD-02C5,U+02C7-02CC,U+02CE-02D7,U+02DD-02FF,U+0304,U+0308,U+0329,U+1D00-1DBF,U+1E00-1E9F,U+1EF2-1EFF,U+2020,U+20A0-20AB,U+20AD-20C0,U+2113,U+2C60-2C7F,U+A720-A7FF',
+  cyrillic: 'U+0301,U+0400-045F,U+0490-0491,U+04B0-04B1,U+2116',
+};
+
+export const THEME_FONT_FILES: ThemeFontFile[] = [
+  { family: 'Source Serif 4', weight: 400, subset: 'latin', url: sourceSerif4Latin400 },
+  { family: 'Source Serif 4', weight: 400, subset: 'latin-ext', url: sourceSerif4LatinExt400 },
+  { family: 'Source Serif 4', weight: 400, subset: 'cyrillic', url: sourceSerif4Cyrillic400 },
+  { family: 'Source Serif 4', weight: 500, subset: 'latin', url: sourceSerif4Latin500 },
+  { family: 'Source Serif 4', weight: 500, subset: 'latin-ext', url: sourceSerif4LatinExt500 },
+  { family: 'Source Serif 4', weight: 500, subset: 'cyrillic', url: sourceSerif4Cyrillic500 },
+  { family: 'Source Serif 4', weight: 700, subset: 'latin', url: sourceSerif4Latin700 },
+  { family: 'Source Serif 4', weight: 700, subset: 'latin-ext', url: sourceSerif4LatinExt700 },
+  { family: 'Source Serif 4', weight: 700, subset: 'cyrillic', url: sourceSerif4Cyrillic700 },
+  { family: 'Source Sans 3', weight: 400, subset: 'latin', url: sourceSans3Latin400 },
+  { family: 'Source Sans 3', weight: 400, subset: 'latin-ext', url: sourceSans3LatinExt400 },
+  { family: 'Source Sans 3', weight: 400, subset: 'cyrillic', url: sourceSans3Cyrillic400 },
+  { family: 'Source Sans 3', weight: 500, subset: 'latin', url: sourceSans3Latin500 },
+  { family: 'Source Sans 3', weight: 500, subset: 'latin-ext', url: sourceSans3LatinExt500 },
+  { family: 'Source Sans 3', weight: 500, subset: 'cyrillic', url: sourceSans3Cyrillic500 },
+  { family: 'Source Sans 3', weight: 700, subset: 'latin', url: sourceSans3Latin700 },
+  { family: 'Source Sans 3', weight: 700, subset: 'latin-ext', url: sourceSans3LatinExt700 },
+  { family: 'Source Sans 3', weight: 700, subset: 'cyrillic', url: sourceSans3Cyrillic700 },
+  { family: 'Inter', weight: 400, subset: 'latin', url: interLatin400 },
+  { family: 'Inter', weight: 400, subset: 'latin-ext', url: interLatinExt400 },
+  { family: 'Inter', weight: 400, subset: 'cyrillic', url: interCyrillic400 },
+  { family: 'Inter', weight: 500, subset: 'latin', url: interLatin500 },
+  { family: 'Inter', weight: 500, subset: 'latin-ext', url: interLatinExt500 },
+  { family: 'Inter', weight: 500, subset: 'cyrillic', url: interCyrillic500 },
+  { family: 'Inter', weight: 700, subset: 'latin', url: interLatin700 },
+  { family: 'Inter', weight: 700, subset: 'latin-ext', url: interLatinExt700 },
+  { family: 'Inter', weight: 700, subset: 'cyrillic', url: interCyrillic700 },
+  { family: 'Caveat', weight: 400, subset: 'latin', url: caveatLatin400 },
+  { family: 'Caveat', weight: 400, subset: 'latin-ext', url: caveatLatinExt400 },
+  { family: 'Caveat', weight: 400, subset: 'cyrillic', url: caveatCyrillic400 },
+  { family: 'Caveat', weight: 600, subset: 'latin', url: caveatLatin600 },
+  { family: 'Caveat', weight: 600, subset: 'latin-ext', url: caveatLatinExt600 },
+  { family: 'Caveat', weight: 600, subset: 'cyrillic', url: caveatCyrillic600 },
+];
@@ -0,0 +1,171 @@
+/**
+ * Silent Partners - Timeline
+ *
+ * Reads the dates on relationships and entity attributes so the canvas can
+ * show the network as it stood at a date or over a range, and so dated
+ * facts can be laid out on a timeline. Dates are free text as entered
+ * ("2015", "2015-03", "2015-03-01"); a partial date covers its whole year
+ * or month, so a link ending "2015" is still active in December 2015.
+ */
+
+import type { Entity, Network, Relationship } from './store';
+
+// Network view limited to a date or range (from === to for a single date)
+export interface TimeFilter {
+  from: string;                  // YYYY-MM-DD
+  to: string;                    // YYYY-MM-DD
+  includeUndated: boolean;       // Keep relationships with no dates at all
+  hideInactiveEntities: boolean; // Hide entities with no relationship shown
+}
+
+export interface DateBounds {
+  min: string; // YYYY-MM-DD
+  max: string;
+}
+
+export interface TimelineItem {
+  id: string;
+  entityId: string;
+  kind: 'relationship' | 'event';
+  label: string;          // e.g. "director of Acme Ltd" or "Incorporated"
+  start: string;          // YYYY-MM-DD
+  end?: string;           // Open-ended when unset
+  relationshipId?: string;
+}
+
+export interface TimelineRow {
+  entity: Entity;
+  items: TimelineItem[];
+}
+
+// Attribute keys that name when something happened, rather than a fact
+const EVENT_ATTRIBUTE_PATTERN = /date|founded|incorporated|dissolved|born|died|established|appointed|resigned|filed/i;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Normalize a free-text date to YYYY-MM-DD, taking the start of a partial
+ * date (or its end with `end`). Returns null when it isn't a date.
+ */
+export function normalizeDate(value: string | undefined, end = false): string | null {
+  if (!value) return null;
+  const match = value.trim().match(/^(\d{4})(?:[-/.](\d{1,2})(?:[-/.](\d{1,2}))?)?/);
+  if (match) {
+    const year = parseInt(match[1]);
+    const month = match[2] ? parseInt(match[2]) : end ? 12 : 1;
+    if (month < 1 || month > 12) return null;
+    const day = match[3] ? parseInt(match[3]) : end ? daysInMonth(year, month) : 1;
+    if (day < 1 || day > daysInMonth(year, month)) return null;
+    return `${year}-${pad(month)}-${pad(day)}`;
+  }
+  // Anything else the browser can read, e.g. "March 2015"
+  const parsed = Date.parse(value);
+  if (isNaN(parsed)) return null;
+  const date = new Date(parsed);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function dateToDay(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+export function dayToDate(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function isDatedRelationship(relationship: Relationship): boolean {
+  return !!(normalizeDate(relationship.startDate) || normalizeDate(relationship.endDate, true));
+}
+
+/**
+ * Whether a relationship was active at any point in the range. Open ends
+ * stretch indefinitely; undated relationships follow the filter setting.
+ */
+export function isRelationshipActive(relationship: Relationship, filter: TimeFilter): boolean {
+  const start = normalizeDate(relationship.startDate);
+  const end = normalizeDate(relationship.endDate, true);
+  if (!start && !end) return filter.includeUndated;
+  if (start && start > filter.to) return false;
+  if (end && end < filter.from) return false;
+  return true;
+}
+
+/**
+ * The entities and relationships shown under a time filter. Entities are
+ * only hidden when the filter asks for it.
+ */
+export function applyTimeFilter(
+  entities: Entity[],
+  relationships: Relationship[],
+  filter: TimeFilter | null
+): { entities: Entity[]; relationships: Relationship[] } {
+  if (!filter) return { entities, relationships };
+  const active = relationships.filter(r => isRelationshipActive(r, filter));
+  if (!filter.hideInactiveEntities) return { entities, relationships: active };
+  const connected = new Set(active.flatMap(r => [r.source, r.target]));
+  return { entities: entities.filter(e => connected.has(e.id)), relationships: active };
+}
+
+// Dated attributes read as events, e.g. "Incorporated: 2009-04-01"
+function getEntityEvents(entity: Entity): TimelineItem[] {
+  return (entity.attributes || [])
+    .filter(a => EVENT_ATTRIBUTE_PATTERN.test(a.key))
+    .map(a => ({ attribute: a, start: normalizeDate(a.value) }))
+    .filter((e): e is { attribute: typeof e.attribute; start: string } => !!e.start)
+    .map(({ attribute, start }) => ({
+      id: `${entity.id}:${attribute.id}`,
+      entityId: entity.id,
+      kind: 'event' as const,
+      label: attribute.key,
+      start,
+    }));
+}
+
+/**
+ * Every dated relationship and event, grouped by entity. A relationship
+ * appears under both of its entities; rows with the earliest dates come
+ * first.
+ */
+export function buildTimeline(network: Network): TimelineRow[] {
+  const names = new Map(network.entities.map(e => [e.id, e.name]));
+  const items = new Map<string, TimelineItem[]>();
+  const add = (item: TimelineItem) => items.set(item.entityId, [...(items.get(item.entityId) || []), item]);
+
+  network.relationships.forEach(r => {
+    const start = normalizeDate(r.startDate);
+    const end = normalizeDate(r.endDate, true);
+    if (!start && !end) return;
+    const label = r.label || r.type?.replace(/_/g, ' ') || 'connected to';
+    const span = { kind: 'relationship' as const, start: start || end!, end: end || undefined, relationshipId: r.id };
+    add({ ...span, id: `${r.id}:source`, entityId: r.source, label: `${label} ${names.get(r.target) || ''}`.trim() });
+    add({ ...span, id: `${r.id}:target`, entityId: r.target, label: `${names.get(r.source) || ''} ${label}`.trim() });
+  });
+  network.entities.forEach(entity => getEntityEvents(entity).forEach(add));
+
+  return network.entities
+    .filter(entity => items.has(entity.id))
+    .map(entity => ({
+      entity,
+      items: items.get(entity.id)!.sort((a, b) => a.start.localeCompare(b.start)),
+    }))
+    .sort((a, b) => a.items[0].start.localeCompare(b.items[0].start));
+}
+
+/**
+ * The earliest and latest dates in the network, or null when nothing is
+ * dated.
+ */
+export function getDateBounds(network: Network): DateBounds | null {
+  const dates = buildTimeline(network).flatMap(row => row.items.flatMap(i => (i.end ? [i.start, i.end] : [i.start])));
+  if (dates.length === 0) return null;
+  dates.sort();
+  return { min: dates[0], max: dates[dates.length - 1] };
+}
@@ -0,0 +1,606 @@
+/**
+ * Silent Partners - Vector Export
+ *
+ * Exported artwork is laid out once as a scene of paths, circles and text
+ * in pixels (y down), then drawn onto a canvas for PNG, written as SVG, or
+ * laid out as PDF. SVG and PDF keep text as text and carry the theme's web
+ * fonts with them, so they print the same on machines without the fonts.
+ * A PDF is either one page the size of the export format at print
+ * resolution, or a poster tiled across A4 or Letter sheets with crop marks
+ * to trim and join them by. Scenes can be nested, and a run of scenes in
+ * points makes a multi-page document such as a report.
+ */
+
+import {
+  LineJoinStyle,
+  PDFDocument,
+  PDFFont,
+  PDFPage,
+  StandardFonts,
+  TextRenderingMode,
+  beginMarkedContent,
+  clip,
+  endMarkedContent,
+  endPath,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  rgb,
+  setLineJoin,
+  setLineWidth,
+  setStrokingColor,
+  setTextRenderingMode,
+} from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import { FONT_SUBSET_RANGES, THEME_FONT_FILES, type ThemeFontFile } from './theme-fonts';
+
+export interface VectorFont {
+  family: string; // CSS font stack, e.g. "'Source Serif 4', Georgia, serif"
+  size: number;
+  weight: number;
+}
+
+export type VectorShape =
+  | {
+    kind: 'path';
+    d: string; // SVG path data
+    fill?: string;
+    fillOpacity?: number;
+    stroke?: string;
+    strokeWidth?: number;
+    dash?: number[];
+  }
+  | { kind: 'circle'; cx: number; cy: number; r: number; fill?: string; stroke?: string; strokeWidth?: number }
+  | {
+    kind: 'text';
+    x: number;
+    y: number; // Baseline
+    text: string;
+    font: VectorFont;
+    fill: string;
+    opacity?: number;
+    anchor?: 'start' | 'middle';
+    halo?: { color: string; width: number }; // Outline in the background color, behind the text
+  }
+  | { kind: 'scene'; x: number; y: number; scale: number; scene: VectorScene }; // Another drawing placed within this one
+
+export interface VectorScene {
+  width: number;
+  height: number;
+  background: string;
+  shapes: VectorShape[];
+}
+
+// One subset of a theme font, as WOFF data
+export interface EmbeddedFont {
+  family: string;
+  weight: number;
+  unicodeRanges: Array<[number, number]>;
+  data: ArrayBuffer;
+}
+
+// ============================================
+// Shapes and text
+// ============================================
+
+export function cssFont(font: VectorFont): string {
+  return `${font.weight} ${font.size}px ${font.family}`;
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// Width of text as the browser lays it out in the given font
+export function measureText(text: string, font: VectorFont): number {
+  if (!measureContext) measureContext = document.createElement('canvas').getContext('2d');
+  if (!measureContext) return text.length * font.size * 0.55;
+  measureContext.font = cssFont(font);
+  return measureContext.measureText(text).width;
+}
+
+/**
+ * Break text into lines no wider than maxWidth, keeping at most maxLines.
+ */
+export function wrapText(text: string, font: VectorFont, maxWidth: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  text.split(' ').forEach((word, i) => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (i > 0 && measureText(candidate, font) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  lines.push(line);
+  return lines.slice(0, maxLines);
+}
+
+/**
+ * Shorten text with an ellipsis until it fits maxWidth.
+ */
+export function fitText(text: string, font: VectorFont, maxWidth: number): string {
+  if (measureText(text, font) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && measureText(`${fitted}…`, font) > maxWidth) fitted = fitted.slice(0, -1);
+  return `${fitted.trimEnd()}…`;
+}
+
+export function roundedRectPath(x: number, y: number, width: number, height: number, radius: number): string {
+  const r = Math.min(radius, width / 2, height / 2);
+  return `M ${x + r} ${y} L ${x + width - r} ${y} Q ${x + width} ${y} ${x + width} ${y + r} `
+    + `L ${x + width} ${y + height - r} Q ${x + width} ${y + height} ${x + width - r} ${y + height} `
+    + `L ${x + r} ${y + height} Q ${x} ${y + height} ${x} ${y + height - r} `
+    + `L ${x} ${y + r} Q ${x} ${y} ${x + r} ${y} Z`;
+}
+
+function circlePath(cx: number, cy: number, r: number): string {
+  return `M ${cx - r} ${cy} A ${r} ${r} 0 1 0 ${cx + r} ${cy} A ${r} ${r} 0 1 0 ${cx - r} ${cy} Z`;
+}
+
+// ============================================
+// Canvas
+// ============================================
+
+export function drawSceneToCanvas(ctx: CanvasRenderingContext2D, scene: VectorScene) {
+  ctx.save();
+  ctx.fillStyle = scene.background;
+  ctx.fillRect(0, 0, scene.width, scene.height);
+
+  scene.shapes.forEach(shape => {
+    ctx.globalAlpha = 1;
+    ctx.setLineDash([]);
+    switch (shape.kind) {
+      case 'path': {
+        const path = new Path2D(shape.d);
+        if (shape.fill) {
+          ctx.globalAlpha = shape.fillOpacity ?? 1;
+          ctx.fillStyle = shape.fill;
+          ctx.fill(path);
+          ctx.globalAlpha = 1;
+        }
+        if (shape.stroke) {
+          ctx.setLineDash(shape.dash || []);
+          ctx.strokeStyle = shape.stroke;
+          ctx.lineWidth = shape.strokeWidth ?? 1;
+          ctx.stroke(path);
+        }
+        break;
+      }
+      case 'circle': {
+        ctx.beginPath();
+        ctx.arc(shape.cx, shape.cy, shape.r, 0, Math.PI * 2);
+        if (shape.fill) {
+          ctx.fillStyle = shape.fill;
+          ctx.fill();
+        }
+        if (shape.stroke && shape.strokeWidth) {
+          ctx.strokeStyle = shape.stroke;
+          ctx.lineWidth = shape.strokeWidth;
+          ctx.stroke();
+        }
+        break;
+      }
+      case 'text': {
+        ctx.font = cssFont(shape.font);
+        ctx.textAlign = shape.anchor === 'middle' ? 'center' : 'left';
+        ctx.globalAlpha = shape.opacity ?? 1;
+        if (shape.halo) {
+          ctx.strokeStyle = shape.halo.color;
+          ctx.lineWidth = shape.halo.width;
+          ctx.strokeText(shape.text, shape.x, shape.y);
+        }
+        ctx.fillStyle = shape.fill;
+        ctx.fillText(shape.text, shape.x, shape.y);
+        break;
+      }
+      case 'scene':
+        ctx.save();
+        ctx.translate(shape.x, shape.y);
+        ctx.scale(shape.scale, shape.scale);
+        drawSceneToCanvas(ctx, shape.scene);
+        ctx.restore();
+        break;
+    }
+  });
+  ctx.restore();
+}
+
+// ============================================
+// SVG
+// ============================================
+
+// Drops the control characters an SVG parser rejects outright
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function toBase64(data: ArrayBuffer): string {
+  const bytes = new Uint8Array(data);
+  let binary = '';
+  // Chunked so large fonts don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+function formatRange([start, end]: [number, number]): string {
+  const hex = (n: number) => n.toString(16).toUpperCase();
+  return start === end ? `U+${hex(start)}` : `U+${hex(start)}-${hex(end)}`;
+}
+
+function svgElements(scene: VectorScene, indent: string): string[] {
+  return [
+    `${indent}<rect width="${scene.width}" height="${scene.height}" fill="${scene.background}"/>`,
+    ...scene.shapes.flatMap(shape => {
+      switch (shape.kind) {
+        case 'path': {
+          const fill = shape.fill
+            ? `fill="${shape.fill}"${shape.fillOpacity !== undefined ? ` fill-opacity="${shape.fillOpacity}"` : ''}`
+            : 'fill="none"';
+          const stroke = shape.stroke
+            ? ` stroke="${shape.stroke}" stroke-width="${shape.strokeWidth ?? 1}"${shape.dash?.length ? ` stroke-dasharray="${shape.dash.join(' ')}"` : ''}`
+            : '';
+          return [`${indent}<path d="${shape.d}" ${fill}${stroke}/>`];
+        }
+        case 'circle': {
+          const stroke = shape.stroke && shape.strokeWidth ? ` stroke="${shape.stroke}" stroke-width="${shape.strokeWidth}"` : '';
+          return [`${indent}<circle cx="${shape.cx}" cy="${shape.cy}" r="${shape.r}" fill="${shape.fill || 'none'}"${stroke}/>`];
+        }
+        case 'text': {
+          const anchor = shape.anchor === 'middle' ? ' text-anchor="middle"' : '';
+          const opacity = shape.opacity !== undefined && shape.opacity < 1 ? ` opacity="${shape.opacity}"` : '';
+          const halo = shape.halo
+            ? ` stroke="${shape.halo.color}" stroke-width="${shape.halo.width}" stroke-linejoin="round" paint-order="stroke"`
+            : '';
+          return [`${indent}<text x="${shape.x}" y="${shape.y}" font-family="${escapeXml(shape.font.family)}" font-size="${shape.font.size}" `
+            + `font-weight="${shape.font.weight}" fill="${shape.fill}"${anchor}${opacity}${halo}>${escapeXml(shape.text)}</text>`];
+        }
+        case 'scene':
+          return [
+            `${indent}<g transform="translate(${shape.x} ${shape.y}) scale(${shape.scale})">`,
+            ...svgElements(shape.scene, `${indent}  `),
+            `${indent}</g>`,
+          ];
+        default:
+          return [];
+      }
+    }),
+  ];
+}
+
+export function sceneToSvg(scene: VectorScene, fonts: EmbeddedFont[] = []): string {
+  const fontFaces = fonts.map(font => `@font-face { font-family: '${font.family}'; font-weight: ${font.weight}; `
+    + `src: url(data:font/woff;base64,${toBase64(font.data)}) format('woff'); `
+    + `unicode-range: ${font.unicodeRanges.map(formatRange).join(', ')}; }`);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${scene.width}" height="${scene.height}" viewBox="0 0 ${scene.width} ${scene.height}">`,
+    ...(fontFaces.length > 0 ? ['  <defs>', '    <style>', ...fontFaces.map(face => `      ${face}`), '    </style>', '  </defs>'] : []),
+    ...svgElements(scene, '  '),
+    '</svg>',
+  ].join('\n');
+}
+
+// ============================================
+// Fonts
+// ============================================
+
+// The first family in a CSS font stack
+export function primaryFamily(stack: string): string {
+  return stack.split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+}
+
+function parseUnicodeRanges(value: string): Array<[number, number]> {
+  return value.split(',').map(part => {
+    const [start, end = start] = part.trim().replace(/^U\+/i, '').split('-');
+    return [parseInt(start, 16), parseInt(end, 16)] as [number, number];
+  });
+}
+
+const covers = (ranges: Array<[number, number]>, code: number) => ranges.some(([start, end]) => code >= start && code <= end);
+
+const fontFileCache = new Map<string, Promise<ArrayBuffer>>();
+
+// Text in the scene and the scenes placed within it
+function textShapes(scene: VectorScene): Array<Extract<VectorShape, { kind: 'text' }>> {
+  return scene.shapes.flatMap(shape => {
+    if (shape.kind === 'text') return [shape];
+    return shape.kind === 'scene' ? textShapes(shape.scene) : [];
+  });
+}
+
+/**
+ * Fetch the theme font files the scenes' text needs: for each family and
+ * weight used, the nearest bundled weight, in the character subsets the
+ * text draws from. Files that can't be fetched are left out, and the
+ * export falls back to system fonts for them.
+ */
+export async function loadSceneFonts(...scenes: VectorScene[]): Promise<EmbeddedFont[]> {
+  const picked = new Set<ThemeFontFile>();
+  scenes.flatMap(textShapes).forEach(shape => {
+    const files = THEME_FONT_FILES.filter(file => file.family === primaryFamily(shape.font.family));
+    if (files.length === 0) return;
+    const nearest = files.reduce((best, file) => (Math.abs(file.weight - shape.font.weight) < Math.abs(best.weight - shape.font.weight) ? file : best)).weight;
+    const codes = Array.from(shape.text).map(c => c.codePointAt(0)!);
+    files
+      .filter(file => file.weight === nearest && codes.some(code => covers(parseUnicodeRanges(FONT_SUBSET_RANGES[file.subset]), code)))
+      .forEach(file => picked.add(file));
+  });
+
+  const loaded = await Promise.all(Array.from(picked).map(async file => {
+    if (!fontFileCache.has(file.url)) {
+      fontFileCache.set(file.url, fetch(file.url).then(response => {
+        if (!response.ok) throw new Error(`Font file returned ${response.status}`);
+        return response.arrayBuffer();
+      }));
+    }
+    try {
+      const data = await fontFileCache.get(file.url)!;
+      return { family: file.family, weight: file.weight, unicodeRanges: parseUnicodeRanges(FONT_SUBSET_RANGES[file.subset]), data };
+    } catch {
+      fontFileCache.delete(file.url);
+      return null;
+    }
+  }));
+  return loaded.filter((font): font is EmbeddedFont => font !== null);
+}
+
+// ============================================
+// PDF
+// ============================================
+
+export type PdfPaper = 'a4' | 'letter';
+
+export const PDF_PAPERS: Record<PdfPaper, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 595.28, height: 841.89 },
+  letter: { label: 'Letter', width: 612, height: 792 },
+};
+
+// One page the size of the export format, or a poster `columns` sheets wide
+export type PdfLayout =
+  | { kind: 'page' }
+  | { kind: 'poster'; paper: PdfPaper; columns: number };
+
+// Export pixels per inch on a single page: Print Portrait is 8 x 10 inches
+const PRINT_DPI = 300;
+const POINTS_PER_INCH = 72;
+// Blank border round each poster sheet, where the crop marks go
+const SHEET_MARGIN = 36;
+const CROP_MARK_LENGTH = 18;
+const CROP_MARK_GAP = 4;
+
+function parseColor(color: string | undefined): { color: ReturnType<typeof rgb>; alpha: number } | null {
+  if (!color || color === 'none' || color === 'transparent') return null;
+  const hex = color.match(/^#([0-9a-f]{3,8})$/i)?.[1];
+  if (hex) {
+    const full = hex.length <= 4 ? hex.split('').map(c => c + c).join('') : hex;
+    const channel = (i: number) => parseInt(full.slice(i * 2, i * 2 + 2), 16) / 255;
+    return { color: rgb(channel(0), channel(1), channel(2)), alpha: full.length === 8 ? channel(3) : 1 };
+  }
+  const parts = color.match(/^rgba?\(([^)]+)\)$/i)?.[1].split(/[\s,/]+/).filter(Boolean).map(parseFloat);
+  if (parts && parts.length >= 3) {
+    return { color: rgb(parts[0] / 255, parts[1] / 255, parts[2] / 255), alpha: parts[3] ?? 1 };
+  }
+  return { color: rgb(0, 0, 0), alpha: 1 };
+}
+
+interface TextRun {
+  pdfFont: PDFFont;
+  text: string;
+}
+
+// Splits text into runs by the embedded subset that draws each character,
+// falling back to the standard PDF fonts (and their character set) for
+// characters no embedded face covers
+function createFontResolver(doc: PDFDocument, fonts: EmbeddedFont[]) {
+  const embedded = new Map<EmbeddedFont, Promise<PDFFont>>();
+  const standard = new Map<StandardFonts, Promise<PDFFont>>();
+
+  const standardFont = (font: VectorFont) => {
+    const serif = /\bserif\b/.test(font.family.replace(/sans-serif/g, ''));
+    const bold = font.weight >= 600;
+    const name = serif
+      ? (bold ? StandardFonts.TimesRomanBold : StandardFonts.TimesRoman)
+      : (bold ? StandardFonts.HelveticaBold : StandardFonts.Helvetica);
+    if (!standard.has(name)) standard.set(name, doc.embedFont(name));
+    return standard.get(name)!;
+  };
+
+  return async (font: VectorFont, text: string): Promise<TextRun[]> => {
+    const family = fonts.filter(f => f.family === primaryFamily(font.family));
+    const nearest = family.length > 0
+      ? family.reduce((best, f) => (Math.abs(f.weight - font.weight) < Math.abs(best.weight - font.weight) ? f : best)).weight
+      : null;
+    const faces = family.filter(f => f.weight === nearest);
+
+    const runs: Array<{ face: EmbeddedFont | null; text: string }> = [];
+    Array.from(text).forEach(char => {
+      const code = char.codePointAt(0)!;
+      const last = runs[runs.length - 1];
+      const face = last?.face && covers(last.face.unicodeRanges, code)
+        ? last.face
+        : faces.find(f => covers(f.unicodeRanges, code)) ?? null;
+      if (last && last.face === face) last.text += char;
+      else runs.push({ face, text: char });
+    });
+
+    return Promise.all(runs.map(async ({ face, text: runText }) => {
+      if (face) {
+        if (!embedded.has(face)) embedded.set(face, doc.embedFont(face.data, { subset: true }));
+        return { pdfFont: await embedded.get(face)!, text: runText };
+      }
+      const pdfFont = await standardFont(font);
+      const supported = new Set(pdfFont.getCharacterSet());
+      return { pdfFont, text: Array.from(runText).map(c => (supported.has(c.codePointAt(0)!) ? c : '?')).join('') };
+    }));
+  };
+}
+
+/**
+ * Draw the scene onto a page with its top-left corner at (originX, originY)
+ * in page points, `scale` points to the pixel.
+ */
+async function drawSceneToPage(
+  page: PDFPage,
+  scene: VectorScene,
+  resolveFont: ReturnType<typeof createFontResolver>,
+  originX: number,
+  originY: number,
+  scale: number
+) {
+  const background = parseColor(scene.background);
+  if (background) {
+    page.drawRectangle({
+      x: originX, y: originY - scene.height * scale, width: scene.width * scale, height: scene.height * scale,
+      color: background.color, opacity: background.alpha,
+    });
+  }
+
+  const drawPath = (d: string, shape: { fill?: string; fillOpacity?: number; stroke?: string; strokeWidth?: number; dash?: number[] }) => {
+    const fill = parseColor(shape.fill);
+    const stroke = parseColor(shape.stroke);
+    if (!fill && !stroke) return;
+    page.drawSvgPath(d, {
+      x: originX,
+      y: originY,
+      scale,
+      ...(fill ? { color: fill.color, opacity: fill.alpha * (shape.fillOpacity ?? 1) } : {}),
+      ...(stroke ? {
+        borderColor: stroke.color,
+        borderOpacity: stroke.alpha,
+        borderWidth: shape.strokeWidth ?? 1,
+        borderDashArray: shape.dash,
+      } : {}),
+    });
+  };
+
+  for (const shape of scene.shapes) {
+    switch (shape.kind) {
+      case 'path':
+        drawPath(shape.d, shape);
+        break;
+      case 'circle':
+        drawPath(circlePath(shape.cx, shape.cy, shape.r), { fill: shape.fill, stroke: shape.strokeWidth ? shape.stroke : undefined, strokeWidth: shape.strokeWidth });
+        break;
+      case 'text': {
+        const fill = parseColor(shape.fill);
+        if (!fill || !shape.text) break;
+        const runs = await resolveFont(shape.font, shape.text);
+        const size = shape.font.size * scale;
+        const width = runs.reduce((sum, run) => sum + run.pdfFont.widthOfTextAtSize(run.text, size), 0);
+        const y = originY - shape.y * scale;
+        const drawRuns = (options: { color?: ReturnType<typeof rgb>; opacity?: number }) => {
+          let x = originX + shape.x * scale - (shape.anchor === 'middle' ? width / 2 : 0);
+          runs.forEach(run => {
+            page.drawText(run.text, { x, y, size, font: run.pdfFont, ...options });
+            x += run.pdfFont.widthOfTextAtSize(run.text, size);
+          });
+        };
+        const halo = shape.halo && parseColor(shape.halo.color);
+        if (shape.halo && halo) {
+          // The outline is marked as an artifact so the text is only copied once
+          page.pushOperators(
+            beginMarkedContent('Artifact'),
+            pushGraphicsState(),
+            setTextRenderingMode(TextRenderingMode.Outline),
+            setLineWidth(shape.halo.width * scale),
+            setLineJoin(LineJoinStyle.Round),
+            setStrokingColor(halo.color),
+          );
+          drawRuns({});
+          page.pushOperators(popGraphicsState(), endMarkedContent());
+        }
+        drawRuns({ color: fill.color, opacity: fill.alpha * (shape.opacity ?? 1) });
+        break;
+      }
+      case 'scene':
+        await drawSceneToPage(page, shape.scene, resolveFont, originX + shape.x * scale, originY - shape.y * scale, scale * shape.scale);
+        break;
+    }
+  }
+}
+
+function drawCropMarks(page: PDFPage, x: number, y: number, width: number, height: number) {
+  const mark = { thickness: 0.5, color: rgb(0, 0, 0) };
+  [x, x + width].forEach(cx => [y, y + height].forEach(cy => {
+    const outX = cx === x ? -1 : 1;
+    const outY = cy === y ? -1 : 1;
+    page.drawLine({ ...mark, start: { x: cx + outX * CROP_MARK_GAP, y: cy }, end: { x: cx + outX * (CROP_MARK_GAP + CROP_MARK_LENGTH), y: cy } });
+    page.drawLine({ ...mark, start: { x: cx, y: cy + outY * CROP_MARK_GAP }, end: { x: cx, y: cy + outY * (CROP_MARK_GAP + CROP_MARK_LENGTH) } });
+  }));
+}
+
+async function createDocument(title: string): Promise<PDFDocument> {
+  const doc = await PDFDocument.create();
+  doc.registerFontkit(fontkit);
+  doc.setTitle(title);
+  doc.setCreator('Silent Partners');
+  return doc;
+}
+
+/**
+ * The scene as a PDF: a single page at print resolution, or a poster
+ * tiled across sheets in the scene's orientation. Each sheet holds one
+ * tile inside crop marks, labelled with its row and column.
+ */
+export async function sceneToPdf(scene: VectorScene, fonts: EmbeddedFont[], layout: PdfLayout, title = ''): Promise<Uint8Array> {
+  const doc = await createDocument(title || 'Network');
+  const resolveFont = createFontResolver(doc, fonts);
+
+  if (layout.kind === 'page') {
+    const scale = POINTS_PER_INCH / PRINT_DPI;
+    const page = doc.addPage([scene.width * scale, scene.height * scale]);
+    await drawSceneToPage(page, scene, resolveFont, 0, page.getHeight(), scale);
+    return doc.save();
+  }
+
+  const paper = PDF_PAPERS[layout.paper];
+  const landscape = scene.width > scene.height;
+  const [sheetWidth, sheetHeight] = landscape ? [paper.height, paper.width] : [paper.width, paper.height];
+  const tileWidth = sheetWidth - SHEET_MARGIN * 2;
+  const tileHeight = sheetHeight - SHEET_MARGIN * 2;
+  const scale = (tileWidth * layout.columns) / scene.width;
+  const posterHeight = scene.height * scale;
+  const rows = Math.max(1, Math.ceil(posterHeight / tileHeight - 1e-6));
+  const labelFont = await doc.embedFont(StandardFonts.Helvetica);
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < layout.columns; column++) {
+      const page = doc.addPage([sheetWidth, sheetHeight]);
+      const height = Math.min(tileHeight, posterHeight - row * tileHeight);
+      const top = sheetHeight - SHEET_MARGIN;
+
+      page.pushOperators(pushGraphicsState(), rectangle(SHEET_MARGIN, top - height, tileWidth, height), clip(), endPath());
+      await drawSceneToPage(page, scene, resolveFont, SHEET_MARGIN - column * tileWidth, top + row * tileHeight, scale);
+      page.pushOperators(popGraphicsState());
+
+      drawCropMarks(page, SHEET_MARGIN, top - height, tileWidth, height);
+      page.drawText(`Row ${row + 1} of ${rows}, column ${column + 1} of ${layout.columns}`, {
+        x: SHEET_MARGIN, y: SHEET_MARGIN / 3, size: 7, font: labelFont, color: rgb(0.4, 0.4, 0.4),
+      });
+    }
+  }
+  return doc.save();
+}
+
+/**
+ * A document of one page per scene, each scene measured in points.
+ */
+export async function pagesToPdf(pages: VectorScene[], fonts: EmbeddedFont[], title: string): Promise<Uint8Array> {
+  const doc = await createDocument(title);
+  const resolveFont = createFontResolver(doc, fonts);
+  for (const scene of pages) {
+    const page = doc.addPage([scene.width, scene.height]);
+    await drawSceneToPage(page, scene, resolveFont, 0, page.getHeight(), 1);
+  }
+  return doc.save();
+}
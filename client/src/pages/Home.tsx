@@ -9,8 +9,12 @@
  *       Added suggestion queue modal with pending indicator
  * v8.5: Added left sidebar collapse toggle (matching right panel behavior)
  * 
+ * The working investigation is autosaved to a local draft; on load, existing
+ * drafts are offered for restore.
+ * 
  * Keyboard shortcuts:
  * - Ctrl+Z: Undo last action
+ * - Ctrl+Shift+Z / Ctrl+Y: Redo last undone action
  * - Delete/Backspace: Delete selected entity or relationship
  * - Escape: Deselect current selection
  */
@@ -32,6 +36,9 @@ import InvestigativeAssistant, {
 import SuggestionQueue from '@/components/SuggestionQueue';
 import { UndoHistoryPanel } from '@/components/UndoHistoryPanel';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { useDraftAutosave } from '@/hooks/useDraftAutosave';
+import DraftRecoveryDialog from '@/components/DraftRecoveryDialog';
+import { listDrafts } from '@/lib/drafts';
 import { Button } from '@/components/ui/button';
 import { Brain, ChevronLeft, ChevronRight, X, Wrench } from 'lucide-react';
 import { Claim } from '@/lib/claims-api';
@@ -39,11 +46,21 @@ import claimsApi from '@/lib/claims-api';
 import { toast } from 'sonner';
 import { generateId } from '@/lib/store';
 
+const EMPTY_CONTEXT: InvestigationContext = {
+  topic: '',
+  domain: '',
+  focus: '',
+  keyQuestions: []
+};
+
 // Inner component that has access to network context
 function AppContentInner() {
   // Initialize keyboard shortcuts
   useKeyboardShortcuts();
   
+  // Autosave the working investigation to a local draft
+  useDraftAutosave();
+  
   // Get network context
   const { network, updateInvestigationContext, addOrMergeRelationship } = useNetwork();
   
@@ -52,17 +69,13 @@ function AppContentInner() {
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [showSuggestionQueue, setShowSuggestionQueue] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [showDraftRecovery, setShowDraftRecovery] = useState(false);
   
   // Pending claims count for indicator
   const [pendingClaimsCount, setPendingClaimsCount] = useState(0);
   
   // Investigation context state
-  const [investigationContext, setInvestigationContext] = useState<InvestigationContext>({
-    topic: '',
-    domain: '',
-    focus: '',
-    keyQuestions: []
-  });
+  const [investigationContext, setInvestigationContext] = useState<InvestigationContext>(EMPTY_CONTEXT);
 
   // Narrative events state (for "Thinking" stream)
   const [events, setEvents] = useState<NarrativeEvent[]>([]);
@@ -73,13 +86,20 @@ function AppContentInner() {
   // Research history state
   const [researchHistory, setResearchHistory] = useState<ResearchHistoryItem[]>([]);
 
-  // Sync investigation context from network when it changes
+  // Sync investigation context from network when it changes (including tab switches)
   useEffect(() => {
-    if (network.investigationContext) {
-      setInvestigationContext(network.investigationContext);
-    }
+    setInvestigationContext(network.investigationContext ?? EMPTY_CONTEXT);
   }, [network.investigationContext]);
 
+  // Offer to restore an autosaved draft on load
+  useEffect(() => {
+    listDrafts()
+      .then(drafts => {
+        if (drafts.length > 0) setShowDraftRecovery(true);
+      })
+      .catch(e => console.warn('Failed to check for local drafts:', e));
+  }, []);
+
   // Fetch pending claims count periodically
   useEffect(() => {
     const fetchPendingCount = async () => {
@@ -249,6 +269,9 @@ function AppContentInner() {
           />
         )}
         
+        {/* Restore unsaved investigation prompt */}
+        <DraftRecoveryDialog open={showDraftRecovery} onOpenChange={setShowDraftRecovery} prompt />
+        
         {/* Suggestion Queue Modal */}
         {showSuggestionQueue && (
           <div className="fixed inset-0 z-50 flex items-center justify-center">
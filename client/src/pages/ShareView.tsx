@@ -3,14 +3,18 @@
  * 
  * Read-only view of a shared network.
  * Users can explore the network but cannot edit it.
+ * Entities shared with canvas positions keep them, and the network's
+ * annotations are drawn over it.
  */
 
 import { useEffect, useState, useRef, useCallback } from 'react';
 import { useParams, useLocation } from 'wouter';
 import * as d3 from 'd3';
 import { Button } from '@/components/ui/button';
-import { Entity, Relationship, Network } from '@/lib/store';
+import { Entity, Relationship, Network, getEntityAttributes, parseDescriptionAttributes } from '@/lib/store';
 import { useCanvasTheme } from '@/contexts/CanvasThemeContext';
+import { getEntityTypeDefinition } from '@/lib/entity-types';
+import { Point, annotationsToSvg, projectAnnotations } from '@/lib/annotations';
 import { toast } from 'sonner';
 import { ZoomIn, ZoomOut, Maximize2, Info, X, ExternalLink, Download } from 'lucide-react';
 import pako from 'pako';
@@ -31,6 +35,9 @@ interface SimulationLink extends d3.SimulationLinkDatum<SimulationNode> {
   label?: string;
 }
 
+// Canvas units to view pixels, as in exports
+const LAYOUT_SCALE = 8;
+
 // Decode network from URL data parameter
 function decodeNetworkFromUrl(data: string): Network | null {
   try {
@@ -70,10 +77,15 @@ export default function ShareView() {
   const containerRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
   const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
-  const { config: themeConfig } = useCanvasTheme();
+  const { config: themeConfig, getEntityColor } = useCanvasTheme();
   
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
 
+  const selectedEntityAttributes = selectedEntity ? getEntityAttributes(selectedEntity) : [];
+  const selectedEntityDescription = selectedEntity?.attributes
+    ? selectedEntity.description
+    : parseDescriptionAttributes(selectedEntity?.description).description;
+
   // Load network from URL
   useEffect(() => {
     const loadNetwork = async () => {
@@ -132,14 +144,26 @@ export default function ShareView() {
     const svg = d3.select(svgRef.current);
     svg.selectAll('*').remove();
 
-    // Create nodes and links
+    // Canvas positions (y up) to view pixels (y down) and back
+    const place = (p: Point): Point => ({
+      x: dimensions.width / 2 + p.x * LAYOUT_SCALE,
+      y: dimensions.height / 2 - p.y * LAYOUT_SCALE,
+    });
+    const unplace = (p: Point): Point => ({
+      x: (p.x - dimensions.width / 2) / LAYOUT_SCALE,
+      y: -(p.y - dimensions.height / 2) / LAYOUT_SCALE,
+    });
+
+    // Create nodes and links, starting where the canvas had them
     const nodes: SimulationNode[] = network.entities.map(e => ({
       id: e.id,
       name: e.name,
       type: e.type,
       description: e.description,
       importance: e.importance,
+      ...(e.x !== undefined && e.y !== undefined ? place({ x: e.x, y: e.y }) : {}),
     }));
+    const allPlaced = network.entities.every(e => e.x !== undefined && e.y !== undefined);
 
     const nodeMap = new Map(nodes.map(n => [n.id, n]));
     
@@ -238,7 +262,8 @@ export default function ShareView() {
 
     // Add circles for nodes - using theme config for sizing and colors
     const isLombardiStyle = themeConfig.isLombardiStyle;
-    const isHollowNode = (type: string) => ['corporation', 'organization', 'financial', 'government'].includes(type);
+    const typeOf = (type: string) => getEntityTypeDefinition(network.entityTypes, type);
+    const isHollowNode = (type: string) => !!typeOf(type).hollow;
     
     nodeElements.append('circle')
       .attr('r', d => {
@@ -252,7 +277,7 @@ export default function ShareView() {
           return isHollowNode(d.type) ? themeConfig.background : themeConfig.nodeStroke;
         }
         if (themeConfig.useEntityColors) {
-          return themeConfig.entityColors[d.type] || themeConfig.nodeStroke;
+          return getEntityColor(d.type, typeOf(d.type));
         }
         return themeConfig.nodeFill;
       })
@@ -278,8 +303,18 @@ export default function ShareView() {
       .attr('fill', themeConfig.textColor)
       .text(d => d.name);
 
+    // Annotations above the network; they don't take clicks
+    const annotationGroup = g.append('g').attr('class', 'annotations').style('pointer-events', 'none');
+    const annotationStyle = {
+      color: themeConfig.annotationColor,
+      fontFamily: themeConfig.annotationFont,
+      fontSize: Math.round(themeConfig.labelSize * 1.4),
+      background: themeConfig.background,
+      lineWidth: 1.5,
+    };
+
     // Update positions on tick
-    simulation.on('tick', () => {
+    const ticked = () => {
       linkElements.select('path')
         .attr('d', (d) => {
           const source = d.source as SimulationNode;
@@ -291,7 +326,24 @@ export default function ShareView() {
         });
 
       nodeElements.attr('transform', d => `translate(${d.x},${d.y})`);
-    });
+
+      if (network.annotations?.length) {
+        annotationGroup.html(annotationsToSvg(
+          projectAnnotations(network.annotations, id => {
+            const node = nodeMap.get(id);
+            return node && unplace({ x: node.x!, y: node.y! });
+          }, place),
+          annotationStyle
+        ));
+      }
+    };
+    simulation.on('tick', ticked);
+
+    // A network shared as laid out is drawn as it is, not re-simulated
+    if (allPlaced) {
+      simulation.stop();
+      ticked();
+    }
 
     // Clear selection on background click
     svg.on('click', () => {
@@ -302,7 +354,7 @@ export default function ShareView() {
     return () => {
       simulation.stop();
     };
-  }, [network, dimensions, themeConfig]);
+  }, [network, dimensions, themeConfig, getEntityColor]);
 
   // Zoom controls
   const handleZoomIn = useCallback(() => {
@@ -484,10 +536,10 @@ export default function ShareView() {
           <div className="flex items-center justify-between px-3 py-2 border-b border-border bg-muted/30 rounded-t-lg">
             <div className="flex items-center gap-2">
               <span className="w-3 h-3 rounded-full" style={{
-                backgroundColor: themeConfig.entityColors[selectedEntity.type] || themeConfig.nodeStroke
+                backgroundColor: getEntityColor(selectedEntity.type, getEntityTypeDefinition(network?.entityTypes, selectedEntity.type))
               }} />
               <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
-                {selectedEntity.type}
+                {getEntityTypeDefinition(network?.entityTypes, selectedEntity.type).label}
               </span>
             </div>
             <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setSelectedEntity(null)}>
@@ -496,11 +548,28 @@ export default function ShareView() {
           </div>
           <div className="p-3">
             <h3 className="font-medium text-sm">{selectedEntity.name}</h3>
-            {selectedEntity.description && (
+            {selectedEntityDescription && (
               <p className="text-xs text-muted-foreground mt-1 whitespace-pre-wrap">
-                {selectedEntity.description}
+                {selectedEntityDescription}
               </p>
             )}
+            {selectedEntityAttributes.length > 0 && (
+              <dl className="mt-2 space-y-1 text-xs max-h-48 overflow-y-auto">
+                {selectedEntityAttributes.map(attribute => (
+                  <div key={attribute.id}>
+                    <dt className="inline font-medium text-muted-foreground">{attribute.key}: </dt>
+                    <dd className="inline">{attribute.value}</dd>
+                    <p className="text-[10px] text-muted-foreground">
+                      {[
+                        attribute.source,
+                        attribute.observedAt?.slice(0, 10),
+                        `${Math.round(attribute.confidence * 100)}% confidence`,
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                ))}
+              </dl>
+            )}
             {selectedEntity.importance && (
               <p className="text-[10px] text-muted-foreground mt-2">
                 Importance: {selectedEntity.importance}/10